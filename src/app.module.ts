@@ -2,8 +2,12 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { JiraModule } from './jira/jira.module';
 import { ProductsModule } from './products/products.module';
+import { SyncModule } from './sync/sync.module';
+import { RoutingModule } from './routing/routing.module';
+import { AuthModule } from './auth/auth.module';
 
 @Module({
   imports: [
@@ -17,8 +21,12 @@ import { ProductsModule } from './products/products.module';
       autoLoadEntities: true,
       synchronize: true,
     }),
+    ScheduleModule.forRoot(),
+    AuthModule,
     JiraModule,
-    ProductsModule
+    ProductsModule,
+    SyncModule,
+    RoutingModule
   ],
   controllers: [AppController],
   providers: [AppService],
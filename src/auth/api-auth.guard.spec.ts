@@ -0,0 +1,135 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHmac } from 'crypto';
+import { ApiAuthGuard } from './api-auth.guard';
+
+class TestController {
+    handle() { }
+}
+
+describe('ApiAuthGuard', () => {
+    let guard: ApiAuthGuard;
+    let reflector: Reflector;
+
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    const jwt = (claims: object, secret = 'jwt-secret', alg = 'HS256') => {
+        const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+        return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+    };
+
+    const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+    const requestWith = (headers: Record<string, string>) => ({ headers } as any);
+
+    const contextFor = (req: any) =>
+        ({
+            getHandler: () => TestController.prototype.handle,
+            getClass: () => TestController,
+            switchToHttp: () => ({ getRequest: () => req }),
+        }) as unknown as ExecutionContext;
+
+    const rejectionOf = (req: any) => {
+        try {
+            guard.canActivate(contextFor(req));
+        } catch (e) {
+            expect(e).toBeInstanceOf(UnauthorizedException);
+            return (e as UnauthorizedException).getResponse() as { code: string };
+        }
+        throw new Error('Expected the guard to reject the request');
+    };
+
+    beforeEach(() => {
+        process.env.AUTH_JWT_SECRET = 'jwt-secret';
+        process.env.AUTH_API_KEYS = JSON.stringify([
+            { name: 'erp', key: 'erp-key', roles: ['editor'], jiraAccountId: 'acc-erp' },
+        ]);
+        delete process.env.AUTH_JWT_ISSUER;
+        delete process.env.AUTH_JWT_AUDIENCE;
+        delete process.env.AUTH_JWT_ROLES_CLAIM;
+
+        reflector = new Reflector();
+        guard = new ApiAuthGuard(reflector);
+        jest.spyOn(guard['logger'], 'warn').mockImplementation(() => { });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('JWT', () => {
+        it('should attach the caller from a valid token', () => {
+            const req = requestWith({
+                authorization: `Bearer ${jwt({ sub: 'user-1', name: 'Jane', roles: ['Admin', 'unknown'], jiraAccountId: 'acc-1', exp: inOneHour() })}`,
+            });
+
+            expect(guard.canActivate(contextFor(req))).toBe(true);
+            expect(req.user).toEqual({ id: 'user-1', name: 'Jane', roles: ['admin'], jiraAccountId: 'acc-1', via: 'jwt' });
+        });
+
+        it('should reject a token signed with another secret', () => {
+            const req = requestWith({ authorization: `Bearer ${jwt({ sub: 'user-1' }, 'other')}` });
+
+            expect(rejectionOf(req).code).toBe('INVALID_TOKEN');
+        });
+
+        it('should reject tokens that are not HS256', () => {
+            const req = requestWith({ authorization: `Bearer ${jwt({ sub: 'user-1' }, 'jwt-secret', 'none')}` });
+
+            expect(rejectionOf(req).code).toBe('INVALID_TOKEN');
+        });
+
+        it('should reject an expired token', () => {
+            const req = requestWith({ authorization: `Bearer ${jwt({ sub: 'user-1', exp: 1000 })}` });
+
+            expect(rejectionOf(req).code).toBe('EXPIRED_TOKEN');
+        });
+
+        it('should check the issuer and audience when configured', () => {
+            process.env.AUTH_JWT_ISSUER = 'https://id.example.com';
+            process.env.AUTH_JWT_AUDIENCE = 'products-api';
+
+            const valid = requestWith({
+                authorization: `Bearer ${jwt({ sub: 'user-1', iss: 'https://id.example.com', aud: ['products-api'] })}`,
+            });
+            const wrongAudience = requestWith({
+                authorization: `Bearer ${jwt({ sub: 'user-1', iss: 'https://id.example.com', aud: 'other' })}`,
+            });
+
+            expect(guard.canActivate(contextFor(valid))).toBe(true);
+            expect(rejectionOf(wrongAudience).code).toBe('INVALID_TOKEN');
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('API keys', () => {
+        it('should attach the caller configured for the key', () => {
+            const req = requestWith({ 'x-api-key': 'erp-key' });
+
+            expect(guard.canActivate(contextFor(req))).toBe(true);
+            expect(req.user).toEqual({ id: 'erp', name: 'erp', roles: ['editor'], jiraAccountId: 'acc-erp', via: 'api-key' });
+        });
+
+        it('should reject an unknown key', () => {
+            expect(rejectionOf(requestWith({ 'x-api-key': 'wrong' })).code).toBe('INVALID_API_KEY');
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    it('should reject requests without credentials', () => {
+        expect(rejectionOf(requestWith({})).code).toBe('MISSING_CREDENTIALS');
+    });
+
+    it('should reject every request when authentication is not configured', () => {
+        delete process.env.AUTH_JWT_SECRET;
+        delete process.env.AUTH_API_KEYS;
+
+        expect(rejectionOf(requestWith({ 'x-api-key': 'erp-key' })).code).toBe('AUTH_NOT_CONFIGURED');
+    });
+
+    it('should let public routes through', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+
+        expect(guard.canActivate(contextFor(requestWith({})))).toBe(true);
+    });
+});
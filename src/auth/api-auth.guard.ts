@@ -0,0 +1,177 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { readJsonEnv } from '../jira/jira.config';
+import { AuthenticatedRequest, AuthUser, parseRoles } from './auth-user';
+import { IS_PUBLIC_KEY } from './auth.decorators';
+
+export type ApiAuthRejection =
+  | 'AUTH_NOT_CONFIGURED'
+  | 'MISSING_CREDENTIALS'
+  | 'INVALID_TOKEN'
+  | 'EXPIRED_TOKEN'
+  | 'INVALID_API_KEY';
+
+// AUTH_API_KEYS entry, e.g. {"name": "erp", "key": "...", "roles": ["editor"]}
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  roles: string[] | string;
+  jiraAccountId?: string;
+}
+
+// Allowed clock difference when checking exp / nbf
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// Authenticates API callers with an HS256 JWT (Authorization: Bearer) or an API key (X-API-Key)
+@Injectable()
+export class ApiAuthGuard implements CanActivate {
+  private readonly logger = new Logger(ApiAuthGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) return true;
+
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    req.user = this.authenticate(req);
+    return true;
+  }
+
+  private authenticate(req: AuthenticatedRequest): AuthUser {
+    const secret = process.env.AUTH_JWT_SECRET;
+    const apiKeys = readJsonEnv<ApiKeyConfig[]>('AUTH_API_KEYS', []);
+    const [scheme, token] = (req.headers.authorization || '').split(' ', 2);
+    const apiKey = req.headers['x-api-key'] as string | undefined;
+
+    if (!secret && apiKeys.length === 0) {
+      this.reject(
+        'AUTH_NOT_CONFIGURED',
+        'AUTH_JWT_SECRET or AUTH_API_KEYS must be configured',
+      );
+    }
+
+    if (secret && scheme?.toLowerCase() === 'bearer' && token) {
+      return this.verifyJwt(token, secret);
+    }
+
+    if (apiKeys.length > 0 && apiKey) {
+      return this.verifyApiKey(apiKey, apiKeys);
+    }
+
+    this.reject(
+      'MISSING_CREDENTIALS',
+      'Send a bearer token in the Authorization header or an X-API-Key header',
+    );
+  }
+
+  // 1. JWT: HS256 signature, expiry and optional issuer / audience
+  private verifyJwt(token: string, secret: string): AuthUser {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      this.reject('INVALID_TOKEN', 'Malformed bearer token');
+    }
+
+    const claims = this.decodeSegment(payload);
+    if (this.decodeSegment(header)?.alg !== 'HS256' || !claims) {
+      this.reject('INVALID_TOKEN', 'Only HS256 tokens are accepted');
+    }
+
+    const expected = createHmac('sha256', secret)
+      .update(`${header}.${payload}`)
+      .digest('base64url');
+    if (!this.safeEqual(signature, expected)) {
+      this.reject('INVALID_TOKEN', 'Token signature is invalid');
+    }
+
+    const now = Date.now() / 1000;
+    if (
+      typeof claims.exp === 'number' &&
+      claims.exp + CLOCK_TOLERANCE_SECONDS < now
+    ) {
+      this.reject('EXPIRED_TOKEN', 'Token has expired');
+    }
+    if (
+      typeof claims.nbf === 'number' &&
+      claims.nbf - CLOCK_TOLERANCE_SECONDS > now
+    ) {
+      this.reject('INVALID_TOKEN', 'Token is not valid yet');
+    }
+
+    const issuer = process.env.AUTH_JWT_ISSUER;
+    if (issuer && claims.iss !== issuer) {
+      this.reject('INVALID_TOKEN', 'Token issuer is not accepted');
+    }
+    const audience = process.env.AUTH_JWT_AUDIENCE;
+    const audiences = [claims.aud].flat();
+    if (audience && !audiences.includes(audience)) {
+      this.reject('INVALID_TOKEN', 'Token audience is not accepted');
+    }
+
+    if (!claims.sub) this.reject('INVALID_TOKEN', 'Token has no subject');
+
+    return {
+      id: String(claims.sub),
+      name: claims.name ?? claims.email ?? null,
+      roles: parseRoles(claims[process.env.AUTH_JWT_ROLES_CLAIM || 'roles']),
+      jiraAccountId: claims.jiraAccountId ?? null,
+      via: 'jwt',
+    };
+  }
+
+  // 2. API key from AUTH_API_KEYS
+  private verifyApiKey(apiKey: string, apiKeys: ApiKeyConfig[]): AuthUser {
+    const match = apiKeys.find((config) =>
+      this.safeEqual(this.digest(apiKey), this.digest(config.key)),
+    );
+    if (!match) this.reject('INVALID_API_KEY', 'API key is invalid');
+
+    return {
+      id: match.name,
+      name: match.name,
+      roles: parseRoles(match.roles),
+      jiraAccountId: match.jiraAccountId ?? null,
+      via: 'api-key',
+    };
+  }
+
+  // --- Helper: base64url JSON segment -> object (null when unreadable) ---
+  private decodeSegment(segment: string): Record<string, any> | null {
+    try {
+      const value = JSON.parse(Buffer.from(segment, 'base64url').toString());
+      return value && typeof value === 'object' ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private digest(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private reject(code: ApiAuthRejection, message: string): never {
+    this.logger.warn(`[AUTH] Rejected (${code}): ${message}`);
+    throw new UnauthorizedException({
+      statusCode: 401,
+      error: 'Unauthorized',
+      code,
+      message,
+    });
+  }
+}
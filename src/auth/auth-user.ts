@@ -0,0 +1,35 @@
+import { Request } from 'express';
+
+// Ordered from least to most privileged; each role includes the ones before it
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Caller identity attached to the request by ApiAuthGuard
+export interface AuthUser {
+  // JWT `sub` or the API key name
+  id: string;
+  name: string | null;
+  roles: Role[];
+  // Used as the reporter of Jira issues the caller creates
+  jiraAccountId: string | null;
+  via: 'jwt' | 'api-key';
+}
+
+export type AuthenticatedRequest = Request & { user?: AuthUser };
+
+export function hasRole(user: AuthUser, required: Role): boolean {
+  const rank = ROLES.indexOf(required);
+  return user.roles.some((role) => ROLES.indexOf(role) >= rank);
+}
+
+// Keep known role names only, whatever shape the token or config used
+export function parseRoles(value: unknown): Role[] {
+  const names = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/[\s,]+/)
+      : [];
+  return ROLES.filter((role) =>
+    names.some((name) => String(name).toLowerCase() === role),
+  );
+}
@@ -0,0 +1,21 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { AuthenticatedRequest, Role } from './auth-user';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const ROLE_KEY = 'role';
+
+// Skip authentication (Jira webhook, health check)
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+// Minimum role for a route or controller; routes without one need `viewer`
+export const Roles = (role: Role) => SetMetadata(ROLE_KEY, role);
+
+// Authenticated caller, undefined on public routes
+export const CurrentUser = createParamDecorator(
+  (_: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().user,
+);
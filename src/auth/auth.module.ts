@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ApiAuthGuard } from './api-auth.guard';
+import { RolesGuard } from './roles.guard';
+
+// Every route requires authentication unless marked @Public(); guards run in this order
+@Module({
+  providers: [
+    { provide: APP_GUARD, useClass: ApiAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+  ],
+})
+export class AuthModule { }
@@ -0,0 +1,58 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { AuthUser, Role } from './auth-user';
+import { IS_PUBLIC_KEY, ROLE_KEY } from './auth.decorators';
+
+class TestController {
+    handle() { }
+}
+
+describe('RolesGuard', () => {
+    let guard: RolesGuard;
+    let reflector: Reflector;
+
+    const userWith = (...roles: Role[]): AuthUser => ({ id: 'user-1', name: null, roles, jiraAccountId: null, via: 'jwt' });
+
+    const contextFor = (user?: AuthUser) =>
+        ({
+            getHandler: () => TestController.prototype.handle,
+            getClass: () => TestController,
+            switchToHttp: () => ({ getRequest: () => ({ user }) }),
+        }) as unknown as ExecutionContext;
+
+    const requireRole = (role?: Role, isPublic = false) =>
+        jest.spyOn(reflector, 'getAllAndOverride').mockImplementation((key) =>
+            key === IS_PUBLIC_KEY ? isPublic : key === ROLE_KEY ? role : undefined);
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new RolesGuard(reflector);
+    });
+
+    it('should let higher roles through', () => {
+        requireRole('editor');
+
+        expect(guard.canActivate(contextFor(userWith('admin')))).toBe(true);
+        expect(guard.canActivate(contextFor(userWith('editor')))).toBe(true);
+    });
+
+    it('should reject callers without the required role', () => {
+        requireRole('editor');
+
+        expect(() => guard.canActivate(contextFor(userWith('viewer')))).toThrow(ForbiddenException);
+    });
+
+    it('should require the viewer role by default', () => {
+        requireRole(undefined);
+
+        expect(guard.canActivate(contextFor(userWith('viewer')))).toBe(true);
+        expect(() => guard.canActivate(contextFor(userWith()))).toThrow('Requires the viewer role');
+    });
+
+    it('should let public routes through', () => {
+        requireRole('admin', true);
+
+        expect(guard.canActivate(contextFor(undefined))).toBe(true);
+    });
+});
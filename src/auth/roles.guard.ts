@@ -0,0 +1,31 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest, hasRole, Role } from './auth-user';
+import { IS_PUBLIC_KEY, ROLE_KEY } from './auth.decorators';
+
+// Enforces @Roles(); runs after ApiAuthGuard has attached the caller
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<Role>(ROLE_KEY, targets) ?? 'viewer';
+    const user = context.switchToHttp().getRequest<AuthenticatedRequest>().user;
+
+    if (!user || !hasRole(user, required)) {
+      throw new ForbiddenException(`Requires the ${required} role`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,292 @@
+import { AdfNode, adfToMarkdown, markdownToAdf } from './adf-markdown';
+
+const text = (value: string, ...marks: AdfNode['marks'] & any[]): AdfNode =>
+  marks.length ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+const doc = (...content: AdfNode[]) => ({ type: 'doc', version: 1, content });
+
+// Fixtures that convert both ways without loss: markdown <-> adf
+const ROUND_TRIP: { name: string; markdown: string; adf: AdfNode[] }[] = [
+  {
+    name: 'plain paragraphs',
+    markdown: 'First paragraph\n\nSecond paragraph',
+    adf: [paragraph(text('First paragraph')), paragraph(text('Second paragraph'))],
+  },
+  {
+    name: 'hard breaks',
+    markdown: 'Line one\nLine two',
+    adf: [paragraph(text('Line one'), { type: 'hardBreak' }, text('Line two'))],
+  },
+  {
+    name: 'headings',
+    markdown: '# Title\n\n### Section',
+    adf: [
+      { type: 'heading', attrs: { level: 1 }, content: [text('Title')] },
+      { type: 'heading', attrs: { level: 3 }, content: [text('Section')] },
+    ],
+  },
+  {
+    name: 'text marks',
+    markdown: '**bold** _italic_ `code` ~~gone~~ **_both_**',
+    adf: [
+      paragraph(
+        text('bold', { type: 'strong' }),
+        text(' '),
+        text('italic', { type: 'em' }),
+        text(' '),
+        text('code', { type: 'code' }),
+        text(' '),
+        text('gone', { type: 'strike' }),
+        text(' '),
+        text('both', { type: 'strong' }, { type: 'em' }),
+      ),
+    ],
+  },
+  {
+    name: 'links',
+    markdown: 'See [the **docs**](https://example.com/docs)',
+    adf: [
+      paragraph(
+        text('See '),
+        text('the ', { type: 'link', attrs: { href: 'https://example.com/docs' } }),
+        text('docs', { type: 'link', attrs: { href: 'https://example.com/docs' } }, { type: 'strong' }),
+      ),
+    ],
+  },
+  {
+    name: 'mentions',
+    markdown: 'Ping [@Jane Doe](jira-mention:5b10ac8d82e05b22cc7d4ef5)',
+    adf: [
+      paragraph(text('Ping '), {
+        type: 'mention',
+        attrs: { id: '5b10ac8d82e05b22cc7d4ef5', text: '@Jane Doe' },
+      }),
+    ],
+  },
+  {
+    name: 'inline cards',
+    markdown: 'Spec: <https://example.com/spec>',
+    adf: [paragraph(text('Spec: '), { type: 'inlineCard', attrs: { url: 'https://example.com/spec' } })],
+  },
+  {
+    name: 'bullet lists with nesting',
+    markdown: '- One\n- Two\n  - Nested',
+    adf: [
+      {
+        type: 'bulletList',
+        content: [
+          { type: 'listItem', content: [paragraph(text('One'))] },
+          {
+            type: 'listItem',
+            content: [
+              paragraph(text('Two')),
+              { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('Nested'))] }] },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'ordered lists with a start number',
+    markdown: '3. Third\n4. Fourth',
+    adf: [
+      {
+        type: 'orderedList',
+        attrs: { order: 3 },
+        content: [
+          { type: 'listItem', content: [paragraph(text('Third'))] },
+          { type: 'listItem', content: [paragraph(text('Fourth'))] },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'task lists',
+    markdown: '- [x] Done\n- [ ] Todo',
+    adf: [
+      {
+        type: 'taskList',
+        attrs: { localId: 'task-1' },
+        content: [
+          { type: 'taskItem', attrs: { localId: 'task-2', state: 'DONE' }, content: [text('Done')] },
+          { type: 'taskItem', attrs: { localId: 'task-3', state: 'TODO' }, content: [text('Todo')] },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'code blocks',
+    markdown: '```ts\nconst a = `x`;\n\nreturn a;\n```',
+    adf: [
+      {
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [text('const a = `x`;\n\nreturn a;')],
+      },
+    ],
+  },
+  {
+    name: 'blockquotes',
+    markdown: '> Quoted\n>\n> - item',
+    adf: [
+      {
+        type: 'blockquote',
+        content: [
+          paragraph(text('Quoted')),
+          { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph(text('item'))] }] },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'panels',
+    markdown: '> [!WARNING]\n> Careful',
+    adf: [{ type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful'))] }],
+  },
+  {
+    name: 'rules',
+    markdown: 'Above\n\n---\n\nBelow',
+    adf: [paragraph(text('Above')), { type: 'rule' }, paragraph(text('Below'))],
+  },
+  {
+    name: 'tables',
+    markdown: '| Name | Qty |\n| --- | --- |\n| **Apple** | 3 |',
+    adf: [
+      {
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableHeader', content: [paragraph(text('Name'))] },
+              { type: 'tableHeader', content: [paragraph(text('Qty'))] },
+            ],
+          },
+          {
+            type: 'tableRow',
+            content: [
+              { type: 'tableCell', content: [paragraph(text('Apple', { type: 'strong' }))] },
+              { type: 'tableCell', content: [paragraph(text('3'))] },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'external images',
+    markdown: '![Logo](https://example.com/logo.png)',
+    adf: [
+      {
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { type: 'external', url: 'https://example.com/logo.png', alt: 'Logo' } }],
+      },
+    ],
+  },
+  {
+    name: 'characters that look like Markdown',
+    markdown: 'Price \\*not\\* bold, snake_case and \\_x\\_\n1\\. not a list\n\\# not a heading',
+    adf: [
+      paragraph(
+        text('Price *not* bold, snake_case and _x_'),
+        { type: 'hardBreak' },
+        text('1. not a list'),
+        { type: 'hardBreak' },
+        text('# not a heading'),
+      ),
+    ],
+  },
+];
+
+// Jira-only nodes that render to readable Markdown but cannot come back unchanged
+const ADF_ONLY: { name: string; adf: AdfNode[]; markdown: string }[] = [
+  {
+    name: 'emoji',
+    adf: [paragraph(text('Nice '), { type: 'emoji', attrs: { shortName: ':smile:', text: '😄' } })],
+    markdown: 'Nice 😄',
+  },
+  {
+    name: 'dates',
+    adf: [paragraph(text('Due '), { type: 'date', attrs: { timestamp: '1767225600000' } })],
+    markdown: 'Due 2026-01-01',
+  },
+  {
+    name: 'status lozenges',
+    adf: [paragraph({ type: 'status', attrs: { text: 'IN REVIEW', color: 'blue' } })],
+    markdown: 'IN REVIEW',
+  },
+  {
+    name: 'expands',
+    adf: [{ type: 'expand', attrs: { title: 'Details' }, content: [paragraph(text('Hidden'))] }],
+    markdown: '**Details**\n\nHidden',
+  },
+  {
+    name: 'file media',
+    adf: [
+      {
+        type: 'mediaGroup',
+        content: [{ type: 'media', attrs: { type: 'file', id: 'abc-123', collection: 'contentId-1' } }],
+      },
+    ],
+    markdown: '![](jira-media:abc-123)',
+  },
+  {
+    name: 'unknown nodes',
+    adf: [{ type: 'decisionList', content: [{ type: 'decisionItem', content: [text('Ship it')] }] }],
+    markdown: 'Ship it',
+  },
+];
+
+// Markdown variants that normalise to the canonical ADF
+const MARKDOWN_ONLY: { name: string; markdown: string; adf: AdfNode[] }[] = [
+  {
+    name: 'star emphasis and alternative bullets',
+    markdown: '* *one*\n+ two',
+    adf: [
+      {
+        type: 'bulletList',
+        content: [
+          { type: 'listItem', content: [paragraph(text('one', { type: 'em' }))] },
+          { type: 'listItem', content: [paragraph(text('two'))] },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'unclosed delimiters',
+    markdown: '2 * 3 and **open',
+    adf: [paragraph(text('2 * 3 and **open'))],
+  },
+  {
+    name: 'windows line endings and surrounding blank lines',
+    markdown: '\r\n\r\nHello\r\nWorld\r\n',
+    adf: [paragraph(text('Hello'), { type: 'hardBreak' }, text('World'))],
+  },
+];
+
+describe('ADF <-> Markdown', () => {
+  describe.each(ROUND_TRIP)('$name', ({ markdown, adf }) => {
+    it('should convert Markdown to ADF', () => {
+      expect(markdownToAdf(markdown)).toEqual(doc(...adf));
+    });
+
+    it('should convert ADF to Markdown', () => {
+      expect(adfToMarkdown(doc(...adf))).toBe(markdown);
+    });
+  });
+
+  it.each(ADF_ONLY)('should render $name as Markdown', ({ adf, markdown }) => {
+    expect(adfToMarkdown(doc(...adf))).toBe(markdown);
+  });
+
+  it.each(MARKDOWN_ONLY)('should parse $name', ({ markdown, adf }) => {
+    expect(markdownToAdf(markdown)).toEqual(doc(...adf));
+  });
+
+  it('should return an empty document for empty input', () => {
+    expect(markdownToAdf('')).toEqual(doc());
+    expect(adfToMarkdown(null)).toBe('');
+  });
+});
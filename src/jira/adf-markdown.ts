@@ -0,0 +1,833 @@
+// Atlassian Document Format <-> Markdown.
+// Product descriptions are stored as Markdown; Jira REST API v3 only accepts ADF.
+// Jira nodes without a Markdown equivalent use conventions that parse back to the same node:
+//   mention    -> [@Name](jira-mention:accountId)
+//   panel      -> blockquote starting with [!INFO] / [!WARNING] / ...
+//   inlineCard -> <https://...>
+//   file media -> ![alt](jira-media:id)
+// Single newlines inside a paragraph are hard breaks, so plain-text descriptions keep their lines.
+
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  marks?: AdfMark[];
+  text?: string;
+}
+
+export interface AdfDocument {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+const MENTION_SCHEME = 'jira-mention:';
+const MEDIA_SCHEME = 'jira-media:';
+const PANEL_TYPES = ['info', 'note', 'tip', 'warning', 'error', 'success'];
+const INLINE_TYPES = new Set([
+  'text',
+  'hardBreak',
+  'mention',
+  'emoji',
+  'inlineCard',
+  'date',
+  'status',
+]);
+
+// --- Block syntax shared by the parser and the escaping of rendered text ---
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)\s*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TASK = /^\[([ xX])\](?:\s+|$)/;
+const IMAGE = /^\s*!\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+function isBlockStart(line: string): boolean {
+  return [FENCE, HEADING, RULE, QUOTE, LIST_ITEM, IMAGE].some((re) =>
+    re.test(line),
+  );
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return (
+    lines[i].includes('|') &&
+    i + 1 < lines.length &&
+    lines[i + 1].includes('-') &&
+    TABLE_SEPARATOR.test(lines[i + 1])
+  );
+}
+
+// =============================================================
+// ADF -> Markdown
+// =============================================================
+
+export function adfToMarkdown(doc: AdfNode | null | undefined): string {
+  if (!doc?.content) return '';
+  return renderBlocks(doc.content).trim();
+}
+
+function renderBlocks(nodes: AdfNode[] = []): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block !== '')
+    .join('\n\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return escapeLineStarts(renderInline(node.content));
+    case 'heading': {
+      const text = renderInline(node.content).replace(/\n/g, ' ');
+      return `${'#'.repeat(node.attrs?.level || 1)} ${text}`;
+    }
+    case 'bulletList':
+      return renderList(node.content, () => '- ');
+    case 'orderedList': {
+      const start = node.attrs?.order ?? 1;
+      return renderList(node.content, (index) => `${start + index}. `);
+    }
+    case 'taskList':
+      return renderList(node.content, (_, item) =>
+        item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] ',
+      );
+    case 'codeBlock':
+      return renderCodeBlock(node);
+    case 'blockquote':
+      return quote(renderBlocks(node.content));
+    case 'panel': {
+      const type = (node.attrs?.panelType || 'info').toUpperCase();
+      return quote(`[!${type}]\n${renderBlocks(node.content)}`);
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map(renderMedia).join('\n\n');
+    case 'expand':
+    case 'nestedExpand': {
+      // No Markdown equivalent: keep the title as a bold line above the content
+      const title = node.attrs?.title
+        ? `**${escapeText(node.attrs.title)}**`
+        : '';
+      return [title, renderBlocks(node.content)].filter(Boolean).join('\n\n');
+    }
+    default:
+      // Unknown blocks keep whatever text they carry
+      if (!node.content?.length) return '';
+      return INLINE_TYPES.has(node.content[0].type)
+        ? escapeLineStarts(renderInline(node.content))
+        : renderBlocks(node.content);
+  }
+}
+
+function renderList(
+  items: AdfNode[] = [],
+  marker: (index: number, item: AdfNode) => string,
+): string {
+  let index = 0;
+  return items
+    .map((item) => {
+      // Nested task lists sit directly inside their parent taskList
+      if (item.type !== 'listItem' && item.type !== 'taskItem') {
+        return indent(renderBlock(item), 2, true);
+      }
+
+      const prefix = marker(index++, item);
+      // Task items are continued at the bullet's indentation, not after the checkbox
+      const width = item.type === 'taskItem' ? 2 : prefix.length;
+      const body =
+        item.type === 'taskItem'
+          ? escapeLineStarts(renderInline(item.content))
+          : renderItemBlocks(item.content);
+      return prefix + indent(body, width, false);
+    })
+    .join('\n');
+}
+
+// Keep sub-lists tight under their paragraph, separate other blocks with a blank line
+function renderItemBlocks(nodes: AdfNode[] = []): string {
+  return nodes.reduce((out, node, i) => {
+    const block = renderBlock(node);
+    if (i === 0) return block;
+    return out + (node.type.endsWith('List') ? '\n' : '\n\n') + block;
+  }, '');
+}
+
+function renderCodeBlock(node: AdfNode): string {
+  const code = (node.content || []).map((t) => t.text || '').join('');
+  const longest = Math.max(
+    0,
+    ...(code.match(/`+/g) || []).map((run) => run.length),
+  );
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}${node.attrs?.language || ''}\n${code}\n${fence}`;
+}
+
+function renderTable(table: AdfNode): string {
+  const rows = (table.content || []).map((row) =>
+    (row.content || []).map((cell) =>
+      renderBlocks(cell.content).replace(/\|/g, '\\|').replace(/\n/g, '<br>'),
+    ),
+  );
+  if (!rows.length) return '';
+
+  // GFM tables need a header row; the first row becomes it
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  return [
+    line(rows[0]),
+    line(Array(width).fill('---')),
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+function renderMedia(node: AdfNode): string {
+  const alt = escapeText(node.attrs?.alt || '');
+  if (node.attrs?.type === 'external') return `![${alt}](${node.attrs.url})`;
+  return `![${alt}](${MEDIA_SCHEME}${node.attrs?.id})`;
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  let out = '';
+  for (let i = 0; i < nodes.length; i++) {
+    const href = linkOf(nodes[i]);
+    if (!href) {
+      out += renderInlineNode(nodes[i]);
+      continue;
+    }
+
+    // Neighbouring nodes sharing a link become one Markdown link
+    const run: AdfNode[] = [];
+    while (i < nodes.length && linkOf(nodes[i]) === href) {
+      const node = nodes[i++];
+      run.push({
+        ...node,
+        marks: node.marks!.filter((m) => m.type !== 'link'),
+      });
+    }
+    i--;
+    out += `[${run.map(renderInlineNode).join('')}](${href})`;
+  }
+  return out;
+}
+
+function linkOf(node: AdfNode): string | undefined {
+  return node.marks?.find((mark) => mark.type === 'link')?.attrs?.href;
+}
+
+function renderInlineNode(node: AdfNode): string {
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text || '', node.marks || []);
+    case 'hardBreak':
+      return '\n';
+    case 'mention':
+      return `[${escapeText(node.attrs?.text || '')}](${MENTION_SCHEME}${node.attrs?.id})`;
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+    case 'inlineCard':
+      return node.attrs?.url ? `<${node.attrs.url}>` : '';
+    case 'date':
+      return new Date(Number(node.attrs?.timestamp)).toISOString().slice(0, 10);
+    case 'status':
+      return escapeText(node.attrs?.text || '');
+    default:
+      return node.content
+        ? renderInline(node.content)
+        : escapeText(node.text || '');
+  }
+}
+
+function applyMarks(text: string, marks: AdfMark[]): string {
+  const has = (type: string) => marks.some((mark) => mark.type === type);
+
+  let out = has('code') ? codeSpan(text) : escapeText(text);
+  if (has('em')) out = `_${out}_`;
+  if (has('strong')) out = `**${out}**`;
+  if (has('strike')) out = `~~${out}~~`;
+  return out;
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length),
+  );
+  const ticks = '`'.repeat(longest + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${ticks}${padding}${text}${padding}${ticks}`;
+}
+
+// Escape characters the inline parser would otherwise read as syntax
+function escapeText(text: string): string {
+  return text
+    .replace(/[\\`*[\]]/g, '\\$&')
+    .replace(/~~/g, '\\~~')
+    .replace(/<(?=https?:\/\/|br\s*\/?>)/gi, '\\<')
+    .replace(/(?<![A-Za-z0-9])_|_(?![A-Za-z0-9])/g, '\\_');
+}
+
+// Escape lines of paragraph text that would otherwise start a block
+function escapeLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map((line) =>
+      isBlockStart(line)
+        ? line.replace(
+            /^(\s*)(\d*)(\S)/,
+            (_, space, digits, char) => `${space}${digits}\\${char}`,
+          )
+        : line,
+    )
+    .join('\n');
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function indent(text: string, width: number, firstLine: boolean): string {
+  const pad = ' '.repeat(width);
+  return text
+    .split('\n')
+    .map((line, i) => ((i > 0 || firstLine) && line ? pad + line : line))
+    .join('\n');
+}
+
+// =============================================================
+// Markdown -> ADF
+// =============================================================
+
+export function markdownToAdf(
+  markdown: string | null | undefined,
+): AdfDocument {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+  const content = parseBlocks(lines);
+  assignLocalIds(content, { next: 0 });
+  return { type: 'doc', version: 1, content };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !isClosingFence(lines[i], fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(codeBlock(code.join('\n'), fence[2]));
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        content: parseInline(heading[2] || ''),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i++])![1]);
+      }
+      blocks.push(parseQuote(quoted));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i);
+      blocks.push(list.node);
+      i = list.next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const table = parseTable(lines, i);
+      blocks.push(table.node);
+      i = table.next;
+      continue;
+    }
+
+    const image = IMAGE.exec(line);
+    if (image) {
+      blocks.push(mediaSingle(unescape(image[1]), image[2]));
+      i++;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph = [line.trim()];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !isBlockStart(lines[i]) &&
+      !isTableStart(lines, i)
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({
+      type: 'paragraph',
+      content: parseInline(paragraph.join('\n')),
+    });
+  }
+
+  return blocks;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= fence.length &&
+    trimmed === fence[0].repeat(trimmed.length)
+  );
+}
+
+function codeBlock(code: string, language?: string): AdfNode {
+  return {
+    type: 'codeBlock',
+    ...(language && { attrs: { language } }),
+    content: code ? [{ type: 'text', text: code }] : [],
+  };
+}
+
+function parseQuote(lines: string[]): AdfNode {
+  const panel = /^\[!(\w+)\]\s*$/.exec(lines[0] || '');
+  if (panel && PANEL_TYPES.includes(panel[1].toLowerCase())) {
+    return {
+      type: 'panel',
+      attrs: { panelType: panel[1].toLowerCase() },
+      content: parseBlocks(lines.slice(1)),
+    };
+  }
+  return { type: 'blockquote', content: parseBlocks(lines) };
+}
+
+function parseList(
+  lines: string[],
+  start: number,
+): { node: AdfNode; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const isSibling = (line: string) => {
+    const m = LIST_ITEM.exec(line);
+    return !!m && m[1].length === baseIndent && /\d/.test(m[2]) === ordered;
+  };
+
+  const items: { width: number; lines: string[] }[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM.exec(line);
+
+    if (item && isSibling(line)) {
+      items.push({
+        width: item[1].length + item[2].length + 1,
+        lines: [item[3] ?? ''],
+      });
+      i++;
+      continue;
+    }
+
+    const current = items[items.length - 1];
+    if (!line.trim()) {
+      // A blank line only continues the list if more of it follows
+      let j = i;
+      while (j < lines.length && !lines[j].trim()) j++;
+      if (
+        j < lines.length &&
+        (indentOf(lines[j]) > baseIndent || isSibling(lines[j]))
+      ) {
+        current.lines.push(...lines.slice(i, j).map(() => ''));
+        i = j;
+        continue;
+      }
+      break;
+    }
+
+    if (indentOf(line) > baseIndent) {
+      current.lines.push(line.slice(Math.min(indentOf(line), current.width)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    if (!isBlockStart(line) && !isTableStart(lines, i)) {
+      current.lines.push(line.trim());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const isTaskList =
+    !ordered && items.every((item) => TASK.test(item.lines[0]));
+  if (isTaskList) {
+    return {
+      node: { type: 'taskList', content: items.flatMap(taskItems) },
+      next: i,
+    };
+  }
+
+  const order = ordered ? parseInt(first[2], 10) : 1;
+  return {
+    node: {
+      type: ordered ? 'orderedList' : 'bulletList',
+      ...(order !== 1 && { attrs: { order } }),
+      content: items.map((item) => {
+        const content = parseBlocks(item.lines);
+        return {
+          type: 'listItem',
+          content: content.length
+            ? content
+            : [{ type: 'paragraph', content: [] }],
+        };
+      }),
+    },
+    next: i,
+  };
+}
+
+// Task items hold inline content only; nested task lists become siblings
+function taskItems(item: { lines: string[] }): AdfNode[] {
+  const [, mark] = TASK.exec(item.lines[0])!;
+  const blocks = parseBlocks([
+    item.lines[0].replace(TASK, ''),
+    ...item.lines.slice(1),
+  ]);
+
+  const inline: AdfNode[] = [];
+  const nested: AdfNode[] = [];
+  for (const block of blocks) {
+    if (block.type === 'taskList') {
+      nested.push(block);
+    } else if (block.content && INLINE_TYPES.has(block.content[0]?.type)) {
+      if (inline.length) inline.push({ type: 'hardBreak' });
+      inline.push(...block.content);
+    }
+  }
+
+  return [
+    {
+      type: 'taskItem',
+      attrs: { state: mark === ' ' ? 'TODO' : 'DONE' },
+      content: inline,
+    },
+    ...nested,
+  ];
+}
+
+function parseTable(
+  lines: string[],
+  start: number,
+): { node: AdfNode; next: number } {
+  const rows = [splitRow(lines[start])];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+    rows.push(splitRow(lines[i++]));
+  }
+
+  const width = rows[0].length;
+  return {
+    node: {
+      type: 'table',
+      content: rows.map((cells, r) => ({
+        type: 'tableRow',
+        content: Array.from({ length: width }, (_, c) => ({
+          type: r === 0 ? 'tableHeader' : 'tableCell',
+          content: [
+            { type: 'paragraph', content: parseInline(cells[c] ?? '') },
+          ],
+        })),
+      })),
+    },
+    next: i,
+  };
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+function mediaSingle(alt: string, url: string): AdfNode {
+  const media: AdfNode = url.startsWith(MEDIA_SCHEME)
+    ? {
+        type: 'media',
+        attrs: {
+          type: 'file',
+          id: url.slice(MEDIA_SCHEME.length),
+          collection: '',
+        },
+      }
+    : { type: 'media', attrs: { type: 'external', url } };
+  if (alt) media.attrs!.alt = alt;
+  return { type: 'mediaSingle', attrs: { layout: 'center' }, content: [media] };
+}
+
+function parseInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push(textNode(buffer, marks));
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    const lineBreak = /^(\n|<br\s*\/?>)/i.exec(rest);
+    if (lineBreak) {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i += lineBreak[0].length;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = /^`+/.exec(rest)![0];
+      const end = findCodeSpanEnd(text, i + ticks.length, ticks);
+      if (end !== -1) {
+        flush();
+        let code = text.slice(i + ticks.length, end);
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1);
+        }
+        // ADF only allows links next to the code mark
+        const codeMarks = marks.filter((mark) => mark.type === 'link');
+        nodes.push(textNode(code, [...codeMarks, { type: 'code' }]));
+        i = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    const autolink = /^<(https?:\/\/[^\s>]+)>/.exec(rest);
+    if (autolink) {
+      flush();
+      nodes.push({ type: 'inlineCard', attrs: { url: autolink[1] } });
+      i += autolink[0].length;
+      continue;
+    }
+
+    if (ch === '[') {
+      const link = parseLink(text, i);
+      if (link) {
+        flush();
+        if (link.href.startsWith(MENTION_SCHEME)) {
+          nodes.push({
+            type: 'mention',
+            attrs: {
+              id: link.href.slice(MENTION_SCHEME.length),
+              text: unescape(link.label),
+            },
+          });
+        } else {
+          nodes.push(
+            ...parseInline(link.label, [
+              ...marks,
+              { type: 'link', attrs: { href: link.href } },
+            ]),
+          );
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    const emphasis = emphasisAt(text, i);
+    if (emphasis) {
+      const close = findClosing(
+        text,
+        i + emphasis.token.length,
+        emphasis.token,
+      );
+      if (close !== -1) {
+        flush();
+        const inner = text.slice(i + emphasis.token.length, close);
+        nodes.push(...parseInline(inner, [...marks, { type: emphasis.mark }]));
+        i = close + emphasis.token.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return mergeText(nodes);
+}
+
+function emphasisAt(
+  text: string,
+  i: number,
+): { token: string; mark: string } | null {
+  const opensBefore = (length: number) =>
+    !!text[i + length] && !/\s/.test(text[i + length]);
+
+  if (text.startsWith('**', i) && opensBefore(2))
+    return { token: '**', mark: 'strong' };
+  if (text.startsWith('~~', i) && opensBefore(2))
+    return { token: '~~', mark: 'strike' };
+  if (text[i] === '*' && opensBefore(1)) return { token: '*', mark: 'em' };
+  // Underscores inside words (snake_case) are not emphasis
+  if (
+    text[i] === '_' &&
+    opensBefore(1) &&
+    !/[A-Za-z0-9]/.test(text[i - 1] || '')
+  ) {
+    return { token: '_', mark: 'em' };
+  }
+  return null;
+}
+
+function findClosing(text: string, from: number, token: string): number {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text[j] === '`') {
+      const ticks = /^`+/.exec(text.slice(j))![0];
+      const end = findCodeSpanEnd(text, j + ticks.length, ticks);
+      if (end !== -1) j = end + ticks.length - 1;
+      continue;
+    }
+    if (!text.startsWith(token, j) || j === from || /\s/.test(text[j - 1]))
+      continue;
+
+    // A single * must not close on part of a ** pair
+    if (token === '*' && (text[j + 1] === '*' || text[j - 1] === '*')) {
+      j++;
+      continue;
+    }
+    if (token === '_' && /[A-Za-z0-9]/.test(text[j + 1] || '')) continue;
+    return j;
+  }
+  return -1;
+}
+
+function findCodeSpanEnd(text: string, from: number, ticks: string): number {
+  let end = text.indexOf(ticks, from);
+  while (end !== -1 && text[end + ticks.length] === '`') {
+    end = text.indexOf(ticks, end + ticks.length + 1);
+  }
+  return end;
+}
+
+function parseLink(
+  text: string,
+  start: number,
+): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+    } else if (text[j] === '[') {
+      depth++;
+    } else if (text[j] === ']' && --depth === 0) {
+      const target = /^\(([^)\s]+)\)/.exec(text.slice(j + 1));
+      if (!target) return null;
+      return {
+        label: text.slice(start + 1, j),
+        href: target[1],
+        end: j + 1 + target[0].length,
+      };
+    }
+  }
+  return null;
+}
+
+function textNode(text: string, marks: AdfMark[]): AdfNode {
+  return marks.length ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+// Join neighbouring text nodes that carry the same marks
+function mergeText(nodes: AdfNode[]): AdfNode[] {
+  return nodes.reduce<AdfNode[]>((merged, node) => {
+    const last = merged[merged.length - 1];
+    if (
+      last?.type === 'text' &&
+      node.type === 'text' &&
+      JSON.stringify(last.marks) === JSON.stringify(node.marks)
+    ) {
+      last.text += node.text!;
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+function indentOf(line: string): number {
+  return /^\s*/.exec(line)![0].length;
+}
+
+// taskList / taskItem require a localId unique within the document
+function assignLocalIds(nodes: AdfNode[], counter: { next: number }) {
+  for (const node of nodes) {
+    if (node.type === 'taskList' || node.type === 'taskItem') {
+      node.attrs = { localId: `task-${++counter.next}`, ...node.attrs };
+    }
+    if (node.content) assignLocalIds(node.content, counter);
+  }
+}
@@ -0,0 +1,68 @@
+import { IsBoolean, IsEmail, IsNotEmpty, IsOptional, IsString, IsUrl, Matches, MaxLength } from "class-validator";
+
+export class CreateJiraConnectionDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+
+    // Site and credentials
+    @IsUrl({ require_tld: false })
+    baseUrl: string;
+
+    // Basic auth; optional when the site will be connected through OAuth
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    apiToken?: string;
+
+    // Project config
+    @IsString()
+    @Matches(/^[A-Z][A-Z0-9_]+$/, { message: 'projectKey must be a Jira project key, e.g. PROJ' })
+    projectKey: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    issueType?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    droppedTransitionId?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    droppedStatusName?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    reopenedTransitionId?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    reopenedStatusName?: string;
+
+    // Webhook verification
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    webhookSecret?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    webhookToken?: string;
+}
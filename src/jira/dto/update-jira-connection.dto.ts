@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateJiraConnectionDto } from './create-jira-connection.dto';
+
+export class UpdateJiraConnectionDto extends PartialType(CreateJiraConnectionDto) {}
@@ -0,0 +1,65 @@
+// jira/entities/jira-connection.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+
+// A Jira site of one tenant or product line; products without a connection use the JIRA_* env vars
+@Entity('jira_connections')
+export class JiraConnection {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column({ type: 'varchar', length: 100, unique: true })
+    name: string;
+
+    @Column({ default: true })
+    enabled: boolean;
+
+    // Site and credentials (never returned by the API; secrets encrypted with JIRA_OAUTH_ENCRYPTION_KEY)
+    @Column({ type: 'varchar', length: 255 })
+    baseUrl: string;
+
+    // Basic auth; may be left empty once the site is connected through OAuth
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    email: string | null;
+
+    @Column({ type: 'varchar', length: 1000, nullable: true })
+    apiToken: string | null;
+
+    // Project config (same meaning as the JIRA_* env vars)
+    @Column({ type: 'varchar', length: 50 })
+    projectKey: string;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    issueType: string | null;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    droppedTransitionId: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    droppedStatusName: string | null;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    reopenedTransitionId: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    reopenedStatusName: string | null;
+
+    // Webhook verification for /jira/webhook/:connectionId (falls back to JIRA_WEBHOOK_*)
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    webhookSecret: string | null;
+
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    webhookToken: string | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
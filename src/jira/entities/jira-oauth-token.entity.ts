@@ -0,0 +1,47 @@
+// jira/entities/jira-oauth-token.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from 'typeorm';
+
+// OAuth 2.0 (3LO) grant of one Jira site; tokens are encrypted with JIRA_OAUTH_ENCRYPTION_KEY
+@Entity('jira_oauth_tokens')
+export class JiraOAuthToken {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    // JiraConnection the grant belongs to; null = the default (env) site
+    @Column({ type: 'int', nullable: true })
+    @Index()
+    connectionId: number | null;
+
+    // Atlassian cloud id; API calls go through https://api.atlassian.com/ex/jira/<cloudId>
+    @Column({ type: 'varchar', length: 100 })
+    cloudId: string;
+
+    @Column({ type: 'varchar', length: 255 })
+    siteUrl: string;
+
+    @Column({ type: 'text' })
+    accessToken: string;
+
+    // Atlassian rotates refresh tokens, so this changes on every refresh
+    @Column({ type: 'text', nullable: true })
+    refreshToken: string | null;
+
+    @Column({ type: 'datetime' })
+    expiresAt: Date;
+
+    @Column({ type: 'varchar', length: 1000, nullable: true })
+    scope: string | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
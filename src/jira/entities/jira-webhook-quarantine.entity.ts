@@ -0,0 +1,41 @@
+// jira/entities/jira-webhook-quarantine.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from 'typeorm';
+
+// A webhook delivery that failed payload validation, kept for inspection instead of being applied
+@Entity('jira_webhook_quarantine')
+export class QuarantinedJiraWebhook {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    // JiraConnection the webhook arrived for; null = the default (env) site
+    @Column({ type: 'int', nullable: true })
+    @Index()
+    connectionId: number | null;
+
+    // e.g. "jira:issue_updated"; null when missing or not a string
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    webhookEvent: string | null;
+
+    // X-Atlassian-Webhook-Identifier of the delivery
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    webhookId: string | null;
+
+    // Body exactly as received
+    @Column({ type: 'json' })
+    payload: unknown;
+
+    // Validation errors, one per problem
+    @Column({ type: 'json' })
+    errors: string[];
+
+    // Metadata
+    @CreateDateColumn()
+    @Index()
+    createdAt: Date;
+}
@@ -0,0 +1,146 @@
+// Request and response shapes of the Jira Cloud REST v3 endpoints this integration uses.
+// Only the properties we read or send are declared; Jira returns many more.
+import { AdfDocument } from './adf-markdown';
+
+export interface JiraUser {
+  accountId: string;
+  displayName?: string;
+  emailAddress?: string;
+}
+
+export interface JiraStatus {
+  id?: string;
+  name: string;
+  // new | indeterminate | done, whatever the workflow calls its statuses
+  statusCategory?: { key: string; name?: string };
+}
+
+export interface JiraProject {
+  id?: string;
+  key: string;
+}
+
+// Rich text fields are ADF; Automation payloads and old servers may send plain text
+export type JiraRichText = AdfDocument | string | null;
+
+export interface JiraIssueFields {
+  summary?: string;
+  description?: JiraRichText;
+  status?: JiraStatus;
+  updated?: string;
+  assignee?: JiraUser | null;
+  project?: JiraProject;
+  issuetype?: { id?: string; name: string };
+  // Epic or parent issue of a child issue or subtask
+  parent?: { id?: string; key: string };
+  labels?: string[];
+  // Custom and other mapped fields
+  [field: string]: unknown;
+}
+
+export interface JiraIssue {
+  id: string;
+  key: string;
+  fields: JiraIssueFields;
+}
+
+// POST /rest/api/3/issue
+export interface JiraCreatedIssue {
+  id: string;
+  key: string;
+  self?: string;
+}
+
+// GET/PUT error bodies (4xx)
+export interface JiraErrorResponse {
+  errorMessages?: string[];
+  // Field id -> message
+  errors?: Record<string, string>;
+}
+
+// POST /rest/api/3/issue/bulk
+export interface JiraBulkCreateResponse {
+  issues?: JiraCreatedIssue[];
+  errors?: {
+    status?: number;
+    // Index of the failed element in the request
+    failedElementNumber: number;
+    elementErrors?: JiraErrorResponse;
+  }[];
+}
+
+export interface JiraResolution {
+  id: string;
+  name: string;
+}
+
+// Field on a transition screen (GET .../transitions?expand=transitions.fields)
+export interface JiraTransitionField {
+  required: boolean;
+  hasDefaultValue?: boolean;
+  name?: string;
+  allowedValues?: JiraResolution[];
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to?: JiraStatus;
+  fields?: Record<string, JiraTransitionField>;
+}
+
+export interface JiraTransitionsResponse {
+  transitions?: JiraTransition[];
+}
+
+// POST /rest/api/3/issue/{key}/transitions
+export interface JiraTransitionRequest {
+  transition: { id: string };
+  fields?: Record<string, unknown>;
+  update?: { comment: { add: { body: AdfDocument } }[] };
+}
+
+// POST /rest/api/3/search/jql
+export interface JiraSearchResponse {
+  issues?: JiraIssue[];
+  nextPageToken?: string;
+}
+
+export interface JiraComment {
+  id: string;
+  body?: JiraRichText;
+  author?: JiraUser;
+  created?: string;
+  updated?: string;
+}
+
+// GET /rest/api/3/attachment/{id}, and the array returned by uploads
+export interface JiraAttachmentResponse {
+  id: string | number;
+  filename: string;
+  mimeType?: string;
+  size?: number | string;
+  author?: JiraUser;
+}
+
+// GET /rest/api/3/issue/createmeta/{project}/issuetypes (paged as `issueTypes` or `values`)
+export interface JiraIssueTypesResponse {
+  issueTypes?: { id: string; name: string }[];
+  values?: { id: string; name: string }[];
+}
+
+// POST /rest/api/3/bulk/issues/move and GET /rest/api/3/bulk/queue/{taskId}
+export interface JiraBulkTask {
+  taskId: string;
+}
+
+export interface JiraBulkTaskProgress {
+  status:
+    | 'ENQUEUED'
+    | 'RUNNING'
+    | 'COMPLETE'
+    | 'FAILED'
+    | 'CANCEL_REQUESTED'
+    | 'CANCELLED'
+    | 'DEAD';
+}
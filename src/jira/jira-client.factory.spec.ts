@@ -0,0 +1,94 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraClientFactory } from './jira-client.factory';
+import { JiraService } from './jira.service';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { JiraOAuthService } from './jira-oauth.service';
+import { encryptToken } from './token-cipher';
+
+describe('JiraClientFactory', () => {
+    let factory: JiraClientFactory;
+    let defaultClient: JiraService;
+    let connectionRepo: jest.Mocked<Repository<JiraConnection>>;
+
+    const connection = {
+        id: 2,
+        name: 'Partner site',
+        enabled: true,
+        baseUrl: 'https://partner.atlassian.net',
+        email: 'bot@partner.example',
+        apiToken: 'partner-token',
+        projectKey: 'PART',
+        issueType: 'Task',
+        droppedStatusName: 'Cancelled',
+    } as JiraConnection;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                JiraClientFactory,
+                { provide: JiraService, useValue: { getSite: jest.fn() } },
+                { provide: getRepositoryToken(JiraConnection), useFactory: () => ({ findOneBy: jest.fn() }) },
+                { provide: JiraOAuthService, useValue: { isConfigured: jest.fn(() => false), getSession: jest.fn() } },
+            ],
+        }).compile();
+
+        factory = module.get(JiraClientFactory);
+        defaultClient = module.get(JiraService);
+        connectionRepo = module.get(getRepositoryToken(JiraConnection));
+    });
+
+    it('should hand out the default client for products without a connection', async () => {
+        await expect(factory.forProduct({ jiraConnectionId: null })).resolves.toBe(defaultClient);
+        expect(connectionRepo.findOneBy).not.toHaveBeenCalled();
+    });
+
+    it('should build one client per connection, configured for that site', async () => {
+        connectionRepo.findOneBy.mockResolvedValue(connection);
+
+        const client = await factory.forConnection(2);
+
+        expect(client).not.toBe(defaultClient);
+        expect(client.getSite()).toEqual(expect.objectContaining({ projectKey: 'PART', droppedStatusName: 'Cancelled' }));
+        await expect(factory.forProduct({ jiraConnectionId: 2 })).resolves.toBe(client);
+        expect(connectionRepo.findOneBy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand the decrypted API token to the client', async () => {
+        process.env.JIRA_OAUTH_ENCRYPTION_KEY = 'encryption-key';
+        connectionRepo.findOneBy.mockResolvedValue({ ...connection, apiToken: encryptToken('partner-token') } as JiraConnection);
+
+        const client = await factory.forConnection(2);
+
+        expect(client.getSite().apiToken).toBe('partner-token');
+    });
+
+    it('should refuse a connection without credentials when OAuth is not configured', async () => {
+        connectionRepo.findOneBy.mockResolvedValue({ ...connection, apiToken: null } as JiraConnection);
+
+        await expect(factory.forConnection(2)).rejects.toThrow(ConflictException);
+    });
+
+    it('should rebuild the client after the connection was evicted', async () => {
+        connectionRepo.findOneBy.mockResolvedValue(connection);
+        const first = await factory.forConnection(2);
+
+        factory.evict(2);
+
+        await expect(factory.forConnection(2)).resolves.not.toBe(first);
+    });
+
+    it('should refuse disabled connections', async () => {
+        connectionRepo.findOneBy.mockResolvedValue({ ...connection, enabled: false } as JiraConnection);
+
+        await expect(factory.forConnection(2)).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw NotFoundException for unknown connections', async () => {
+        connectionRepo.findOneBy.mockResolvedValue(null);
+
+        await expect(factory.forConnection(9)).rejects.toThrow(NotFoundException);
+    });
+});
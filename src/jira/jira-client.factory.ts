@@ -0,0 +1,84 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import axios from 'axios';
+import { JiraService } from './jira.service';
+import { JiraOAuthService } from './jira-oauth.service';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { readSecret } from './token-cipher';
+
+// Anything linked to a Jira connection (products, routing rules, ...)
+export interface JiraConnected {
+  jiraConnectionId?: number | null;
+}
+
+// Basic auth needs both; without them the site can only be reached through OAuth
+export function hasCredentials(
+  connection: Partial<Pick<JiraConnection, 'email' | 'apiToken'>>,
+): boolean {
+  return !!connection.email && !!connection.apiToken;
+}
+
+// Hands out one JiraService per connection; no connection = the JIRA_* env client
+@Injectable()
+export class JiraClientFactory {
+  private readonly clients = new Map<number, JiraService>();
+
+  constructor(
+    private readonly defaultClient: JiraService,
+    @InjectRepository(JiraConnection)
+    private connectionRepo: Repository<JiraConnection>,
+    private oauth: JiraOAuthService,
+  ) {}
+
+  async forConnection(connectionId?: number | null): Promise<JiraService> {
+    if (!connectionId) return this.defaultClient;
+
+    const cached = this.clients.get(connectionId);
+    if (cached) return cached;
+
+    const connection = await this.getConnection(connectionId);
+    if (!connection.enabled) {
+      throw new ConflictException(
+        `Jira connection ${connectionId} is disabled`,
+      );
+    }
+    if (!hasCredentials(connection) && !this.oauth.isConfigured()) {
+      throw new ConflictException(
+        `Jira connection ${connectionId} has no email and API token and JIRA_OAUTH_* is not configured`,
+      );
+    }
+
+    const client = new JiraService(
+      new HttpService(axios.create()),
+      { ...connection, apiToken: readSecret(connection.apiToken) },
+      this.oauth,
+    );
+    this.clients.set(connectionId, client);
+    return client;
+  }
+
+  forProduct(product: JiraConnected): Promise<JiraService> {
+    return this.forConnection(product.jiraConnectionId);
+  }
+
+  async getConnection(connectionId: number): Promise<JiraConnection> {
+    const connection = await this.connectionRepo.findOneBy({
+      id: connectionId,
+    });
+    if (!connection) {
+      throw new NotFoundException(`Jira connection ${connectionId} not found`);
+    }
+    return connection;
+  }
+
+  // Drop the cached client after the connection changed
+  evict(connectionId: number) {
+    this.clients.delete(connectionId);
+  }
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, ParseIntPipe } from '@nestjs/common';
+import { JiraConnectionsService } from './jira-connections.service';
+import { CreateJiraConnectionDto } from './dto/create-jira-connection.dto';
+import { UpdateJiraConnectionDto } from './dto/update-jira-connection.dto';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('admin/jira-connections')
+@Roles('admin')
+export class JiraConnectionsController {
+  constructor(private readonly connectionsService: JiraConnectionsService) { }
+
+  @Get()
+  listConnections() {
+    return this.connectionsService.findAll();
+  }
+
+  @Post()
+  createConnection(@Body() createJiraConnectionDto: CreateJiraConnectionDto) {
+    return this.connectionsService.create(createJiraConnectionDto);
+  }
+
+  @Patch(':connectionId')
+  updateConnection(
+    @Param('connectionId', ParseIntPipe) connectionId: number,
+    @Body() updateJiraConnectionDto: UpdateJiraConnectionDto,
+  ) {
+    return this.connectionsService.update(connectionId, updateJiraConnectionDto);
+  }
+
+  @Delete(':connectionId')
+  deleteConnection(@Param('connectionId', ParseIntPipe) connectionId: number) {
+    return this.connectionsService.remove(connectionId);
+  }
+}
@@ -0,0 +1,146 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraConnectionsService } from './jira-connections.service';
+import { JiraClientFactory } from './jira-client.factory';
+import { JiraOAuthService } from './jira-oauth.service';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { Product } from '../products/entities/product.entity';
+import { decryptToken, encryptToken } from './token-cipher';
+
+describe('JiraConnectionsService', () => {
+    let service: JiraConnectionsService;
+    let connectionRepo: jest.Mocked<Repository<JiraConnection>>;
+    let productRepo: jest.Mocked<Repository<Product>>;
+    let clients: jest.Mocked<JiraClientFactory>;
+    let oauth: jest.Mocked<JiraOAuthService>;
+
+    const connection = {
+        id: 2,
+        name: 'Partner site',
+        enabled: true,
+        baseUrl: 'https://partner.atlassian.net',
+        email: 'bot@partner.example',
+        apiToken: 'partner-token',
+        projectKey: 'PART',
+        webhookSecret: 'site-secret',
+        webhookToken: null,
+    } as JiraConnection;
+
+    beforeEach(async () => {
+        delete process.env.JIRA_WEBHOOK_TOKEN;
+        process.env.JIRA_OAUTH_ENCRYPTION_KEY = 'encryption-key';
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                JiraConnectionsService,
+                {
+                    provide: getRepositoryToken(JiraConnection),
+                    useFactory: () => ({
+                        find: jest.fn(),
+                        create: jest.fn((dto) => ({ ...dto })),
+                        save: jest.fn((entity) => Promise.resolve({ id: 2, ...entity })),
+                        existsBy: jest.fn().mockResolvedValue(false),
+                        delete: jest.fn(),
+                    }),
+                },
+                { provide: getRepositoryToken(Product), useFactory: () => ({ count: jest.fn().mockResolvedValue(0) }) },
+                { provide: JiraClientFactory, useFactory: () => ({ getConnection: jest.fn(), evict: jest.fn() }) },
+                { provide: JiraOAuthService, useFactory: () => ({ forget: jest.fn(), isConfigured: jest.fn(() => false) }) },
+            ],
+        }).compile();
+
+        service = module.get(JiraConnectionsService);
+        connectionRepo = module.get(getRepositoryToken(JiraConnection));
+        productRepo = module.get(getRepositoryToken(Product));
+        clients = module.get(JiraClientFactory);
+        oauth = module.get(JiraOAuthService);
+
+        jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    });
+
+    it('should never return the credentials of a connection', async () => {
+        connectionRepo.find.mockResolvedValue([connection]);
+
+        const [result] = await service.findAll();
+
+        expect(result).not.toHaveProperty('apiToken');
+        expect(result).not.toHaveProperty('webhookSecret');
+        expect(result).toEqual(expect.objectContaining({ name: 'Partner site', hasWebhookSecret: true, hasWebhookToken: false }));
+    });
+
+    it('should reject a duplicate connection name', async () => {
+        connectionRepo.existsBy.mockResolvedValue(true);
+
+        await expect(service.create({ ...connection } as any)).rejects.toThrow(ConflictException);
+        expect(connectionRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should store the credentials encrypted', async () => {
+        await service.create({ name: 'New site', baseUrl: 'https://new.atlassian.net', email: 'bot@new.example', apiToken: 'new-token', projectKey: 'NEW', webhookSecret: 'new-secret' } as any);
+
+        const saved = connectionRepo.save.mock.calls[0][0] as JiraConnection;
+        expect(saved.apiToken).not.toBe('new-token');
+        expect(decryptToken(saved.apiToken!)).toBe('new-token');
+        expect(decryptToken(saved.webhookSecret!)).toBe('new-secret');
+        expect(saved.webhookToken).toBeUndefined();
+    });
+
+    it('should require basic auth credentials unless OAuth is configured', async () => {
+        const dto = { name: 'New site', baseUrl: 'https://new.atlassian.net', email: 'bot@new.example', projectKey: 'NEW' };
+
+        await expect(service.create(dto as any)).rejects.toThrow(BadRequestException);
+        expect(connectionRepo.save).not.toHaveBeenCalled();
+
+        oauth.isConfigured.mockReturnValue(true);
+        await expect(service.create(dto as any)).resolves.toEqual(expect.objectContaining({ name: 'New site' }));
+    });
+
+    it('should refuse an update that clears the API token', async () => {
+        clients.getConnection.mockResolvedValue({ ...connection } as JiraConnection);
+
+        await expect(service.update(2, { apiToken: null } as any)).rejects.toThrow(BadRequestException);
+        expect(connectionRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should encrypt a credential replaced by an update', async () => {
+        clients.getConnection.mockResolvedValue({ ...connection } as JiraConnection);
+
+        await service.update(2, { apiToken: 'rotated-token' });
+
+        const saved = connectionRepo.save.mock.calls[0][0] as JiraConnection;
+        expect(decryptToken(saved.apiToken!)).toBe('rotated-token');
+        expect(saved.webhookSecret).toBe(connection.webhookSecret);
+    });
+
+    it('should drop the cached client after an update', async () => {
+        clients.getConnection.mockResolvedValue({ ...connection } as JiraConnection);
+
+        await service.update(2, { projectKey: 'NEW' });
+
+        expect(connectionRepo.save).toHaveBeenCalledWith(expect.objectContaining({ projectKey: 'NEW' }));
+        expect(clients.evict).toHaveBeenCalledWith(2);
+    });
+
+    it('should refuse to delete a connection still used by products', async () => {
+        clients.getConnection.mockResolvedValue(connection);
+        productRepo.count.mockResolvedValue(3);
+
+        await expect(service.remove(2)).rejects.toThrow(ConflictException);
+        expect(connectionRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('should never fall back to the env webhook credentials of the default site', async () => {
+        process.env.JIRA_WEBHOOK_TOKEN = 'env-token';
+        clients.getConnection.mockResolvedValue({ ...connection, webhookSecret: encryptToken('site-secret') } as JiraConnection);
+
+        await expect(service.getWebhookCredentials(2)).resolves.toEqual({ enabled: true, secret: 'site-secret', token: null });
+    });
+
+    it('should still read webhook secrets stored before encryption', async () => {
+        clients.getConnection.mockResolvedValue(connection);
+
+        await expect(service.getWebhookCredentials(2)).resolves.toEqual(expect.objectContaining({ secret: 'site-secret' }));
+    });
+});
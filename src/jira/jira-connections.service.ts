@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { CreateJiraConnectionDto } from './dto/create-jira-connection.dto';
+import { UpdateJiraConnectionDto } from './dto/update-jira-connection.dto';
+import { JiraClientFactory, hasCredentials } from './jira-client.factory';
+import { JiraOAuthService } from './jira-oauth.service';
+import { Product } from '../products/entities/product.entity';
+import { encryptToken, readSecret } from './token-cipher';
+
+// Stored encrypted, like the OAuth tokens
+const SECRET_FIELDS = ['apiToken', 'webhookSecret', 'webhookToken'] as const;
+
+@Injectable()
+export class JiraConnectionsService {
+  private readonly logger = new Logger(JiraConnectionsService.name);
+
+  constructor(
+    @InjectRepository(JiraConnection)
+    private connectionRepo: Repository<JiraConnection>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    private clients: JiraClientFactory,
+    private oauth: JiraOAuthService,
+  ) {}
+
+  // 1. Admin CRUD (credentials are never returned)
+  async findAll() {
+    const connections = await this.connectionRepo.find({
+      order: { id: 'ASC' },
+    });
+    return connections.map((connection) => this.toResponse(connection));
+  }
+
+  async create(dto: CreateJiraConnectionDto) {
+    await this.assertNameFree(dto.name);
+    this.assertCredentials(dto);
+    const connection = await this.connectionRepo.save(
+      this.connectionRepo.create(this.encryptSecrets(dto)),
+    );
+    this.logger.log(
+      `[CONNECTION] Jira connection ${connection.id} "${connection.name}" created`,
+    );
+    return this.toResponse(connection);
+  }
+
+  async update(id: number, dto: UpdateJiraConnectionDto) {
+    const connection = await this.clients.getConnection(id);
+    if (dto.name && dto.name !== connection.name) {
+      await this.assertNameFree(dto.name);
+    }
+    Object.assign(connection, this.encryptSecrets(dto));
+    this.assertCredentials(connection);
+    await this.connectionRepo.save(connection);
+    this.clients.evict(id);
+    this.logger.log(
+      `[CONNECTION] Jira connection ${id} "${connection.name}" updated`,
+    );
+    return this.toResponse(connection);
+  }
+
+  // Linked products would lose their Jira site, so they block the deletion
+  async remove(id: number) {
+    const connection = await this.clients.getConnection(id);
+    const linked = await this.productRepo.count({
+      where: { jiraConnectionId: id },
+      withDeleted: true,
+    });
+    if (linked > 0) {
+      throw new ConflictException(
+        `Jira connection ${id} is used by ${linked} product(s)`,
+      );
+    }
+
+    await this.connectionRepo.delete(id);
+    await this.oauth.forget(id);
+    this.clients.evict(id);
+    this.logger.log(
+      `[CONNECTION] Jira connection ${id} "${connection.name}" deleted`,
+    );
+    return { deleted: true, id };
+  }
+
+  // 2. Webhook credentials of a connection; never the env ones, which belong to the default site
+  async getWebhookCredentials(id: number) {
+    const connection = await this.clients.getConnection(id);
+    return {
+      enabled: connection.enabled,
+      secret: readSecret(connection.webhookSecret),
+      token: readSecret(connection.webhookToken),
+    };
+  }
+
+  // --- Helper: Unique connection names ---
+  private async assertNameFree(name: string) {
+    if (await this.connectionRepo.existsBy({ name })) {
+      throw new ConflictException(`Jira connection "${name}" already exists`);
+    }
+  }
+
+  // --- Helper: A site needs basic auth unless OAuth can take over ---
+  private assertCredentials(
+    connection: Partial<Pick<JiraConnection, 'email' | 'apiToken'>>,
+  ) {
+    if (!hasCredentials(connection) && !this.oauth.isConfigured()) {
+      throw new BadRequestException(
+        'email and apiToken are required unless JIRA_OAUTH_* is configured',
+      );
+    }
+  }
+
+  private encryptSecrets<T extends UpdateJiraConnectionDto>(dto: T): T {
+    const encrypted = { ...dto };
+    for (const field of SECRET_FIELDS) {
+      const value = dto[field];
+      if (value) encrypted[field] = encryptToken(value);
+    }
+    return encrypted;
+  }
+
+  private toResponse(connection: JiraConnection) {
+    const { apiToken, webhookSecret, webhookToken, ...rest } = connection;
+    return {
+      ...rest,
+      hasApiToken: !!apiToken,
+      hasWebhookSecret: !!webhookSecret,
+      hasWebhookToken: !!webhookToken,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { BadRequestException, Controller, Get, ParseIntPipe, Query } from '@nestjs/common';
+import { JiraOAuthService } from './jira-oauth.service';
+import { Public, Roles } from '../auth/auth.decorators';
+
+@Controller('jira/oauth')
+export class JiraOAuthController {
+  constructor(private readonly oauthService: JiraOAuthService) { }
+
+  // Returns the Atlassian consent URL; open it in a browser as the Jira user issues should belong to
+  @Roles('admin')
+  @Get('connect')
+  connect(@Query('connectionId', new ParseIntPipe({ optional: true })) connectionId?: number) {
+    return this.oauthService.getAuthorizationUrl(connectionId ?? null);
+  }
+
+  // Atlassian redirects the browser here, so there are no API credentials; the signed state authenticates it
+  @Public()
+  @Get('callback')
+  callback(
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('error') error?: string,
+    @Query('error_description') errorDescription?: string,
+  ) {
+    if (error) {
+      throw new BadRequestException(`Jira authorization failed: ${errorDescription || error}`);
+    }
+    return this.oauthService.handleCallback(code, state);
+  }
+}
@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { of } from 'rxjs';
+import { JiraOAuthService } from './jira-oauth.service';
+import { JiraOAuthToken } from './entities/jira-oauth-token.entity';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { decryptToken, encryptToken } from './token-cipher';
+
+describe('JiraOAuthService', () => {
+    let service: JiraOAuthService;
+    let tokenRepo: jest.Mocked<Repository<JiraOAuthToken>>;
+    let http: { post: jest.Mock; get: jest.Mock };
+
+    const resources = [
+        { id: 'cloud-other', url: 'https://other.atlassian.net' },
+        { id: 'cloud-1', url: 'https://your-domain.atlassian.net' },
+    ];
+
+    const stateFrom = (authorizationUrl: string) => new URL(authorizationUrl).searchParams.get('state')!;
+
+    beforeEach(async () => {
+        process.env.JIRA_OAUTH_CLIENT_ID = 'client-id';
+        process.env.JIRA_OAUTH_CLIENT_SECRET = 'client-secret';
+        process.env.JIRA_OAUTH_REDIRECT_URI = 'https://app.example.com/jira/oauth/callback';
+        process.env.JIRA_OAUTH_ENCRYPTION_KEY = 'encryption-key';
+        process.env.JIRA_BASE_URL = 'https://your-domain.atlassian.net/';
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                JiraOAuthService,
+                {
+                    provide: getRepositoryToken(JiraOAuthToken),
+                    useFactory: () => ({
+                        findOne: jest.fn().mockResolvedValue(null),
+                        save: jest.fn((grant) => Promise.resolve(grant)),
+                        delete: jest.fn(),
+                    }),
+                },
+                { provide: getRepositoryToken(JiraConnection), useFactory: () => ({ findOneBy: jest.fn() }) },
+            ],
+        }).compile();
+
+        service = module.get(JiraOAuthService);
+        tokenRepo = module.get(getRepositoryToken(JiraOAuthToken));
+        http = { post: jest.fn(), get: jest.fn() };
+        (service as any).http = http;
+
+        jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+        jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        delete process.env.JIRA_OAUTH_CLIENT_ID;
+        delete process.env.JIRA_OAUTH_CLIENT_SECRET;
+        delete process.env.JIRA_OAUTH_REDIRECT_URI;
+        delete process.env.JIRA_OAUTH_ENCRYPTION_KEY;
+        delete process.env.JIRA_BASE_URL;
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('connect and callback', () => {
+        it('should build the Atlassian consent URL', async () => {
+            const { authorizationUrl } = await service.getAuthorizationUrl(null);
+            const url = new URL(authorizationUrl);
+
+            expect(url.origin + url.pathname).toBe('https://auth.atlassian.com/authorize');
+            expect(url.searchParams.get('client_id')).toBe('client-id');
+            expect(url.searchParams.get('redirect_uri')).toBe('https://app.example.com/jira/oauth/callback');
+            expect(url.searchParams.get('scope')).toContain('offline_access');
+            expect(url.searchParams.get('response_type')).toBe('code');
+        });
+
+        it('should exchange the code and store the tokens of the configured site encrypted', async () => {
+            const { authorizationUrl } = await service.getAuthorizationUrl(null);
+            http.post.mockReturnValue(of({ data: { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 } }));
+            http.get.mockReturnValue(of({ data: resources }));
+
+            const result = await service.handleCallback('auth-code', stateFrom(authorizationUrl));
+
+            expect(http.post).toHaveBeenCalledWith('https://auth.atlassian.com/oauth/token', expect.objectContaining({
+                grant_type: 'authorization_code',
+                code: 'auth-code',
+                client_secret: 'client-secret',
+            }));
+            const saved = tokenRepo.save.mock.calls[0][0] as JiraOAuthToken;
+            expect(saved).toEqual(expect.objectContaining({ connectionId: null, cloudId: 'cloud-1' }));
+            expect(saved.accessToken).not.toContain('access-1');
+            expect(decryptToken(saved.refreshToken!)).toBe('refresh-1');
+            expect(result).toEqual(expect.objectContaining({ connected: true, siteUrl: 'https://your-domain.atlassian.net' }));
+        });
+
+        it('should reject a tampered state', async () => {
+            const { authorizationUrl } = await service.getAuthorizationUrl(null);
+            const signature = stateFrom(authorizationUrl).split('.')[1];
+            const forged = Buffer.from(JSON.stringify({ connectionId: 7, expiresAt: Date.now() + 60000 })).toString('base64url');
+
+            await expect(service.handleCallback('auth-code', `${forged}.${signature}`)).rejects.toThrow(BadRequestException);
+            expect(http.post).not.toHaveBeenCalled();
+        });
+
+        it('should refuse when the account has no access to the configured site', async () => {
+            const { authorizationUrl } = await service.getAuthorizationUrl(null);
+            http.post.mockReturnValue(of({ data: { access_token: 'access-1', expires_in: 3600 } }));
+            http.get.mockReturnValue(of({ data: [resources[0]] }));
+
+            await expect(service.handleCallback('auth-code', stateFrom(authorizationUrl))).rejects.toThrow(BadRequestException);
+            expect(tokenRepo.save).not.toHaveBeenCalled();
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('getSession', () => {
+        const grant = (expiresInMs: number) => ({
+            id: 1,
+            connectionId: null,
+            cloudId: 'cloud-1',
+            siteUrl: 'https://your-domain.atlassian.net',
+            accessToken: encryptToken('access-old'),
+            refreshToken: encryptToken('refresh-old'),
+            expiresAt: new Date(Date.now() + expiresInMs),
+        }) as JiraOAuthToken;
+
+        it('should return null without OAuth configuration so basic auth is used', async () => {
+            delete process.env.JIRA_OAUTH_CLIENT_ID;
+
+            await expect(service.getSession(null)).resolves.toBeNull();
+            expect(tokenRepo.findOne).not.toHaveBeenCalled();
+        });
+
+        it('should use the stored token while it is valid', async () => {
+            tokenRepo.findOne.mockResolvedValue(grant(3600 * 1000));
+
+            const session = await service.getSession(null);
+
+            expect(session).toEqual(expect.objectContaining({
+                accessToken: 'access-old',
+                apiBaseUrl: 'https://api.atlassian.com/ex/jira/cloud-1',
+            }));
+            expect(http.post).not.toHaveBeenCalled();
+        });
+
+        it('should refresh an expiring token once for concurrent requests and keep the rotated refresh token', async () => {
+            tokenRepo.findOne.mockResolvedValue(grant(10 * 1000));
+            http.post.mockReturnValue(of({ data: { access_token: 'access-new', refresh_token: 'refresh-new', expires_in: 3600 } }));
+
+            const [first, second] = await Promise.all([service.getSession(null), service.getSession(null)]);
+
+            expect(http.post).toHaveBeenCalledTimes(1);
+            expect(http.post).toHaveBeenCalledWith('https://auth.atlassian.com/oauth/token', expect.objectContaining({
+                grant_type: 'refresh_token',
+                refresh_token: 'refresh-old',
+            }));
+            expect(first?.accessToken).toBe('access-new');
+            expect(second?.accessToken).toBe('access-new');
+            expect(decryptToken((tokenRepo.save.mock.calls[0][0] as JiraOAuthToken).refreshToken!)).toBe('refresh-new');
+        });
+    });
+});
@@ -0,0 +1,357 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import axios from 'axios';
+import { JiraOAuthConfig, getOAuthConfig } from './jira.config';
+import { decryptToken, encryptToken } from './token-cipher';
+import { JiraOAuthToken } from './entities/jira-oauth-token.entity';
+import { JiraConnection } from './entities/jira-connection.entity';
+
+// Access token of a site plus the gateway URL OAuth requests must go through
+export interface JiraOAuthSession {
+  accessToken: string;
+  apiBaseUrl: string;
+  expiresAt: Date;
+}
+
+interface AtlassianTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+const AUTHORIZE_URL = 'https://auth.atlassian.com/authorize';
+const TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+const RESOURCES_URL =
+  'https://api.atlassian.com/oauth/token/accessible-resources';
+const API_GATEWAY_URL = 'https://api.atlassian.com/ex/jira';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Refresh a little early so requests already on their way don't hit the deadline
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+@Injectable()
+export class JiraOAuthService {
+  private readonly logger = new Logger(JiraOAuthService.name);
+
+  // Own axios instance: the Jira clients' auth interceptor must not apply to token calls
+  private readonly http = new HttpService(axios.create());
+
+  // Site key -> current session (null = no grant, basic auth)
+  private readonly sessions = new Map<string, JiraOAuthSession | null>();
+  private readonly refreshing = new Map<
+    string,
+    Promise<JiraOAuthSession | null>
+  >();
+
+  constructor(
+    @InjectRepository(JiraOAuthToken)
+    private tokenRepo: Repository<JiraOAuthToken>,
+    @InjectRepository(JiraConnection)
+    private connectionRepo: Repository<JiraConnection>,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!getOAuthConfig();
+  }
+
+  // 1. Connect -> Atlassian consent screen for a site (null = the default site)
+  async getAuthorizationUrl(connectionId: number | null) {
+    const config = this.requireConfig();
+    // Fail on unknown connections before sending anyone to Atlassian
+    await this.getSiteUrl(connectionId);
+
+    const params = new URLSearchParams({
+      audience: 'api.atlassian.com',
+      client_id: config.clientId,
+      scope: config.scopes,
+      redirect_uri: config.redirectUri,
+      state: this.signState(connectionId, config),
+      response_type: 'code',
+      prompt: 'consent',
+    });
+    return { authorizationUrl: `${AUTHORIZE_URL}?${params}` };
+  }
+
+  // 2. Callback -> exchange the code, pick the matching site and store the grant
+  async handleCallback(code: string, state: string) {
+    const config = this.requireConfig();
+    const connectionId = this.verifyState(state, config);
+    if (!code) throw new BadRequestException('Missing authorization code');
+
+    let tokens: AtlassianTokenResponse;
+    try {
+      tokens = await this.requestTokens(config, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+      });
+    } catch (e) {
+      throw new BadRequestException(`Jira authorization failed: ${e.message}`);
+    }
+
+    const resource = await this.pickResource(
+      tokens.access_token,
+      await this.getSiteUrl(connectionId),
+    );
+
+    const grant = (await this.findGrant(connectionId)) ?? new JiraOAuthToken();
+    Object.assign(grant, {
+      connectionId,
+      cloudId: resource.id,
+      siteUrl: resource.url,
+      ...this.encryptTokens(tokens, null),
+    });
+    await this.tokenRepo.save(grant);
+    this.sessions.set(this.siteKey(connectionId), this.toSession(grant));
+
+    this.logger.log(
+      `[OAUTH] ${this.describe(connectionId)} connected to ${resource.url}`,
+    );
+    return {
+      connected: true,
+      connectionId,
+      siteUrl: grant.siteUrl,
+      expiresAt: grant.expiresAt,
+    };
+  }
+
+  // 3. Request pipeline -> valid access token, or null to keep using basic auth
+  async getSession(
+    connectionId: number | null,
+  ): Promise<JiraOAuthSession | null> {
+    if (!this.isConfigured()) return null;
+
+    const key = this.siteKey(connectionId);
+    if (!this.sessions.has(key)) {
+      const grant = await this.findGrant(connectionId);
+      this.sessions.set(key, grant ? this.toSession(grant) : null);
+    }
+
+    const session = this.sessions.get(key)!;
+    if (
+      !session ||
+      session.expiresAt.getTime() - REFRESH_MARGIN_MS > Date.now()
+    ) {
+      return session;
+    }
+
+    // One refresh per site at a time; concurrent requests wait for it
+    let pending = this.refreshing.get(key);
+    if (!pending) {
+      pending = this.refresh(connectionId).finally(() =>
+        this.refreshing.delete(key),
+      );
+      this.refreshing.set(key, pending);
+    }
+    return pending;
+  }
+
+  // 4. Drop the grant of a deleted connection
+  async forget(connectionId: number) {
+    await this.tokenRepo.delete({ connectionId });
+    this.sessions.delete(this.siteKey(connectionId));
+  }
+
+  private async refresh(
+    connectionId: number | null,
+  ): Promise<JiraOAuthSession | null> {
+    const key = this.siteKey(connectionId);
+    const grant = await this.findGrant(connectionId);
+    if (!grant) {
+      this.sessions.set(key, null);
+      return null;
+    }
+
+    // Another instance may have refreshed already (refresh tokens are single-use)
+    if (grant.expiresAt.getTime() - REFRESH_MARGIN_MS > Date.now()) {
+      const session = this.toSession(grant);
+      this.sessions.set(key, session);
+      return session;
+    }
+
+    const site = this.describe(connectionId);
+    if (!grant.refreshToken) {
+      throw new Error(
+        `Jira OAuth token of ${site} expired and can't be refreshed; connect again via /jira/oauth/connect`,
+      );
+    }
+
+    let tokens: AtlassianTokenResponse;
+    try {
+      tokens = await this.requestTokens(this.requireConfig(), {
+        grant_type: 'refresh_token',
+        refresh_token: decryptToken(grant.refreshToken),
+      });
+    } catch (e) {
+      this.logger.error(`[OAUTH] Refresh failed for ${site}: ${e.message}`);
+      throw new Error(`Jira OAuth refresh failed for ${site}: ${e.message}`);
+    }
+
+    Object.assign(grant, this.encryptTokens(tokens, grant.refreshToken));
+    await this.tokenRepo.save(grant);
+
+    const session = this.toSession(grant);
+    this.sessions.set(key, session);
+    this.logger.log(
+      `[OAUTH] Refreshed access token of ${site}, valid until ${grant.expiresAt.toISOString()}`,
+    );
+    return session;
+  }
+
+  // --- Helper: Token endpoint (authorization_code and refresh_token grants) ---
+  private async requestTokens(
+    config: JiraOAuthConfig,
+    body: Record<string, string>,
+  ): Promise<AtlassianTokenResponse> {
+    try {
+      const { data } = await firstValueFrom(
+        this.http.post(TOKEN_URL, {
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          ...body,
+        }),
+      );
+      return data;
+    } catch (e) {
+      const error = e.response?.data;
+      throw new Error(error?.error_description || error?.error || e.message);
+    }
+  }
+
+  // --- Helper: The authorized site matching the configured base URL ---
+  private async pickResource(accessToken: string, siteUrl: string | null) {
+    const { data } = await firstValueFrom(
+      this.http.get(RESOURCES_URL, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }),
+    );
+    const resources: { id: string; url: string }[] = data ?? [];
+    const normalize = (url: string) =>
+      url.trim().replace(/\/+$/, '').toLowerCase();
+
+    const resource = siteUrl
+      ? resources.find(({ url }) => normalize(url) === normalize(siteUrl))
+      : resources[0];
+    if (!resource) {
+      throw new BadRequestException(
+        siteUrl
+          ? `The authorizing Atlassian account has no access to ${siteUrl}`
+          : 'The authorizing Atlassian account has no Jira site',
+      );
+    }
+    return resource;
+  }
+
+  private encryptTokens(
+    tokens: AtlassianTokenResponse,
+    previousRefreshToken: string | null,
+  ) {
+    return {
+      accessToken: encryptToken(tokens.access_token),
+      // Keep the old refresh token if Atlassian didn't rotate it
+      refreshToken: tokens.refresh_token
+        ? encryptToken(tokens.refresh_token)
+        : previousRefreshToken,
+      expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+      scope: tokens.scope ?? null,
+    };
+  }
+
+  private toSession(grant: JiraOAuthToken): JiraOAuthSession {
+    return {
+      accessToken: decryptToken(grant.accessToken),
+      apiBaseUrl: `${API_GATEWAY_URL}/${grant.cloudId}`,
+      expiresAt: grant.expiresAt,
+    };
+  }
+
+  private findGrant(connectionId: number | null) {
+    return this.tokenRepo.findOne({
+      where: { connectionId: connectionId ?? IsNull() },
+      order: { id: 'DESC' },
+    });
+  }
+
+  private async getSiteUrl(connectionId: number | null) {
+    if (connectionId === null) return process.env.JIRA_BASE_URL || null;
+
+    const connection = await this.connectionRepo.findOneBy({
+      id: connectionId,
+    });
+    if (!connection) {
+      throw new NotFoundException(`Jira connection ${connectionId} not found`);
+    }
+    return connection.baseUrl;
+  }
+
+  // --- Helper: Stateless, signed and short-lived OAuth state ---
+  private signState(connectionId: number | null, config: JiraOAuthConfig) {
+    const payload = Buffer.from(
+      JSON.stringify({
+        connectionId,
+        nonce: randomBytes(8).toString('hex'),
+        expiresAt: Date.now() + STATE_TTL_MS,
+      }),
+    ).toString('base64url');
+    return `${payload}.${this.stateSignature(payload, config)}`;
+  }
+
+  private verifyState(state: string, config: JiraOAuthConfig): number | null {
+    const [payload, signature] = (state ?? '').split('.');
+    const expected = Buffer.from(this.stateSignature(payload ?? '', config));
+    const given = Buffer.from(signature ?? '');
+    if (
+      !payload ||
+      given.length !== expected.length ||
+      !timingSafeEqual(given, expected)
+    ) {
+      throw new BadRequestException('Invalid OAuth state');
+    }
+
+    const { connectionId, expiresAt } = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    );
+    if (expiresAt < Date.now()) {
+      throw new BadRequestException(
+        'OAuth state expired, start again from /jira/oauth/connect',
+      );
+    }
+    return connectionId ?? null;
+  }
+
+  private stateSignature(payload: string, config: JiraOAuthConfig) {
+    return createHmac('sha256', config.clientSecret)
+      .update(payload)
+      .digest('base64url');
+  }
+
+  private requireConfig(): JiraOAuthConfig {
+    const config = getOAuthConfig();
+    if (!config) {
+      throw new BadRequestException(
+        'Jira OAuth is not configured (JIRA_OAUTH_CLIENT_ID, JIRA_OAUTH_CLIENT_SECRET, JIRA_OAUTH_REDIRECT_URI)',
+      );
+    }
+    return config;
+  }
+
+  private siteKey(connectionId: number | null) {
+    return connectionId === null ? 'default' : String(connectionId);
+  }
+
+  private describe(connectionId: number | null) {
+    return connectionId === null
+      ? 'the default Jira site'
+      : `Jira connection ${connectionId}`;
+  }
+}
@@ -0,0 +1,176 @@
+import { JiraRequestPolicy, JiraUnavailableError } from './jira-request-policy';
+
+describe('JiraRequestPolicy', () => {
+    let policy: JiraRequestPolicy;
+
+    const ok = (headers: Record<string, string> = {}) => ({ data: { ok: true }, headers }) as any;
+    const httpError = (status: number, method = 'get', headers: Record<string, string> = {}) => ({
+        isAxiosError: true,
+        message: `Request failed with status code ${status}`,
+        response: { status, headers },
+        config: { method },
+    });
+
+    beforeEach(() => {
+        process.env.JIRA_HTTP_MAX_RETRIES = '3';
+        process.env.JIRA_HTTP_BASE_DELAY_MS = '1';
+        process.env.JIRA_HTTP_MAX_DELAY_MS = '1000';
+        process.env.JIRA_HTTP_MAX_CONCURRENCY = '2';
+        process.env.JIRA_HTTP_BREAKER_THRESHOLD = '3';
+        process.env.JIRA_HTTP_BREAKER_COOLDOWN_MS = '50';
+
+        policy = new JiraRequestPolicy('https://jira.example.com');
+        jest.spyOn(policy['logger'], 'warn').mockImplementation(() => { });
+        jest.spyOn(policy['logger'], 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        for (const name of Object.keys(process.env).filter((key) => key.startsWith('JIRA_HTTP_'))) {
+            delete process.env[name];
+        }
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('retries', () => {
+        it('should retry an idempotent call after a 5xx', async () => {
+            const send = jest.fn()
+                .mockRejectedValueOnce(httpError(503))
+                .mockRejectedValueOnce(httpError(502))
+                .mockResolvedValueOnce(ok());
+
+            await expect(policy.execute(send)).resolves.toEqual(ok());
+            expect(send).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not repeat a POST after a 5xx', async () => {
+            const send = jest.fn().mockRejectedValue(httpError(500, 'post'));
+
+            await expect(policy.execute(send)).rejects.toEqual(httpError(500, 'post'));
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+
+        it('should repeat a POST marked idempotent', async () => {
+            const send = jest.fn().mockRejectedValueOnce(httpError(500, 'post')).mockResolvedValueOnce(ok());
+
+            await policy.execute(send, { idempotent: true });
+
+            expect(send).toHaveBeenCalledTimes(2);
+        });
+
+        it('should give up after JIRA_HTTP_MAX_RETRIES', async () => {
+            process.env.JIRA_HTTP_MAX_RETRIES = '1';
+            const send = jest.fn().mockRejectedValue(httpError(504));
+
+            await expect(policy.execute(send)).rejects.toEqual(httpError(504));
+            expect(send).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not retry client errors', async () => {
+            const send = jest.fn().mockRejectedValue(httpError(404));
+
+            await expect(policy.execute(send)).rejects.toEqual(httpError(404));
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('rate limits', () => {
+        it('should retry any call after a 429 once Retry-After has passed', async () => {
+            const send = jest.fn()
+                .mockRejectedValueOnce(httpError(429, 'post', { 'retry-after': '0.05' }))
+                .mockResolvedValueOnce(ok());
+            const startedAt = Date.now();
+
+            await policy.execute(send);
+
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+        });
+
+        it('should fail fast when Jira asks for a longer pause than JIRA_HTTP_MAX_DELAY_MS', async () => {
+            const rateLimited = httpError(429, 'get', { 'retry-after': '120' });
+            const send = jest.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue(ok());
+
+            await expect(policy.execute(send)).rejects.toEqual(rateLimited);
+            await expect(policy.execute(send)).rejects.toBeInstanceOf(JiraUnavailableError);
+            expect(send).toHaveBeenCalledTimes(1);
+        });
+
+        it('should hold the next calls when X-RateLimit-Remaining reaches 0', async () => {
+            const resetAt = new Date(Date.now() + 60).toISOString();
+            const send = jest.fn()
+                .mockResolvedValueOnce(ok({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': resetAt }))
+                .mockResolvedValueOnce(ok());
+
+            await policy.execute(send);
+            await policy.execute(send);
+
+            expect(Date.now()).toBeGreaterThanOrEqual(Date.parse(resetAt) - 5);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('circuit breaker', () => {
+        it('should stop calling Jira after repeated failures and probe again after the cooldown', async () => {
+            const send = jest.fn().mockRejectedValue(httpError(500, 'post'));
+            for (let i = 0; i < 3; i++) {
+                await expect(policy.execute(send)).rejects.toEqual(httpError(500, 'post'));
+            }
+
+            await expect(policy.execute(send)).rejects.toBeInstanceOf(JiraUnavailableError);
+            expect(send).toHaveBeenCalledTimes(3);
+
+            await new Promise((resolve) => setTimeout(resolve, 60));
+            send.mockResolvedValue(ok());
+
+            await expect(policy.execute(send)).resolves.toEqual(ok());
+            await expect(policy.execute(send)).resolves.toEqual(ok());
+        });
+
+        it('should still probe after the cooldown when a rate-limit pause failed the call first', async () => {
+            const send = jest.fn().mockRejectedValue(httpError(500, 'post'));
+            for (let i = 0; i < 3; i++) {
+                await expect(policy.execute(send)).rejects.toEqual(httpError(500, 'post'));
+            }
+            await new Promise((resolve) => setTimeout(resolve, 60));
+
+            policy['pausedUntil'] = Date.now() + 5000;
+            await expect(policy.execute(send)).rejects.toThrow('rate limit');
+            policy['pausedUntil'] = 0;
+            send.mockResolvedValue(ok());
+
+            await expect(policy.execute(send)).resolves.toEqual(ok());
+        });
+
+        it('should not count client errors as failures', async () => {
+            const send = jest.fn().mockRejectedValue(httpError(400, 'post'));
+            for (let i = 0; i < 5; i++) {
+                await expect(policy.execute(send)).rejects.toEqual(httpError(400, 'post'));
+            }
+
+            expect(send).toHaveBeenCalledTimes(5);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    it('should run at most JIRA_HTTP_MAX_CONCURRENCY calls at once', async () => {
+        let active = 0;
+        let peak = 0;
+        const send = jest.fn(async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            active--;
+            return ok();
+        });
+
+        await Promise.all(Array.from({ length: 6 }, () => policy.execute(send)));
+
+        expect(send).toHaveBeenCalledTimes(6);
+        expect(peak).toBe(2);
+    });
+});
@@ -0,0 +1,229 @@
+import { Logger } from '@nestjs/common';
+import { AxiosResponse } from 'axios';
+import { JiraHttpPolicyConfig, getHttpPolicyConfig } from './jira.config';
+
+// Thrown without calling Jira while the circuit is open or a rate-limit pause is too long to wait out
+export class JiraUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly retryAt: Date,
+  ) {
+    super(message);
+    this.name = 'JiraUnavailableError';
+  }
+}
+
+export interface JiraRequestOptions {
+  // Safe to repeat after a 5xx or network error; defaults to true for GET, PUT and DELETE
+  idempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Retries, rate-limit pauses, circuit breaker and concurrency cap for the calls of one Jira site
+export class JiraRequestPolicy {
+  private readonly logger = new Logger(JiraRequestPolicy.name);
+
+  // Concurrency cap
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  // Retry-After / X-RateLimit-Reset: every call of the site waits until then
+  private pausedUntil = 0;
+
+  // Circuit breaker: opens after `breakerThreshold` consecutive failures, then lets one probe through per cooldown
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(private readonly site: string) {}
+
+  async execute<T>(
+    send: () => Promise<AxiosResponse<T>>,
+    options: JiraRequestOptions = {},
+  ): Promise<AxiosResponse<T>> {
+    const config = getHttpPolicyConfig();
+
+    for (let attempt = 0; ; attempt++) {
+      // Wait out a pause before claiming the probe, so a pause error can't leave it claimed
+      await this.waitForPause(config);
+      this.checkCircuit(config);
+
+      let retryDelay: number | null = null;
+      let failure: any;
+      await this.acquire(config.maxConcurrency);
+      try {
+        const response = await send();
+        this.recordSuccess(response?.headers);
+        return response;
+      } catch (error) {
+        failure = error;
+        retryDelay = this.recordFailure(error, attempt, options, config);
+        if (retryDelay === null) throw error;
+      } finally {
+        this.release();
+      }
+
+      // Sleep outside the slot so waiting retries don't block other calls
+      this.logger.warn(
+        `[HTTP] ${this.site}: ${this.describe(failure)}, retry ${attempt + 1}/${config.maxRetries} in ${retryDelay}ms`,
+      );
+      await sleep(retryDelay);
+    }
+  }
+
+  // 1. Circuit breaker -> fail fast while open, single probe once the cooldown is over
+  private checkCircuit(config: JiraHttpPolicyConfig) {
+    if (this.failures < config.breakerThreshold) return;
+
+    const now = Date.now();
+    if (now < this.openUntil || this.probing) {
+      throw new JiraUnavailableError(
+        `${this.site} is unavailable after ${this.failures} failed calls`,
+        new Date(Math.max(this.openUntil, now)),
+      );
+    }
+    this.probing = true;
+  }
+
+  // 2. Rate limit -> wait for the pause Jira asked for, unless it is longer than we are willing to wait
+  private async waitForPause(config: JiraHttpPolicyConfig) {
+    const wait = this.pausedUntil - Date.now();
+    if (wait <= 0) return;
+
+    if (wait > config.maxDelayMs) {
+      throw new JiraUnavailableError(
+        `${this.site} rate limit: calls are paused until ${new Date(this.pausedUntil).toISOString()}`,
+        new Date(this.pausedUntil),
+      );
+    }
+    await sleep(wait);
+  }
+
+  private recordSuccess(headers: any) {
+    this.failures = 0;
+    this.probing = false;
+
+    // Out of budget: pause the next calls instead of running into 429s
+    if (String(readHeader(headers, 'x-ratelimit-remaining')) === '0') {
+      const resetAt = parseResetAt(headers);
+      if (resetAt) this.pausedUntil = Math.max(this.pausedUntil, resetAt);
+    }
+  }
+
+  // --- Helper: Record a failed call; returns the retry delay, or null to give up ---
+  private recordFailure(
+    error: any,
+    attempt: number,
+    options: JiraRequestOptions,
+    config: JiraHttpPolicyConfig,
+  ): number | null {
+    const status: number | undefined = error?.response?.status;
+    const exhausted = attempt >= config.maxRetries;
+
+    // 429: Jira is up but throttling; any call can be repeated since it wasn't processed
+    if (status === 429) {
+      this.failures = 0;
+      this.probing = false;
+
+      const headers = error.response.headers;
+      const resetAt = parseRetryAfter(headers) ?? parseResetAt(headers);
+      const delay = resetAt
+        ? Math.round(
+            Math.max(0, resetAt - Date.now()) + jitter(config.baseDelayMs),
+          )
+        : this.backoff(attempt, config);
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+
+      return exhausted || delay > config.maxDelayMs ? null : delay;
+    }
+
+    // 5xx and network errors count towards the circuit breaker
+    const transient =
+      (status !== undefined && status >= 500) ||
+      (status === undefined && !!error?.isAxiosError);
+    if (!transient) {
+      // Jira answered (4xx) or the error isn't Jira's: the site is reachable
+      if (status !== undefined) this.failures = 0;
+      this.probing = false;
+      return null;
+    }
+
+    this.failures++;
+    if (this.failures >= config.breakerThreshold) {
+      this.probing = false;
+      this.openUntil = Date.now() + config.breakerCooldownMs;
+      this.logger.error(
+        `[HTTP] ${this.site}: circuit opened after ${this.failures} failed calls, pausing for ${config.breakerCooldownMs}ms`,
+      );
+      return null;
+    }
+
+    const method = String(error?.config?.method ?? '').toLowerCase();
+    const idempotent =
+      options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    return idempotent && !exhausted ? this.backoff(attempt, config) : null;
+  }
+
+  // --- Helper: Exponential backoff with equal jitter, capped ---
+  private backoff(attempt: number, config: JiraHttpPolicyConfig): number {
+    const ceiling = Math.min(
+      config.maxDelayMs,
+      config.baseDelayMs * 2 ** attempt,
+    );
+    return Math.round(ceiling / 2 + jitter(ceiling / 2));
+  }
+
+  private async acquire(limit: number) {
+    while (this.active >= limit) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private describe(error: any): string {
+    const status = error?.response?.status;
+    return status ? `HTTP ${status}` : error?.code || error?.message;
+  }
+}
+
+// --- Helper: Header lookup that works for AxiosHeaders and plain objects ---
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value =
+    typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Retry-After: delay in seconds or an HTTP date
+function parseRetryAfter(headers: any): number | null {
+  const value = readHeader(headers, 'retry-after');
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Date.now() + seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+}
+
+// X-RateLimit-Reset: ISO timestamp when the budget refills
+function parseResetAt(headers: any): number | null {
+  const value = readHeader(headers, 'x-ratelimit-reset');
+  if (!value) return null;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+}
+
+function jitter(maxMs: number): number {
+  return Math.random() * maxMs;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
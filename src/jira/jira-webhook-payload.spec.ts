@@ -0,0 +1,95 @@
+import { parseJiraWebhook } from './jira-webhook-payload';
+
+describe('parseJiraWebhook', () => {
+    const issueEvent = (fields: Record<string, unknown> = {}) => ({
+        webhookEvent: 'jira:issue_updated',
+        user: { accountId: 'acc-1', displayName: 'Jane Doe' },
+        issue: {
+            id: '10001',
+            key: 'PROJ-1',
+            fields: { summary: 'Jira Title', status: { name: 'Open' }, updated: '2026-01-01T11:00:00.000+0000', ...fields },
+        },
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('issue events', () => {
+        it('should accept a well-formed issue event as is', () => {
+            const payload = issueEvent({
+                description: { type: 'doc', version: 1, content: [] },
+            });
+
+            expect(parseJiraWebhook(payload)).toEqual({ status: 'valid', event: payload });
+        });
+
+        it('should wrap a flat Automation payload into an issue event', () => {
+            const payload = { key: 'PROJ-2', fields: { summary: 'From Automation' } };
+
+            expect(parseJiraWebhook(payload)).toEqual({ status: 'valid', event: { issue: payload } });
+        });
+
+        it('should report every problem with the path of the offending property', () => {
+            const result = parseJiraWebhook({
+                webhookEvent: 'jira:issue_created',
+                issue: { key: 'proj 1', fields: { summary: '', status: 'Open', updated: 'yesterday', description: 42 } },
+                changelog: { items: [{ from: null, to: '200' }] },
+            });
+
+            expect(result).toEqual({
+                status: 'invalid',
+                errors: [
+                    'issue.key must be a Jira issue key like PROJ-123',
+                    'issue.fields.summary must be a non-empty string',
+                    'issue.fields.status.name must be a string',
+                    'issue.fields.description must be text or an ADF document',
+                    'issue.fields.updated must be a date',
+                    'changelog.items[0] must name the changed field',
+                ],
+            });
+        });
+
+        it('should only need the issue key and id of a deleted issue', () => {
+            const payload = { webhookEvent: 'jira:issue_deleted', issue: { id: '10001', key: 'PROJ-1', fields: {} } };
+
+            expect(parseJiraWebhook(payload)).toEqual({ status: 'valid', event: payload });
+        });
+
+        it('should reject a payload without an issue', () => {
+            expect(parseJiraWebhook({ some: 'data' })).toEqual({ status: 'invalid', errors: ['issue must be an object'] });
+            expect(parseJiraWebhook('PROJ-1')).toEqual({ status: 'invalid', errors: ['payload must be a JSON object'] });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('comment and attachment events', () => {
+        it('should require the comment id and issue key', () => {
+            const result = parseJiraWebhook({ webhookEvent: 'comment_created', comment: { body: 'Hello' } });
+
+            expect(result).toEqual({
+                status: 'invalid',
+                errors: ['comment.id is required', 'issue.key must be a Jira issue key like PROJ-123'],
+            });
+        });
+
+        it('should accept a comment event without issue fields', () => {
+            const payload = { webhookEvent: 'comment_deleted', comment: { id: '100' }, issue: { key: 'PROJ-1' } };
+
+            expect(parseJiraWebhook(payload)).toEqual({ status: 'valid', event: payload });
+        });
+
+        it('should require the attachment id', () => {
+            expect(parseJiraWebhook({ webhookEvent: 'attachment_deleted', attachment: {} }))
+                .toEqual({ status: 'invalid', errors: ['attachment.id is required'] });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    it('should ignore event types the integration does not handle, with the reason', () => {
+        expect(parseJiraWebhook({ webhookEvent: 'worklog_updated', worklog: { id: '1' } }))
+            .toEqual({ status: 'ignored', webhookEvent: 'worklog_updated', reason: 'worklog events are not synced' });
+        expect(parseJiraWebhook({ webhookEvent: 'jira:issue_archived', issue: { key: 'PROJ-1' } }))
+            .toEqual({ status: 'ignored', webhookEvent: 'jira:issue_archived', reason: 'issue event jira:issue_archived is not supported' });
+    });
+});
@@ -0,0 +1,245 @@
+// Runtime validation of inbound Jira webhook payloads.
+// Jira sends whatever its webhook or Automation rule is configured to send, so nothing
+// past the guard is trusted until it has been checked here.
+import { JiraIssueFields, JiraRichText, JiraUser } from './jira-api.types';
+
+export interface JiraChangelogItem {
+  field?: string;
+  fieldId?: string;
+  from: string | null;
+  to: string | null;
+  fromString?: string | null;
+  toString?: string | null;
+}
+
+export interface JiraChangelog {
+  id?: string | number;
+  items: JiraChangelogItem[];
+}
+
+// jira:issue_created / jira:issue_updated / jira:issue_deleted, and Automation "Send web request" bodies
+export interface JiraIssueEvent {
+  // Absent for Automation payloads
+  webhookEvent?: string;
+  timestamp?: number;
+  user?: JiraUser;
+  issue: { id?: string; key: string; fields: JiraIssueFields };
+  changelog?: JiraChangelog;
+}
+
+// comment_created / comment_updated / comment_deleted
+export interface JiraCommentEvent {
+  webhookEvent: string;
+  timestamp?: number;
+  comment: { id: string | number; body?: JiraRichText; author?: JiraUser };
+  issue: { id?: string; key: string; fields?: JiraIssueFields };
+}
+
+// attachment_created / attachment_deleted (no issue in the payload)
+export interface JiraAttachmentEvent {
+  webhookEvent: string;
+  timestamp?: number;
+  attachment: { id: string | number; filename?: string };
+}
+
+export type JiraWebhookEvent =
+  | JiraIssueEvent
+  | JiraCommentEvent
+  | JiraAttachmentEvent;
+
+export type JiraWebhookParseResult =
+  | { status: 'valid'; event: JiraWebhookEvent }
+  // An event type this integration doesn't handle (worklogs, versions, ...)
+  | { status: 'ignored'; webhookEvent: string; reason: string }
+  // One message per problem, prefixed with the path of the offending property
+  | { status: 'invalid'; errors: string[] };
+
+const ISSUE_KEY = /^[A-Z][A-Z0-9_]*-\d+$/;
+const ISSUE_EVENTS = [
+  'jira:issue_created',
+  'jira:issue_updated',
+  'jira:issue_deleted',
+];
+
+export function isCommentEvent(
+  event: JiraWebhookEvent,
+): event is JiraCommentEvent {
+  return !!event.webhookEvent?.startsWith('comment_');
+}
+
+export function isAttachmentEvent(
+  event: JiraWebhookEvent,
+): event is JiraAttachmentEvent {
+  return !!event.webhookEvent?.startsWith('attachment_');
+}
+
+export function parseJiraWebhook(payload: unknown): JiraWebhookParseResult {
+  if (!isObject(payload)) {
+    return { status: 'invalid', errors: ['payload must be a JSON object'] };
+  }
+
+  const webhookEvent = payload.webhookEvent;
+  if (
+    webhookEvent !== undefined &&
+    (typeof webhookEvent !== 'string' || !webhookEvent)
+  ) {
+    return {
+      status: 'invalid',
+      errors: ['webhookEvent must be a non-empty string'],
+    };
+  }
+
+  const errors: string[] = [];
+  let event: JiraWebhookEvent;
+
+  if (webhookEvent?.startsWith('comment_')) {
+    checkComment(payload, errors);
+    event = payload as unknown as JiraCommentEvent;
+  } else if (webhookEvent?.startsWith('attachment_')) {
+    checkId(payload.attachment, 'attachment', errors);
+    event = payload as unknown as JiraAttachmentEvent;
+  } else if (
+    webhookEvent === undefined ||
+    ISSUE_EVENTS.includes(webhookEvent)
+  ) {
+    // Automation rules may post the issue itself instead of wrapping it in `issue`
+    const flat =
+      webhookEvent === undefined && !('issue' in payload) && 'key' in payload;
+    const issue = flat ? payload : payload.issue;
+    const path = flat ? '' : 'issue.';
+
+    // A deleted issue only needs to be identified
+    checkIssue(issue, path, errors, webhookEvent !== 'jira:issue_deleted');
+    checkUser(payload.user, 'user', errors);
+    checkChangelog(payload.changelog, errors);
+    event = flat
+      ? { issue: payload as unknown as JiraIssueEvent['issue'] }
+      : (payload as unknown as JiraIssueEvent);
+  } else {
+    const reason = webhookEvent.startsWith('jira:issue_')
+      ? `issue event ${webhookEvent} is not supported`
+      : `${webhookEvent.split('_')[0].replace(/^jira:/, '')} events are not synced`;
+    return { status: 'ignored', webhookEvent, reason };
+  }
+
+  return errors.length
+    ? { status: 'invalid', errors }
+    : { status: 'valid', event };
+}
+
+// --- Helper: Issue with key and the fields we copy onto products ---
+function checkIssue(
+  issue: unknown,
+  path: string,
+  errors: string[],
+  requireSummary = true,
+) {
+  // A flat payload is the issue itself, so only `issue` can be missing
+  if (!isObject(issue)) {
+    errors.push('issue must be an object');
+    return;
+  }
+
+  if (typeof issue.key !== 'string' || !ISSUE_KEY.test(issue.key)) {
+    errors.push(`${path}key must be a Jira issue key like PROJ-123`);
+  }
+  if (issue.id !== undefined && typeof issue.id !== 'string') {
+    errors.push(`${path}id must be a string`);
+  }
+
+  const fields = issue.fields;
+  if (!isObject(fields)) {
+    errors.push(`${path}fields must be an object`);
+    return;
+  }
+
+  const summary = fields.summary;
+  if (
+    (requireSummary || summary !== undefined) &&
+    (typeof summary !== 'string' || !summary.trim())
+  ) {
+    errors.push(`${path}fields.summary must be a non-empty string`);
+  }
+  if (
+    fields.status !== undefined &&
+    fields.status !== null &&
+    !(isObject(fields.status) && typeof fields.status.name === 'string')
+  ) {
+    errors.push(`${path}fields.status.name must be a string`);
+  }
+  if (!isRichText(fields.description)) {
+    errors.push(`${path}fields.description must be text or an ADF document`);
+  }
+  if (
+    fields.updated !== undefined &&
+    fields.updated !== null &&
+    (typeof fields.updated !== 'string' ||
+      Number.isNaN(new Date(fields.updated).getTime()))
+  ) {
+    errors.push(`${path}fields.updated must be a date`);
+  }
+}
+
+function checkComment(payload: Record<string, unknown>, errors: string[]) {
+  checkId(payload.comment, 'comment', errors);
+  if (isObject(payload.comment) && !isRichText(payload.comment.body)) {
+    errors.push('comment.body must be text or an ADF document');
+  }
+
+  const issue = payload.issue;
+  if (
+    !isObject(issue) ||
+    typeof issue.key !== 'string' ||
+    !ISSUE_KEY.test(issue.key)
+  ) {
+    errors.push('issue.key must be a Jira issue key like PROJ-123');
+  }
+}
+
+function checkId(value: unknown, path: string, errors: string[]) {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+  } else if (
+    (typeof value.id !== 'string' && typeof value.id !== 'number') ||
+    value.id === ''
+  ) {
+    errors.push(`${path}.id is required`);
+  }
+}
+
+function checkUser(user: unknown, path: string, errors: string[]) {
+  if (user === undefined) return;
+  if (!isObject(user) || typeof user.accountId !== 'string') {
+    errors.push(`${path}.accountId must be a string`);
+  }
+}
+
+function checkChangelog(changelog: unknown, errors: string[]) {
+  if (changelog === undefined) return;
+  if (!isObject(changelog) || !Array.isArray(changelog.items)) {
+    errors.push('changelog.items must be an array');
+    return;
+  }
+
+  changelog.items.forEach((item, index) => {
+    if (
+      !isObject(item) ||
+      (typeof item.field !== 'string' && typeof item.fieldId !== 'string')
+    ) {
+      errors.push(`changelog.items[${index}] must name the changed field`);
+    }
+  });
+}
+
+// Plain text, an ADF document, or empty
+function isRichText(value: unknown): boolean {
+  if (value === undefined || value === null || typeof value === 'string')
+    return true;
+  return (
+    isObject(value) && value.type === 'doc' && Array.isArray(value.content)
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Delete, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { JiraWebhookQuarantineService } from './jira-webhook-quarantine.service';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('admin/jira-webhooks/quarantine')
+@Roles('admin')
+export class JiraWebhookQuarantineController {
+  constructor(private readonly quarantineService: JiraWebhookQuarantineService) { }
+
+  @Get()
+  listQuarantined(@Query('connectionId', new ParseIntPipe({ optional: true })) connectionId?: number) {
+    return this.quarantineService.findAll(connectionId);
+  }
+
+  @Delete(':id')
+  deleteQuarantined(@Param('id', ParseIntPipe) id: number) {
+    return this.quarantineService.remove(id);
+  }
+}
@@ -0,0 +1,76 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraWebhookQuarantineService } from './jira-webhook-quarantine.service';
+import { QuarantinedJiraWebhook } from './entities/jira-webhook-quarantine.entity';
+
+describe('JiraWebhookQuarantineService', () => {
+    let service: JiraWebhookQuarantineService;
+    let quarantineRepo: jest.Mocked<Repository<QuarantinedJiraWebhook>>;
+
+    const payload = { webhookEvent: 'jira:issue_updated', issue: { key: 'PROJ-1' } };
+    const errors = ['issue.fields must be an object'];
+
+    beforeEach(async () => {
+        delete process.env.JIRA_WEBHOOK_INVALID_PAYLOADS;
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                JiraWebhookQuarantineService,
+                {
+                    provide: getRepositoryToken(QuarantinedJiraWebhook),
+                    useFactory: () => ({
+                        save: jest.fn((entry) => Promise.resolve({ id: 5, ...entry })),
+                        find: jest.fn(),
+                        delete: jest.fn(),
+                    }),
+                },
+            ],
+        }).compile();
+
+        service = module.get(JiraWebhookQuarantineService);
+        quarantineRepo = module.get(getRepositoryToken(QuarantinedJiraWebhook));
+
+        jest.spyOn(service['logger'], 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        delete process.env.JIRA_WEBHOOK_INVALID_PAYLOADS;
+    });
+
+    it('should store an invalid payload with its errors by default', async () => {
+        const result = await service.handleInvalid(payload, errors, 'delivery-1', 2);
+
+        expect(quarantineRepo.save).toHaveBeenCalledWith({
+            connectionId: 2,
+            webhookEvent: 'jira:issue_updated',
+            webhookId: 'delivery-1',
+            payload,
+            errors,
+        });
+        expect(result).toEqual({ received: true, quarantined: true, errors });
+    });
+
+    it('should answer 400 with the errors under JIRA_WEBHOOK_INVALID_PAYLOADS=reject', async () => {
+        process.env.JIRA_WEBHOOK_INVALID_PAYLOADS = 'reject';
+
+        const error = await service.handleInvalid(payload, errors).catch((e) => e);
+
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect(error.getResponse()).toEqual(expect.objectContaining({ code: 'INVALID_WEBHOOK_PAYLOAD', errors }));
+        expect(quarantineRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an unknown policy', () => {
+        process.env.JIRA_WEBHOOK_INVALID_PAYLOADS = 'drop';
+
+        expect(() => service.getPolicy()).toThrow('JIRA_WEBHOOK_INVALID_PAYLOADS must be one of quarantine, reject');
+    });
+
+    it('should throw NotFoundException when deleting an unknown entry', async () => {
+        quarantineRepo.delete.mockResolvedValue({ affected: 0, raw: {} });
+
+        await expect(service.remove(9)).rejects.toThrow(NotFoundException);
+    });
+});
@@ -0,0 +1,94 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { QuarantinedJiraWebhook } from './entities/jira-webhook-quarantine.entity';
+
+export type InvalidWebhookPolicy = 'quarantine' | 'reject';
+const INVALID_WEBHOOK_POLICIES: InvalidWebhookPolicy[] = [
+  'quarantine',
+  'reject',
+];
+
+@Injectable()
+export class JiraWebhookQuarantineService {
+  private readonly logger = new Logger(JiraWebhookQuarantineService.name);
+
+  constructor(
+    @InjectRepository(QuarantinedJiraWebhook)
+    private quarantineRepo: Repository<QuarantinedJiraWebhook>,
+  ) {}
+
+  // JIRA_WEBHOOK_INVALID_PAYLOADS: keep malformed deliveries for inspection (default) or answer 400
+  getPolicy(): InvalidWebhookPolicy {
+    const policy = (
+      process.env.JIRA_WEBHOOK_INVALID_PAYLOADS || 'quarantine'
+    ).toLowerCase() as InvalidWebhookPolicy;
+    if (!INVALID_WEBHOOK_POLICIES.includes(policy)) {
+      throw new Error(
+        `JIRA_WEBHOOK_INVALID_PAYLOADS must be one of ${INVALID_WEBHOOK_POLICIES.join(', ')}`,
+      );
+    }
+    return policy;
+  }
+
+  // 1. Webhook -> a payload that failed validation is stored or rejected, never applied
+  async handleInvalid(
+    payload: unknown,
+    errors: string[],
+    webhookId?: string,
+    connectionId?: number,
+  ) {
+    const raw = payload as { webhookEvent?: unknown } | null;
+    const webhookEvent =
+      typeof raw?.webhookEvent === 'string' ? raw.webhookEvent : null;
+    const site =
+      connectionId === undefined
+        ? 'default site'
+        : `connection ${connectionId}`;
+
+    if (this.getPolicy() === 'reject') {
+      this.logger.warn(
+        `[WEBHOOK] Rejected invalid ${webhookEvent ?? 'payload'} from ${site}: ${errors.join('; ')}`,
+      );
+      throw new BadRequestException({
+        code: 'INVALID_WEBHOOK_PAYLOAD',
+        message: 'Jira webhook payload failed validation',
+        errors,
+      });
+    }
+
+    const entry = await this.quarantineRepo.save({
+      connectionId: connectionId ?? null,
+      webhookEvent: webhookEvent?.slice(0, 100) ?? null,
+      webhookId: webhookId ?? null,
+      payload: payload ?? null,
+      errors,
+    });
+    this.logger.warn(
+      `[WEBHOOK] Quarantined invalid ${webhookEvent ?? 'payload'} from ${site} as #${entry.id}: ${errors.join('; ')}`,
+    );
+
+    return { received: true, quarantined: true, errors };
+  }
+
+  // 2. Admin -> inspect and discard quarantined deliveries
+  findAll(connectionId?: number) {
+    return this.quarantineRepo.find({
+      where: connectionId === undefined ? {} : { connectionId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+  }
+
+  async remove(id: number) {
+    const result = await this.quarantineRepo.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(`Quarantined webhook ${id} not found`);
+    }
+    return { deleted: true, id };
+  }
+}
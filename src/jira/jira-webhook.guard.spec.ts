@@ -0,0 +1,249 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { JiraWebhookGuard } from './jira-webhook.guard';
+import { JiraConnectionsService } from './jira-connections.service';
+
+describe('JiraWebhookGuard', () => {
+    let guard: JiraWebhookGuard;
+
+    const body = { webhookEvent: 'jira:issue_updated', timestamp: Date.now(), issue: { key: 'PROJ-1' } };
+    const rawBody = Buffer.from(JSON.stringify(body));
+
+    const sign = (secret: string, payload: Buffer = rawBody) =>
+        `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+    const contextFor = (req: { headers?: any; query?: any; params?: any; body?: any; rawBody?: Buffer }) =>
+        ({
+            switchToHttp: () => ({
+                getRequest: () => ({ headers: {}, query: {}, body, rawBody, ...req }),
+            }),
+        }) as unknown as ExecutionContext;
+
+    const rejectionOf = (context: ExecutionContext) => {
+        try {
+            guard.canActivate(context);
+        } catch (e) {
+            expect(e).toBeInstanceOf(UnauthorizedException);
+            return (e as UnauthorizedException).getResponse();
+        }
+        throw new Error('Expected the guard to reject the request');
+    };
+
+    beforeEach(() => {
+        delete process.env.JIRA_WEBHOOK_SECRET;
+        delete process.env.JIRA_WEBHOOK_TOKEN;
+        delete process.env.JIRA_WEBHOOK_MAX_AGE_SECONDS;
+
+        guard = new JiraWebhookGuard();
+        jest.spyOn(guard['logger'], 'warn').mockImplementation(() => { });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('signature verification', () => {
+        beforeEach(() => {
+            process.env.JIRA_WEBHOOK_SECRET = 'shh';
+        });
+
+        it('should accept a payload signed with the webhook secret', () => {
+            const context = contextFor({ headers: { 'x-hub-signature': sign('shh') } });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+
+        it('should reject a payload signed with another secret', () => {
+            const context = contextFor({ headers: { 'x-hub-signature': sign('wrong') } });
+
+            expect(rejectionOf(context)).toEqual({
+                statusCode: 401,
+                error: 'Unauthorized',
+                code: 'INVALID_SIGNATURE',
+                message: 'Webhook signature does not match payload',
+            });
+        });
+
+        it('should reject a payload that was modified after signing', () => {
+            const context = contextFor({
+                headers: { 'x-hub-signature': sign('shh') },
+                rawBody: Buffer.from(JSON.stringify({ ...body, tampered: true })),
+            });
+
+            expect(rejectionOf(context)).toEqual(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+        });
+
+        it('should reject an unsupported signature algorithm', () => {
+            const context = contextFor({ headers: { 'x-hub-signature': 'md5=abc' } });
+
+            expect(rejectionOf(context)).toEqual(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+        });
+
+        it('should reject a request without signature or token', () => {
+            expect(rejectionOf(contextFor({}))).toEqual(expect.objectContaining({
+                code: 'MISSING_CREDENTIALS',
+                message: 'Missing X-Hub-Signature header',
+            }));
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('query token fallback', () => {
+        beforeEach(() => {
+            process.env.JIRA_WEBHOOK_TOKEN = 'automation-token';
+        });
+
+        it('should accept a matching token', () => {
+            const context = contextFor({ query: { token: 'automation-token' } });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+
+        it('should reject a wrong token', () => {
+            const context = contextFor({ query: { token: 'guess' } });
+
+            expect(rejectionOf(context)).toEqual(expect.objectContaining({ code: 'INVALID_TOKEN' }));
+        });
+
+        it('should use the token when a secret is configured but no signature is sent', () => {
+            process.env.JIRA_WEBHOOK_SECRET = 'shh';
+            const context = contextFor({ query: { token: 'automation-token' } });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('replay protection', () => {
+        beforeEach(() => {
+            process.env.JIRA_WEBHOOK_TOKEN = 'automation-token';
+        });
+
+        it('should accept a delivery Jira retries after a failed request', () => {
+            const context = contextFor({
+                query: { token: 'automation-token' },
+                headers: { 'x-atlassian-webhook-identifier': 'delivery-1' },
+            });
+
+            // First attempt passes the guard, then the handler answers 5xx
+            expect(guard.canActivate(context)).toBe(true);
+            // The retry carries the same id; the inbox skips it if the first attempt was stored
+            expect(guard.canActivate(context)).toBe(true);
+        });
+
+        it('should accept a retry within Jira\'s retry schedule by default', () => {
+            const context = contextFor({
+                query: { token: 'automation-token' },
+                body: { ...body, timestamp: Date.now() - 60 * 60 * 1000 },
+            });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+
+        it('should reject a payload timestamp outside the accepted window', () => {
+            process.env.JIRA_WEBHOOK_MAX_AGE_SECONDS = '60';
+            const context = contextFor({
+                query: { token: 'automation-token' },
+                body: { ...body, timestamp: Date.now() - 120 * 1000 },
+            });
+
+            expect(rejectionOf(context)).toEqual(expect.objectContaining({ code: 'STALE_DELIVERY' }));
+        });
+
+        it('should reject a signed payload without a timestamp', () => {
+            process.env.JIRA_WEBHOOK_SECRET = 'shh';
+            const unstamped = { webhookEvent: 'jira:issue_updated', issue: { key: 'PROJ-1' } };
+            const unstampedRaw = Buffer.from(JSON.stringify(unstamped));
+            const context = contextFor({
+                headers: { 'x-hub-signature': sign('shh', unstampedRaw) },
+                body: unstamped,
+                rawBody: unstampedRaw,
+            });
+
+            expect(rejectionOf(context)).toEqual(expect.objectContaining({ code: 'MISSING_TIMESTAMP' }));
+        });
+
+        it('should accept an Automation payload without a timestamp', () => {
+            const context = contextFor({
+                query: { token: 'automation-token' },
+                body: { issue: { key: 'PROJ-1', fields: {} } },
+            });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+
+        it('should accept a recent payload timestamp', () => {
+            const context = contextFor({
+                query: { token: 'automation-token' },
+                body: { ...body, timestamp: Date.now() - 1000 },
+            });
+
+            expect(guard.canActivate(context)).toBe(true);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('per-connection webhooks', () => {
+        let connections: { getWebhookCredentials: jest.Mock };
+
+        beforeEach(() => {
+            process.env.JIRA_WEBHOOK_SECRET = 'env-secret';
+            connections = {
+                getWebhookCredentials: jest.fn().mockResolvedValue({ enabled: true, secret: 'site-secret', token: null }),
+            };
+            guard = new JiraWebhookGuard(connections as unknown as JiraConnectionsService);
+            jest.spyOn(guard['logger'], 'warn').mockImplementation(() => { });
+        });
+
+        it('should verify the signature with the secret of the connection', async () => {
+            const context = contextFor({
+                params: { connectionId: '2' },
+                headers: { 'x-hub-signature': sign('site-secret') },
+            });
+
+            await expect(guard.canActivate(context)).resolves.toBe(true);
+            expect(connections.getWebhookCredentials).toHaveBeenCalledWith(2);
+        });
+
+        it('should reject a delivery signed with the default site secret', async () => {
+            const context = contextFor({
+                params: { connectionId: '2' },
+                headers: { 'x-hub-signature': sign('env-secret') },
+            });
+
+            await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject deliveries for a connection without its own secret or token', async () => {
+            connections.getWebhookCredentials.mockResolvedValue({ enabled: true, secret: null, token: null });
+            const context = contextFor({
+                params: { connectionId: '2' },
+                headers: { 'x-hub-signature': sign('env-secret') },
+            });
+
+            await expect(guard.canActivate(context)).rejects.toMatchObject({
+                response: expect.objectContaining({ code: 'WEBHOOK_AUTH_NOT_CONFIGURED' }),
+            });
+        });
+
+        it('should reject deliveries for a disabled connection', async () => {
+            connections.getWebhookCredentials.mockResolvedValue({ enabled: false, secret: 'site-secret', token: null });
+            const context = contextFor({
+                params: { connectionId: '2' },
+                headers: { 'x-hub-signature': sign('site-secret') },
+            });
+
+            await expect(guard.canActivate(context)).rejects.toMatchObject({
+                response: expect.objectContaining({ code: 'CONNECTION_DISABLED' }),
+            });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    it('should reject every request when no secret or token is configured', () => {
+        expect(rejectionOf(contextFor({ headers: { 'x-hub-signature': sign('shh') } })))
+            .toEqual(expect.objectContaining({ code: 'WEBHOOK_AUTH_NOT_CONFIGURED' }));
+    });
+});
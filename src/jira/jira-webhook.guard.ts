@@ -0,0 +1,177 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  Optional,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { JiraConnectionsService } from './jira-connections.service';
+
+export type JiraWebhookRejection =
+  | 'WEBHOOK_AUTH_NOT_CONFIGURED'
+  | 'CONNECTION_DISABLED'
+  | 'MISSING_CREDENTIALS'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_TOKEN'
+  | 'MISSING_TIMESTAMP'
+  | 'STALE_DELIVERY';
+
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+
+// Jira retries a failed delivery up to 5 times, 5 to 15 minutes apart, with the original timestamp
+const DEFAULT_MAX_AGE_SECONDS = 90 * 60;
+
+// Verifies that a webhook really comes from Jira and is recent.
+// Repeated deliveries pass: a retry after a failed request must get through, and the inbox stores each signed body once
+@Injectable()
+export class JiraWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(JiraWebhookGuard.name);
+
+  constructor(@Optional() private connections?: JiraConnectionsService) {}
+
+  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+    const req = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+
+    // Per-connection routes verify against that site's credentials
+    const connectionId = Number(req.params?.connectionId);
+    if (connectionId && this.connections) {
+      return this.connections
+        .getWebhookCredentials(connectionId)
+        .then(({ enabled, secret, token }) => {
+          if (!enabled) {
+            this.reject(
+              'CONNECTION_DISABLED',
+              `Jira connection ${connectionId} is disabled`,
+            );
+          }
+          if (!secret && !token) {
+            this.reject(
+              'WEBHOOK_AUTH_NOT_CONFIGURED',
+              `Jira connection ${connectionId} has no webhook secret or token`,
+            );
+          }
+          return this.verify(req, secret, token);
+        });
+    }
+
+    return this.verify(
+      req,
+      process.env.JIRA_WEBHOOK_SECRET,
+      process.env.JIRA_WEBHOOK_TOKEN,
+    );
+  }
+
+  private verify(
+    req: RawBodyRequest<Request>,
+    secret?: string | null,
+    token?: string | null,
+  ): boolean {
+    const signed = this.verifyAuthenticity(req, secret, token);
+    this.verifyFreshness(req, signed);
+    return true;
+  }
+
+  // 1. HMAC signature (X-Hub-Signature), falling back to the shared query token; true when signed
+  private verifyAuthenticity(
+    req: RawBodyRequest<Request>,
+    secret?: string | null,
+    token?: string | null,
+  ): boolean {
+    const signature = req.headers['x-hub-signature'] as string | undefined;
+    const queryToken = req.query?.token as string | undefined;
+
+    if (!secret && !token) {
+      this.reject(
+        'WEBHOOK_AUTH_NOT_CONFIGURED',
+        'JIRA_WEBHOOK_SECRET or JIRA_WEBHOOK_TOKEN must be configured',
+      );
+    }
+
+    if (secret && signature) {
+      if (!this.isValidSignature(signature, secret, req.rawBody)) {
+        this.reject(
+          'INVALID_SIGNATURE',
+          'Webhook signature does not match payload',
+        );
+      }
+      return true;
+    }
+
+    if (token && queryToken) {
+      if (!this.safeEqual(queryToken, token)) {
+        this.reject('INVALID_TOKEN', 'Webhook token is invalid');
+      }
+      return false;
+    }
+
+    this.reject(
+      'MISSING_CREDENTIALS',
+      secret
+        ? 'Missing X-Hub-Signature header'
+        : 'Missing token query parameter',
+    );
+  }
+
+  // 2. Replay protection: reject timestamps older than Jira's retries can be.
+  // The timestamp is only trusted when signed; anyone holding the query token can send any body anyway
+  private verifyFreshness(req: Request, signed: boolean) {
+    const maxAgeMs =
+      (Number(process.env.JIRA_WEBHOOK_MAX_AGE_SECONDS) ||
+        DEFAULT_MAX_AGE_SECONDS) * 1000;
+
+    const body: unknown = req.body;
+    const timestamp =
+      typeof body === 'object' && body !== null && 'timestamp' in body
+        ? Number(body.timestamp)
+        : NaN;
+    if (!timestamp) {
+      if (signed) {
+        this.reject('MISSING_TIMESTAMP', 'Signed webhook has no timestamp');
+      }
+      return;
+    }
+    if (Math.abs(Date.now() - timestamp) > maxAgeMs) {
+      this.reject(
+        'STALE_DELIVERY',
+        `Webhook timestamp ${new Date(timestamp).toISOString()} is outside the accepted window`,
+      );
+    }
+  }
+
+  // --- Helper: Compare "<alg>=<hex>" header against HMAC of the raw body ---
+  private isValidSignature(
+    header: string,
+    secret: string,
+    rawBody?: Buffer,
+  ): boolean {
+    const [algorithm, digest] = header.split('=', 2);
+    if (!rawBody || !digest || !SIGNATURE_ALGORITHMS.includes(algorithm)) {
+      return false;
+    }
+
+    const expected = createHmac(algorithm, secret)
+      .update(rawBody)
+      .digest('hex');
+    return this.safeEqual(digest, expected);
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private reject(code: JiraWebhookRejection, message: string): never {
+    this.logger.warn(`[WEBHOOK] Rejected (${code}): ${message}`);
+    throw new UnauthorizedException({
+      statusCode: 401,
+      error: 'Unauthorized',
+      code,
+      message,
+    });
+  }
+}
@@ -0,0 +1,136 @@
+// Jira integration settings that don't fit in a single env var.
+// JSON values are read on every call so they can be changed in tests and at runtime.
+
+// --- Helper: Parse a JSON env var with a readable error ---
+export function readJsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    throw new Error(`${name} must be valid JSON: ${e.message}`);
+  }
+}
+
+// Compare Jira status / transition names the way Jira users type them
+export function sameName(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// --- Transition fields ---
+// JIRA_TRANSITION_FIELDS: fields to send when moving to a status, keyed by target status.
+// `resolution` is a resolution name, `comment` plain text, anything else is sent as a raw Jira field.
+// e.g. {"Dropped": {"resolution": "Won't Do", "comment": "Dropped from catalogue"}}
+export interface JiraTransitionFieldConfig {
+  resolution?: string;
+  comment?: string;
+  [field: string]: any;
+}
+
+export function getTransitionFieldConfig(
+  status: string,
+): JiraTransitionFieldConfig {
+  const config = readJsonEnv<Record<string, JiraTransitionFieldConfig>>(
+    'JIRA_TRANSITION_FIELDS',
+    {},
+  );
+  const key = Object.keys(config).find((name) => sameName(name, status));
+  return key ? config[key] : {};
+}
+
+// --- Workflow graph ---
+// JIRA_WORKFLOW: status -> statuses reachable in one transition, used to plan multi-hop moves.
+// e.g. {"To Do": ["In Progress"], "In Progress": ["Done", "To Do"], "Done": ["To Do"]}
+export function getWorkflowGraph(): Record<string, string[]> {
+  return readJsonEnv<Record<string, string[]>>('JIRA_WORKFLOW', {});
+}
+
+// Shortest status path from `from` to `to` (both included), or null if unreachable
+export function findWorkflowPath(
+  graph: Record<string, string[]>,
+  from: string,
+  to: string,
+): string[] | null {
+  const neighbours = (status: string) => {
+    const key = Object.keys(graph).find((name) => sameName(name, status));
+    return key ? graph[key] : [];
+  };
+
+  const queue: string[][] = [[from]];
+  const seen = new Set([from.toLowerCase()]);
+
+  while (queue.length) {
+    const path = queue.shift()!;
+    const last = path[path.length - 1];
+    if (sameName(last, to)) return path;
+
+    for (const next of neighbours(last)) {
+      if (seen.has(next.toLowerCase())) continue;
+      seen.add(next.toLowerCase());
+      queue.push([...path, next]);
+    }
+  }
+  return null;
+}
+
+// --- OAuth 2.0 (3LO) ---
+// JIRA_OAUTH_CLIENT_ID / _SECRET / _REDIRECT_URI of an Atlassian developer console app.
+// When unset, every site keeps using basic auth (JIRA_EMAIL / JIRA_API_TOKEN).
+export interface JiraOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+export function getOAuthConfig(): JiraOAuthConfig | null {
+  const clientId = process.env.JIRA_OAUTH_CLIENT_ID;
+  const clientSecret = process.env.JIRA_OAUTH_CLIENT_SECRET;
+  const redirectUri = process.env.JIRA_OAUTH_REDIRECT_URI;
+  if (!clientId || !clientSecret || !redirectUri) return null;
+
+  return {
+    clientId,
+    clientSecret,
+    redirectUri,
+    // offline_access is what makes Atlassian return a refresh token
+    scopes:
+      process.env.JIRA_OAUTH_SCOPES ||
+      'read:jira-work write:jira-work read:jira-user offline_access',
+  };
+}
+
+// --- HTTP policy ---
+// Retries, rate limiting, circuit breaker and concurrency cap, applied per Jira site.
+export interface JiraHttpPolicyConfig {
+  // Retries after the first attempt (429 always, 5xx / network errors only for idempotent calls)
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest wait for a retry or a rate-limit pause; beyond that the call fails
+  maxDelayMs: number;
+  maxConcurrency: number;
+  // Consecutive 5xx / network failures that open the circuit, and how long it stays open
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+}
+
+export function getHttpPolicyConfig(): JiraHttpPolicyConfig {
+  return {
+    maxRetries: readNumberEnv('JIRA_HTTP_MAX_RETRIES', 3),
+    baseDelayMs: readNumberEnv('JIRA_HTTP_BASE_DELAY_MS', 500),
+    maxDelayMs: readNumberEnv('JIRA_HTTP_MAX_DELAY_MS', 30000),
+    maxConcurrency: Math.max(1, readNumberEnv('JIRA_HTTP_MAX_CONCURRENCY', 5)),
+    breakerThreshold: Math.max(1, readNumberEnv('JIRA_HTTP_BREAKER_THRESHOLD', 5)),
+    breakerCooldownMs: readNumberEnv('JIRA_HTTP_BREAKER_COOLDOWN_MS', 30000),
+  };
+}
+
+// --- Helper: Numeric env var; unset or invalid = fallback (0 is a valid value) ---
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw === undefined || raw.trim() === '' || !Number.isFinite(value)
+    ? fallback
+    : value;
+}
@@ -1,8 +1,12 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, Logger } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, Logger, UseGuards, Headers, ParseIntPipe } from '@nestjs/common';
 import { JiraService } from './jira.service';
+import { JiraWebhookGuard } from './jira-webhook.guard';
 import { CreateJiraDto } from './dto/create-jira.dto';
 import { UpdateJiraDto } from './dto/update-jira.dto';
-import { ProductsService } from 'src/products/products.service';
+import { JiraWebhookInboxService } from 'src/products/jira-webhook-inbox.service';
+import { Public } from '../auth/auth.decorators';
+import { JiraWebhookQuarantineService } from './jira-webhook-quarantine.service';
+import { parseJiraWebhook } from './jira-webhook-payload';
 
 @Controller('jira')
 export class JiraController {
@@ -10,14 +14,45 @@ export class JiraController {
 
   constructor(
     private readonly jiraService: JiraService,
-    private readonly productsService: ProductsService
+    private readonly webhookInbox: JiraWebhookInboxService,
+    private readonly quarantineService: JiraWebhookQuarantineService,
   ) { }
 
+  // Authenticated by JiraWebhookGuard instead of API credentials
+  @Public()
   @Post('webhook')
-  async handleWebhook(@Body() data: any) {
+  @UseGuards(JiraWebhookGuard)
+  async handleWebhook(@Body() data: unknown, @Headers('x-atlassian-webhook-identifier') webhookId?: string) {
     // Log raw payload for POC traceability
     // this.logger.log(`[WEBHOOK] Received payload: ${JSON.stringify(data)}`);
 
-    return this.productsService.handleJiraWebhook(data);
+    return this.receive(data, webhookId);
+  }
+
+  // Webhook of an additional Jira site registered under /admin/jira-connections
+  @Public()
+  @Post('webhook/:connectionId')
+  @UseGuards(JiraWebhookGuard)
+  async handleConnectionWebhook(
+    @Param('connectionId', ParseIntPipe) connectionId: number,
+    @Body() data: unknown,
+    @Headers('x-atlassian-webhook-identifier') webhookId?: string,
+  ) {
+    return this.receive(data, webhookId, connectionId);
+  }
+
+  // --- Helper: Validate and store the event; the inbox worker applies it after Jira has its answer ---
+  private async receive(data: unknown, webhookId?: string, connectionId?: number) {
+    const parsed = parseJiraWebhook(data);
+
+    if (parsed.status === 'ignored') {
+      this.logger.log(`[WEBHOOK] Ignored ${parsed.webhookEvent}: ${parsed.reason}`);
+      return { received: true, ignored: true };
+    }
+    if (parsed.status === 'invalid') {
+      return this.quarantineService.handleInvalid(data, parsed.errors, webhookId, connectionId);
+    }
+
+    return this.webhookInbox.enqueue(parsed.event, webhookId, connectionId);
   }
 }
\ No newline at end of file
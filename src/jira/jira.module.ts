@@ -1,16 +1,30 @@
 import { forwardRef, Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { JiraService } from './jira.service';
 import { JiraController } from './jira.controller';
+import { JiraClientFactory } from './jira-client.factory';
+import { JiraConnectionsService } from './jira-connections.service';
+import { JiraConnectionsController } from './jira-connections.controller';
+import { JiraConnection } from './entities/jira-connection.entity';
+import { JiraOAuthToken } from './entities/jira-oauth-token.entity';
+import { JiraOAuthService } from './jira-oauth.service';
+import { JiraOAuthController } from './jira-oauth.controller';
+import { QuarantinedJiraWebhook } from './entities/jira-webhook-quarantine.entity';
+import { JiraWebhookQuarantineService } from './jira-webhook-quarantine.service';
+import { JiraWebhookQuarantineController } from './jira-webhook-quarantine.controller';
+import { Product } from '../products/entities/product.entity';
 import { ProductsModule } from 'src/products/products.module';
 
 @Module({
   imports: [
-    HttpModule,
+    // register() gives the default client its own axios instance instead of the global one
+    HttpModule.register({}),
+    TypeOrmModule.forFeature([JiraConnection, JiraOAuthToken, QuarantinedJiraWebhook, Product]),
     forwardRef(() => ProductsModule)
   ],
-  controllers: [JiraController],
-  providers: [JiraService],
-  exports: [JiraService],
+  controllers: [JiraController, JiraConnectionsController, JiraOAuthController, JiraWebhookQuarantineController],
+  providers: [JiraService, JiraClientFactory, JiraConnectionsService, JiraOAuthService, JiraWebhookQuarantineService],
+  exports: [JiraService, JiraClientFactory, JiraConnectionsService],
 })
 export class JiraModule { }
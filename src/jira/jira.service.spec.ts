@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JiraService } from './jira.service';
 import { HttpService } from '@nestjs/axios';
 import { of, throwError } from 'rxjs';
+import { AxiosHeaders } from 'axios';
+import { JiraOAuthService } from './jira-oauth.service';
 
 describe('JiraService', () => {
     let service: JiraService;
@@ -70,6 +72,22 @@ describe('JiraService', () => {
             logSpy.mockRestore();
         });
 
+        it('should file the issue under its parent', async () => {
+            httpService.post = jest.fn().mockReturnValue(of({ data: { key: 'CAT-6', id: '1006' } }));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            await service.createIssue({
+                summary: 'Child',
+                route: { projectKey: 'CAT', issueType: 'Story' },
+                parentKey: 'CAT-5',
+            });
+
+            expect(httpService.post).toHaveBeenCalledWith(
+                '/rest/api/3/issue',
+                { fields: expect.objectContaining({ project: { key: 'CAT' }, parent: { key: 'CAT-5' } }) },
+            );
+        });
+
         it('should throw and log error if HttpService.post fails', async () => {
             const dto = { summary: 'Fail Issue' };
 
@@ -87,6 +105,91 @@ describe('JiraService', () => {
 
             errorSpy.mockRestore();
         });
+
+        it('should file the issue according to the given route', async () => {
+            httpService.post = jest.fn().mockReturnValue(of({ data: { key: 'HW-1', id: '1001' } }));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            await service.createIssue({
+                summary: 'Routed',
+                route: { projectKey: 'HW', issueType: 'Story', components: ['Boards'], labels: ['hardware'], priority: 'High' },
+            });
+
+            expect(httpService.post).toHaveBeenCalledWith('/rest/api/3/issue', {
+                fields: expect.objectContaining({
+                    project: { key: 'HW' },
+                    issuetype: { name: 'Story' },
+                    components: [{ name: 'Boards' }],
+                    labels: ['hardware'],
+                    priority: { name: 'High' },
+                }),
+            });
+        });
+
+        it('should create the issue without the reporter when Jira rejects it', async () => {
+            const rejection = Object.assign(new Error('Bad Request'), {
+                response: { status: 400, data: { errors: { reporter: 'Field cannot be set' } } },
+            });
+            httpService.post = jest.fn()
+                .mockReturnValueOnce(throwError(() => rejection))
+                .mockReturnValueOnce(of({ data: { key: 'PROJ-1', id: '1001' } }));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+            jest.spyOn(service['logger'], 'warn').mockImplementation();
+
+            const result = await service.createIssue({ summary: 'A', reporterAccountId: 'acc-1' });
+
+            expect(httpService.post).toHaveBeenNthCalledWith(1, '/rest/api/3/issue', {
+                fields: expect.objectContaining({ reporter: { accountId: 'acc-1' } }),
+            });
+            expect((httpService.post as jest.Mock).mock.calls[1][1].fields).not.toHaveProperty('reporter');
+            expect(result).toEqual({ jiraKey: 'PROJ-1', jiraId: '1001' });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('createIssues', () => {
+        it('should map the bulk response back to input order', async () => {
+            httpService.post = jest.fn().mockReturnValue(of({
+                data: {
+                    issues: [{ id: '1001', key: 'PROJ-1' }, { id: '1003', key: 'PROJ-3' }],
+                    errors: [{
+                        status: 400,
+                        failedElementNumber: 1,
+                        elementErrors: { errors: { summary: 'Summary is too long' } },
+                    }],
+                },
+            }));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            const result = await service.createIssues([
+                { summary: 'A', productId: 1 },
+                { summary: 'B', productId: 2 },
+                { summary: 'C', productId: 3 },
+            ]);
+
+            expect(httpService.post).toHaveBeenCalledWith('/rest/api/3/issue/bulk', {
+                issueUpdates: [
+                    expect.objectContaining({ fields: expect.objectContaining({ summary: 'A' }) }),
+                    expect.objectContaining({ fields: expect.objectContaining({ summary: 'B' }) }),
+                    expect.objectContaining({ fields: expect.objectContaining({ summary: 'C' }) }),
+                ],
+            });
+            expect(result).toEqual([
+                { jiraKey: 'PROJ-1', jiraId: '1001' },
+                { error: '{"summary":"Summary is too long"}' },
+                { jiraKey: 'PROJ-3', jiraId: '1003' },
+            ]);
+        });
+
+        it('should throw and log error if the bulk call fails', async () => {
+            httpService.post = jest.fn().mockReturnValue(throwError(() => new Error('Jira down')));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+            const errorSpy = jest.spyOn(service['logger'], 'error').mockImplementation();
+
+            await expect(service.createIssues([{ summary: 'A' }])).rejects.toThrow('Jira down');
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Bulk Create Failed'));
+        });
     });
 
     /////////////////////////////////////////////////////
@@ -140,6 +243,42 @@ describe('JiraService', () => {
             errorSpy.mockRestore();
         });
 
+        it('should send Markdown descriptions as formatted ADF', async () => {
+            const dto = { issueKey: 'PROJ-1', description: '## Specs\n\n- **Size:** XL' };
+
+            httpService.put = jest.fn().mockReturnValue(of({ data: {} }));
+            const logSpy = jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            await service.updateIssue(dto);
+
+            expect(httpService.put).toHaveBeenCalledWith(`/rest/api/3/issue/PROJ-1`, {
+                fields: {
+                    description: {
+                        type: 'doc',
+                        version: 1,
+                        content: [
+                            { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Specs' }] },
+                            {
+                                type: 'bulletList',
+                                content: [{
+                                    type: 'listItem',
+                                    content: [{
+                                        type: 'paragraph',
+                                        content: [
+                                            { type: 'text', text: 'Size:', marks: [{ type: 'strong' }] },
+                                            { type: 'text', text: ' XL' },
+                                        ],
+                                    }],
+                                }],
+                            },
+                        ],
+                    },
+                },
+            });
+
+            logSpy.mockRestore();
+        });
+
         it('should handle missing description gracefully', async () => {
             const dto = { issueKey: 'PROJ-3', summary: 'Only Summary' };
 
@@ -166,9 +305,11 @@ describe('JiraService', () => {
     describe('getIssue', () => {
         it('should fetch Jira issue and return formatted data', async () => {
             const mockData = {
+                id: '10001',
                 key: 'PROJ-1',
                 fields: {
-                    status: { name: 'In Progress' },
+                    status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+                    issuetype: { name: 'Story' },
                     summary: 'Test Issue',
                     description: 'Some description',
                     updated: '2026-01-27T00:00:00.000Z',
@@ -183,12 +324,15 @@ describe('JiraService', () => {
             const result = await service.getIssue('PROJ-1');
 
             expect(httpService.get).toHaveBeenCalledWith(
-                `/rest/api/3/issue/PROJ-1?fields=status,summary,description,updated,assignee`
+                `/rest/api/3/issue/PROJ-1?fields=status,summary,description,updated,assignee,issuetype`
             );
 
             expect(result).toEqual({
+                id: '10001',
                 key: 'PROJ-1',
                 status: 'In Progress',
+                statusCategory: 'indeterminate',
+                issueType: 'Story',
                 summary: 'Test Issue',
                 description: 'Some description',
                 updated: '2026-01-27T00:00:00.000Z',
@@ -264,7 +408,7 @@ describe('JiraService', () => {
             await service.updateStatus('PROJ-1');
 
             expect(httpService.get).toHaveBeenCalledWith(
-                '/rest/api/3/issue/PROJ-1/transitions'
+                '/rest/api/3/issue/PROJ-1/transitions?expand=transitions.fields'
             );
 
             expect(httpService.post).toHaveBeenCalledWith(
@@ -348,6 +492,314 @@ describe('JiraService', () => {
 
     });
 
+    /////////////////////////////////////////////////////
+
+    describe('transitionTo', () => {
+
+        beforeEach(() => {
+            jest.resetAllMocks();
+            delete process.env.JIRA_WORKFLOW;
+            delete process.env.JIRA_TRANSITION_FIELDS;
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+            jest.spyOn(service['logger'], 'error').mockImplementation();
+        });
+
+        const transitionsResponse = (transitions: any[]) => of({ data: { transitions } });
+
+        it('should use a direct transition and fill resolution and comment', async () => {
+            httpService.get = jest.fn().mockReturnValue(transitionsResponse([
+                {
+                    id: '31',
+                    name: 'Close',
+                    to: { name: 'Done' },
+                    fields: {
+                        resolution: {
+                            required: true,
+                            allowedValues: [{ id: '1', name: 'Fixed' }, { id: '2', name: "Won't Do" }],
+                        },
+                    },
+                },
+            ]));
+            httpService.post = jest.fn().mockReturnValue(of({}));
+
+            const result = await service.transitionTo('PROJ-1', 'done', {
+                resolution: "Won't Do",
+                comment: 'Closing it',
+            });
+
+            expect(httpService.post).toHaveBeenCalledWith('/rest/api/3/issue/PROJ-1/transitions', {
+                transition: { id: '31' },
+                fields: { resolution: { id: '2' } },
+                update: {
+                    comment: [{
+                        add: {
+                            body: {
+                                type: 'doc',
+                                version: 1,
+                                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Closing it' }] }],
+                            },
+                        },
+                    }],
+                },
+            });
+            expect(result).toEqual({ issueKey: 'PROJ-1', status: 'Done', path: ['Done'] });
+        });
+
+        it('should take transition fields from JIRA_TRANSITION_FIELDS', async () => {
+            process.env.JIRA_TRANSITION_FIELDS = JSON.stringify({
+                Blocked: { customfield_10010: { value: 'Supplier' }, customfield_99999: 'not on screen' },
+            });
+            httpService.get = jest.fn().mockReturnValue(transitionsResponse([
+                {
+                    id: '41',
+                    name: 'Block',
+                    to: { name: 'Blocked' },
+                    fields: { customfield_10010: { required: true } },
+                },
+            ]));
+            httpService.post = jest.fn().mockReturnValue(of({}));
+
+            await service.transitionTo('PROJ-1', 'Blocked');
+
+            expect(httpService.post).toHaveBeenCalledWith('/rest/api/3/issue/PROJ-1/transitions', {
+                transition: { id: '41' },
+                fields: { customfield_10010: { value: 'Supplier' } },
+            });
+        });
+
+        it('should throw when a required transition field is missing', async () => {
+            httpService.get = jest.fn().mockReturnValue(transitionsResponse([
+                {
+                    id: '41',
+                    name: 'Block',
+                    to: { name: 'Blocked' },
+                    fields: { customfield_10010: { required: true, hasDefaultValue: false } },
+                },
+            ]));
+            httpService.post = jest.fn();
+
+            await expect(service.transitionTo('PROJ-1', 'Blocked'))
+                .rejects
+                .toThrow('Transition Block for issue PROJ-1 requires fields: customfield_10010');
+            expect(httpService.post).not.toHaveBeenCalled();
+        });
+
+        it('should chain transitions through JIRA_WORKFLOW when no direct transition exists', async () => {
+            process.env.JIRA_WORKFLOW = JSON.stringify({
+                'To Do': ['In Progress'],
+                'In Progress': ['Done', 'To Do'],
+            });
+
+            httpService.get = jest.fn()
+                // hop 1: only "Start" is available from To Do
+                .mockReturnValueOnce(transitionsResponse([{ id: '11', name: 'Start', to: { name: 'In Progress' } }]))
+                .mockReturnValueOnce(of({ data: { fields: { status: { name: 'To Do' } } } }))
+                // hop 2: Done is now reachable
+                .mockReturnValueOnce(transitionsResponse([{ id: '31', name: 'Finish', to: { name: 'Done' } }]));
+            httpService.post = jest.fn().mockReturnValue(of({}));
+
+            const result = await service.transitionTo('PROJ-1', 'Done');
+
+            expect(httpService.post).toHaveBeenNthCalledWith(1, '/rest/api/3/issue/PROJ-1/transitions', { transition: { id: '11' } });
+            expect(httpService.post).toHaveBeenNthCalledWith(2, '/rest/api/3/issue/PROJ-1/transitions', { transition: { id: '31' } });
+            expect(result).toEqual({ issueKey: 'PROJ-1', status: 'Done', path: ['In Progress', 'Done'] });
+        });
+
+        it('should succeed without transitioning when the issue is already in the target status', async () => {
+            httpService.get = jest.fn()
+                .mockReturnValueOnce(transitionsResponse([{ id: '11', name: 'Start', to: { name: 'In Progress' } }]))
+                .mockReturnValueOnce(of({ data: { fields: { status: { name: 'Done' } } } }));
+            httpService.post = jest.fn();
+
+            const result = await service.transitionTo('PROJ-1', 'Done');
+
+            expect(httpService.post).not.toHaveBeenCalled();
+            expect(result).toEqual({ issueKey: 'PROJ-1', status: 'Done', path: [] });
+        });
+
+        it('should throw when no path to the target status exists', async () => {
+            httpService.get = jest.fn()
+                .mockReturnValueOnce(transitionsResponse([{ id: '11', name: 'Start', to: { name: 'In Progress' } }]))
+                .mockReturnValueOnce(of({ data: { fields: { status: { name: 'To Do' } } } }));
+
+            await expect(service.transitionTo('PROJ-1', 'Done'))
+                .rejects
+                .toThrow('No transition found to status "Done" for issue PROJ-1 (current status: To Do)');
+        });
+
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('reopenIssue', () => {
+
+        beforeEach(() => {
+            jest.resetAllMocks();
+            delete process.env.JIRA_REOPENED_TRANSITION_ID;
+            delete process.env.JIRA_REOPENED_STATUS_NAME;
+        });
+
+        it('should transition Jira issue to the configured reopened status', async () => {
+            process.env.JIRA_REOPENED_STATUS_NAME = 'To Do';
+
+            httpService.get = jest.fn().mockReturnValue(
+                of({
+                    data: {
+                        transitions: [
+                            { id: '11', name: 'Start', to: { name: 'In Progress' } },
+                            { id: '21', name: 'Reopen', to: { name: 'To Do' } }
+                        ]
+                    }
+                })
+            );
+            httpService.post = jest.fn().mockReturnValue(of({}));
+
+            const logSpy = jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            await service.reopenIssue('PROJ-1');
+
+            expect(httpService.post).toHaveBeenCalledWith(
+                '/rest/api/3/issue/PROJ-1/transitions',
+                { transition: { id: '21' } }
+            );
+            expect(logSpy).toHaveBeenCalledWith(
+                'Jira issue PROJ-1 transitioned to To Do successfully'
+            );
+
+            logSpy.mockRestore();
+        });
 
+        it('should throw if neither reopened transition ID nor status name is configured', async () => {
+            await expect(service.reopenIssue('PROJ-2'))
+                .rejects
+                .toThrow(
+                    'JIRA_REOPENED_TRANSITION_ID or JIRA_REOPENED_STATUS_NAME must be configured'
+                );
+        });
 
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('applyRoute', () => {
+        const route = { projectKey: 'HW', issueType: 'Story', labels: ['hardware'] };
+
+        beforeEach(() => {
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+        });
+
+        it('should only update the routed fields when the project is unchanged', async () => {
+            httpService.put = jest.fn().mockReturnValue(of({ data: {} }));
+
+            const key = await service.applyRoute('HW-1', route);
+
+            expect(key).toBe('HW-1');
+            expect(httpService.put).toHaveBeenCalledWith('/rest/api/3/issue/HW-1', {
+                fields: { issuetype: { name: 'Story' }, components: [], labels: ['hardware'] },
+            });
+        });
+
+        it('should move the issue to the routed project and return its new key', async () => {
+            httpService.get = jest.fn()
+                .mockReturnValueOnce(of({ data: { issueTypes: [{ id: '10002', name: 'Story' }] } }))
+                .mockReturnValueOnce(of({ data: { status: 'COMPLETE' } }))
+                .mockReturnValueOnce(of({ data: { key: 'HW-7' } }));
+            httpService.post = jest.fn().mockReturnValue(of({ data: { taskId: '42' } }));
+            httpService.put = jest.fn().mockReturnValue(of({ data: {} }));
+
+            const key = await service.applyRoute('TEST-1', route);
+
+            expect(httpService.post).toHaveBeenCalledWith('/rest/api/3/bulk/issues/move', expect.objectContaining({
+                targetToSourcesMapping: {
+                    'HW,10002': expect.objectContaining({ issueIdsOrKeys: ['TEST-1'] }),
+                },
+            }));
+            expect(httpService.get).toHaveBeenCalledWith('/rest/api/3/bulk/queue/42');
+            expect(httpService.put).toHaveBeenCalledWith('/rest/api/3/issue/HW-7', expect.anything());
+            expect(key).toBe('HW-7');
+        });
+
+        it('should fail when the move task fails', async () => {
+            httpService.get = jest.fn()
+                .mockReturnValueOnce(of({ data: { issueTypes: [{ id: '10002', name: 'Story' }] } }))
+                .mockReturnValueOnce(of({ data: { status: 'FAILED' } }));
+            httpService.post = jest.fn().mockReturnValue(of({ data: { taskId: '42' } }));
+            httpService.put = jest.fn();
+
+            await expect(service.applyRoute('TEST-1', route)).rejects.toThrow('ended with status FAILED');
+            expect(httpService.put).not.toHaveBeenCalled();
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('searchIssues', () => {
+        it('should follow nextPageToken until all issues are fetched', async () => {
+            httpService.post = jest.fn()
+                .mockReturnValueOnce(of({ data: { issues: [{ id: '1', key: 'PROJ-1', fields: {} }], nextPageToken: 'page-2' } }))
+                .mockReturnValueOnce(of({ data: { issues: [{ id: '2', key: 'PROJ-2', fields: {} }] } }));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+
+            const result = await service.searchIssues('key in (PROJ-1, PROJ-2)');
+
+            expect(httpService.post).toHaveBeenNthCalledWith(1, '/rest/api/3/search/jql', {
+                jql: 'key in (PROJ-1, PROJ-2)',
+                fields: ['summary', 'description', 'status', 'updated'],
+                maxResults: 100,
+            });
+            expect(httpService.post).toHaveBeenNthCalledWith(2, '/rest/api/3/search/jql', expect.objectContaining({
+                nextPageToken: 'page-2',
+            }));
+            expect(result.map((issue) => issue.key)).toEqual(['PROJ-1', 'PROJ-2']);
+        });
+
+        it('should throw and log error if the search fails', async () => {
+            httpService.post = jest.fn().mockReturnValue(throwError(() => new Error('Jira down')));
+            jest.spyOn(service['logger'], 'log').mockImplementation();
+            const errorSpy = jest.spyOn(service['logger'], 'error').mockImplementation();
+
+            await expect(service.searchIssues('project = PROJ')).rejects.toThrow('Jira down');
+            expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Search Issues Failed'));
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('OAuth', () => {
+        const oauthClient = (session: any, configured = true) => {
+            const use = jest.fn();
+            const http = { axiosRef: { defaults: {} as any, interceptors: { request: { use } } } } as unknown as HttpService;
+            const oauth = {
+                isConfigured: jest.fn(() => configured),
+                getSession: jest.fn().mockResolvedValue(session),
+            } as unknown as JiraOAuthService;
+            const client = new JiraService(http, { id: 2, baseUrl: 'https://partner.atlassian.net' }, oauth);
+            return { client, http, oauth, authorize: use.mock.calls[0][0] };
+        };
+
+        it('should send requests through the API gateway with the access token of the site', async () => {
+            const { oauth, authorize } = oauthClient({ accessToken: 'oauth-token', apiBaseUrl: 'https://api.atlassian.com/ex/jira/cloud-1' });
+
+            const config = await authorize({ url: '/rest/api/3/myself', headers: new AxiosHeaders() });
+
+            expect(oauth.getSession).toHaveBeenCalledWith(2);
+            expect(config.baseURL).toBe('https://api.atlassian.com/ex/jira/cloud-1');
+            expect(config.headers.get('Authorization')).toBe('Bearer oauth-token');
+            expect(config.auth).toBeUndefined();
+        });
+
+        it('should keep basic auth when the site has no OAuth grant', async () => {
+            const { authorize } = oauthClient(null);
+
+            const config = await authorize({ url: '/rest/api/3/myself', headers: new AxiosHeaders() });
+
+            expect(config.baseURL).toBeUndefined();
+            expect(config.headers.get('Authorization')).toBeUndefined();
+        });
+
+        it('should not require basic auth credentials once OAuth is configured', () => {
+            expect(() => oauthClient(null)).not.toThrow();
+            expect(() => oauthClient(null, false)).toThrow('JIRA_EMAIL and JIRA_API_TOKEN must be configured');
+        });
+    });
 });
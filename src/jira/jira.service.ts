@@ -1,92 +1,254 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
-import { firstValueFrom, of, throwError } from 'rxjs';
+import { Observable, firstValueFrom, of, throwError } from 'rxjs';
+import { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { findWorkflowPath, getTransitionFieldConfig, getWorkflowGraph, sameName } from './jira.config';
+import { markdownToAdf } from './adf-markdown';
+import {
+  JiraAttachmentResponse,
+  JiraBulkCreateResponse,
+  JiraBulkTask,
+  JiraBulkTaskProgress,
+  JiraComment,
+  JiraCreatedIssue,
+  JiraErrorResponse,
+  JiraIssue,
+  JiraIssueTypesResponse,
+  JiraResolution,
+  JiraSearchResponse,
+  JiraTransition,
+  JiraTransitionRequest,
+  JiraTransitionsResponse,
+  JiraUser,
+} from './jira-api.types';
+import { JiraOAuthService } from './jira-oauth.service';
+import { JiraRequestOptions, JiraRequestPolicy } from './jira-request-policy';
+
+export interface JiraTransitionOptions {
+  // Force a specific transition (only used when it is available directly)
+  transitionId?: string;
+  // Resolution name, e.g. "Won't Do"
+  resolution?: string;
+  comment?: string;
+  // Extra or custom fields sent with the transition
+  fields?: Record<string, unknown>;
+  // Resolution name fragments to try when one is required but not given
+  resolutionHints?: string[];
+  maxHops?: number;
+}
+
+// Where an issue is filed; picked by the routing rules
+export interface JiraIssueRoute {
+  projectKey: string;
+  issueType: string;
+  components?: string[];
+  labels?: string[];
+  priority?: string | null;
+}
+
+export interface JiraCreateIssueInput {
+  summary: string;
+  description?: string;
+  productId?: number;
+  // Defaults to JIRA_PROJECT_KEY / JIRA_ISSUE_TYPE
+  route?: JiraIssueRoute;
+  // Extra Jira fields, e.g. mapped custom fields
+  fields?: Record<string, unknown>;
+  // Jira account of the caller; dropped when Jira doesn't allow setting the reporter
+  reporterAccountId?: string | null;
+  // Epic (or other parent) the new issue is filed under
+  parentKey?: string;
+}
+
+// Per-issue outcome of a bulk create
+export type JiraBulkCreateResult =
+  | { jiraKey: string; jiraId: string; error?: undefined }
+  | { error: string };
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  authorAccountId: string | null;
+}
+
+export interface JiraTransitionResult {
+  issueKey: string;
+  status: string;
+  // Statuses the issue went through, ending with the final one
+  path: string[];
+}
+
+// Site, credentials and project defaults of one Jira; a JiraConnection or the JIRA_* env vars
+export interface JiraSiteConfig {
+  // JiraConnection id; absent for the env site
+  id?: number;
+  baseUrl?: string | null;
+  email?: string | null;
+  apiToken?: string | null;
+  projectKey?: string | null;
+  issueType?: string | null;
+  droppedTransitionId?: string | null;
+  droppedStatusName?: string | null;
+  reopenedTransitionId?: string | null;
+  reopenedStatusName?: string | null;
+}
+
+// Provided by JiraClientFactory for connection clients; absent for the default (env) client
+export const JIRA_SITE = Symbol('JIRA_SITE');
 
 @Injectable()
 export class JiraService {
   private readonly logger = new Logger(JiraService.name);
+  private accountId?: string;
+  private readonly policy: JiraRequestPolicy;
+
+  // Each client owns its HttpService, so credentials never leak between sites
+  constructor(
+    private readonly httpService: HttpService,
+    @Optional() @Inject(JIRA_SITE) private readonly connection?: JiraSiteConfig,
+    @Optional() private readonly oauth?: JiraOAuthService,
+  ) {
+    const { baseUrl, email, apiToken } = this.getSite();
+
+    // Basic auth is only optional when OAuth can take over
+    if ((!email || !apiToken) && !this.oauth?.isConfigured()) {
+      throw new Error('JIRA_EMAIL and JIRA_API_TOKEN must be configured');
+    }
 
-  constructor(private readonly httpService: HttpService) {
-    const email = process.env.JIRA_EMAIL;
-    const token = process.env.JIRA_API_TOKEN;
+    this.httpService.axiosRef.defaults.baseURL = baseUrl ?? undefined;
+    this.policy = new JiraRequestPolicy(baseUrl || 'Jira');
+    if (email && apiToken) {
+      this.httpService.axiosRef.defaults.auth = {
+        username: email,
+        password: apiToken,
+      };
+    }
 
-    if (!email || !token) {
-      throw new Error('JIRA_EMAIL and JIRA_API_TOKEN must be configured');
+    if (this.oauth) {
+      this.httpService.axiosRef.interceptors.request.use((config) =>
+        this.authorize(config),
+      );
     }
+  }
 
-    this.httpService.axiosRef.defaults.baseURL = process.env.JIRA_BASE_URL;
-    this.httpService.axiosRef.defaults.auth = {
-      username: email as string,
-      password: token as string,
-    };
+  // --- 0a. OAuth: an access token of the site replaces basic auth, refreshed before it expires ---
+  private async authorize(config: InternalAxiosRequestConfig) {
+    const session = await this.oauth!.getSession(this.connection?.id ?? null);
+    if (!session) return config;
+
+    config.baseURL = session.apiBaseUrl;
+    config.auth = undefined;
+    config.headers.set('Authorization', `Bearer ${session.accessToken}`);
+    return config;
   }
 
-  async createIssue(dto: { summary: string; description?: string; productId?: number }) {
-    try {
-      const description =
-      {
-        type: "doc",
-        version: 1,
-        content: [
-          {
-            type: "paragraph",
-            content: [{
-              type: "text",
-              text: dto.description
-                ? `${dto.description}\n\nProduct ID: ${dto.productId || 'N/A'}`
-                : `Product ID: ${dto.productId || 'N/A'}`
-            }]
-          }
-        ]
-      };
+  // --- 0b. Every call goes through the site's retry, rate-limit and circuit breaker policy ---
+  private send<T>(call: () => Observable<AxiosResponse<T>>, options?: JiraRequestOptions) {
+    return this.policy.execute(() => firstValueFrom(call()), options);
+  }
 
+  // --- 0. Site settings (env vars are read on every call for the default client) ---
+  getSite(): JiraSiteConfig {
+    return this.connection ?? {
+      baseUrl: process.env.JIRA_BASE_URL,
+      email: process.env.JIRA_EMAIL,
+      apiToken: process.env.JIRA_API_TOKEN,
+      projectKey: process.env.JIRA_PROJECT_KEY,
+      issueType: process.env.JIRA_ISSUE_TYPE,
+      droppedTransitionId: process.env.JIRA_DROPPED_TRANSITION_ID,
+      droppedStatusName: process.env.JIRA_DROPPED_STATUS_NAME,
+      reopenedTransitionId: process.env.JIRA_REOPENED_TRANSITION_ID,
+      reopenedStatusName: process.env.JIRA_REOPENED_STATUS_NAME,
+    };
+  }
 
-      const payload = {
-        fields: {
-          project: { key: process.env.JIRA_PROJECT_KEY },
-          issuetype: { name: process.env.JIRA_ISSUE_TYPE || 'Task' },
-          summary: dto.summary,
-          description: description,
-        },
-      };
+  async createIssue(dto: JiraCreateIssueInput) {
+    try {
+      const payload = { fields: this.buildCreateFields(dto) };
 
       this.logger.log(` Creating Jira issue: ${dto.summary}`);
 
-      const { data } = await firstValueFrom(
-        this.httpService.post('/rest/api/3/issue', payload)
+      const { data } = await this.send(() =>
+        this.httpService.post<JiraCreatedIssue>('/rest/api/3/issue', payload)
       );
 
 
       this.logger.log(` Jira issue created: ${data.key} (ID: ${data.id})`);
       return { jiraKey: data.key, jiraId: data.id };
     } catch (error) {
+      if (dto.reporterAccountId && this.isReporterRejected(error.response?.data?.errors)) {
+        this.logger.warn(` Jira rejected reporter ${dto.reporterAccountId}, creating the issue without it`);
+        return this.createIssue({ ...dto, reporterAccountId: undefined });
+      }
       this.logger.error(` Create Issue Failed: ${this.getErrorMessage(error)}`);
       throw error;
     }
   }
 
+  // --- 1b. Bulk Create (one request, results in input order) ---
+  async createIssues(dtos: JiraCreateIssueInput[]): Promise<JiraBulkCreateResult[]> {
+    try {
+      this.logger.log(` Bulk creating ${dtos.length} Jira issue(s)`);
+
+      const { data } = await this.send(() =>
+        this.httpService.post<JiraBulkCreateResponse>('/rest/api/3/issue/bulk', {
+          issueUpdates: dtos.map((dto) => ({ fields: this.buildCreateFields(dto) })),
+        })
+      );
+
+      // Jira lists created issues in order and failures by input index
+      const failures = new Map<number, string>(
+        (data.errors || []).map((e) => [
+          e.failedElementNumber,
+          e.elementErrors?.errorMessages?.[0]
+            || JSON.stringify(e.elementErrors?.errors)
+            || `Jira returned status ${e.status}`,
+        ])
+      );
+      const created = [...(data.issues || [])];
+
+      const results = dtos.map((_, index): JiraBulkCreateResult => {
+        const error = failures.get(index);
+        if (error !== undefined) return { error };
+        const issue = created.shift();
+        return issue
+          ? { jiraKey: issue.key, jiraId: issue.id }
+          : { error: 'Missing from Jira bulk response' };
+      });
+
+      // Create again without the reporter where that was the only problem
+      const reporterRejected: number[] = (data.errors || [])
+        .filter((e) =>
+          dtos[e.failedElementNumber]?.reporterAccountId && this.isReporterRejected(e.elementErrors?.errors))
+        .map((e) => e.failedElementNumber);
+      if (reporterRejected.length > 0) {
+        this.logger.warn(` Jira rejected the reporter of ${reporterRejected.length} issue(s), creating them without it`);
+        const retried = await this.createIssues(
+          reporterRejected.map((index) => ({ ...dtos[index], reporterAccountId: undefined }))
+        );
+        reporterRejected.forEach((index, i) => (results[index] = retried[i]));
+      }
+
+      this.logger.log(` Jira bulk create: ${dtos.length - failures.size} created, ${failures.size} failed`);
+      return results;
+    } catch (error) {
+      this.logger.error(` Bulk Create Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
   // --- 2. Update Issue ---
-  async updateIssue(dto: { issueKey: string; summary?: string; description?: string }) {
+  async updateIssue(dto: { issueKey: string; summary?: string; description?: string; fields?: Record<string, unknown> }) {
     try {
-      const fields: any = {};
+      const fields: Record<string, unknown> = { ...dto.fields };
       if (dto.summary) fields.summary = dto.summary;
-      if (dto.description) fields.description = {
-        type: "doc",
-        version: 1,
-        content: [
-          {
-            type: "paragraph",
-            content: [{
-              type: "text",
-              text: dto.description
-            }]
-          }
-        ]
-      };;
+      if (dto.description) fields.description = markdownToAdf(dto.description);
 
       this.logger.log(` Updating Jira issue ${dto.issueKey}`);
 
-      await firstValueFrom(
+      await this.send(() =>
         this.httpService.put(`/rest/api/3/issue/${dto.issueKey}`, { fields })
       );
 
@@ -102,15 +264,19 @@ export class JiraService {
     try {
       this.logger.log(` Fetching Jira issue ${issueKey}`);
 
-      const { data } = await firstValueFrom(
-        this.httpService.get(`/rest/api/3/issue/${issueKey}?fields=status,summary,description,updated,assignee`)
+      const { data } = await this.send(() =>
+        this.httpService.get<JiraIssue>(`/rest/api/3/issue/${issueKey}?fields=status,summary,description,updated,assignee,issuetype`)
       );
 
-      this.logger.log(` Jira issue ${issueKey} fetched: ${data.fields.status.name}`);
+      const status = data.fields.status?.name ?? '';
+      this.logger.log(` Jira issue ${issueKey} fetched: ${status}`);
 
       return {
+        id: data.id,
         key: data.key,
-        status: data.fields.status.name,
+        status,
+        statusCategory: data.fields.status?.statusCategory?.key ?? null,
+        issueType: data.fields.issuetype?.name ?? null,
         summary: data.fields.summary,
         description: data.fields.description,
         updated: data.fields.updated,
@@ -124,109 +290,482 @@ export class JiraService {
 
   // --- 4. Transition to "Dropped" ---
   async updateStatus(issueKey: string) {
-    try {
-      const transitionId = process.env.JIRA_DROPPED_TRANSITION_ID;
-      const statusName = process.env.JIRA_DROPPED_STATUS_NAME;
+    return this.transitionToConfigured(issueKey, {
+      label: 'Dropped',
+      transitionId: this.getSite().droppedTransitionId,
+      statusName: this.getSite().droppedStatusName,
+      configKeys: ['JIRA_DROPPED_TRANSITION_ID', 'JIRA_DROPPED_STATUS_NAME'],
+      resolutionHints: ['drop', 'cancel', 'close'],
+    });
+  }
 
-      if (!transitionId && !statusName) {
-        throw new Error('JIRA_DROPPED_TRANSITION_ID or JIRA_DROPPED_STATUS_NAME must be configured');
-      }
+  // --- 5. Transition back to "Reopened" (undo of Dropped) ---
+  async reopenIssue(issueKey: string) {
+    return this.transitionToConfigured(issueKey, {
+      label: 'Reopened',
+      transitionId: this.getSite().reopenedTransitionId,
+      statusName: this.getSite().reopenedStatusName,
+      configKeys: ['JIRA_REOPENED_TRANSITION_ID', 'JIRA_REOPENED_STATUS_NAME'],
+      resolutionHints: ['reopen', 'unresolved'],
+    });
+  }
 
-      // Always fetch available transitions first to verify what's possible
-      this.logger.log(`Fetching available transitions for ${issueKey}`);
-      const { data: transitionsData } = await firstValueFrom(
-        this.httpService.get(`/rest/api/3/issue/${issueKey}/transitions`)
-      );
+  // --- 6. Transition to any status (multi-hop through JIRA_WORKFLOW if needed) ---
+  async transitionTo(
+    issueKey: string,
+    targetStatus: string,
+    options: JiraTransitionOptions = {},
+  ): Promise<JiraTransitionResult> {
+    try {
+      const maxHops = options.maxHops ?? 5;
+      const path: string[] = [];
+
+      for (let hop = 0; hop < maxHops; hop++) {
+        // Always fetch available transitions first to verify what's possible
+        this.logger.log(`Fetching available transitions for ${issueKey}`);
+        const { data: transitionsData } = await this.send(() =>
+          this.httpService.get<JiraTransitionsResponse>(`/rest/api/3/issue/${issueKey}/transitions?expand=transitions.fields`)
+        );
+        const transitions = transitionsData.transitions || [];
+
+        const direct = this.findDirectTransition(issueKey, transitions, targetStatus, options);
+        if (direct) {
+          await this.executeTransition(issueKey, direct, targetStatus, options);
+          path.push(direct.to?.name || targetStatus);
+          this.logger.log(`Jira issue ${issueKey} transitioned to ${targetStatus} successfully`);
+          return { issueKey, status: direct.to?.name || targetStatus, path };
+        }
 
-      let targetTransition: any = null;
+        // No direct transition: plan the next hop through the configured workflow
+        const currentStatus = await this.getIssueStatus(issueKey);
+        if (sameName(currentStatus, targetStatus)) {
+          this.logger.log(`Jira issue ${issueKey} is already in ${targetStatus}`);
+          return { issueKey, status: currentStatus, path };
+        }
 
-      if (transitionId) {
-        // Verify the transition ID is available for this issue
-        // Convert both to string for comparison (env vars are strings, Jira may return numbers)
-        targetTransition = transitionsData.transitions.find(
-          (t: any) => String(t.id) === String(transitionId)
-        );
+        const route = findWorkflowPath(getWorkflowGraph(), currentStatus, targetStatus);
+        const nextStatus = route?.[1];
+        const next = nextStatus ? transitions.find((t) => sameName(t.to?.name, nextStatus)) : undefined;
 
-        if (!targetTransition) {
-          const availableTransitions = transitionsData.transitions.map((t: any) =>
-            `ID: ${t.id}, Name: ${t.name}, To: ${t.to?.name || 'N/A'}`
-          ).join('; ');
+        if (!route || !next?.to) {
           throw new Error(
-            `Transition ID ${transitionId} is not available for issue ${issueKey}. ` +
-            `Current status may not allow this transition. Available transitions: ${availableTransitions}`
+            `No transition found to status "${targetStatus}" for issue ${issueKey} (current status: ${currentStatus}). ` +
+            `Available transitions: ${this.describeTransitions(transitions)}`
           );
         }
 
-        this.logger.log(`Transitioning ${issueKey} to Dropped (transition ID: ${transitionId}, name: ${targetTransition.name})`);
-      } else {
-        // Find transition by status name
-        this.logger.log(`Finding transition to status: ${statusName}`);
+        this.logger.log(`No direct transition to ${targetStatus}, moving ${issueKey} via ${next.to.name} (path: ${route.join(' -> ')})`);
+        await this.executeTransition(issueKey, next, next.to.name, {});
+        path.push(next.to.name);
+      }
 
-        targetTransition = transitionsData.transitions.find(
-          (t: any) => t.to?.name === statusName || t.name === statusName
+      throw new Error(`Could not reach status "${targetStatus}" for issue ${issueKey} within ${maxHops} transitions`);
+    } catch (error) {
+      const errorMsg = this.getErrorMessage(error);
+      this.logger.error(`Transition Failed for ${issueKey}: ${errorMsg}`);
+      throw error;
+    }
+  }
+
+  // --- 7. Search issues with JQL (follows nextPageToken until all pages are read) ---
+  async searchIssues(
+    jql: string,
+    fields: string[] = ['summary', 'description', 'status', 'updated'],
+  ): Promise<JiraIssue[]> {
+    try {
+      this.logger.log(` Searching Jira issues: ${jql}`);
+
+      const issues: JiraIssue[] = [];
+      let nextPageToken: string | undefined;
+      do {
+        const { data } = await this.send(() =>
+          this.httpService.post<JiraSearchResponse>('/rest/api/3/search/jql', {
+            jql,
+            fields,
+            maxResults: 100,
+            ...(nextPageToken && { nextPageToken }),
+          }),
+          // Read-only despite POST
+          { idempotent: true },
         );
+        issues.push(...(data.issues || []));
+        nextPageToken = data.nextPageToken;
+      } while (nextPageToken);
 
-        if (!targetTransition) {
-          const availableTransitions = transitionsData.transitions.map((t: any) =>
-            `ID: ${t.id}, Name: ${t.name}, To: ${t.to?.name || 'N/A'}`
-          ).join('; ');
-          throw new Error(
-            `No transition found to status "${statusName}" for issue ${issueKey}. ` +
-            `Available transitions: ${availableTransitions}`
-          );
-        }
+      this.logger.log(` Jira search returned ${issues.length} issue(s)`);
+      return issues;
+    } catch (error) {
+      this.logger.error(` Search Issues Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
 
-        this.logger.log(`Transitioning ${issueKey} to Dropped (transition ID: ${targetTransition.id}, name: ${targetTransition.name})`);
-      }
+  // --- 8. Add Comment (Markdown body) ---
+  async addComment(issueKey: string, body: string): Promise<{ id: string }> {
+    try {
+      this.logger.log(` Adding comment to Jira issue ${issueKey}`);
 
-      // Build transition payload
-      const transitionPayload: any = {
-        transition: { id: targetTransition.id },
-      };
+      const { data } = await this.send(() =>
+        this.httpService.post<JiraComment>(`/rest/api/3/issue/${issueKey}/comment`, {
+          body: markdownToAdf(body),
+        })
+      );
 
-      // Check if transition requires fields (e.g., resolution, comment)
-      // Some transitions may require a resolution field
-      if (targetTransition.fields) {
-        const requiredFields: any = {};
-
-        // Check if resolution is required
-        if (targetTransition.fields.resolution && targetTransition.fields.resolution.required) {
-          // Try to find a "Dropped" or "Cancelled" resolution, or use the first available
-          const resolutions = targetTransition.fields.resolution.allowedValues || [];
-          const droppedResolution = resolutions.find((r: any) =>
-            r.name?.toLowerCase().includes('drop') ||
-            r.name?.toLowerCase().includes('cancel') ||
-            r.name?.toLowerCase().includes('close')
-          ) || resolutions[0];
-
-          if (droppedResolution) {
-            requiredFields.resolution = { id: droppedResolution.id };
-            this.logger.log(`Adding required resolution: ${droppedResolution.name}`);
-          }
-        }
+      this.logger.log(` Comment ${data.id} added to Jira issue ${issueKey}`);
+      return { id: String(data.id) };
+    } catch (error) {
+      this.logger.error(` Add Comment Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
 
-        if (Object.keys(requiredFields).length > 0) {
-          transitionPayload.fields = requiredFields;
-        }
-      }
+  // --- 9. Account ID of the integration user (cached) ---
+  async getMyAccountId(): Promise<string> {
+    if (!this.accountId) {
+      const { data } = await this.send(() =>
+        this.httpService.get<JiraUser>('/rest/api/3/myself')
+      );
+      this.accountId = data.accountId;
+    }
+    return this.accountId;
+  }
+
+  // --- 10. Upload Attachment ---
+  async addAttachment(issueKey: string, file: { filename: string; mimeType: string; data: Buffer }): Promise<JiraAttachment> {
+    try {
+      this.logger.log(` Uploading attachment ${file.filename} to Jira issue ${issueKey}`);
+
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(file.data)], { type: file.mimeType }), file.filename);
 
-      // Execute the transition
-      await firstValueFrom(
-        this.httpService.post(`/rest/api/3/issue/${issueKey}/transitions`, transitionPayload)
+      const { data } = await this.send(() =>
+        this.httpService.post<JiraAttachmentResponse[]>(`/rest/api/3/issue/${issueKey}/attachments`, form, {
+          headers: { 'X-Atlassian-Token': 'no-check' },
+        })
       );
 
-      this.logger.log(`Jira issue ${issueKey} transitioned to Dropped successfully`);
+      const attachment = this.toAttachment(data[0]);
+      this.logger.log(` Attachment ${attachment.id} uploaded to Jira issue ${issueKey}`);
+      return attachment;
     } catch (error) {
-      const errorMsg = this.getErrorMessage(error);
-      this.logger.error(`Transition Failed for ${issueKey}: ${errorMsg}`);
+      this.logger.error(` Upload Attachment Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  // --- 11. Attachment metadata and content ---
+  async getAttachment(attachmentId: string): Promise<JiraAttachment> {
+    try {
+      const { data } = await this.send(() =>
+        this.httpService.get<JiraAttachmentResponse>(`/rest/api/3/attachment/${attachmentId}`)
+      );
+      return this.toAttachment(data);
+    } catch (error) {
+      this.logger.error(` Get Attachment Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  async downloadAttachment(attachmentId: string): Promise<Buffer> {
+    try {
+      const { data } = await this.send(() =>
+        this.httpService.get<ArrayBuffer>(`/rest/api/3/attachment/content/${attachmentId}`, {
+          responseType: 'arraybuffer',
+        })
+      );
+      return Buffer.from(data);
+    } catch (error) {
+      this.logger.error(` Download Attachment Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  // --- 12. Delete Attachment (already gone counts as deleted) ---
+  async deleteAttachment(attachmentId: string) {
+    try {
+      this.logger.log(` Deleting Jira attachment ${attachmentId}`);
+      await this.send(() =>
+        this.httpService.delete(`/rest/api/3/attachment/${attachmentId}`)
+      );
+    } catch (error) {
+      if (error.response?.status === 404) return;
+      this.logger.error(` Delete Attachment Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  // --- 13. Default route from the site's project key / issue type ---
+  getDefaultRoute(): JiraIssueRoute {
+    const site = this.getSite();
+    return {
+      projectKey: site.projectKey as string,
+      issueType: site.issueType || 'Task',
+    };
+  }
+
+  // --- 14. Re-file an existing issue: move it if the project changed, then set the routed fields ---
+  // Returns the issue key, which changes when the issue moves.
+  async applyRoute(issueKey: string, route: JiraIssueRoute): Promise<string> {
+    try {
+      let key = issueKey;
+      if (key.split('-')[0] !== route.projectKey) {
+        key = await this.moveIssue(key, route);
+      }
+
+      this.logger.log(` Applying route ${route.projectKey}/${route.issueType} to Jira issue ${key}`);
+      await this.send(() =>
+        this.httpService.put(`/rest/api/3/issue/${key}`, {
+          fields: {
+            ...this.buildRouteFields(route),
+            // Clear values the new route doesn't set
+            components: route.components?.map((name) => ({ name })) ?? [],
+            labels: route.labels ?? [],
+          },
+        })
+      );
+      return key;
+    } catch (error) {
+      this.logger.error(` Apply Route Failed: ${this.getErrorMessage(error)}`);
+      throw error;
+    }
+  }
+
+  // --- Helper: Move an issue to another project with the bulk move API (async task) ---
+  private async moveIssue(issueKey: string, route: JiraIssueRoute): Promise<string> {
+    const { data: types } = await this.send(() =>
+      this.httpService.get<JiraIssueTypesResponse>(`/rest/api/3/issue/createmeta/${route.projectKey}/issuetypes`)
+    );
+    const issueType = (types.issueTypes || types.values || []).find((t) => sameName(t.name, route.issueType));
+    if (!issueType) {
+      throw new Error(`Issue type "${route.issueType}" does not exist in project ${route.projectKey}`);
+    }
+
+    this.logger.log(` Moving Jira issue ${issueKey} to project ${route.projectKey}`);
+    const { data: task } = await this.send(() =>
+      this.httpService.post<JiraBulkTask>('/rest/api/3/bulk/issues/move', {
+        sendBulkNotification: false,
+        targetToSourcesMapping: {
+          [`${route.projectKey},${issueType.id}`]: {
+            inferClassificationDefaults: true,
+            inferFieldDefaults: true,
+            inferStatusDefaults: true,
+            inferSubtaskTypeDefault: true,
+            issueIdsOrKeys: [issueKey],
+          },
+        },
+      })
+    );
+
+    const timeoutMs = Number(process.env.JIRA_MOVE_TIMEOUT_MS) || 30000;
+    const deadline = Date.now() + timeoutMs;
+    for (; ;) {
+      const { data: progress } = await this.send(() =>
+        this.httpService.get<JiraBulkTaskProgress>(`/rest/api/3/bulk/queue/${task.taskId}`)
+      );
+      if (progress.status === 'COMPLETE') break;
+      if (['FAILED', 'CANCELLED', 'DEAD'].includes(progress.status)) {
+        throw new Error(`Moving ${issueKey} to ${route.projectKey} ended with status ${progress.status}`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Moving ${issueKey} to ${route.projectKey} did not finish within ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    // The old key keeps resolving to the moved issue
+    const { data } = await this.send(() =>
+      this.httpService.get<JiraIssue>(`/rest/api/3/issue/${issueKey}?fields=project`)
+    );
+    this.logger.log(` Jira issue ${issueKey} moved to ${data.key}`);
+    return data.key;
+  }
+
+  // --- Helper: Attachment response -> JiraAttachment ---
+  private toAttachment(data: JiraAttachmentResponse): JiraAttachment {
+    return {
+      id: String(data.id),
+      filename: data.filename,
+      mimeType: data.mimeType || 'application/octet-stream',
+      size: Number(data.size) || 0,
+      authorAccountId: data.author?.accountId ?? null,
+    };
+  }
+
+  // --- Helper: Issue type, components, labels and priority of a route ---
+  private buildRouteFields(route: JiraIssueRoute) {
+    return {
+      issuetype: { name: route.issueType },
+      ...(route.components?.length && { components: route.components.map((name) => ({ name })) }),
+      ...(route.labels?.length && { labels: route.labels }),
+      ...(route.priority && { priority: { name: route.priority } }),
+    };
+  }
+
+  // --- Helper: Fields for a new issue in the routed (or configured) project ---
+  private buildCreateFields(dto: JiraCreateIssueInput) {
+    const route = dto.route ?? this.getDefaultRoute();
+    return {
+      ...dto.fields,
+      project: { key: route.projectKey },
+      ...this.buildRouteFields(route),
+      summary: dto.summary,
+      ...(dto.reporterAccountId && { reporter: { accountId: dto.reporterAccountId } }),
+      ...(dto.parentKey && { parent: { key: dto.parentKey } }),
+      // Descriptions are Markdown; Jira stores them as ADF
+      description: markdownToAdf(
+        dto.description
+          ? `${dto.description}\n\nProduct ID: ${dto.productId || 'N/A'}`
+          : `Product ID: ${dto.productId || 'N/A'}`
+      ),
+    };
+  }
+
+  // --- Helper: Transition driven by a TRANSITION_ID / STATUS_NAME env pair ---
+  private async transitionToConfigured(
+    issueKey: string,
+    target: {
+      label: string;
+      transitionId?: string | null;
+      statusName?: string | null;
+      configKeys: [string, string];
+      resolutionHints: string[];
+    },
+  ) {
+    if (!target.transitionId && !target.statusName) {
+      const error = new Error(`${target.configKeys[0]} or ${target.configKeys[1]} must be configured`);
+      this.logger.error(`Transition Failed for ${issueKey}: ${error.message}`);
       throw error;
     }
+
+    return this.transitionTo(issueKey, target.statusName || target.label, {
+      transitionId: target.transitionId ?? undefined,
+      resolutionHints: target.resolutionHints,
+    });
+  }
+
+  // --- Helper: Find a transition that reaches the target in one step ---
+  private findDirectTransition(
+    issueKey: string,
+    transitions: JiraTransition[],
+    targetStatus: string,
+    options: JiraTransitionOptions,
+  ): JiraTransition | undefined {
+    if (!options.transitionId) {
+      this.logger.log(`Finding transition to status: ${targetStatus}`);
+      return transitions.find(
+        (t) => sameName(t.to?.name, targetStatus) || sameName(t.name, targetStatus)
+      );
+    }
+
+    // Verify the transition ID is available for this issue
+    // Convert both to string for comparison (env vars are strings, Jira may return numbers)
+    const transition = transitions.find((t) => String(t.id) === String(options.transitionId));
+    if (!transition) {
+      throw new Error(
+        `Transition ID ${options.transitionId} is not available for issue ${issueKey}. ` +
+        `Current status may not allow this transition. Available transitions: ${this.describeTransitions(transitions)}`
+      );
+    }
+    return transition;
+  }
+
+  // --- Helper: Fill transition fields and execute it ---
+  private async executeTransition(
+    issueKey: string,
+    transition: JiraTransition,
+    targetStatus: string,
+    options: JiraTransitionOptions,
+  ) {
+    this.logger.log(`Transitioning ${issueKey} to ${targetStatus} (transition ID: ${transition.id}, name: ${transition.name})`);
+
+    // Explicit options win over the per-status config map
+    const { resolution, comment, ...configFields } = getTransitionFieldConfig(targetStatus);
+    const screenFields = transition.fields || {};
+    const fields: Record<string, unknown> = { ...configFields, ...options.fields };
+
+    // Only send fields that are on the transition screen (when Jira tells us which ones are)
+    if (transition.fields) {
+      for (const key of Object.keys(fields)) {
+        if (!screenFields[key]) delete fields[key];
+      }
+    }
+
+    // Resolution: requested by name, otherwise guessed when the screen requires one
+    const resolutionField = screenFields.resolution;
+    const resolutionName = options.resolution || resolution;
+    if (resolutionField && !fields.resolution) {
+      const resolutions = resolutionField.allowedValues || [];
+      const hints = options.resolutionHints || [];
+      const matchingResolution: JiraResolution | null | undefined = resolutionName
+        ? resolutions.find((r) => sameName(r.name, resolutionName))
+        : resolutionField.required
+          ? resolutions.find((r) => hints.some((hint) => r.name?.toLowerCase().includes(hint))) || resolutions[0]
+          : null;
+
+      if (resolutionName && !matchingResolution) {
+        throw new Error(`Resolution "${resolutionName}" is not allowed by transition ${transition.name} for issue ${issueKey}`);
+      }
+      if (matchingResolution) {
+        fields.resolution = { id: matchingResolution.id };
+        this.logger.log(`Adding resolution: ${matchingResolution.name}`);
+      }
+    }
+
+    const missing = Object.keys(screenFields).filter(
+      (key) => screenFields[key].required && !screenFields[key].hasDefaultValue && fields[key] === undefined
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Transition ${transition.name} for issue ${issueKey} requires fields: ${missing.join(', ')}. ` +
+        `Provide them in the request or in JIRA_TRANSITION_FIELDS["${targetStatus}"]`
+      );
+    }
+
+    // Build transition payload
+    const transitionPayload: JiraTransitionRequest = {
+      transition: { id: transition.id },
+    };
+    if (Object.keys(fields).length > 0) {
+      transitionPayload.fields = fields;
+    }
+
+    const commentText = options.comment || comment;
+    if (commentText) {
+      transitionPayload.update = {
+        comment: [{ add: { body: markdownToAdf(commentText) } }],
+      };
+    }
+
+    // Execute the transition
+    await this.send(() =>
+      this.httpService.post(`/rest/api/3/issue/${issueKey}/transitions`, transitionPayload)
+    );
+  }
+
+  // --- Helper: Current status name of an issue ---
+  private async getIssueStatus(issueKey: string): Promise<string> {
+    const { data } = await this.send(() =>
+      this.httpService.get<JiraIssue>(`/rest/api/3/issue/${issueKey}?fields=status`)
+    );
+    return data.fields.status?.name ?? '';
+  }
+
+  private describeTransitions(transitions: JiraTransition[]): string {
+    return transitions.map((t) =>
+      `ID: ${t.id}, Name: ${t.name}, To: ${t.to?.name || 'N/A'}`
+    ).join('; ');
+  }
+
+  // --- Helper: Reporter not on the create screen, or the account can't be a reporter ---
+  private isReporterRejected(errors?: Record<string, string>): boolean {
+    return !!errors?.reporter;
   }
 
   // --- Helper: Extract Error Message ---
   private getErrorMessage(error: any): string {
-    return error.response?.data?.errorMessages?.[0]
-      || JSON.stringify(error.response?.data?.errors)
+    const body: JiraErrorResponse | undefined = error.response?.data;
+    return body?.errorMessages?.[0]
+      || JSON.stringify(body?.errors)
       || error.message;
   }
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+// AES-256-GCM for OAuth tokens and connection secrets at rest. Stored as "v1:<iv>:<tag>:<ciphertext>" (base64 parts).
+const VERSION = 'v1';
+
+// --- Helper: 32-byte key from JIRA_OAUTH_ENCRYPTION_KEY (any length) ---
+function getKey(): Buffer {
+  const secret = process.env.JIRA_OAUTH_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error(
+      'JIRA_OAUTH_ENCRYPTION_KEY must be configured to store Jira credentials',
+    );
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptToken(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), data]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptToken(stored: string): string {
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Stored Jira credential has an unknown format');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    getKey(),
+    Buffer.from(iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Connection secrets saved before they were encrypted are read as they are
+export function readSecret(stored: string | null): string | null {
+  if (!stored?.startsWith(`${VERSION}:`)) return stored;
+  return decryptToken(stored);
+}
@@ -4,9 +4,15 @@ config();
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody is needed to verify Jira webhook signatures
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+  // Bulk imports send large JSON arrays or CSV files
+  const bodyLimit = process.env.BODY_LIMIT || '5mb';
+  app.useBodyParser('json', { limit: bodyLimit });
+  app.useBodyParser('text', { type: 'text/csv', limit: bodyLimit });
   // Minimal validation for POC
   app.useGlobalPipes(new ValidationPipe({ whitelist: true }));
   await app.listen(process.env.PORT ?? 3000);
@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsNotEmpty, IsObject } from "class-validator";
+
+export class ChangeStatusDto {
+    // Target Jira status name, e.g. "In Progress"
+    @IsString()
+    @IsNotEmpty()
+    status: string;
+
+    @IsOptional()
+    @IsString()
+    comment?: string;
+
+    // Resolution name, e.g. "Won't Do"
+    @IsOptional()
+    @IsString()
+    resolution?: string;
+
+    // Extra transition fields (e.g. customfield_10010)
+    @IsOptional()
+    @IsObject()
+    fields?: Record<string, any>;
+}
@@ -0,0 +1,18 @@
+import { IsString, IsOptional, IsNotEmpty, MaxLength } from "class-validator";
+
+export class CreateChildIssueDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    summary: string;
+
+    // Markdown
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    // Defaults to JIRA_CHILD_ISSUE_TYPE, then "Story"
+    @IsOptional()
+    @IsString()
+    issueType?: string;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty } from "class-validator";
+
+export class CreateNoteDto {
+    // Markdown, sent to Jira as a comment
+    @IsString()
+    @IsNotEmpty()
+    body: string;
+}
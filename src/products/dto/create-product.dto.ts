@@ -1,4 +1,8 @@
-import { IsString, IsOptional, IsNotEmpty } from "class-validator";
+import { IsString, IsOptional, IsNotEmpty, IsEnum, IsInt, IsObject, Matches, MaxLength } from "class-validator";
+import { Type } from "class-transformer";
+import { ProductLifecycle } from "../product-lifecycle";
+
+export const JIRA_ISSUE_KEY = /^[A-Z][A-Z0-9_]*-\d+$/;
 
 export class CreateProductDto {
     @IsString()
@@ -12,4 +16,30 @@ export class CreateProductDto {
     @IsOptional()
     @IsString()
     externalRef?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    category?: string;
+
+    // Merged into the existing attributes on update; null clears a value
+    @IsOptional()
+    @IsObject()
+    attributes?: Record<string, string | number | string[] | null>;
+
+    @IsOptional()
+    @IsEnum(ProductLifecycle)
+    lifecycle?: ProductLifecycle;
+
+    // Jira site the product lives in; omitted = the default (env) site. Fixed after creation.
+    // Converted so CSV imports can set it too.
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    jiraConnectionId?: number;
+
+    // Link this existing issue instead of creating a new one; later changes go through /products/:id/jira-link
+    @IsOptional()
+    @Matches(JIRA_ISSUE_KEY, { message: 'jiraIssueKey must be a Jira issue key like PROJ-123' })
+    jiraIssueKey?: string;
 }
@@ -0,0 +1,9 @@
+import { IsString, Matches } from "class-validator";
+import { JIRA_ISSUE_KEY } from "./create-product.dto";
+
+export class LinkJiraIssueDto {
+    // Existing issue in the product's Jira site, e.g. "PROJ-123"
+    @IsString()
+    @Matches(JIRA_ISSUE_KEY, { message: 'issueKey must be a Jira issue key like PROJ-123' })
+    issueKey: string;
+}
@@ -0,0 +1,13 @@
+import { IsIn, IsString, Matches } from "class-validator";
+import { JIRA_ISSUE_KEY } from "./create-product.dto";
+import type { ProductIssueRole } from "../entities/product-issue.entity";
+
+export class LinkProductIssueDto {
+    @IsString()
+    @Matches(JIRA_ISSUE_KEY, { message: 'issueKey must be a Jira issue key like PROJ-123' })
+    issueKey: string;
+
+    // The primary issue is linked through /products/:id/jira-link
+    @IsIn(['EPIC', 'CHILD', 'RELATED'])
+    role: Exclude<ProductIssueRole, 'PRIMARY'>;
+}
@@ -0,0 +1,83 @@
+import { Transform, Type } from "class-transformer";
+import { IsBoolean, IsDate, IsEnum, IsIn, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
+import { ProductLifecycle } from "../product-lifecycle";
+
+export const PRODUCT_SORT_FIELDS = ['id', 'name', 'createdAt', 'updatedAt'] as const;
+
+export class ListProductsDto {
+    // Pagination
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(0)
+    offset: number = 0;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit: number = 20;
+
+    // Filters
+    @IsOptional()
+    @IsIn(['OK', 'FAILED', 'PENDING', 'CONFLICT', 'ISSUE_DELETED', 'UNLINKED'])
+    jiraSyncStatus?: 'OK' | 'FAILED' | 'PENDING' | 'CONFLICT' | 'ISSUE_DELETED' | 'UNLINKED';
+
+    @IsOptional()
+    @IsString()
+    ticketStatus?: string;
+
+    @IsOptional()
+    @IsEnum(ProductLifecycle)
+    lifecycle?: ProductLifecycle;
+
+    @IsOptional()
+    @IsString()
+    externalRef?: string;
+
+    @IsOptional()
+    @IsString()
+    category?: string;
+
+    // Free-text search on name
+    @IsOptional()
+    @IsString()
+    search?: string;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    createdFrom?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    createdTo?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    updatedFrom?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    updatedTo?: Date;
+
+    // Sorting
+    @IsOptional()
+    @IsIn(PRODUCT_SORT_FIELDS)
+    sortBy: (typeof PRODUCT_SORT_FIELDS)[number] = 'createdAt';
+
+    @IsOptional()
+    @Transform(({ value }) => String(value).toUpperCase())
+    @IsIn(['ASC', 'DESC'])
+    sortOrder: 'ASC' | 'DESC' = 'DESC';
+
+    // Include soft-deleted products
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true' || value === '1')
+    @IsBoolean()
+    includeDeleted: boolean = false;
+}
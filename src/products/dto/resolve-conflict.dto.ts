@@ -0,0 +1,7 @@
+import { IsIn } from "class-validator";
+
+export class ResolveConflictDto {
+    // Which side's value to keep
+    @IsIn(['LOCAL', 'JIRA'])
+    use: 'LOCAL' | 'JIRA';
+}
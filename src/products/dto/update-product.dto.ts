@@ -1,4 +1,5 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateProductDto } from './create-product.dto';
 
-export class UpdateProductDto extends PartialType(CreateProductDto) {}
+// The Jira connection can't change once the issue exists; the issue changes through /products/:id/jira-link
+export class UpdateProductDto extends PartialType(OmitType(CreateProductDto, ['jiraConnectionId', 'jiraIssueKey'] as const)) {}
@@ -0,0 +1,55 @@
+// products/entities/jira-outbox-entry.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from 'typeorm';
+
+export type JiraOutboxOperation = 'CREATE' | 'UPDATE' | 'TRANSITION' | 'COMMENT' | 'ATTACHMENT' | 'ROUTE';
+
+export type JiraOutboxStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'DEAD';
+
+// A Jira write, recorded before it is attempted; the outbox worker replays it until it reaches Jira
+@Entity('jira_outbox')
+@Index(['status', 'nextAttemptAt'])
+export class JiraOutboxEntry {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    @Index()
+    productId: number;
+
+    @Column({ type: 'varchar', length: 20 })
+    operation: JiraOutboxOperation;
+
+    // Operation specific data (e.g. the target of a transition)
+    @Column({ type: 'json', nullable: true })
+    payload: Record<string, any> | null;
+
+    @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+    status: JiraOutboxStatus;
+
+    @Column({ default: 0 })
+    attempts: number;
+
+    @Column({ type: 'datetime' })
+    nextAttemptAt: Date;
+
+    @Column({ type: 'text', nullable: true })
+    lastError: string | null;
+
+    // When the worker or an inline call took the entry; a PROCESSING entry claimed long ago is reclaimed
+    @Column({ type: 'datetime', nullable: true })
+    claimedAt: Date | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,75 @@
+// products/entities/jira-webhook-inbox-entry.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from 'typeorm';
+import type { JiraWebhookEvent } from '../../jira/jira-webhook-payload';
+
+export type JiraWebhookInboxStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'DEAD';
+
+// A validated Jira webhook delivery, stored on receipt and applied by the inbox worker
+@Entity('jira_webhook_inbox')
+@Index(['status', 'id'])
+export class JiraWebhookInboxEntry {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    // X-Atlassian-Webhook-Identifier; a delivery Jira retries is stored once
+    @Column({ type: 'varchar', length: 100, nullable: true, unique: true })
+    webhookId: string | null;
+
+    // SHA-256 of a timestamped body; the id header isn't signed, so a replayed body is recognised by its content
+    @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+    payloadHash: string | null;
+
+    // JiraConnection the webhook arrived for; null = the default (env) site
+    @Column({ type: 'int', nullable: true })
+    connectionId: number | null;
+
+    // e.g. "jira:issue_updated"; null for Automation payloads
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    webhookEvent: string | null;
+
+    // Events of the same issue are applied one at a time, in arrival order; null = no issue (attachment events)
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    @Index()
+    issueKey: string | null;
+
+    // Absent from some Automation payloads
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    issueId: string | null;
+
+    // Ordering key: "<connectionId>:<issue id or key>", shared with the open events of the same issue
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    @Index()
+    lane: string | null;
+
+    @Column({ type: 'json' })
+    payload: JiraWebhookEvent;
+
+    @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+    status: JiraWebhookInboxStatus;
+
+    @Column({ default: 0 })
+    attempts: number;
+
+    @Column({ type: 'datetime' })
+    nextAttemptAt: Date;
+
+    @Column({ type: 'text', nullable: true })
+    lastError: string | null;
+
+    @Column({ type: 'datetime', nullable: true })
+    processedAt: Date | null;
+
+    // Metadata (createdAt = when the delivery was received)
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
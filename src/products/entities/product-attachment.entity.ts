@@ -0,0 +1,56 @@
+// products/entities/product-attachment.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from 'typeorm';
+
+export type ProductAttachmentSource = 'api' | 'jira';
+
+// A file on a product, mirrored to a Jira issue attachment
+@Entity('product_attachments')
+// Attachment ids are only unique within one Jira site
+@Index(['jiraConnectionId', 'jiraAttachmentId'], { unique: true })
+export class ProductAttachment {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    @Index()
+    productId: number;
+
+    @Column({ type: 'varchar', length: 255 })
+    filename: string;
+
+    @Column({ type: 'varchar', length: 255 })
+    mimeType: string;
+
+    // Bytes
+    @Column({ type: 'int' })
+    size: number;
+
+    // Location of the content in the attachment storage
+    @Column({ type: 'varchar', length: 255 })
+    storageKey: string;
+
+    // Where the file was uploaded first
+    @Column({ type: 'varchar', length: 20 })
+    source: ProductAttachmentSource;
+
+    // Jira Integration
+    // JiraConnection of the product; null = the default (env) site
+    @Column({ type: 'int', nullable: true })
+    jiraConnectionId: number | null;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    jiraAttachmentId: string | null;
+
+    @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+    jiraSyncStatus: 'PENDING' | 'OK' | 'FAILED';
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,66 @@
+// products/entities/product-audit-event.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from 'typeorm';
+import { ConflictSource } from './product-conflict.entity';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'STATUS';
+export type AuditSource = ConflictSource;
+export type AuditActorType = 'user' | 'jira' | 'system';
+
+export interface AuditFieldChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+// One change to a product, from the API or from Jira
+@Entity('product_audit_events')
+@Index(['productId', 'createdAt'])
+export class ProductAuditEvent {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    productId: number;
+
+    @Column({ type: 'varchar', length: 20 })
+    action: AuditAction;
+
+    @Column({ type: 'varchar', length: 20 })
+    source: AuditSource;
+
+    // Who made the change: API user, Jira account or the integration itself
+    @Column({ type: 'varchar', length: 20 })
+    actorType: AuditActorType;
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    actorId: string | null;
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    actorName: string | null;
+
+    // Field-level before/after values
+    @Column({ type: 'json' })
+    changes: AuditFieldChange[];
+
+    // Correlated Jira request
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    jiraIssueKey: string | null;
+
+    // Webhook event, e.g. "jira:issue_updated"
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    jiraEvent: string | null;
+
+    // X-Atlassian-Webhook-Identifier (or changelog id) of the webhook delivery
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    jiraRequestId: string | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+}
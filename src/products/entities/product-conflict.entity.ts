@@ -0,0 +1,57 @@
+// products/entities/product-conflict.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from 'typeorm';
+
+export type ConflictField = 'name' | 'description';
+export type ConflictSource = 'api' | 'webhook' | 'reconcile';
+
+// A field edited both locally and in Jira since the last successful sync
+@Entity('product_conflicts')
+export class ProductConflict {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    @Index()
+    productId: number;
+
+    @Column({ type: 'varchar', length: 50 })
+    field: ConflictField;
+
+    @Column({ type: 'text', nullable: true })
+    localValue: string | null;
+
+    @Column({ type: 'text', nullable: true })
+    jiraValue: string | null;
+
+    // Product.updatedAt when the conflict was detected
+    @Column({ type: 'datetime', nullable: true })
+    localUpdatedAt: Date | null;
+
+    // Jira issue `updated` when the conflict was detected
+    @Column({ type: 'datetime', nullable: true })
+    jiraUpdatedAt: Date | null;
+
+    // Side that noticed the conflict
+    @Column({ type: 'varchar', length: 20 })
+    source: ConflictSource;
+
+    @Column({ type: 'varchar', length: 20, default: 'OPEN' })
+    @Index()
+    status: 'OPEN' | 'RESOLVED';
+
+    @Column({ type: 'varchar', length: 20, nullable: true })
+    resolution: 'LOCAL' | 'JIRA' | null;
+
+    @Column({ type: 'datetime', nullable: true })
+    resolvedAt: Date | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,62 @@
+// products/entities/product-intake.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from 'typeorm';
+import type { JiraIssueEvent } from '../../jira/jira-webhook-payload';
+
+export type ProductIntakeStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// A Jira issue with no product, waiting for someone to approve it into the catalogue
+@Entity('product_intake')
+@Index(['jiraConnectionId', 'jiraIssueKey'])
+export class ProductIntake {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    // JiraConnection of the issue; null = the JIRA_* env site
+    @Column({ type: 'int', nullable: true })
+    jiraConnectionId: number | null;
+
+    @Column({ type: 'varchar', length: 50 })
+    jiraIssueKey: string;
+
+    @Column({ type: 'varchar', length: 255 })
+    summary: string;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    projectKey: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    issueType: string | null;
+
+    // Latest issue received by webhook; the product is created from it on approval
+    @Column({ type: 'json' })
+    issue: JiraIssueEvent['issue'];
+
+    @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+    @Index()
+    status: ProductIntakeStatus;
+
+    // Product created on approval
+    @Column({ type: 'int', nullable: true })
+    productId: number | null;
+
+    // Caller who approved or rejected the issue
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    decidedBy: string | null;
+
+    @Column({ type: 'datetime', nullable: true })
+    decidedAt: Date | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,59 @@
+// products/entities/product-issue.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from 'typeorm';
+
+// PRIMARY is the product's own issue (Product.jiraIssueKey) and is never stored here
+export type ProductIssueRole = 'PRIMARY' | 'EPIC' | 'CHILD' | 'RELATED';
+
+// A Jira issue that belongs to a product besides its primary issue: its epic, the epic's children, related issues
+@Entity('product_issues')
+@Index(['productId', 'jiraIssueKey'], { unique: true })
+@Index(['jiraConnectionId', 'jiraIssueKey'])
+export class ProductIssue {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    @Index()
+    productId: number;
+
+    // Same site as the product; null = the JIRA_* env site
+    @Column({ type: 'int', nullable: true })
+    jiraConnectionId: number | null;
+
+    @Column({ type: 'varchar', length: 50 })
+    jiraIssueKey: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    jiraIssueId: string | null;
+
+    @Column({ type: 'varchar', length: 20 })
+    role: Exclude<ProductIssueRole, 'PRIMARY'>;
+
+    // Last known state of the issue, refreshed by webhooks and reconciliation
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    summary: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    issueType: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    status: string | null;
+
+    // Jira status category: new, indeterminate or done
+    @Column({ type: 'varchar', length: 20, nullable: true })
+    statusCategory: string | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
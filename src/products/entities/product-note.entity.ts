@@ -0,0 +1,58 @@
+// products/entities/product-note.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    DeleteDateColumn,
+    Index,
+} from 'typeorm';
+
+export type ProductNoteSource = 'api' | 'jira';
+
+// A discussion entry on a product, mirrored to a Jira issue comment
+@Entity('product_notes')
+// Comment ids are only unique within one Jira site
+@Index(['jiraConnectionId', 'jiraCommentId'], { unique: true })
+export class ProductNote {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column()
+    @Index()
+    productId: number;
+
+    // Markdown
+    @Column({ type: 'text' })
+    body: string;
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    author: string | null;
+
+    // Where the note was written first
+    @Column({ type: 'varchar', length: 20 })
+    source: ProductNoteSource;
+
+    // Jira Integration
+    // JiraConnection of the product; null = the default (env) site
+    @Column({ type: 'int', nullable: true })
+    jiraConnectionId: number | null;
+
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    jiraCommentId: string | null;
+
+    @Column({ type: 'varchar', length: 20, default: 'PENDING' })
+    jiraSyncStatus: 'PENDING' | 'OK' | 'FAILED';
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+
+    // Set when the Jira comment is deleted
+    @DeleteDateColumn()
+    deletedAt: Date | null;
+}
@@ -8,6 +8,7 @@ import {
     DeleteDateColumn,
     Index,
 } from 'typeorm';
+import { ProductLifecycle } from '../product-lifecycle';
 
 
 @Entity('products')
@@ -24,23 +25,53 @@ export class Product {
     @Column({ nullable: true })
     externalRef: string;
 
+    // Drives Jira routing rules (project, issue type, ...)
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    @Index()
+    category: string | null;
+
+    // Free-form values (SKU, owning team, ...) that JIRA_FIELD_MAPPINGS can map to Jira custom fields
+    @Column({ type: 'json', nullable: true })
+    attributes: Record<string, string | number | string[] | null> | null;
+
+    @Column({ type: 'enum', enum: ProductLifecycle, default: ProductLifecycle.DRAFT })
+    lifecycle: ProductLifecycle;
+
     // Jira Reference Fields
+    // JiraConnection of the product's site; null = the JIRA_* env site
+    @Column({ type: 'int', nullable: true })
+    @Index()
+    jiraConnectionId: number | null;
+
     @Column({ nullable: true })
     @Index()
     jiraIssueKey: string;
 
-    @Column({ nullable: true })
-    jiraIssueId: string;
+    @Column({ type: 'varchar', nullable: true })
+    jiraIssueId: string | null;
 
-    @Column({ nullable: true })
-    ticketStatus: string;
+    @Column({ type: 'varchar', nullable: true })
+    ticketStatus: string | null;
 
+    // ISSUE_DELETED: the issue was deleted in Jira; the key is kept for reference but nothing is synced
+    // UNLINKED: detached from its issue on purpose; no new issue is created until one is linked
     @Column({ nullable: true, default: 'PENDING' })
-    jiraSyncStatus: 'OK' | 'FAILED' | 'PENDING';
+    jiraSyncStatus: 'OK' | 'FAILED' | 'PENDING' | 'CONFLICT' | 'ISSUE_DELETED' | 'UNLINKED';
 
     @Column({ nullable: true })
     jiraLastSyncAt: Date;
 
+    // Jira issue `updated` timestamp as of the last sync, used to detect concurrent edits
+    @Column({ type: 'datetime', nullable: true })
+    jiraUpdatedAt: Date | null;
+
+    // Authenticated callers (JWT subject or API key name) that created / last changed the product
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    createdBy: string | null;
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    updatedBy: string | null;
+
     // Metadata
     @CreateDateColumn()
     createdAt: Date;
@@ -49,5 +80,5 @@ export class Product {
     updatedAt: Date;
 
     @DeleteDateColumn()
-    deletedAt: Date;
+    deletedAt: Date | null;
 }
@@ -0,0 +1,482 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { JiraOutboxService } from './jira-outbox.service';
+import { JiraOutboxEntry } from './entities/jira-outbox-entry.entity';
+import { Product } from './entities/product.entity';
+import { ProductNote } from './entities/product-note.entity';
+import { ProductAttachment } from './entities/product-attachment.entity';
+import { ProductConflict } from './entities/product-conflict.entity';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraUnavailableError } from '../jira/jira-request-policy';
+import { ATTACHMENT_STORAGE } from '../storage/attachment-storage';
+import type { AttachmentStorage } from '../storage/attachment-storage';
+import { RoutingRulesService } from '../routing/routing-rules.service';
+
+describe('JiraOutboxService', () => {
+  let service: JiraOutboxService;
+  let outboxRepo: jest.Mocked<Repository<JiraOutboxEntry>>;
+  let productRepo: jest.Mocked<Repository<Product>>;
+  let noteRepo: jest.Mocked<Repository<ProductNote>>;
+  let attachmentRepo: jest.Mocked<Repository<ProductAttachment>>;
+  let conflictRepo: jest.Mocked<Repository<ProductConflict>>;
+  let jira: jest.Mocked<JiraService>;
+
+  const mockOutboxRepo = () => ({
+    find: jest.fn(),
+    findOneBy: jest.fn(),
+    save: jest.fn((entry) => Promise.resolve(entry)),
+    update: jest.fn(),
+    countBy: jest.fn(),
+  });
+
+  const mockProductRepo = () => ({
+    findOne: jest.fn(),
+    update: jest.fn(),
+  });
+
+  const mockNoteRepo = () => ({
+    find: jest.fn(),
+    update: jest.fn(),
+  });
+
+  const mockAttachmentRepo = () => ({
+    find: jest.fn(),
+    update: jest.fn(),
+  });
+
+  const mockConflictRepo = () => ({
+    findBy: jest.fn().mockResolvedValue([]),
+    existsBy: jest.fn().mockResolvedValue(false),
+  });
+
+  const mockStorage = () => ({
+    read: jest.fn(),
+  });
+
+  const mockJira = () => ({
+    createIssue: jest.fn(),
+    updateIssue: jest.fn(),
+    updateStatus: jest.fn(),
+    reopenIssue: jest.fn(),
+    transitionTo: jest.fn(),
+    addComment: jest.fn(),
+    addAttachment: jest.fn(),
+    applyRoute: jest.fn(),
+  });
+
+  const mockRouting = () => ({
+    resolve: jest.fn(),
+  });
+
+  const entry = (overrides: Partial<JiraOutboxEntry> = {}) =>
+    ({
+      id: 10,
+      productId: 1,
+      operation: 'UPDATE',
+      payload: null,
+      status: 'PENDING',
+      attempts: 1,
+      nextAttemptAt: new Date(),
+      lastError: 'Jira down',
+      ...overrides,
+    }) as JiraOutboxEntry;
+
+  beforeEach(async () => {
+    delete process.env.JIRA_OUTBOX_MAX_ATTEMPTS;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JiraOutboxService,
+        { provide: getRepositoryToken(JiraOutboxEntry), useFactory: mockOutboxRepo },
+        { provide: getRepositoryToken(Product), useFactory: mockProductRepo },
+        { provide: getRepositoryToken(ProductNote), useFactory: mockNoteRepo },
+        { provide: getRepositoryToken(ProductAttachment), useFactory: mockAttachmentRepo },
+        { provide: getRepositoryToken(ProductConflict), useFactory: mockConflictRepo },
+        { provide: ATTACHMENT_STORAGE, useFactory: mockStorage },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: RoutingRulesService, useFactory: mockRouting },
+      ],
+    }).compile();
+
+    service = module.get(JiraOutboxService);
+    outboxRepo = module.get(getRepositoryToken(JiraOutboxEntry));
+    productRepo = module.get(getRepositoryToken(Product));
+    noteRepo = module.get(getRepositoryToken(ProductNote));
+    attachmentRepo = module.get(getRepositoryToken(ProductAttachment));
+    conflictRepo = module.get(getRepositoryToken(ProductConflict));
+    jira = module.get(JiraService);
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => { });
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('enqueue', () => {
+    it('should insert a pending entry scheduled after the first backoff', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+      outboxRepo.findOneBy.mockResolvedValue(null);
+
+      await service.enqueue(manager, { productId: 1, operation: 'CREATE', error: 'Jira down' });
+
+      expect(outboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        productId: 1,
+        operation: 'CREATE',
+        status: 'PENDING',
+        attempts: 1,
+        lastError: 'Jira down',
+        nextAttemptAt: expect.any(Date),
+      }));
+    });
+
+    it('should reuse an existing pending entry for the same operation', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+      const existing = entry({ operation: 'TRANSITION', payload: { target: 'DROPPED' } });
+      outboxRepo.findOneBy.mockResolvedValue(existing);
+
+      await service.enqueue(manager, {
+        productId: 1,
+        operation: 'TRANSITION',
+        payload: { target: 'DROPPED' },
+        error: 'Still down',
+      });
+
+      expect(outboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        id: 10,
+        lastError: 'Still down',
+      }));
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('begin', () => {
+    it('should record the call as claimed before Jira is called', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+      outboxRepo.findOneBy.mockResolvedValue(null);
+
+      await service.begin(manager, { productId: 1, operation: 'UPDATE' });
+
+      expect(outboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        productId: 1,
+        operation: 'UPDATE',
+        status: 'PROCESSING',
+        attempts: 0,
+        claimedAt: expect.any(Date),
+      }));
+    });
+
+    it('should take over a pending entry for the same operation', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+      outboxRepo.findOneBy.mockResolvedValue(entry());
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+
+      const claimed = await service.begin(manager, { productId: 1, operation: 'UPDATE' });
+
+      expect(outboxRepo.update).toHaveBeenCalledWith(
+        { id: 10, status: 'PENDING' },
+        expect.objectContaining({ status: 'PROCESSING', claimedAt: expect.any(Date) }),
+      );
+      expect(outboxRepo.save).not.toHaveBeenCalled();
+      expect(claimed).toEqual(expect.objectContaining({ id: 10, status: 'PROCESSING' }));
+    });
+
+    it('should mark the entry done when the inline call succeeds', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+
+      await service.complete(manager, entry({ status: 'PROCESSING', attempts: 0 }));
+
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, { status: 'DONE', attempts: 1, lastError: null });
+    });
+
+    it('should hand a failed inline call to the worker with backoff', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+
+      await service.fail(manager, entry({ status: 'PROCESSING', attempts: 0 }), new Error('Jira down'));
+
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, expect.objectContaining({
+        status: 'PENDING',
+        attempts: 1,
+        lastError: 'Jira down',
+        nextAttemptAt: expect.any(Date),
+      }));
+    });
+
+    it('should dead-letter the waiting entries of a product whose issue was deleted', async () => {
+      const manager: any = { getRepository: () => outboxRepo };
+      outboxRepo.update.mockResolvedValue({ affected: 2 } as any);
+
+      await service.cancel(manager, 1, 'Jira issue PROJ-1 was deleted');
+
+      expect(outboxRepo.update).toHaveBeenCalledWith(
+        { productId: 1, status: 'PENDING' },
+        { status: 'DEAD', lastError: 'Jira issue PROJ-1 was deleted' },
+      );
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('processPending', () => {
+    it('should reclaim entries whose claim went stale', async () => {
+      outboxRepo.find.mockResolvedValue([]);
+
+      await service.processPending();
+
+      expect(outboxRepo.update).toHaveBeenCalledWith(
+        { status: 'PROCESSING', claimedAt: expect.anything() },
+        { status: 'PENDING', nextAttemptAt: expect.any(Date) },
+      );
+    });
+
+    it('should replay a CREATE and mark the product synced', async () => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'CREATE' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, name: 'Product A', description: 'Desc' } as Product);
+      jira.createIssue.mockResolvedValue({ jiraKey: 'PROJ-1', jiraId: '1001' });
+
+      await service.processPending();
+
+      expect(jira.createIssue).toHaveBeenCalledWith({
+        summary: 'Product A',
+        description: 'Desc',
+        productId: 1,
+      });
+      expect(productRepo.update).toHaveBeenCalledWith(1, { jiraIssueKey: 'PROJ-1', jiraIssueId: '1001' });
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, { status: 'DONE', attempts: 2, lastError: null });
+      expect(productRepo.update).toHaveBeenCalledWith(1, expect.objectContaining({ jiraSyncStatus: 'OK' }));
+    });
+
+    it('should reschedule with backoff when the replay fails', async () => {
+      outboxRepo.find.mockResolvedValue([entry()]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', name: 'A' } as Product);
+      jira.updateIssue.mockRejectedValue(new Error('Jira down'));
+
+      await service.processPending();
+
+      expect(outboxRepo.update).toHaveBeenLastCalledWith(10, expect.objectContaining({
+        status: 'PENDING',
+        attempts: 2,
+        lastError: 'Jira down',
+        nextAttemptAt: expect.any(Date),
+      }));
+    });
+
+    it('should not retry before Jira is available again', async () => {
+      const retryAt = new Date(Date.now() + 6 * 3600 * 1000);
+      outboxRepo.find.mockResolvedValue([entry()]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', name: 'A' } as Product);
+      jira.updateIssue.mockRejectedValue(new JiraUnavailableError('Jira rate limit', retryAt));
+
+      await service.processPending();
+
+      expect(outboxRepo.update).toHaveBeenLastCalledWith(10, expect.objectContaining({
+        status: 'PENDING',
+        nextAttemptAt: retryAt,
+      }));
+    });
+
+    it('should dead-letter the entry once max attempts are reached', async () => {
+      process.env.JIRA_OUTBOX_MAX_ATTEMPTS = '3';
+      outboxRepo.find.mockResolvedValue([entry({ attempts: 2 })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', name: 'A' } as Product);
+      jira.updateIssue.mockRejectedValue(new Error('Jira down'));
+
+      await service.processPending();
+
+      expect(outboxRepo.update).toHaveBeenLastCalledWith(10, {
+        status: 'DEAD',
+        attempts: 3,
+        lastError: 'Jira down',
+      });
+    });
+
+    it('should replay a REOPENED transition only while the product is restored', async () => {
+      outboxRepo.find.mockResolvedValue([
+        entry({ id: 10, operation: 'TRANSITION', payload: { target: 'REOPENED' } }),
+      ]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', deletedAt: null } as Product);
+
+      await service.processPending();
+
+      expect(jira.reopenIssue).toHaveBeenCalledWith('PROJ-1');
+      expect(jira.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not push an UPDATE while the product has open conflicts', async () => {
+      outboxRepo.find.mockResolvedValue([entry()]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'CONFLICT' } as Product);
+
+      await service.processPending();
+
+      expect(jira.updateIssue).not.toHaveBeenCalled();
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, { status: 'DONE', attempts: 2, lastError: null });
+      expect(productRepo.update).not.toHaveBeenCalledWith(1, expect.objectContaining({ jiraSyncStatus: 'OK' }));
+    });
+
+    it('should hold back fields with open conflicts when replaying a failed UPDATE', async () => {
+      outboxRepo.find.mockResolvedValue([entry()]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', name: 'Local', description: 'Desc', jiraSyncStatus: 'FAILED' } as Product);
+      conflictRepo.findBy.mockResolvedValue([{ field: 'name' }] as ProductConflict[]);
+      conflictRepo.existsBy.mockResolvedValue(true);
+
+      await service.processPending();
+
+      expect(conflictRepo.findBy).toHaveBeenCalledWith({ productId: 1, status: 'OPEN' });
+      expect(jira.updateIssue).toHaveBeenCalledWith(expect.objectContaining({ issueKey: 'PROJ-1', summary: undefined, description: 'Desc' }));
+      expect(productRepo.update).toHaveBeenCalledWith(1, expect.objectContaining({ jiraSyncStatus: 'CONFLICT' }));
+    });
+
+    it.each(['ISSUE_DELETED', 'UNLINKED'] as const)('should not call Jira or report OK for a product flagged %s', async (jiraSyncStatus) => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'TRANSITION', payload: { status: 'Done' } })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', jiraSyncStatus } as Product);
+
+      await service.processPending();
+
+      expect(jira.transitionTo).not.toHaveBeenCalled();
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, { status: 'DONE', attempts: 2, lastError: null });
+      expect(productRepo.update).not.toHaveBeenCalledWith(1, expect.objectContaining({ jiraSyncStatus: 'OK' }));
+    });
+
+    it('should skip later entries of a product after a failure', async () => {
+      outboxRepo.find.mockResolvedValue([
+        entry({ id: 10, operation: 'UPDATE' }),
+        entry({ id: 11, operation: 'TRANSITION' }),
+      ]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', name: 'A' } as Product);
+      jira.updateIssue.mockRejectedValue(new Error('Jira down'));
+
+      await service.processPending();
+
+      expect(jira.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should post every unsynced note when replaying a COMMENT', async () => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'COMMENT' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      noteRepo.find.mockResolvedValue([
+        { id: 5, body: 'First' },
+        { id: 6, body: 'Second' },
+      ] as ProductNote[]);
+      jira.addComment.mockResolvedValueOnce({ id: '100' }).mockResolvedValueOnce({ id: '101' });
+
+      await service.processPending();
+
+      expect(jira.addComment).toHaveBeenNthCalledWith(1, 'PROJ-1', 'First');
+      expect(jira.addComment).toHaveBeenNthCalledWith(2, 'PROJ-1', 'Second');
+      expect(noteRepo.update).toHaveBeenCalledWith(5, { jiraCommentId: '100', jiraSyncStatus: 'OK' });
+      expect(noteRepo.update).toHaveBeenCalledWith(6, { jiraCommentId: '101', jiraSyncStatus: 'OK' });
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, { status: 'DONE', attempts: 2, lastError: null });
+    });
+
+    it('should leave notes that are still being posted inline to their request', async () => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'COMMENT' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      noteRepo.find.mockResolvedValue([]);
+
+      await service.processPending();
+
+      const unsynced = { productId: 1, source: 'api', jiraCommentId: IsNull() };
+      expect(noteRepo.find).toHaveBeenCalledWith({
+        where: [
+          { ...unsynced, jiraSyncStatus: 'FAILED' },
+          { ...unsynced, jiraSyncStatus: 'PENDING', createdAt: expect.anything() },
+        ],
+        order: { id: 'ASC' },
+      });
+    });
+
+    it('should keep a COMMENT pending until the product has a Jira issue', async () => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'COMMENT' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      productRepo.findOne.mockResolvedValue({ id: 1 } as Product);
+
+      await service.processPending();
+
+      expect(jira.addComment).not.toHaveBeenCalled();
+      expect(outboxRepo.update).toHaveBeenCalledWith(10, expect.objectContaining({
+        status: 'PENDING',
+        lastError: 'Product 1 has no Jira issue yet',
+      }));
+    });
+
+    it('should upload stored files when replaying an ATTACHMENT', async () => {
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'ATTACHMENT' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      attachmentRepo.find.mockResolvedValue([
+        { id: 3, filename: 'spec.pdf', mimeType: 'application/pdf', storageKey: 'products/1/a' },
+      ] as ProductAttachment[]);
+      const storage = service['storage'] as jest.Mocked<AttachmentStorage>;
+      storage.read.mockResolvedValue(Buffer.from('pdf'));
+      jira.addAttachment.mockResolvedValue({
+        id: '200', filename: 'spec.pdf', mimeType: 'application/pdf', size: 3, authorAccountId: null,
+      });
+
+      await service.processPending();
+
+      expect(storage.read).toHaveBeenCalledWith('products/1/a');
+      expect(jira.addAttachment).toHaveBeenCalledWith('PROJ-1', {
+        filename: 'spec.pdf',
+        mimeType: 'application/pdf',
+        data: Buffer.from('pdf'),
+      });
+      expect(attachmentRepo.update).toHaveBeenCalledWith(3, { jiraAttachmentId: '200', jiraSyncStatus: 'OK' });
+    });
+
+    it('should re-apply the current route and store the moved key when replaying a ROUTE', async () => {
+      const route = { projectKey: 'HW', issueType: 'Task' };
+      outboxRepo.find.mockResolvedValue([entry({ operation: 'ROUTE' })]);
+      outboxRepo.update.mockResolvedValue({ affected: 1 } as any);
+      outboxRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', category: 'hardware' } as Product);
+      (service['routing'].resolve as jest.Mock).mockResolvedValue(route);
+      jira.applyRoute.mockResolvedValue('HW-9');
+
+      await service.processPending();
+
+      expect(jira.applyRoute).toHaveBeenCalledWith('PROJ-1', route);
+      expect(productRepo.update).toHaveBeenCalledWith(1, { jiraIssueKey: 'HW-9' });
+    });
+
+    it('should not replay an entry claimed by another worker', async () => {
+      outboxRepo.find.mockResolvedValue([entry()]);
+      outboxRepo.update.mockResolvedValue({ affected: 0 } as any);
+
+      await service.processPending();
+
+      expect(productRepo.findOne).not.toHaveBeenCalled();
+      expect(jira.updateIssue).not.toHaveBeenCalled();
+    });
+  });
+});
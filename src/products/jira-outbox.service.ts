@@ -0,0 +1,460 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Interval } from '@nestjs/schedule';
+import {
+  EntityManager,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ProductNote } from './entities/product-note.entity';
+import { ProductAttachment } from './entities/product-attachment.entity';
+import { ProductConflict } from './entities/product-conflict.entity';
+import {
+  JiraOutboxEntry,
+  JiraOutboxOperation,
+} from './entities/jira-outbox-entry.entity';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraUnavailableError } from '../jira/jira-request-policy';
+import { RoutingRulesService } from '../routing/routing-rules.service';
+import { productToJiraFields } from './product-field-mapping';
+import { ATTACHMENT_STORAGE } from '../storage/attachment-storage';
+import type { AttachmentStorage } from '../storage/attachment-storage';
+
+const OUTBOX_INTERVAL_MS = Number(process.env.JIRA_OUTBOX_INTERVAL_MS) || 15000;
+const OUTBOX_BATCH_SIZE = 20;
+// A PROCESSING entry claimed longer ago than this belongs to a worker or request that died or hung
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+// Sync states a replay must not report as OK: open conflicts, or no issue left to sync with
+const KEPT_SYNC_STATUSES: Product['jiraSyncStatus'][] = [
+  'CONFLICT',
+  'ISSUE_DELETED',
+  'UNLINKED',
+];
+
+@Injectable()
+export class JiraOutboxService {
+  private readonly logger = new Logger(JiraOutboxService.name);
+  private processing = false;
+
+  constructor(
+    @InjectRepository(JiraOutboxEntry)
+    private outboxRepo: Repository<JiraOutboxEntry>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    @InjectRepository(ProductNote) private noteRepo: Repository<ProductNote>,
+    @InjectRepository(ProductAttachment)
+    private attachmentRepo: Repository<ProductAttachment>,
+    @InjectRepository(ProductConflict)
+    private conflictRepo: Repository<ProductConflict>,
+    @Inject(ATTACHMENT_STORAGE) private storage: AttachmentStorage,
+    private jiraClients: JiraClientFactory,
+    private routing: RoutingRulesService,
+  ) {}
+
+  // 1. Enqueue -> must run inside the transaction that saves the product
+  async enqueue(
+    manager: EntityManager,
+    entry: {
+      productId: number;
+      operation: JiraOutboxOperation;
+      payload?: Record<string, any>;
+      error?: string;
+    },
+  ) {
+    const repo = manager.getRepository(JiraOutboxEntry);
+
+    // Replays always read the latest product state, so one pending entry per operation is enough
+    const existing = await repo.findOneBy({
+      productId: entry.productId,
+      operation: entry.operation,
+      status: 'PENDING',
+    });
+    if (existing) {
+      existing.payload = entry.payload ?? existing.payload;
+      existing.lastError = entry.error ?? existing.lastError;
+      return repo.save(existing);
+    }
+
+    // The inline call that just failed counts as the first attempt
+    return repo.save({
+      productId: entry.productId,
+      operation: entry.operation,
+      payload: entry.payload ?? null,
+      status: 'PENDING',
+      attempts: 1,
+      nextAttemptAt: new Date(Date.now() + this.getBackoffDelay(1)),
+      lastError: entry.error ?? null,
+    });
+  }
+
+  // Write-ahead for an inline Jira call -> runs in the transaction that saves the product, before Jira is called.
+  // The entry stays claimed by the caller until complete() or fail(); if the caller dies, the worker reclaims it
+  async begin(
+    manager: EntityManager,
+    entry: {
+      productId: number;
+      operation: JiraOutboxOperation;
+      payload?: Record<string, any>;
+    },
+  ) {
+    const repo = manager.getRepository(JiraOutboxEntry);
+    const claimedAt = new Date();
+
+    // The inline call covers an entry of the same operation still waiting for the worker
+    const existing = await repo.findOneBy({
+      productId: entry.productId,
+      operation: entry.operation,
+      status: 'PENDING',
+    });
+    if (existing) {
+      const payload = entry.payload ?? existing.payload;
+      const claim = await repo.update(
+        { id: existing.id, status: 'PENDING' },
+        { status: 'PROCESSING', claimedAt, payload },
+      );
+      if (claim.affected) {
+        return Object.assign(existing, {
+          status: 'PROCESSING' as const,
+          claimedAt,
+          payload,
+        });
+      }
+    }
+
+    return repo.save({
+      productId: entry.productId,
+      operation: entry.operation,
+      payload: entry.payload ?? null,
+      status: 'PROCESSING',
+      attempts: 0,
+      nextAttemptAt: claimedAt,
+      lastError: null,
+      claimedAt,
+    });
+  }
+
+  // The inline call reached Jira -> runs in the transaction that saves its result
+  async complete(manager: EntityManager, entry: JiraOutboxEntry) {
+    await manager.getRepository(JiraOutboxEntry).update(entry.id, {
+      status: 'DONE',
+      attempts: entry.attempts + 1,
+      lastError: null,
+    });
+  }
+
+  // The inline call failed -> the worker replays it after the backoff
+  async fail(manager: EntityManager, entry: JiraOutboxEntry, error: Error) {
+    await manager
+      .getRepository(JiraOutboxEntry)
+      .update(entry.id, this.failure(entry, entry.attempts + 1, error));
+  }
+
+  // The product's issue is gone -> waiting entries can never reach it; runs in the transaction that flags the product
+  async cancel(manager: EntityManager, productId: number, reason: string) {
+    const { affected } = await manager
+      .getRepository(JiraOutboxEntry)
+      .update(
+        { productId, status: 'PENDING' },
+        { status: 'DEAD', lastError: reason },
+      );
+    if (affected) {
+      this.logger.warn(
+        `[OUTBOX] Product ${productId}: ${affected} queued Jira write(s) cancelled: ${reason}`,
+      );
+    }
+  }
+
+  // Whether a local change of this kind (any kind when omitted) is still waiting to reach Jira
+  async hasPending(productId: number, operation?: JiraOutboxOperation) {
+    const count = await this.outboxRepo.countBy({
+      productId,
+      ...(operation && { operation }),
+      status: In(['PENDING', 'PROCESSING']),
+    });
+    return count > 0;
+  }
+
+  // 2. Worker -> replay due entries against Jira
+  @Interval('jira-outbox', OUTBOX_INTERVAL_MS)
+  async processPending() {
+    // Skip the tick if the previous run is still replaying
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.outboxRepo.update(
+        {
+          status: 'PROCESSING',
+          claimedAt: LessThan(new Date(Date.now() - STALE_CLAIM_MS)),
+        },
+        { status: 'PENDING', nextAttemptAt: new Date() },
+      );
+
+      const due = await this.outboxRepo.find({
+        where: {
+          status: 'PENDING',
+          nextAttemptAt: LessThanOrEqual(new Date()),
+        },
+        order: { id: 'ASC' },
+        take: OUTBOX_BATCH_SIZE,
+      });
+
+      // Keep per-product ordering: once an entry fails, later ones for that product wait
+      const blocked = new Set<number>();
+      for (const entry of due) {
+        if (blocked.has(entry.productId)) continue;
+        const ok = await this.replay(entry);
+        if (!ok) blocked.add(entry.productId);
+      }
+    } catch (e) {
+      this.logger.error(`[OUTBOX] Worker run failed: ${e.message}`);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async replay(entry: JiraOutboxEntry): Promise<boolean> {
+    // Claim the entry so a second worker instance can't replay it concurrently
+    const claim = await this.outboxRepo.update(
+      { id: entry.id, status: 'PENDING' },
+      { status: 'PROCESSING', claimedAt: new Date() },
+    );
+    if (!claim.affected) return true;
+
+    const attempts = entry.attempts + 1;
+    const product = await this.productRepo.findOne({
+      where: { id: entry.productId },
+      withDeleted: true,
+    });
+
+    if (!product) {
+      await this.outboxRepo.update(entry.id, {
+        status: 'DEAD',
+        attempts,
+        lastError: `Product ${entry.productId} not found`,
+      });
+      this.logger.error(
+        `[OUTBOX] Entry ${entry.id} dead-lettered: product ${entry.productId} not found`,
+      );
+      return true;
+    }
+
+    try {
+      await this.dispatch(entry, product);
+      await this.outboxRepo.update(entry.id, {
+        status: 'DONE',
+        attempts,
+        lastError: null,
+      });
+
+      // Only report the product as synced once nothing else is queued for it
+      const open = await this.outboxRepo.countBy({
+        productId: product.id,
+        status: In(['PENDING', 'PROCESSING']),
+      });
+      // Fields with open conflicts were held back, so those products stay CONFLICT
+      const conflicted = await this.conflictRepo.existsBy({
+        productId: product.id,
+        status: 'OPEN',
+      });
+      await this.productRepo.update(product.id, {
+        ...(open === 0 &&
+          !KEPT_SYNC_STATUSES.includes(product.jiraSyncStatus) && {
+            jiraSyncStatus: conflicted
+              ? ('CONFLICT' as const)
+              : ('OK' as const),
+          }),
+        jiraLastSyncAt: new Date(),
+      });
+
+      this.logger.log(
+        `[OUTBOX] Entry ${entry.id} (${entry.operation}) replayed for product ${product.id}`,
+      );
+      return true;
+    } catch (e) {
+      await this.outboxRepo.update(entry.id, this.failure(entry, attempts, e));
+      return false;
+    }
+  }
+
+  // --- Helper: Schedule the next attempt, or dead-letter the entry once max attempts are reached ---
+  private failure(
+    entry: JiraOutboxEntry,
+    attempts: number,
+    e: Error,
+  ): Partial<JiraOutboxEntry> {
+    const message = e.message;
+
+    if (attempts >= this.getMaxAttempts()) {
+      this.logger.error(
+        `[OUTBOX] Entry ${entry.id} (${entry.operation}) dead-lettered after ${attempts} attempts: ${message}`,
+      );
+      return { status: 'DEAD', attempts, lastError: message };
+    }
+
+    // Don't come back before Jira's rate-limit pause or circuit breaker is over
+    const nextAttemptAt = new Date(
+      Math.max(
+        Date.now() + this.getBackoffDelay(attempts),
+        e instanceof JiraUnavailableError ? e.retryAt.getTime() : 0,
+      ),
+    );
+    this.logger.warn(
+      `[OUTBOX] Entry ${entry.id} (${entry.operation}) failed (attempt ${attempts}), retrying at ${nextAttemptAt.toISOString()}: ${message}`,
+    );
+    return { status: 'PENDING', attempts, nextAttemptAt, lastError: message };
+  }
+
+  // --- Helper: Re-run the Jira call for an entry ---
+  private async dispatch(entry: JiraOutboxEntry, product: Product) {
+    // Deleted in Jira or unlinked after the entry was queued: nothing left to write to
+    if (
+      product.jiraSyncStatus === 'ISSUE_DELETED' ||
+      product.jiraSyncStatus === 'UNLINKED'
+    ) {
+      return;
+    }
+
+    const jira = await this.jiraClients.forProduct(product);
+    switch (entry.operation) {
+      case 'CREATE': {
+        // Issue may have been created by a later successful call in the meantime
+        if (product.jiraIssueKey) return;
+
+        const jiraResult = await jira.createIssue({
+          summary: product.name,
+          description: product.description,
+          productId: product.id,
+          route: await this.routing.resolve(product),
+          fields: productToJiraFields(product),
+          reporterAccountId: entry.payload?.reporterAccountId,
+        });
+        await this.productRepo.update(product.id, {
+          jiraIssueKey: jiraResult.jiraKey,
+          jiraIssueId: jiraResult.jiraId,
+        });
+        return;
+      }
+      case 'UPDATE': {
+        // Conflicting fields are pushed when the conflict is resolved
+        if (product.jiraSyncStatus === 'CONFLICT') return;
+
+        const open = await this.conflictRepo.findBy({
+          productId: product.id,
+          status: 'OPEN',
+        });
+        const held = new Set(open.map((c) => c.field));
+        await jira.updateIssue({
+          issueKey: product.jiraIssueKey,
+          summary: held.has('name') ? undefined : product.name,
+          description: held.has('description')
+            ? undefined
+            : product.description,
+          fields: productToJiraFields(product),
+        });
+        return;
+      }
+      case 'TRANSITION':
+        // Explicit status change requested through the API
+        if (entry.payload?.status) {
+          await jira.transitionTo(
+            product.jiraIssueKey,
+            entry.payload.status,
+            entry.payload.options,
+          );
+          return;
+        }
+
+        // Skip intents made stale by a later delete/restore of the product
+        if (entry.payload?.target === 'REOPENED') {
+          if (!product.deletedAt) await jira.reopenIssue(product.jiraIssueKey);
+        } else if (product.deletedAt) {
+          await jira.updateStatus(product.jiraIssueKey);
+        }
+        return;
+      case 'COMMENT': {
+        // One entry covers every note of the product still missing its comment
+        if (!product.jiraIssueKey)
+          throw new Error(`Product ${product.id} has no Jira issue yet`);
+
+        const notes = await this.noteRepo.find({
+          where: this.unsynced(product.id, { jiraCommentId: IsNull() }),
+          order: { id: 'ASC' },
+        });
+        for (const note of notes) {
+          const comment = await jira.addComment(
+            product.jiraIssueKey,
+            note.body,
+          );
+          await this.noteRepo.update(note.id, {
+            jiraCommentId: comment.id,
+            jiraSyncStatus: 'OK',
+          });
+        }
+        return;
+      }
+      case 'ROUTE': {
+        // A pending CREATE files the issue with the current route anyway
+        if (!product.jiraIssueKey) return;
+
+        const issueKey = await jira.applyRoute(
+          product.jiraIssueKey,
+          await this.routing.resolve(product),
+        );
+        if (issueKey !== product.jiraIssueKey) {
+          await this.productRepo.update(product.id, { jiraIssueKey: issueKey });
+        }
+        return;
+      }
+      case 'ATTACHMENT': {
+        // Same as COMMENT: upload every file still missing on the issue
+        if (!product.jiraIssueKey)
+          throw new Error(`Product ${product.id} has no Jira issue yet`);
+
+        const attachments = await this.attachmentRepo.find({
+          where: this.unsynced(product.id, { jiraAttachmentId: IsNull() }),
+          order: { id: 'ASC' },
+        });
+        for (const attachment of attachments) {
+          const uploaded = await jira.addAttachment(product.jiraIssueKey, {
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            data: await this.storage.read(attachment.storageKey),
+          });
+          await this.attachmentRepo.update(attachment.id, {
+            jiraAttachmentId: uploaded.id,
+            jiraSyncStatus: 'OK',
+          });
+        }
+        return;
+      }
+    }
+  }
+
+  // --- Helper: Notes or attachments still to send; PENDING ones are being sent inline, unless that request died ---
+  private unsynced<T extends object>(productId: number, missing: T) {
+    const base = { productId, source: 'api' as const, ...missing };
+    return [
+      { ...base, jiraSyncStatus: 'FAILED' as const },
+      {
+        ...base,
+        jiraSyncStatus: 'PENDING' as const,
+        createdAt: LessThan(new Date(Date.now() - STALE_CLAIM_MS)),
+      },
+    ];
+  }
+
+  // --- Helper: Exponential backoff, capped ---
+  private getBackoffDelay(attempts: number): number {
+    const base = Number(process.env.JIRA_OUTBOX_BASE_DELAY_MS) || 30000;
+    const max = Number(process.env.JIRA_OUTBOX_MAX_DELAY_MS) || 3600000;
+    return Math.min(max, base * 2 ** (attempts - 1));
+  }
+
+  private getMaxAttempts(): number {
+    return Number(process.env.JIRA_OUTBOX_MAX_ATTEMPTS) || 10;
+  }
+}
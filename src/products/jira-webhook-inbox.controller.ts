@@ -0,0 +1,29 @@
+import { Controller, Get, Post, Param, ParseIntPipe, Query, ParseEnumPipe } from '@nestjs/common';
+import { JiraWebhookInboxService } from './jira-webhook-inbox.service';
+import type { JiraWebhookInboxStatus } from './entities/jira-webhook-inbox-entry.entity';
+import { Roles } from '../auth/auth.decorators';
+
+const INBOX_STATUSES = ['PENDING', 'PROCESSING', 'DONE', 'DEAD'];
+
+@Controller('admin/jira-webhooks')
+@Roles('admin')
+export class JiraWebhookInboxController {
+  constructor(private readonly inboxService: JiraWebhookInboxService) { }
+
+  @Get('stats')
+  getStats() {
+    return this.inboxService.getStats();
+  }
+
+  @Get('events')
+  listEvents(
+    @Query('status', new ParseEnumPipe(INBOX_STATUSES, { optional: true })) status?: JiraWebhookInboxStatus,
+  ) {
+    return this.inboxService.findAll(status);
+  }
+
+  @Post('events/:eventId/retry')
+  retryEvent(@Param('eventId', ParseIntPipe) eventId: number) {
+    return this.inboxService.retry(eventId);
+  }
+}
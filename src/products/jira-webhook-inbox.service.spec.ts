@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { JiraWebhookInboxService } from './jira-webhook-inbox.service';
+import { JiraWebhookInboxEntry } from './entities/jira-webhook-inbox-entry.entity';
+import { ProductsService } from './products.service';
+
+describe('JiraWebhookInboxService', () => {
+    let service: JiraWebhookInboxService;
+    let inboxRepo: jest.Mocked<Repository<JiraWebhookInboxEntry>>;
+    let products: { handleJiraWebhook: jest.Mock };
+
+    const event = (key: string, summary = 'Title') => ({
+        webhookEvent: 'jira:issue_updated',
+        issue: { key, fields: { summary } },
+    });
+
+    const entry = (id: number, overrides: Partial<JiraWebhookInboxEntry> = {}) => ({
+        id,
+        webhookId: `delivery-${id}`,
+        connectionId: null,
+        webhookEvent: 'jira:issue_updated',
+        issueKey: 'PROJ-1',
+        issueId: null,
+        lane: ':PROJ-1',
+        payload: event('PROJ-1'),
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(Date.now() - 1000),
+        lastError: null,
+        processedAt: null,
+        createdAt: new Date(),
+        ...overrides,
+    }) as JiraWebhookInboxEntry;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                JiraWebhookInboxService,
+                {
+                    provide: getRepositoryToken(JiraWebhookInboxEntry),
+                    useFactory: () => ({
+                        existsBy: jest.fn().mockResolvedValue(false),
+                        save: jest.fn((e) => Promise.resolve({ id: 1, ...e })),
+                        find: jest.fn().mockResolvedValue([]),
+                        findOne: jest.fn().mockResolvedValue(null),
+                        findOneBy: jest.fn(),
+                        countBy: jest.fn().mockResolvedValue(0),
+                        update: jest.fn().mockResolvedValue({ affected: 1 }),
+                        delete: jest.fn(),
+                    }),
+                },
+                { provide: ProductsService, useFactory: () => ({ handleJiraWebhook: jest.fn() }) },
+            ],
+        }).compile();
+
+        service = module.get(JiraWebhookInboxService);
+        inboxRepo = module.get(getRepositoryToken(JiraWebhookInboxEntry));
+        products = module.get(ProductsService);
+
+        jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+        jest.spyOn(service['logger'], 'warn').mockImplementation(() => { });
+        jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('enqueue', () => {
+        it('should store the event without applying it', async () => {
+            const result = await service.enqueue(event('PROJ-1'), 'delivery-1', 2);
+
+            expect(inboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+                webhookId: 'delivery-1',
+                connectionId: 2,
+                webhookEvent: 'jira:issue_updated',
+                issueKey: 'PROJ-1',
+                status: 'PENDING',
+            }));
+            expect(products.handleJiraWebhook).not.toHaveBeenCalled();
+            expect(result).toEqual({ received: true, queued: true, eventId: 1 });
+        });
+
+        it('should start a lane on the issue id', async () => {
+            await service.enqueue({ webhookEvent: 'jira:issue_updated', issue: { id: '10001', key: 'PROJ-1', fields: {} } }, undefined, 2);
+
+            expect(inboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({ issueKey: 'PROJ-1', issueId: '10001', lane: '2:10001' }));
+        });
+
+        it('should put an event without issue id behind the open events of its issue', async () => {
+            inboxRepo.findOne.mockResolvedValue(entry(1, { issueId: '10001', lane: ':10001' }));
+
+            await service.enqueue(event('PROJ-1'));
+
+            expect(inboxRepo.findOne).toHaveBeenCalledWith(expect.objectContaining({
+                where: [expect.objectContaining({ issueKey: 'PROJ-1', connectionId: IsNull() })],
+            }));
+            expect(inboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({ issueId: null, lane: ':10001' }));
+        });
+
+        it('should keep a moved issue in the lane of its open events by issue id', async () => {
+            inboxRepo.findOne.mockResolvedValue(entry(1, { issueId: '10001', lane: ':PROJ-1' }));
+
+            await service.enqueue({ webhookEvent: 'jira:issue_updated', issue: { id: '10001', key: 'NEW-1', fields: {} } });
+
+            expect(inboxRepo.findOne).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.arrayContaining([expect.objectContaining({ issueId: '10001' })]),
+            }));
+            expect(inboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({ issueKey: 'NEW-1', lane: ':PROJ-1' }));
+        });
+
+        it('should acknowledge a delivery Jira retries without storing it again', async () => {
+            inboxRepo.existsBy.mockResolvedValue(true);
+
+            const result = await service.enqueue(event('PROJ-1'), 'delivery-1');
+
+            expect(result).toEqual({ received: true, duplicate: true });
+            expect(inboxRepo.save).not.toHaveBeenCalled();
+        });
+
+        it('should recognise a replayed body whatever delivery id it carries', async () => {
+            const stamped = { ...event('PROJ-1'), timestamp: 1767225600000 };
+            await service.enqueue(stamped, 'delivery-1');
+            const { payloadHash } = inboxRepo.save.mock.calls[0][0] as JiraWebhookInboxEntry;
+            expect(payloadHash).toMatch(/^[0-9a-f]{64}$/);
+            inboxRepo.existsBy.mockImplementation(async (where: any) => where.some((w: any) => w.payloadHash === payloadHash));
+
+            await expect(service.enqueue(stamped)).resolves.toEqual({ received: true, duplicate: true });
+            await expect(service.enqueue(stamped, 'forged-id')).resolves.toEqual({ received: true, duplicate: true });
+        });
+
+        it('should store untimestamped Automation bodies every time they arrive', async () => {
+            await service.enqueue(event('PROJ-1'));
+
+            expect(inboxRepo.existsBy).not.toHaveBeenCalled();
+            expect(inboxRepo.save).toHaveBeenCalledWith(expect.objectContaining({ webhookId: null, payloadHash: null }));
+        });
+
+        it('should treat a unique key violation as a duplicate', async () => {
+            inboxRepo.save.mockRejectedValue(Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }));
+
+            await expect(service.enqueue(event('PROJ-1'), 'delivery-1')).resolves.toEqual({ received: true, duplicate: true });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('processPending', () => {
+        it('should apply the events of an issue in arrival order', async () => {
+            inboxRepo.find.mockResolvedValue([
+                entry(1, { payload: event('PROJ-1', 'First') }),
+                entry(2, { payload: event('PROJ-1', 'Second') }),
+            ]);
+
+            await service.processPending();
+
+            expect(products.handleJiraWebhook.mock.calls.map(([e]) => e.issue.fields.summary)).toEqual(['First', 'Second']);
+            expect(inboxRepo.update).toHaveBeenCalledWith(2, expect.objectContaining({ status: 'DONE', attempts: 1 }));
+        });
+
+        it('should hold later events of an issue behind a failed one but not other issues', async () => {
+            inboxRepo.find.mockResolvedValue([
+                entry(1),
+                entry(2),
+                entry(3, { issueKey: 'PROJ-2', lane: ':PROJ-2', payload: event('PROJ-2') }),
+            ]);
+            products.handleJiraWebhook.mockRejectedValueOnce(new Error('Lock wait timeout'));
+
+            await service.processPending();
+
+            expect(products.handleJiraWebhook).toHaveBeenCalledTimes(2);
+            expect(products.handleJiraWebhook).toHaveBeenLastCalledWith(event('PROJ-2'), 'delivery-3', undefined);
+            expect(inboxRepo.update).toHaveBeenCalledWith(1, expect.objectContaining({
+                status: 'PENDING',
+                attempts: 1,
+                lastError: 'Lock wait timeout',
+            }));
+        });
+
+        it('should not overtake an event still waiting for its retry', async () => {
+            inboxRepo.find.mockResolvedValue([
+                entry(1, { attempts: 1, nextAttemptAt: new Date(Date.now() + 60000) }),
+                entry(2),
+            ]);
+
+            await service.processPending();
+
+            expect(products.handleJiraWebhook).not.toHaveBeenCalled();
+        });
+
+        it('should keep looking past a full page of events held behind a blocked issue', async () => {
+            const held = Array.from({ length: 50 }, (_, i) =>
+                entry(i + 1, i === 0 ? { attempts: 1, nextAttemptAt: new Date(Date.now() + 60000) } : {}));
+            inboxRepo.find
+                .mockResolvedValueOnce(held)
+                .mockResolvedValueOnce([entry(51, { issueKey: 'PROJ-2', lane: ':PROJ-2', payload: event('PROJ-2') })]);
+
+            await service.processPending();
+
+            expect(inboxRepo.find).toHaveBeenLastCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ id: MoreThan(50) }),
+            }));
+            expect(products.handleJiraWebhook).toHaveBeenCalledTimes(1);
+            expect(products.handleJiraWebhook).toHaveBeenCalledWith(event('PROJ-2'), 'delivery-51', undefined);
+        });
+
+        it('should dead-letter an event after JIRA_WEBHOOK_MAX_ATTEMPTS and let the issue move on', async () => {
+            process.env.JIRA_WEBHOOK_MAX_ATTEMPTS = '2';
+            inboxRepo.find.mockResolvedValue([entry(1, { attempts: 1 }), entry(2)]);
+            products.handleJiraWebhook.mockRejectedValueOnce(new Error('Boom'));
+
+            await service.processPending();
+            delete process.env.JIRA_WEBHOOK_MAX_ATTEMPTS;
+
+            expect(inboxRepo.update).toHaveBeenCalledWith(1, { status: 'DEAD', attempts: 2, lastError: 'Boom' });
+            expect(products.handleJiraWebhook).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    it('should report the backlog, its lag and the failures', async () => {
+        inboxRepo.createQueryBuilder = jest.fn(() => ({
+            select: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            groupBy: jest.fn().mockReturnThis(),
+            getRawMany: jest.fn().mockResolvedValue([{ status: 'PENDING', count: '3' }, { status: 'DEAD', count: '1' }]),
+        })) as any;
+        inboxRepo.findOne.mockResolvedValueOnce(entry(1, { createdAt: new Date(Date.now() - 5000) }));
+        inboxRepo.countBy.mockResolvedValue(2);
+
+        const stats = await service.getStats();
+
+        expect(stats).toEqual(expect.objectContaining({ pending: 3, processing: 0, retrying: 2, dead: 1 }));
+        expect(stats.lagMs).toBeGreaterThanOrEqual(5000);
+    });
+});
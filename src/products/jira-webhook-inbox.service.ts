@@ -0,0 +1,313 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { Cron, CronExpression, Interval } from '@nestjs/schedule';
+import { In, IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import {
+  JiraWebhookInboxEntry,
+  JiraWebhookInboxStatus,
+} from './entities/jira-webhook-inbox-entry.entity';
+import { ProductsService } from './products.service';
+import {
+  JiraWebhookEvent,
+  isAttachmentEvent,
+} from '../jira/jira-webhook-payload';
+
+const INBOX_INTERVAL_MS = Number(process.env.JIRA_WEBHOOK_INTERVAL_MS) || 1000;
+const INBOX_BATCH_SIZE = 50;
+// A PROCESSING entry older than this belongs to a worker that died mid-run
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class JiraWebhookInboxService {
+  private readonly logger = new Logger(JiraWebhookInboxService.name);
+  private processing = false;
+
+  constructor(
+    @InjectRepository(JiraWebhookInboxEntry)
+    private inboxRepo: Repository<JiraWebhookInboxEntry>,
+    private products: ProductsService,
+  ) {}
+
+  // 1. Receive -> store the validated event and let the worker apply it, so Jira gets its answer right away
+  async enqueue(
+    event: JiraWebhookEvent,
+    webhookId?: string,
+    connectionId?: number,
+  ) {
+    const payloadHash = this.hashPayload(event, connectionId);
+    const seen = [
+      ...(webhookId ? [{ webhookId }] : []),
+      ...(payloadHash ? [{ payloadHash }] : []),
+    ];
+    if (seen.length > 0 && (await this.inboxRepo.existsBy(seen))) {
+      return this.duplicate(webhookId ?? payloadHash);
+    }
+
+    const issue = isAttachmentEvent(event) ? null : event.issue;
+    try {
+      const entry = await this.inboxRepo.save({
+        webhookId: webhookId ?? null,
+        payloadHash,
+        connectionId: connectionId ?? null,
+        webhookEvent: event.webhookEvent ?? null,
+        issueKey: issue?.key ?? null,
+        issueId: issue?.id ?? null,
+        lane: issue
+          ? await this.resolveLane(issue, connectionId ?? null)
+          : null,
+        payload: event,
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      });
+      return { received: true, queued: true, eventId: entry.id };
+    } catch (e) {
+      // Two deliveries of the same retry racing past the lookup
+      if (e.code === 'ER_DUP_ENTRY' && seen.length > 0) {
+        return this.duplicate(webhookId ?? payloadHash);
+      }
+      throw e;
+    }
+  }
+
+  // 2. Worker -> apply stored events, one at a time per issue
+  @Interval('jira-webhook-inbox', INBOX_INTERVAL_MS)
+  async processPending() {
+    // Skip the tick if the previous run is still applying events
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      await this.inboxRepo.update(
+        {
+          status: 'PROCESSING',
+          updatedAt: LessThan(new Date(Date.now() - STALE_CLAIM_MS)),
+        },
+        { status: 'PENDING' },
+      );
+
+      // Oldest first; an issue whose oldest open event is not done blocks its later events.
+      // Pages continue past blocked issues so a long backlog of one issue can't hold up the others
+      const blocked = new Set<string>();
+      const now = Date.now();
+      let attempted = 0;
+      let afterId = 0;
+      while (attempted < INBOX_BATCH_SIZE) {
+        const open = await this.inboxRepo.find({
+          where: {
+            status: In(['PENDING', 'PROCESSING']),
+            id: MoreThan(afterId),
+          },
+          order: { id: 'ASC' },
+          take: INBOX_BATCH_SIZE,
+        });
+
+        for (const entry of open) {
+          const { lane } = entry;
+          if (lane && blocked.has(lane)) continue;
+
+          const ready =
+            entry.status === 'PENDING' && entry.nextAttemptAt.getTime() <= now;
+          if (ready) attempted++;
+          const ok = ready && (await this.apply(entry));
+          if (!ok && lane) blocked.add(lane);
+          if (attempted >= INBOX_BATCH_SIZE) break;
+        }
+
+        if (open.length < INBOX_BATCH_SIZE) break;
+        afterId = open[open.length - 1].id;
+      }
+    } catch (e) {
+      this.logger.error(`[INBOX] Worker run failed: ${e.message}`);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // 3. Monitoring -> backlog, lag and failures
+  async getStats() {
+    const counts = await this.inboxRepo
+      .createQueryBuilder('entry')
+      .select('entry.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('entry.status')
+      .getRawMany<{ status: string; count: string }>();
+    const count = (status: string) =>
+      Number(counts.find((c) => c.status === status)?.count ?? 0);
+
+    const oldestOpen = await this.inboxRepo.findOne({
+      where: { status: In(['PENDING', 'PROCESSING']) },
+      order: { id: 'ASC' },
+    });
+    const lastProcessed = await this.inboxRepo.findOne({
+      where: { status: 'DONE' },
+      order: { processedAt: 'DESC' },
+    });
+    const retrying = await this.inboxRepo.countBy({
+      status: 'PENDING',
+      attempts: MoreThan(0),
+    });
+
+    return {
+      pending: count('PENDING'),
+      processing: count('PROCESSING'),
+      retrying,
+      dead: count('DEAD'),
+      done: count('DONE'),
+      // Age of the oldest event not applied yet
+      lagMs: oldestOpen ? Date.now() - oldestOpen.createdAt.getTime() : 0,
+      oldestPendingAt: oldestOpen?.createdAt ?? null,
+      lastProcessedAt: lastProcessed?.processedAt ?? null,
+    };
+  }
+
+  findAll(status?: JiraWebhookInboxStatus) {
+    return this.inboxRepo.find({
+      where: status ? { status } : {},
+      order: { id: 'DESC' },
+      take: 100,
+    });
+  }
+
+  // Give a dead-lettered event another round of attempts
+  async retry(id: number) {
+    const entry = await this.inboxRepo.findOneBy({ id });
+    if (!entry) throw new NotFoundException(`Webhook event ${id} not found`);
+    if (entry.status !== 'DEAD') {
+      throw new ConflictException(
+        `Webhook event ${id} is ${entry.status}; only DEAD events can be retried`,
+      );
+    }
+
+    await this.inboxRepo.update(id, {
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+    return { ...entry, status: 'PENDING' as const, attempts: 0 };
+  }
+
+  // 4. Retention -> applied events are only kept for deduplication
+  @Cron(CronExpression.EVERY_HOUR, { name: 'jira-webhook-inbox-purge' })
+  async purgeProcessed() {
+    const days = Number(process.env.JIRA_WEBHOOK_RETENTION_DAYS) || 7;
+    const result = await this.inboxRepo.delete({
+      status: 'DONE',
+      processedAt: LessThan(new Date(Date.now() - days * 24 * 3600 * 1000)),
+    });
+    if (result.affected) {
+      this.logger.log(`[INBOX] Purged ${result.affected} applied events`);
+    }
+  }
+
+  private async apply(entry: JiraWebhookInboxEntry): Promise<boolean> {
+    // Claim the entry so a second worker instance can't apply it concurrently
+    const claim = await this.inboxRepo.update(
+      { id: entry.id, status: 'PENDING' },
+      { status: 'PROCESSING' },
+    );
+    if (!claim.affected) return false;
+
+    const attempts = entry.attempts + 1;
+    try {
+      await this.products.handleJiraWebhook(
+        entry.payload,
+        entry.webhookId ?? undefined,
+        entry.connectionId ?? undefined,
+      );
+      await this.inboxRepo.update(entry.id, {
+        status: 'DONE',
+        attempts,
+        lastError: null,
+        processedAt: new Date(),
+      });
+      return true;
+    } catch (e) {
+      const message = e.message;
+
+      if (attempts >= this.getMaxAttempts()) {
+        // Later events of the issue go ahead; this one stays for inspection
+        await this.inboxRepo.update(entry.id, {
+          status: 'DEAD',
+          attempts,
+          lastError: message,
+        });
+        this.logger.error(
+          `[INBOX] Event ${entry.id} (${this.describe(entry)}) dead-lettered after ${attempts} attempts: ${message}`,
+        );
+        return true;
+      }
+
+      const nextAttemptAt = new Date(
+        Date.now() + this.getBackoffDelay(attempts),
+      );
+      await this.inboxRepo.update(entry.id, {
+        status: 'PENDING',
+        attempts,
+        nextAttemptAt,
+        lastError: message,
+      });
+      this.logger.warn(
+        `[INBOX] Event ${entry.id} (${this.describe(entry)}) failed (attempt ${attempts}), retrying at ${nextAttemptAt.toISOString()}: ${message}`,
+      );
+      return false;
+    }
+  }
+
+  // --- Helper: Ordering key; joins the lane of an open event of the same issue, matched by key or id,
+  // so payloads with and without an issue id stay in order. Ids and keys are only unique within one Jira site ---
+  private async resolveLane(
+    issue: { id?: string; key: string },
+    connectionId: number | null,
+  ): Promise<string> {
+    const site = {
+      connectionId: connectionId ?? IsNull(),
+      status: In(['PENDING', 'PROCESSING']),
+    };
+    const open = await this.inboxRepo.findOne({
+      where: [
+        { ...site, issueKey: issue.key },
+        ...(issue.id ? [{ ...site, issueId: issue.id }] : []),
+      ],
+      order: { id: 'ASC' },
+    });
+    return open?.lane ?? `${connectionId ?? ''}:${issue.id ?? issue.key}`;
+  }
+
+  private describe(entry: JiraWebhookInboxEntry): string {
+    return [entry.webhookEvent, entry.issueKey].filter(Boolean).join(' ');
+  }
+
+  private duplicate(delivery: string | null) {
+    this.logger.log(`[INBOX] Delivery ${delivery} already received, skipped`);
+    return { received: true, duplicate: true };
+  }
+
+  // --- Helper: Content key of a timestamped delivery; untimestamped Automation bodies may legitimately repeat ---
+  private hashPayload(
+    event: JiraWebhookEvent,
+    connectionId?: number,
+  ): string | null {
+    if (!event.timestamp) return null;
+    return createHash('sha256')
+      .update(`${connectionId ?? ''}:${JSON.stringify(event)}`)
+      .digest('hex');
+  }
+
+  // --- Helper: Exponential backoff, capped ---
+  private getBackoffDelay(attempts: number): number {
+    const base = Number(process.env.JIRA_WEBHOOK_BASE_DELAY_MS) || 5000;
+    const max = Number(process.env.JIRA_WEBHOOK_MAX_DELAY_MS) || 600000;
+    return Math.min(max, base * 2 ** (attempts - 1));
+  }
+
+  private getMaxAttempts(): number {
+    return Number(process.env.JIRA_WEBHOOK_MAX_ATTEMPTS) || 5;
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  ParseIntPipe,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ProductAttachmentsService } from './product-attachments.service';
+import type { UploadedAttachmentFile } from './product-attachments.service';
+import { Roles } from '../auth/auth.decorators';
+
+const ATTACHMENT_MAX_BYTES =
+  Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+
+@Controller('products/:id/attachments')
+export class ProductAttachmentsController {
+  constructor(private readonly attachmentsService: ProductAttachmentsService) { }
+
+  @Get()
+  listAttachments(@Param('id', ParseIntPipe) id: number) {
+    return this.attachmentsService.findAll(id);
+  }
+
+  // multipart/form-data with a single "file" part
+  @Post()
+  @Roles('editor')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: ATTACHMENT_MAX_BYTES } }),
+  )
+  uploadAttachment(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: UploadedAttachmentFile,
+  ) {
+    return this.attachmentsService.upload(id, file);
+  }
+
+  @Get(':attachmentId')
+  async downloadAttachment(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+  ) {
+    const { attachment, data } = await this.attachmentsService.getContent(
+      id,
+      attachmentId,
+    );
+    return new StreamableFile(data, {
+      type: attachment.mimeType,
+      length: data.length,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    });
+  }
+
+  @Delete(':attachmentId')
+  @Roles('editor')
+  deleteAttachment(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId', ParseIntPipe) attachmentId: number,
+  ) {
+    return this.attachmentsService.remove(id, attachmentId);
+  }
+}
@@ -0,0 +1,293 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ProductAttachmentsService } from './product-attachments.service';
+import { ProductAttachment } from './entities/product-attachment.entity';
+import { Product } from './entities/product.entity';
+import { JiraOutboxService } from './jira-outbox.service';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { ATTACHMENT_STORAGE } from '../storage/attachment-storage';
+
+describe('ProductAttachmentsService', () => {
+  let service: ProductAttachmentsService;
+  let attachmentRepo: jest.Mocked<Repository<ProductAttachment>>;
+  let productRepo: jest.Mocked<Repository<Product>>;
+  let storage: { save: jest.Mock; read: jest.Mock; delete: jest.Mock };
+  let jira: jest.Mocked<JiraService>;
+  let outbox: jest.Mocked<JiraOutboxService>;
+
+  const mockAttachmentRepo = () => {
+    const repo: any = {
+      create: jest.fn((attachment) => ({ ...attachment })),
+      save: jest.fn((attachment) => Promise.resolve({ id: 3, ...attachment })),
+      find: jest.fn(),
+      findOneBy: jest.fn(),
+      existsBy: jest.fn().mockResolvedValue(false),
+      delete: jest.fn(),
+    };
+    // Transactions run against the same mocked repository
+    repo.manager = {
+      transaction: jest.fn((cb) => cb({ getRepository: () => repo })),
+    };
+    return repo;
+  };
+
+  const mockProductRepo = () => ({
+    findOneBy: jest.fn(),
+  });
+
+  const mockStorage = () => ({
+    save: jest.fn(),
+    read: jest.fn(),
+    delete: jest.fn(),
+  });
+
+  const mockJira = () => ({
+    addAttachment: jest.fn(),
+    getAttachment: jest.fn(),
+    downloadAttachment: jest.fn(),
+    deleteAttachment: jest.fn(),
+    getMyAccountId: jest.fn(),
+  });
+
+  const mockOutbox = () => ({
+    enqueue: jest.fn(),
+    begin: jest.fn().mockResolvedValue({ id: 5, attempts: 0 }),
+    complete: jest.fn(),
+    fail: jest.fn(),
+  });
+
+  const file = {
+    originalname: 'spec.pdf',
+    mimetype: 'application/pdf',
+    size: 3,
+    buffer: Buffer.from('pdf'),
+  };
+
+  const product = { id: 1, jiraIssueKey: 'PROJ-1' } as Product;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductAttachmentsService,
+        { provide: getRepositoryToken(ProductAttachment), useFactory: mockAttachmentRepo },
+        { provide: getRepositoryToken(Product), useFactory: mockProductRepo },
+        { provide: ATTACHMENT_STORAGE, useFactory: mockStorage },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: JiraOutboxService, useFactory: mockOutbox },
+      ],
+    }).compile();
+
+    service = module.get(ProductAttachmentsService);
+    attachmentRepo = module.get(getRepositoryToken(ProductAttachment));
+    productRepo = module.get(getRepositoryToken(Product));
+    storage = module.get(ATTACHMENT_STORAGE);
+    jira = module.get(JiraService);
+    outbox = module.get(JiraOutboxService);
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('upload', () => {
+    it('should store the file and attach it to the Jira issue', async () => {
+      productRepo.findOneBy.mockResolvedValue(product);
+      jira.addAttachment.mockResolvedValue({
+        id: '200', filename: 'spec.pdf', mimeType: 'application/pdf', size: 3, authorAccountId: null,
+      });
+
+      const result = await service.upload(1, file);
+
+      expect(storage.save).toHaveBeenCalledWith(expect.stringMatching(/^products\/1\//), file.buffer);
+      expect(jira.addAttachment).toHaveBeenCalledWith('PROJ-1', {
+        filename: 'spec.pdf',
+        mimeType: 'application/pdf',
+        data: file.buffer,
+      });
+      expect(result).toEqual(expect.objectContaining({
+        productId: 1,
+        filename: 'spec.pdf',
+        size: 3,
+        source: 'api',
+        jiraAttachmentId: '200',
+        jiraSyncStatus: 'OK',
+      }));
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), { productId: 1, operation: 'ATTACHMENT' });
+      expect(outbox.begin.mock.invocationCallOrder[0]).toBeLessThan(jira.addAttachment.mock.invocationCallOrder[0]);
+      expect(outbox.complete).toHaveBeenCalledWith(expect.anything(), { id: 5, attempts: 0 });
+      expect(outbox.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should keep the file and fail the outbox entry when Jira fails', async () => {
+      productRepo.findOneBy.mockResolvedValue(product);
+      const error = new Error('Jira down');
+      jira.addAttachment.mockRejectedValue(error);
+
+      const result = await service.upload(1, file);
+
+      expect(result.jiraSyncStatus).toBe('FAILED');
+      expect(storage.delete).not.toHaveBeenCalled();
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), { id: 5, attempts: 0 }, error);
+      expect(outbox.complete).not.toHaveBeenCalled();
+    });
+
+    it('should queue the upload while the product has no Jira issue', async () => {
+      productRepo.findOneBy.mockResolvedValue({ id: 1 } as Product);
+
+      const result = await service.upload(1, file);
+
+      expect(jira.addAttachment).not.toHaveBeenCalled();
+      expect(outbox.begin).not.toHaveBeenCalled();
+      expect(result.jiraSyncStatus).toBe('FAILED');
+      expect(outbox.enqueue).toHaveBeenCalledWith(expect.anything(), {
+        productId: 1,
+        operation: 'ATTACHMENT',
+        error: 'Product 1 has no Jira issue yet',
+      });
+    });
+
+    it('should reject a request without a file', async () => {
+      await expect(service.upload(1, undefined)).rejects.toThrow(BadRequestException);
+      expect(storage.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      productRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.upload(1, file)).rejects.toThrow(NotFoundException);
+      expect(storage.save).not.toHaveBeenCalled();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('getContent', () => {
+    it('should return the stored content', async () => {
+      const attachment = { id: 3, productId: 1, storageKey: 'products/1/a' } as ProductAttachment;
+      attachmentRepo.findOneBy.mockResolvedValue(attachment);
+      storage.read.mockResolvedValue(Buffer.from('pdf'));
+
+      const result = await service.getContent(1, 3);
+
+      expect(attachmentRepo.findOneBy).toHaveBeenCalledWith({ id: 3, productId: 1 });
+      expect(result).toEqual({ attachment, data: Buffer.from('pdf') });
+    });
+
+    it('should throw NotFoundException for an attachment of another product', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.getContent(2, 3)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('remove', () => {
+    it('should delete the Jira attachment, the record and the file', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue({
+        id: 3, productId: 1, storageKey: 'products/1/a', jiraAttachmentId: '200',
+      } as ProductAttachment);
+      productRepo.findOneBy.mockResolvedValue(product);
+
+      const result = await service.remove(1, 3);
+
+      expect(jira.deleteAttachment).toHaveBeenCalledWith('200');
+      expect(attachmentRepo.delete).toHaveBeenCalledWith(3);
+      expect(storage.delete).toHaveBeenCalledWith('products/1/a');
+      expect(result).toEqual({ deleted: true, id: 3 });
+    });
+
+    it('should keep the attachment when Jira refuses the deletion', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue({
+        id: 3, productId: 1, storageKey: 'products/1/a', jiraAttachmentId: '200',
+      } as ProductAttachment);
+      productRepo.findOneBy.mockResolvedValue(product);
+      jira.deleteAttachment.mockRejectedValue(new Error('Forbidden'));
+
+      await expect(service.remove(1, 3)).rejects.toThrow('Forbidden');
+      expect(attachmentRepo.delete).not.toHaveBeenCalled();
+      expect(storage.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('Jira webhooks', () => {
+    it('should import an attachment added in Jira', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue(null);
+      jira.getAttachment.mockResolvedValue({
+        id: '200', filename: 'photo.png', mimeType: 'image/png', size: 3, authorAccountId: 'user-1',
+      });
+      jira.getMyAccountId.mockResolvedValue('integration-user');
+      jira.downloadAttachment.mockResolvedValue(Buffer.from('png'));
+
+      await service.syncFromChangelog(product, {
+        items: [{ field: 'Attachment', fieldId: 'attachment', from: null, to: '200', toString: 'photo.png' }],
+      });
+
+      expect(storage.save).toHaveBeenCalledWith(expect.stringMatching(/^products\/1\//), Buffer.from('png'));
+      expect(attachmentRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        productId: 1,
+        filename: 'photo.png',
+        mimeType: 'image/png',
+        source: 'jira',
+        jiraAttachmentId: '200',
+        jiraSyncStatus: 'OK',
+      }));
+    });
+
+    it('should skip attachments uploaded by the integration itself', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue(null);
+      jira.getAttachment.mockResolvedValue({
+        id: '200', filename: 'spec.pdf', mimeType: 'application/pdf', size: 3, authorAccountId: 'integration-user',
+      });
+      jira.getMyAccountId.mockResolvedValue('integration-user');
+
+      await service.syncFromChangelog(product, { items: [{ field: 'Attachment', fieldId: 'attachment', from: null, to: '200', toString: 'spec.pdf' }] });
+
+      expect(jira.downloadAttachment).not.toHaveBeenCalled();
+      expect(attachmentRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should remove the local copy when the attachment is deleted in Jira', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue({
+        id: 3, productId: 1, storageKey: 'products/1/a', jiraAttachmentId: '200',
+      } as ProductAttachment);
+
+      await service.handleAttachmentEvent({ webhookEvent: 'attachment_deleted', attachment: { id: 200 } });
+
+      expect(attachmentRepo.findOneBy).toHaveBeenCalledWith({ jiraAttachmentId: '200', jiraConnectionId: IsNull() });
+      expect(attachmentRepo.delete).toHaveBeenCalledWith(3);
+      expect(storage.delete).toHaveBeenCalledWith('products/1/a');
+      expect(jira.deleteAttachment).not.toHaveBeenCalled();
+    });
+
+    it('should only match attachments of the Jira site that sent the event', async () => {
+      attachmentRepo.findOneBy.mockResolvedValue(null);
+
+      await service.handleAttachmentEvent({ webhookEvent: 'attachment_deleted', attachment: { id: 200 } }, 2);
+
+      expect(attachmentRepo.findOneBy).toHaveBeenCalledWith({ jiraAttachmentId: '200', jiraConnectionId: 2 });
+      expect(attachmentRepo.delete).not.toHaveBeenCalled();
+    });
+
+    it('should ignore changelog items of other fields', async () => {
+      await service.syncFromChangelog(product, { items: [{ field: 'summary', fieldId: 'summary', from: null, to: null, fromString: 'A', toString: 'B' }] });
+
+      expect(attachmentRepo.findOneBy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { Product } from './entities/product.entity';
+import { ProductAttachment } from './entities/product-attachment.entity';
+import { JiraOutboxService } from './jira-outbox.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraAttachmentEvent, JiraChangelog } from '../jira/jira-webhook-payload';
+import { ATTACHMENT_STORAGE } from '../storage/attachment-storage';
+import type { AttachmentStorage } from '../storage/attachment-storage';
+
+// Fields of the multipart file we rely on (multer memory storage)
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class ProductAttachmentsService {
+  private readonly logger = new Logger(ProductAttachmentsService.name);
+
+  constructor(
+    @InjectRepository(ProductAttachment)
+    private attachmentRepo: Repository<ProductAttachment>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    @Inject(ATTACHMENT_STORAGE) private storage: AttachmentStorage,
+    private jiraClients: JiraClientFactory,
+    private outbox: JiraOutboxService,
+  ) {}
+
+  // 1. List attachments of a product, oldest first
+  async findAll(productId: number) {
+    await this.getProduct(productId);
+    return this.attachmentRepo.find({
+      where: { productId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  // 2. Upload -> store locally, then attach to the Jira issue (queued if Jira is unavailable)
+  async upload(productId: number, file?: UploadedAttachmentFile) {
+    if (!file) throw new BadRequestException('A "file" part is required');
+
+    const product = await this.getProduct(productId);
+    const upload = {
+      filename: file.originalname,
+      mimeType: file.mimetype || 'application/octet-stream',
+      data: file.buffer,
+      source: 'api' as const,
+      jiraAttachmentId: null,
+    };
+
+    if (!product.jiraIssueKey) {
+      return this.attachmentRepo.manager.transaction(async (manager) => {
+        const stored = await this.store(
+          product,
+          { ...upload, jiraSyncStatus: 'FAILED' },
+          manager.getRepository(ProductAttachment),
+        );
+        await this.outbox.enqueue(manager, {
+          productId,
+          operation: 'ATTACHMENT',
+          error: `Product ${productId} has no Jira issue yet`,
+        });
+        return stored;
+      });
+    }
+
+    // The attachment and its outbox entry are written before Jira is called
+    const { attachment, entry } = await this.attachmentRepo.manager.transaction(
+      async (manager) => ({
+        attachment: await this.store(
+          product,
+          { ...upload, jiraSyncStatus: 'PENDING' },
+          manager.getRepository(ProductAttachment),
+        ),
+        entry: await this.outbox.begin(manager, {
+          productId,
+          operation: 'ATTACHMENT',
+        }),
+      }),
+    );
+
+    try {
+      const jira = await this.jiraClients.forProduct(product);
+      const uploaded = await jira.addAttachment(product.jiraIssueKey, {
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        data: file.buffer,
+      });
+      Object.assign(attachment, {
+        jiraAttachmentId: uploaded.id,
+        jiraSyncStatus: 'OK',
+      });
+    } catch (e) {
+      this.logger.error(
+        `Failed to upload attachment ${attachment.id} to ${product.jiraIssueKey}: ${e.message}`,
+      );
+      attachment.jiraSyncStatus = 'FAILED';
+      await this.attachmentRepo.manager.transaction(async (manager) => {
+        await manager.getRepository(ProductAttachment).save(attachment);
+        await this.outbox.fail(manager, entry, e);
+      });
+      return attachment;
+    }
+
+    await this.attachmentRepo.manager.transaction(async (manager) => {
+      const attachments = manager.getRepository(ProductAttachment);
+      await attachments.save(attachment);
+      await this.outbox.complete(manager, entry);
+
+      // An entry the worker had already tried also covers earlier failed uploads; those go back to it
+      if (
+        entry.attempts > 0 &&
+        (await attachments.existsBy({ productId, jiraSyncStatus: 'FAILED' }))
+      ) {
+        await this.outbox.enqueue(manager, {
+          productId,
+          operation: 'ATTACHMENT',
+        });
+      }
+    });
+    return attachment;
+  }
+
+  // 3. Download -> metadata plus the stored content
+  async getContent(productId: number, attachmentId: number) {
+    const attachment = await this.getAttachment(productId, attachmentId);
+    const data = await this.storage.read(attachment.storageKey);
+    return { attachment, data };
+  }
+
+  // 4. Delete -> Jira first, so a failure leaves both sides untouched
+  async remove(productId: number, attachmentId: number) {
+    const attachment = await this.getAttachment(productId, attachmentId);
+    if (attachment.jiraAttachmentId) {
+      const jira = await this.jiraClients.forProduct(
+        await this.getProduct(productId),
+      );
+      await jira.deleteAttachment(attachment.jiraAttachmentId);
+    }
+    await this.discard(attachment);
+    return { deleted: true, id: attachment.id };
+  }
+
+  // 5. Webhook -> attachment_deleted (attachment_created carries no issue; the
+  // issue_updated changelog covers additions)
+  // `connectionId` is the Jira connection the webhook arrived for (null = default site)
+  async handleAttachmentEvent(
+    payload: JiraAttachmentEvent,
+    connectionId: number | null = null,
+  ) {
+    if (payload.webhookEvent !== 'attachment_deleted') return;
+
+    await this.removeMirrored(String(payload.attachment.id), connectionId);
+  }
+
+  // 6. Webhook -> "Attachment" items of an issue changelog
+  async syncFromChangelog(product: Product, changelog?: JiraChangelog) {
+    const items = (changelog?.items || []).filter(
+      (item) =>
+        item.fieldId === 'attachment' || item.field === 'Attachment',
+    );
+
+    for (const item of items) {
+      try {
+        if (item.to) {
+          await this.importFromJira(product, String(item.to));
+        } else if (item.from) {
+          await this.removeMirrored(
+            String(item.from),
+            product.jiraConnectionId ?? null,
+          );
+        }
+      } catch (e) {
+        this.logger.error(
+          `[WEBHOOK] Issue: ${product.jiraIssueKey} | Attachment ${item.to || item.from} not synced: ${e.message}`,
+        );
+      }
+    }
+  }
+
+  // --- Helper: Copy a Jira attachment into local storage ---
+  private async importFromJira(product: Product, jiraAttachmentId: string) {
+    const existing = await this.attachmentRepo.findOneBy({
+      jiraAttachmentId,
+      jiraConnectionId: product.jiraConnectionId ?? IsNull(),
+    });
+    if (existing) return;
+
+    const jira = await this.jiraClients.forProduct(product);
+    const meta = await jira.getAttachment(jiraAttachmentId);
+
+    // Loop prevention: our own uploads can arrive before their id is stored
+    if (
+      meta.authorAccountId &&
+      meta.authorAccountId === (await jira.getMyAccountId())
+    ) {
+      this.logger.log(
+        `[WEBHOOK] Issue: ${product.jiraIssueKey} | Attachment ${jiraAttachmentId} uploaded by this integration, skipped`,
+      );
+      return;
+    }
+
+    const data = await jira.downloadAttachment(jiraAttachmentId);
+    const created = await this.store(product, {
+      filename: meta.filename,
+      mimeType: meta.mimeType,
+      data,
+      source: 'jira',
+      jiraAttachmentId,
+      jiraSyncStatus: 'OK',
+    });
+    this.logger.log(
+      `[WEBHOOK] Issue: ${product.jiraIssueKey} | Attachment ${created.id} imported from ${jiraAttachmentId}`,
+    );
+  }
+
+  // --- Helper: Drop the local copy of an attachment deleted in Jira ---
+  private async removeMirrored(
+    jiraAttachmentId: string,
+    connectionId: number | null,
+  ) {
+    const attachment = await this.attachmentRepo.findOneBy({
+      jiraAttachmentId,
+      jiraConnectionId: connectionId ?? IsNull(),
+    });
+    if (!attachment) return;
+
+    await this.discard(attachment);
+    this.logger.log(
+      `[WEBHOOK] Attachment ${attachment.id} of product ${attachment.productId} deleted with Jira attachment ${jiraAttachmentId}`,
+    );
+  }
+
+  // --- Helper: Write content, then the record pointing at it ---
+  private async store(
+    product: Product,
+    file: Pick<
+      ProductAttachment,
+      'filename' | 'mimeType' | 'source' | 'jiraAttachmentId' | 'jiraSyncStatus'
+    > & { data: Buffer },
+    repo = this.attachmentRepo,
+  ) {
+    const storageKey = `products/${product.id}/${randomUUID()}`;
+    await this.storage.save(storageKey, file.data);
+
+    return repo.save(
+      repo.create({
+        productId: product.id,
+        jiraConnectionId: product.jiraConnectionId ?? null,
+        filename: file.filename,
+        mimeType: file.mimeType,
+        size: file.data.length,
+        storageKey,
+        source: file.source,
+        jiraAttachmentId: file.jiraAttachmentId,
+        jiraSyncStatus: file.jiraSyncStatus,
+      }),
+    );
+  }
+
+  private async discard(attachment: ProductAttachment) {
+    await this.attachmentRepo.delete(attachment.id);
+    await this.storage.delete(attachment.storageKey);
+  }
+
+  // --- Helper: Load product or 404 ---
+  private async getProduct(productId: number) {
+    const product = await this.productRepo.findOneBy({ id: productId });
+    if (!product) throw new NotFoundException(`Product ${productId} not found`);
+    return product;
+  }
+
+  private async getAttachment(productId: number, attachmentId: number) {
+    const attachment = await this.attachmentRepo.findOneBy({
+      id: attachmentId,
+      productId,
+    });
+    if (!attachment)
+      throw new NotFoundException(
+        `Attachment ${attachmentId} not found on product ${productId}`,
+      );
+    return attachment;
+  }
+}
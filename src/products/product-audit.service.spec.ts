@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ProductAuditService } from './product-audit.service';
+import { ProductAuditEvent } from './entities/product-audit-event.entity';
+import { Product } from './entities/product.entity';
+
+describe('ProductAuditService', () => {
+  let service: ProductAuditService;
+  let auditRepo: jest.Mocked<Repository<ProductAuditEvent>>;
+  let productRepo: jest.Mocked<Repository<Product>>;
+
+  const mockAuditRepo = () => ({
+    save: jest.fn((event) => Promise.resolve({ id: 1, ...event })),
+    findAndCount: jest.fn(),
+  });
+
+  const mockProductRepo = () => ({
+    exists: jest.fn(),
+  });
+
+  const product = (overrides: Partial<Product> = {}) =>
+    ({
+      id: 1,
+      name: 'Widget',
+      description: 'Desc',
+      attributes: { sku: 'A' },
+      jiraIssueKey: 'PROJ-1',
+      jiraSyncStatus: 'OK',
+      ...overrides,
+    }) as Product;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductAuditService,
+        { provide: getRepositoryToken(ProductAuditEvent), useFactory: mockAuditRepo },
+        { provide: getRepositoryToken(Product), useFactory: mockProductRepo },
+      ],
+    }).compile();
+
+    service = module.get(ProductAuditService);
+    auditRepo = module.get(getRepositoryToken(ProductAuditEvent));
+    productRepo = module.get(getRepositoryToken(Product));
+
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('record', () => {
+    it('should store field-level changes with the actor and Jira request', async () => {
+      const current = product();
+      const before = service.snapshot(current);
+      current.name = 'Gadget';
+      current.attributes!.sku = 'B';
+      current.jiraSyncStatus = 'FAILED';
+
+      await service.record(current, 'UPDATE', before, {
+        source: 'webhook',
+        actorType: 'jira',
+        actorId: 'acc-1',
+        actorName: 'Jane Doe',
+        jiraEvent: 'jira:issue_updated',
+        jiraRequestId: 'delivery-1',
+      });
+
+      expect(auditRepo.save).toHaveBeenCalledWith({
+        productId: 1,
+        action: 'UPDATE',
+        source: 'webhook',
+        actorType: 'jira',
+        actorId: 'acc-1',
+        actorName: 'Jane Doe',
+        changes: [
+          { field: 'name', from: 'Widget', to: 'Gadget' },
+          { field: 'attributes', from: { sku: 'A' }, to: { sku: 'B' } },
+        ],
+        jiraIssueKey: 'PROJ-1',
+        jiraEvent: 'jira:issue_updated',
+        jiraRequestId: 'delivery-1',
+      });
+    });
+
+    it('should default the actor from the source', async () => {
+      await service.record(product(), 'CREATE', {}, { source: 'api' });
+
+      expect(auditRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'CREATE',
+        actorType: 'user',
+        actorId: null,
+        changes: expect.arrayContaining([{ field: 'name', from: null, to: 'Widget' }]),
+      }));
+    });
+
+    it('should skip updates that changed no audited field', async () => {
+      const current = product();
+      const before = service.snapshot(current);
+      current.jiraLastSyncAt = new Date();
+
+      expect(await service.record(current, 'UPDATE', before, { source: 'reconcile' })).toBeNull();
+      expect(auditRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the change when the event cannot be stored', async () => {
+      auditRepo.save.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.record(product(), 'DELETE', {}, { source: 'api' })).resolves.toBeNull();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('findForProduct', () => {
+    it('should return a page of events, newest first', async () => {
+      productRepo.exists.mockResolvedValue(true);
+      auditRepo.findAndCount.mockResolvedValue([[{ id: 2 } as ProductAuditEvent], 5]);
+
+      const result = await service.findForProduct(1, { offset: 4, limit: 1 });
+
+      expect(auditRepo.findAndCount).toHaveBeenCalledWith({
+        where: { productId: 1 },
+        order: { createdAt: 'DESC', id: 'DESC' },
+        skip: 4,
+        take: 1,
+      });
+      expect(result).toEqual({ items: [{ id: 2 }], total: 5, offset: 4, limit: 1 });
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      productRepo.exists.mockResolvedValue(false);
+
+      await expect(service.findForProduct(9, { offset: 0, limit: 20 })).rejects.toThrow(NotFoundException);
+    });
+  });
+});
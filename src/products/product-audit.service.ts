@@ -0,0 +1,122 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import {
+  AuditAction,
+  AuditActorType,
+  AuditFieldChange,
+  AuditSource,
+  ProductAuditEvent,
+} from './entities/product-audit-event.entity';
+import { ListHistoryDto } from './dto/list-history.dto';
+import { AuthUser } from '../auth/auth-user';
+
+// Who and what triggered a change
+export interface AuditContext {
+  source: AuditSource;
+  actorType?: AuditActorType;
+  actorId?: string | null;
+  actorName?: string | null;
+  jiraEvent?: string | null;
+  jiraRequestId?: string | null;
+}
+
+// API changes are attributed to the authenticated caller
+export function apiAuditContext(actor?: AuthUser): AuditContext {
+  return {
+    source: 'api',
+    actorType: 'user',
+    actorId: actor?.id ?? null,
+    actorName: actor?.name ?? null,
+  };
+}
+
+// Product fields worth a history entry (sync bookkeeping is left out)
+const AUDITED_FIELDS = [
+  'name',
+  'description',
+  'externalRef',
+  'category',
+  'attributes',
+  'lifecycle',
+  'ticketStatus',
+  'jiraIssueKey',
+  'deletedAt',
+] as const;
+
+export type ProductSnapshot = Partial<
+  Pick<Product, (typeof AUDITED_FIELDS)[number]>
+>;
+
+@Injectable()
+export class ProductAuditService {
+  private readonly logger = new Logger(ProductAuditService.name);
+
+  constructor(
+    @InjectRepository(ProductAuditEvent)
+    private auditRepo: Repository<ProductAuditEvent>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+  ) {}
+
+  // Copy of the audited fields, taken before a change
+  snapshot(product: Partial<Product>): ProductSnapshot {
+    return structuredClone(
+      Object.fromEntries(AUDITED_FIELDS.map((f) => [f, product[f] ?? null])),
+    );
+  }
+
+  // 1. Record -> one event with the fields that differ between `before` and `product`
+  async record(
+    product: Product,
+    action: AuditAction,
+    before: ProductSnapshot,
+    context: AuditContext,
+  ) {
+    const after = this.snapshot(product);
+    const changes: AuditFieldChange[] = AUDITED_FIELDS.filter(
+      (f) => JSON.stringify(before[f] ?? null) !== JSON.stringify(after[f]),
+    ).map((f) => ({ field: f, from: before[f] ?? null, to: after[f] }));
+
+    if (changes.length === 0 && action === 'UPDATE') return null;
+
+    // History must never break the change it describes
+    try {
+      return await this.auditRepo.save({
+        productId: product.id,
+        action,
+        source: context.source,
+        actorType:
+          context.actorType ?? (context.source === 'api' ? 'user' : 'system'),
+        actorId: context.actorId ?? null,
+        actorName: context.actorName ?? null,
+        changes,
+        jiraIssueKey: product.jiraIssueKey ?? null,
+        jiraEvent: context.jiraEvent ?? null,
+        jiraRequestId: context.jiraRequestId ?? null,
+      });
+    } catch (e) {
+      this.logger.error(
+        `[AUDIT] Failed to record ${action} of product ${product.id}: ${e.message}`,
+      );
+      return null;
+    }
+  }
+
+  // 2. History of a product, newest first (deleted products included)
+  async findForProduct(productId: number, query: ListHistoryDto) {
+    const exists = await this.productRepo.exists({
+      where: { id: productId },
+      withDeleted: true,
+    });
+    if (!exists) throw new NotFoundException(`Product ${productId} not found`);
+
+    const [items, total] = await this.auditRepo.findAndCount({
+      where: { productId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: query.offset,
+      take: query.limit,
+    });
+    return { items, total, offset: query.offset, limit: query.limit };
+  }
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, Post, Body, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { ProductConflictsService } from './product-conflicts.service';
+import { ResolveConflictDto } from './dto/resolve-conflict.dto';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import type { AuthUser } from '../auth/auth-user';
+
+// Registered before ProductsController so `/products/:id` doesn't shadow these routes
+@Controller('products/conflicts')
+export class ProductConflictsController {
+  constructor(private readonly conflictsService: ProductConflictsService) { }
+
+  @Get()
+  listConflicts(
+    @Query('productId', new ParseIntPipe({ optional: true })) productId?: number,
+  ) {
+    return this.conflictsService.findOpen(productId);
+  }
+
+  @Post(':conflictId/resolve')
+  @Roles('editor')
+  resolveConflict(
+    @Param('conflictId', ParseIntPipe) conflictId: number,
+    @Body() resolveConflictDto: ResolveConflictDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.conflictsService.resolve(conflictId, resolveConflictDto, user);
+  }
+}
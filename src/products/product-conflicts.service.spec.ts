@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ProductConflictsService } from './product-conflicts.service';
+import { ProductConflict } from './entities/product-conflict.entity';
+import { Product } from './entities/product.entity';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { ProductAuditService } from './product-audit.service';
+
+describe('ProductConflictsService', () => {
+  let service: ProductConflictsService;
+  let conflictRepo: jest.Mocked<Repository<ProductConflict>>;
+  let productRepo: jest.Mocked<Repository<Product>>;
+  let jira: jest.Mocked<JiraService>;
+
+  const mockConflictRepo = () => ({
+    find: jest.fn(),
+    findOneBy: jest.fn(),
+    save: jest.fn((conflict) => Promise.resolve(conflict)),
+    countBy: jest.fn(),
+  });
+
+  const mockProductRepo = () => ({
+    findOne: jest.fn(),
+    save: jest.fn((product) => Promise.resolve(product)),
+  });
+
+  const mockJira = () => ({
+    updateIssue: jest.fn(),
+  });
+
+  const mockAudit = () => ({
+    snapshot: jest.fn(() => ({})),
+    record: jest.fn(),
+  });
+
+  const conflict = (overrides: Partial<ProductConflict> = {}) =>
+    ({
+      id: 5,
+      productId: 1,
+      field: 'name',
+      localValue: 'Local Name',
+      jiraValue: 'Jira Name',
+      status: 'OPEN',
+      resolution: null,
+      ...overrides,
+    }) as ProductConflict;
+
+  const product = () =>
+    ({
+      id: 1,
+      name: 'Local Name',
+      description: 'Desc',
+      jiraIssueKey: 'PROJ-1',
+      jiraSyncStatus: 'CONFLICT',
+    }) as Product;
+
+  beforeEach(async () => {
+    delete process.env.SYNC_CONFLICT_POLICY;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductConflictsService,
+        { provide: getRepositoryToken(ProductConflict), useFactory: mockConflictRepo },
+        { provide: getRepositoryToken(Product), useFactory: mockProductRepo },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: ProductAuditService, useFactory: mockAudit },
+      ],
+    }).compile();
+
+    service = module.get(ProductConflictsService);
+    conflictRepo = module.get(getRepositoryToken(ProductConflict));
+    productRepo = module.get(getRepositoryToken(Product));
+    jira = module.get(JiraService);
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('getPolicy', () => {
+    it('should default to JIRA_WINS', () => {
+      expect(service.getPolicy()).toBe('JIRA_WINS');
+    });
+
+    it('should reject unknown policies', () => {
+      process.env.SYNC_CONFLICT_POLICY = 'NEWEST_WINS';
+
+      expect(() => service.getPolicy()).toThrow('SYNC_CONFLICT_POLICY must be one of');
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('record', () => {
+    it('should refresh the open conflict of a field instead of adding another', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(conflict());
+      const jiraUpdatedAt = new Date();
+
+      await service.record(
+        product(),
+        [{ field: 'name', localValue: 'Newer Local', jiraValue: 'Newer Jira' }],
+        'webhook',
+        jiraUpdatedAt,
+      );
+
+      expect(conflictRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        id: 5,
+        localValue: 'Newer Local',
+        jiraValue: 'Newer Jira',
+        source: 'webhook',
+        jiraUpdatedAt,
+        status: 'OPEN',
+      }));
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('resolve', () => {
+    it('should throw NotFoundException if conflict does not exist', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.resolve(5, { use: 'JIRA' })).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw ConflictException if already resolved', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(conflict({ status: 'RESOLVED' }));
+
+      await expect(service.resolve(5, { use: 'JIRA' })).rejects.toThrow(ConflictException);
+    });
+
+    it('should apply the Jira value and clear the CONFLICT status', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(conflict());
+      conflictRepo.countBy.mockResolvedValue(0);
+      productRepo.findOne.mockResolvedValue(product());
+
+      const result = await service.resolve(5, { use: 'JIRA' });
+
+      expect(jira.updateIssue).not.toHaveBeenCalled();
+      expect(productRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Jira Name',
+        jiraSyncStatus: 'OK',
+      }));
+      expect(result).toEqual(expect.objectContaining({ status: 'RESOLVED', resolution: 'JIRA' }));
+    });
+
+    it('should push the local value and keep CONFLICT while others are open', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(conflict());
+      conflictRepo.countBy.mockResolvedValue(1);
+      productRepo.findOne.mockResolvedValue(product());
+
+      await service.resolve(5, { use: 'LOCAL' });
+
+      expect(jira.updateIssue).toHaveBeenCalledWith({ issueKey: 'PROJ-1', summary: 'Local Name' });
+      expect(productRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Local Name',
+        jiraSyncStatus: 'CONFLICT',
+      }));
+    });
+
+    it('should leave the conflict open if Jira rejects the local value', async () => {
+      conflictRepo.findOneBy.mockResolvedValue(conflict());
+      productRepo.findOne.mockResolvedValue(product());
+      jira.updateIssue.mockRejectedValue(new Error('Jira down'));
+
+      await expect(service.resolve(5, { use: 'LOCAL' })).rejects.toThrow('Jira down');
+      expect(conflictRepo.save).not.toHaveBeenCalled();
+    });
+  });
+});
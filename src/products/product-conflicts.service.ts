@@ -0,0 +1,158 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import {
+  ConflictField,
+  ConflictSource,
+  ProductConflict,
+} from './entities/product-conflict.entity';
+import { ResolveConflictDto } from './dto/resolve-conflict.dto';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { ProductAuditService, apiAuditContext } from './product-audit.service';
+import { AuthUser } from '../auth/auth-user';
+
+export type ConflictPolicy = 'JIRA_WINS' | 'LOCAL_WINS' | 'MANUAL';
+
+export interface DetectedConflict {
+  field: ConflictField;
+  localValue: string | null;
+  jiraValue: string | null;
+}
+
+const CONFLICT_POLICIES: ConflictPolicy[] = [
+  'JIRA_WINS',
+  'LOCAL_WINS',
+  'MANUAL',
+];
+
+@Injectable()
+export class ProductConflictsService {
+  private readonly logger = new Logger(ProductConflictsService.name);
+
+  constructor(
+    @InjectRepository(ProductConflict)
+    private conflictRepo: Repository<ProductConflict>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    private jiraClients: JiraClientFactory,
+    private audit: ProductAuditService,
+  ) {}
+
+  // SYNC_CONFLICT_POLICY decides who wins when both sides edited the same field
+  getPolicy(): ConflictPolicy {
+    const policy = (
+      process.env.SYNC_CONFLICT_POLICY || 'JIRA_WINS'
+    ).toUpperCase() as ConflictPolicy;
+    if (!CONFLICT_POLICIES.includes(policy)) {
+      throw new Error(
+        `SYNC_CONFLICT_POLICY must be one of ${CONFLICT_POLICIES.join(', ')}`,
+      );
+    }
+    return policy;
+  }
+
+  // 1. Record -> one open conflict per product field, refreshed with the latest values
+  async record(
+    product: Product,
+    conflicts: DetectedConflict[],
+    source: ConflictSource,
+    jiraUpdatedAt: Date | null,
+  ) {
+    for (const conflict of conflicts) {
+      const existing = await this.conflictRepo.findOneBy({
+        productId: product.id,
+        field: conflict.field,
+        status: 'OPEN',
+      });
+
+      await this.conflictRepo.save({
+        ...existing,
+        productId: product.id,
+        field: conflict.field,
+        localValue: conflict.localValue,
+        jiraValue: conflict.jiraValue,
+        localUpdatedAt: product.updatedAt ?? null,
+        jiraUpdatedAt,
+        source,
+        status: 'OPEN',
+      });
+
+      this.logger.warn(
+        `[CONFLICT] Product ${product.id} field "${conflict.field}" edited on both sides (detected by ${source}), waiting for manual resolution`,
+      );
+    }
+  }
+
+  // 2. List unresolved conflicts with both values
+  async findOpen(productId?: number) {
+    return this.conflictRepo.find({
+      where: { status: 'OPEN', ...(productId && { productId }) },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  // 3. Resolve -> apply the chosen side, then close the conflict
+  async resolve(id: number, dto: ResolveConflictDto, actor?: AuthUser) {
+    const conflict = await this.conflictRepo.findOneBy({ id });
+    if (!conflict) throw new NotFoundException(`Conflict ${id} not found`);
+    if (conflict.status !== 'OPEN')
+      throw new ConflictException(`Conflict ${id} is already resolved`);
+
+    const product = await this.productRepo.findOne({
+      where: { id: conflict.productId },
+      withDeleted: true,
+    });
+    if (!product)
+      throw new NotFoundException(`Product ${conflict.productId} not found`);
+    const snapshot = this.audit.snapshot(product);
+
+    if (dto.use === 'JIRA') {
+      product[conflict.field] = conflict.jiraValue as string;
+    } else if (product.jiraIssueKey) {
+      // Push the local value; let Jira errors surface so the conflict stays open
+      const jira = await this.jiraClients.forProduct(product);
+      await jira.updateIssue({
+        issueKey: product.jiraIssueKey,
+        ...(conflict.field === 'name'
+          ? { summary: product.name }
+          : { description: product.description }),
+      });
+    }
+
+    Object.assign(conflict, {
+      status: 'RESOLVED',
+      resolution: dto.use,
+      resolvedAt: new Date(),
+    });
+    await this.conflictRepo.save(conflict);
+
+    const remaining = await this.conflictRepo.countBy({
+      productId: product.id,
+      status: 'OPEN',
+    });
+    if (remaining === 0 && product.jiraSyncStatus === 'CONFLICT') {
+      Object.assign(product, {
+        jiraSyncStatus: 'OK',
+        jiraLastSyncAt: new Date(),
+      });
+    }
+    if (actor) product.updatedBy = actor.id;
+    await this.productRepo.save(product);
+    await this.audit.record(
+      product,
+      'UPDATE',
+      snapshot,
+      apiAuditContext(actor),
+    );
+
+    this.logger.log(
+      `[CONFLICT] Conflict ${id} on product ${product.id} resolved using ${dto.use} value`,
+    );
+    return conflict;
+  }
+}
@@ -0,0 +1,28 @@
+import { parseCsv } from './product-csv';
+
+describe('parseCsv', () => {
+  it('should map rows onto the header columns', () => {
+    expect(parseCsv('name,externalRef\nLamp,EXT-1\nDesk,EXT-2\n')).toEqual([
+      { name: 'Lamp', externalRef: 'EXT-1' },
+      { name: 'Desk', externalRef: 'EXT-2' },
+    ]);
+  });
+
+  it('should handle quoted fields, escaped quotes, line breaks and CRLF', () => {
+    const csv = '﻿name,description\r\n"Lamp, large","Says ""hi""\nand more"\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      { name: 'Lamp, large', description: 'Says "hi"\nand more' },
+    ]);
+  });
+
+  it('should skip blank lines and fill missing cells', () => {
+    expect(parseCsv('name,description\n\nLamp\n')).toEqual([
+      { name: 'Lamp', description: '' },
+    ]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('name\n"Lamp')).toThrow('Unterminated quoted field');
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  JiraFieldMapping,
+  getFieldMappings,
+  getMappedJiraFieldIds,
+  jiraFieldsToProduct,
+  productToJiraFields,
+  writeProductProperty,
+} from './product-field-mapping';
+import { Product } from './entities/product.entity';
+
+const setMappings = (mappings: JiraFieldMapping[]) => {
+  process.env.JIRA_FIELD_MAPPINGS = JSON.stringify(mappings);
+};
+
+// One mapping per type: product value <-> Jira value
+const COERCIONS: { type: JiraFieldMapping['type']; product: any; jira: any }[] = [
+  { type: 'string', product: 'SKU-1', jira: 'SKU-1' },
+  { type: 'number', product: 12.5, jira: 12.5 },
+  { type: 'date', product: '2026-03-01', jira: '2026-03-01' },
+  { type: 'datetime', product: '2026-03-01T10:30:00.000Z', jira: '2026-03-01T10:30:00.000+0000' },
+  { type: 'select', product: 'Platform', jira: { value: 'Platform' } },
+  { type: 'multiselect', product: ['EU', 'US'], jira: [{ value: 'EU' }, { value: 'US' }] },
+  { type: 'user', product: '5b10ac8d82e05b22cc7d4ef5', jira: { accountId: '5b10ac8d82e05b22cc7d4ef5' } },
+];
+
+describe('Product field mapping', () => {
+  afterEach(() => {
+    delete process.env.JIRA_FIELD_MAPPINGS;
+  });
+
+  describe.each(COERCIONS)('$type fields', ({ type, product, jira }) => {
+    beforeEach(() => setMappings([{ property: 'attributes.value', field: 'customfield_1', type }]));
+
+    it('should convert the product value for Jira', () => {
+      expect(productToJiraFields({ attributes: { value: product } })).toEqual({ customfield_1: jira });
+    });
+
+    it('should read the Jira value back', () => {
+      expect(jiraFieldsToProduct({ customfield_1: jira })).toEqual([{ property: 'attributes.value', value: product }]);
+    });
+  });
+
+  it('should map product columns and clear fields set to null', () => {
+    setMappings([
+      { property: 'externalRef', field: 'customfield_1' },
+      { property: 'category', field: 'customfield_2', type: 'select' },
+      { property: 'attributes.team', field: 'customfield_3' },
+    ]);
+
+    expect(productToJiraFields({ externalRef: 'EXT-1', category: null } as Partial<Product>)).toEqual({
+      customfield_1: 'EXT-1',
+      customfield_2: null,
+    });
+  });
+
+  it('should accept comma separated values for multiselect fields', () => {
+    setMappings([{ property: 'attributes.regions', field: 'customfield_1', type: 'multiselect' }]);
+
+    expect(productToJiraFields({ attributes: { regions: 'EU, US' } })).toEqual({
+      customfield_1: [{ value: 'EU' }, { value: 'US' }],
+    });
+  });
+
+  it('should read paragraph fields as Markdown', () => {
+    setMappings([{ property: 'attributes.notes', field: 'customfield_1' }]);
+
+    const adf = { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hi', marks: [{ type: 'strong' }] }] }] };
+
+    expect(jiraFieldsToProduct({ customfield_1: adf })).toEqual([{ property: 'attributes.notes', value: '**Hi**' }]);
+  });
+
+  it('should honour the mapping direction', () => {
+    setMappings([
+      { property: 'attributes.sku', field: 'customfield_1', direction: 'toJira' },
+      { property: 'attributes.team', field: 'customfield_2', direction: 'fromJira' },
+    ]);
+
+    expect(productToJiraFields({ attributes: { sku: 'A', team: 'B' } })).toEqual({ customfield_1: 'A' });
+    expect(jiraFieldsToProduct({ customfield_1: 'A', customfield_2: 'B' })).toEqual([{ property: 'attributes.team', value: 'B' }]);
+    expect(getMappedJiraFieldIds()).toEqual(['customfield_2']);
+  });
+
+  it('should skip Jira fields missing from the payload', () => {
+    setMappings([{ property: 'attributes.sku', field: 'customfield_1' }]);
+
+    expect(jiraFieldsToProduct({ summary: 'Title' })).toEqual([]);
+  });
+
+  it('should reject values that cannot be coerced', () => {
+    setMappings([{ property: 'attributes.weight', field: 'customfield_1', type: 'number' }]);
+
+    expect(() => productToJiraFields({ attributes: { weight: 'heavy' } })).toThrow('must be a number');
+  });
+
+  it('should reject invalid configuration', () => {
+    setMappings([{ property: 'jiraIssueKey', field: 'customfield_1' }]);
+    expect(() => getFieldMappings()).toThrow('must be externalRef, category or attributes.<key>');
+
+    setMappings([{ property: 'attributes.sku', field: 'customfield_1', type: 'cascade' as any }]);
+    expect(() => getFieldMappings()).toThrow('type "cascade" must be one of');
+  });
+
+  it('should merge attribute writes into the current attributes', () => {
+    const updates: Partial<Product> = {};
+    const product = { attributes: { sku: 'A', team: 'Old' } } as Partial<Product>;
+
+    writeProductProperty(updates, product, 'attributes.team', 'New');
+    writeProductProperty(updates, product, 'category', 'hardware');
+
+    expect(updates).toEqual({ attributes: { sku: 'A', team: 'New' }, category: 'hardware' });
+  });
+});
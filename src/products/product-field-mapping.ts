@@ -0,0 +1,197 @@
+import { readJsonEnv } from '../jira/jira.config';
+import { adfToMarkdown } from '../jira/adf-markdown';
+import { Product } from './entities/product.entity';
+
+// How a value is shaped in Jira
+export type JiraFieldType =
+  | 'string'
+  | 'number'
+  | 'date'
+  | 'datetime'
+  | 'select'
+  | 'multiselect'
+  | 'user';
+
+// JIRA_FIELD_MAPPINGS: product property <-> Jira field, e.g.
+// [{"property": "attributes.sku", "field": "customfield_10010"},
+//  {"property": "attributes.team", "field": "customfield_10020", "type": "select"}]
+// `property` is `externalRef`, `category` or `attributes.<key>`; `direction` defaults to "both".
+export interface JiraFieldMapping {
+  property: string;
+  field: string;
+  type?: JiraFieldType;
+  direction?: 'both' | 'toJira' | 'fromJira';
+}
+
+export type ProductPropertyValue = string | number | string[] | null;
+
+const FIELD_TYPES: JiraFieldType[] = [
+  'string',
+  'number',
+  'date',
+  'datetime',
+  'select',
+  'multiselect',
+  'user',
+];
+const MAPPABLE_COLUMNS = ['externalRef', 'category'];
+
+export function getFieldMappings(): JiraFieldMapping[] {
+  const mappings = readJsonEnv<JiraFieldMapping[]>('JIRA_FIELD_MAPPINGS', []);
+  if (!Array.isArray(mappings)) {
+    throw new Error('JIRA_FIELD_MAPPINGS must be a JSON array');
+  }
+
+  for (const mapping of mappings) {
+    if (!mapping.field) {
+      throw new Error(
+        `JIRA_FIELD_MAPPINGS entry for "${mapping.property}" has no field`,
+      );
+    }
+    if (
+      !MAPPABLE_COLUMNS.includes(mapping.property) &&
+      !/^attributes\.[\w-]+$/.test(mapping.property ?? '')
+    ) {
+      throw new Error(
+        `JIRA_FIELD_MAPPINGS property "${mapping.property}" must be ${MAPPABLE_COLUMNS.join(', ')} or attributes.<key>`,
+      );
+    }
+    if (mapping.type && !FIELD_TYPES.includes(mapping.type)) {
+      throw new Error(
+        `JIRA_FIELD_MAPPINGS type "${mapping.type}" must be one of ${FIELD_TYPES.join(', ')}`,
+      );
+    }
+  }
+  return mappings;
+}
+
+// Jira field ids to request when reading issues
+export function getMappedJiraFieldIds(): string[] {
+  return getFieldMappings()
+    .filter((m) => m.direction !== 'toJira')
+    .map((m) => m.field);
+}
+
+// Product -> Jira `fields` for create/update; unset properties are left out, null clears the field.
+// Undefined when nothing is mapped, so calls without mappings stay unchanged.
+export function productToJiraFields(
+  product: Partial<Product>,
+): Record<string, any> | undefined {
+  const fields: Record<string, any> = {};
+  for (const mapping of getFieldMappings()) {
+    if (mapping.direction === 'fromJira') continue;
+
+    const value = readProductProperty(product, mapping.property);
+    if (value === undefined) continue;
+    fields[mapping.field] = toJiraValue(mapping, value);
+  }
+  return Object.keys(fields).length ? fields : undefined;
+}
+
+// Jira `fields` -> mapped product values; fields missing from the payload are skipped
+export function jiraFieldsToProduct(
+  fields: Record<string, any>,
+): { property: string; value: ProductPropertyValue }[] {
+  return getFieldMappings()
+    .filter((m) => m.direction !== 'toJira' && m.field in fields)
+    .map((m) => ({
+      property: m.property,
+      value: fromJiraValue(m, fields[m.field]),
+    }));
+}
+
+export function readProductProperty(
+  product: Partial<Product>,
+  property: string,
+): ProductPropertyValue | undefined {
+  if (property.startsWith('attributes.')) {
+    return product.attributes?.[property.slice('attributes.'.length)];
+  }
+  return product[property];
+}
+
+// Set a property on `updates`, merging attribute keys into the product's current attributes
+export function writeProductProperty(
+  updates: Partial<Product>,
+  product: Partial<Product>,
+  property: string,
+  value: ProductPropertyValue,
+) {
+  if (property.startsWith('attributes.')) {
+    updates.attributes = {
+      ...(updates.attributes ?? product.attributes ?? {}),
+      [property.slice('attributes.'.length)]: value,
+    };
+  } else {
+    updates[property] = value;
+  }
+}
+
+// --- Helper: Coerce a product value into the shape Jira expects ---
+function toJiraValue(mapping: JiraFieldMapping, value: ProductPropertyValue) {
+  if (value === null || value === '') return null;
+
+  switch (mapping.type ?? 'string') {
+    case 'number': {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(
+          `${mapping.property} must be a number for ${mapping.field}, got "${value}"`,
+        );
+      }
+      return number;
+    }
+    case 'date':
+      return toDate(mapping, value).toISOString().slice(0, 10);
+    case 'datetime':
+      // Jira expects an explicit offset, e.g. 2026-01-01T10:00:00.000+0000
+      return toDate(mapping, value).toISOString().replace('Z', '+0000');
+    case 'select':
+      return { value: String(value) };
+    case 'multiselect':
+      return (Array.isArray(value) ? value : String(value).split(','))
+        .map((v) => String(v).trim())
+        .filter(Boolean)
+        .map((v) => ({ value: v }));
+    case 'user':
+      return { accountId: String(value) };
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
+// --- Helper: Read a Jira field value back into a plain product value ---
+function fromJiraValue(
+  mapping: JiraFieldMapping,
+  value: any,
+): ProductPropertyValue {
+  if (value === null || value === undefined) return null;
+
+  switch (mapping.type ?? 'string') {
+    case 'number':
+      return Number(value);
+    case 'date':
+      return String(value).slice(0, 10);
+    case 'datetime':
+      return new Date(value).toISOString();
+    case 'select':
+      return value.value ?? null;
+    case 'multiselect':
+      return (value as any[]).map((option) => option.value);
+    case 'user':
+      return value.accountId ?? null;
+    default:
+      // Paragraph fields come back as ADF
+      return value.type === 'doc' ? adfToMarkdown(value) : String(value);
+  }
+}
+
+function toDate(mapping: JiraFieldMapping, value: ProductPropertyValue) {
+  const date = new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(
+      `${mapping.property} must be a date for ${mapping.field}, got "${value}"`,
+    );
+  }
+  return date;
+}
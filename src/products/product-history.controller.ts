@@ -0,0 +1,16 @@
+import { Controller, Get, Param, ParseIntPipe, Query, ValidationPipe } from '@nestjs/common';
+import { ProductAuditService } from './product-audit.service';
+import { ListHistoryDto } from './dto/list-history.dto';
+
+@Controller('products/:id/history')
+export class ProductHistoryController {
+  constructor(private readonly auditService: ProductAuditService) { }
+
+  @Get()
+  getHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) query: ListHistoryDto,
+  ) {
+    return this.auditService.findForProduct(id, query);
+  }
+}
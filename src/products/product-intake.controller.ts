@@ -0,0 +1,36 @@
+import { Controller, Get, Param, ParseEnumPipe, ParseIntPipe, Post, Query } from '@nestjs/common';
+import { ProductIntakeService } from './product-intake.service';
+import { ProductsService } from './products.service';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import type { AuthUser } from '../auth/auth-user';
+import type { ProductIntakeStatus } from './entities/product-intake.entity';
+
+const INTAKE_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'];
+
+// Jira issues waiting to become products (JIRA_INTAKE_POLICY=APPROVAL)
+@Controller('intake')
+export class ProductIntakeController {
+  constructor(
+    private readonly intakeService: ProductIntakeService,
+    private readonly productsService: ProductsService,
+  ) { }
+
+  @Get()
+  listIntake(
+    @Query('status', new ParseEnumPipe(INTAKE_STATUSES, { optional: true })) status?: ProductIntakeStatus,
+  ) {
+    return this.intakeService.findAll(status);
+  }
+
+  @Post(':intakeId/approve')
+  @Roles('editor')
+  approve(@Param('intakeId', ParseIntPipe) intakeId: number, @CurrentUser() user: AuthUser) {
+    return this.productsService.approveIntake(intakeId, user);
+  }
+
+  @Post(':intakeId/reject')
+  @Roles('editor')
+  reject(@Param('intakeId', ParseIntPipe) intakeId: number, @CurrentUser() user: AuthUser) {
+    return this.intakeService.reject(intakeId, user);
+  }
+}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConflictException } from '@nestjs/common';
+import { ProductIntakeService } from './product-intake.service';
+import { ProductIntake } from './entities/product-intake.entity';
+import { AuthUser } from '../auth/auth-user';
+
+describe('ProductIntakeService', () => {
+    let service: ProductIntakeService;
+    let intakeRepo: jest.Mocked<Repository<ProductIntake>>;
+
+    const issue = (key = 'PROJ-1', fields: Record<string, unknown> = {}) => ({
+        id: '10001',
+        key,
+        fields: {
+            summary: 'New widget',
+            project: { key: key.split('-')[0] },
+            issuetype: { name: 'Story' },
+            labels: ['catalogue'],
+            ...fields,
+        },
+    });
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ProductIntakeService,
+                {
+                    provide: getRepositoryToken(ProductIntake),
+                    useFactory: () => ({
+                        save: jest.fn((e) => Promise.resolve({ id: 1, ...e })),
+                        find: jest.fn().mockResolvedValue([]),
+                        findOne: jest.fn().mockResolvedValue(null),
+                        findOneBy: jest.fn(),
+                        delete: jest.fn(),
+                    }),
+                },
+            ],
+        }).compile();
+
+        service = module.get(ProductIntakeService);
+        intakeRepo = module.get(getRepositoryToken(ProductIntake));
+
+        jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        delete process.env.JIRA_INTAKE_POLICY;
+        delete process.env.JIRA_INTAKE_FILTER;
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('admit', () => {
+        it('should create every issue by default', async () => {
+            await expect(service.admit(issue(), null)).resolves.toBe(true);
+            expect(intakeRepo.save).not.toHaveBeenCalled();
+        });
+
+        it('should ignore every issue under IGNORE', async () => {
+            process.env.JIRA_INTAKE_POLICY = 'ignore';
+
+            await expect(service.admit(issue(), null)).resolves.toBe(false);
+        });
+
+        it('should only create issues matching JIRA_INTAKE_FILTER under FILTER', async () => {
+            process.env.JIRA_INTAKE_POLICY = 'FILTER';
+            process.env.JIRA_INTAKE_FILTER = JSON.stringify({ projects: ['proj'], issueTypes: ['Story', 'Epic'], labels: ['Catalogue'] });
+
+            await expect(service.admit(issue(), null)).resolves.toBe(true);
+            await expect(service.admit(issue('OPS-1'), null)).resolves.toBe(false);
+            await expect(service.admit(issue('PROJ-2', { issuetype: { name: 'Bug' } }), null)).resolves.toBe(false);
+            await expect(service.admit(issue('PROJ-3', { labels: [] }), null)).resolves.toBe(false);
+            // Automation payloads without `project` fall back to the key prefix
+            await expect(service.admit(issue('PROJ-4', { project: undefined }), null)).resolves.toBe(true);
+        });
+
+        it('should queue matching issues for approval under APPROVAL', async () => {
+            process.env.JIRA_INTAKE_POLICY = 'APPROVAL';
+            process.env.JIRA_INTAKE_FILTER = JSON.stringify({ projects: ['PROJ'] });
+
+            await expect(service.admit(issue(), 2)).resolves.toBe(false);
+            await expect(service.admit(issue('OPS-1'), 2)).resolves.toBe(false);
+
+            expect(intakeRepo.save).toHaveBeenCalledTimes(1);
+            expect(intakeRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+                jiraConnectionId: 2,
+                jiraIssueKey: 'PROJ-1',
+                summary: 'New widget',
+                projectKey: 'PROJ',
+                issueType: 'Story',
+                status: 'PENDING',
+            }));
+        });
+
+        it('should refresh a pending entry instead of queueing the issue twice', async () => {
+            process.env.JIRA_INTAKE_POLICY = 'APPROVAL';
+            const pending = { id: 4, jiraIssueKey: 'PROJ-1', summary: 'Old', status: 'PENDING' } as ProductIntake;
+            intakeRepo.findOne.mockResolvedValue(pending);
+
+            await expect(service.admit(issue(), null)).resolves.toBe(false);
+
+            expect(intakeRepo.save).toHaveBeenCalledTimes(1);
+            expect(intakeRepo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 4, summary: 'New widget' }));
+        });
+
+        it('should keep rejected issues out whatever the policy', async () => {
+            intakeRepo.findOne.mockResolvedValue({ id: 4, status: 'REJECTED' } as ProductIntake);
+
+            await expect(service.admit(issue(), null)).resolves.toBe(false);
+        });
+
+        it('should reject unknown policies', async () => {
+            process.env.JIRA_INTAKE_POLICY = 'sometimes';
+
+            await expect(service.admit(issue(), null)).rejects.toThrow('JIRA_INTAKE_POLICY must be one of CREATE, IGNORE, FILTER, APPROVAL');
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('reject', () => {
+        const user: AuthUser = { id: 'u-1', name: 'Ada', roles: ['editor'], jiraAccountId: null, via: 'jwt' };
+
+        it('should record who rejected the issue', async () => {
+            intakeRepo.findOneBy.mockResolvedValue({ id: 4, jiraIssueKey: 'PROJ-1', status: 'PENDING' } as ProductIntake);
+
+            const entry = await service.reject(4, user);
+
+            expect(entry).toEqual(expect.objectContaining({ status: 'REJECTED', decidedBy: 'u-1', decidedAt: expect.any(Date) }));
+            expect(intakeRepo.save).toHaveBeenCalledWith(entry);
+        });
+
+        it('should not decide an entry twice', async () => {
+            intakeRepo.findOneBy.mockResolvedValue({ id: 4, status: 'APPROVED' } as ProductIntake);
+
+            await expect(service.reject(4, user)).rejects.toThrow(ConflictException);
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import {
+  ProductIntake,
+  ProductIntakeStatus,
+} from './entities/product-intake.entity';
+import { JiraIssueEvent } from '../jira/jira-webhook-payload';
+import { readJsonEnv, sameName } from '../jira/jira.config';
+import { AuthUser } from '../auth/auth-user';
+
+// What happens to a webhook for a Jira issue no product is linked to
+export type IntakePolicy = 'CREATE' | 'IGNORE' | 'FILTER' | 'APPROVAL';
+const INTAKE_POLICIES: IntakePolicy[] = [
+  'CREATE',
+  'IGNORE',
+  'FILTER',
+  'APPROVAL',
+];
+
+// JIRA_INTAKE_FILTER: every criterion that is set must match (any value of a list)
+export interface IntakeFilter {
+  projects?: string[];
+  issueTypes?: string[];
+  labels?: string[];
+}
+
+type JiraIssue = JiraIssueEvent['issue'];
+
+@Injectable()
+export class ProductIntakeService {
+  private readonly logger = new Logger(ProductIntakeService.name);
+
+  constructor(
+    @InjectRepository(ProductIntake)
+    private intakeRepo: Repository<ProductIntake>,
+  ) {}
+
+  getPolicy(): IntakePolicy {
+    const policy = (
+      process.env.JIRA_INTAKE_POLICY || 'CREATE'
+    ).toUpperCase() as IntakePolicy;
+    if (!INTAKE_POLICIES.includes(policy)) {
+      throw new Error(
+        `JIRA_INTAKE_POLICY must be one of ${INTAKE_POLICIES.join(', ')}`,
+      );
+    }
+    return policy;
+  }
+
+  // 1. Webhook -> true when a product may be created for the issue right away
+  async admit(issue: JiraIssue, connectionId: number | null): Promise<boolean> {
+    // Already in the inbox: keep the latest version, a rejected issue stays out
+    const existing = await this.findEntry(issue.key, connectionId);
+    if (existing?.status === 'PENDING') {
+      Object.assign(existing, this.describe(issue));
+      await this.intakeRepo.save(existing);
+      return false;
+    }
+    if (existing?.status === 'REJECTED') {
+      this.logger.log(
+        `[INTAKE] Issue: ${issue.key} | Rejected earlier, ignored`,
+      );
+      return false;
+    }
+
+    const policy = this.getPolicy();
+    if (policy === 'CREATE') return true;
+    if (policy === 'IGNORE') {
+      this.logger.log(
+        `[INTAKE] Issue: ${issue.key} | Not a product, ignored (JIRA_INTAKE_POLICY=IGNORE)`,
+      );
+      return false;
+    }
+
+    const mismatch = this.checkFilter(issue);
+    if (mismatch) {
+      this.logger.log(`[INTAKE] Issue: ${issue.key} | Ignored: ${mismatch}`);
+      return false;
+    }
+    if (policy === 'FILTER') return true;
+
+    const entry = await this.intakeRepo.save({
+      jiraConnectionId: connectionId,
+      ...this.describe(issue),
+      status: 'PENDING',
+    });
+    this.logger.log(
+      `[INTAKE] Issue: ${issue.key} | Queued for approval as #${entry.id}`,
+    );
+    return false;
+  }
+
+  // The issue was deleted in Jira before anyone decided
+  async discard(issueKey: string, connectionId: number | null) {
+    const existing = await this.findEntry(issueKey, connectionId);
+    if (existing?.status !== 'PENDING') return;
+
+    await this.intakeRepo.delete(existing.id);
+    this.logger.log(
+      `[INTAKE] Issue: ${issueKey} | Deleted in Jira, removed from the inbox`,
+    );
+  }
+
+  // 2. Inbox
+  findAll(status: ProductIntakeStatus = 'PENDING') {
+    return this.intakeRepo.find({
+      where: { status },
+      order: { id: 'ASC' },
+    });
+  }
+
+  async getPending(id: number) {
+    const entry = await this.intakeRepo.findOneBy({ id });
+    if (!entry) throw new NotFoundException(`Intake entry ${id} not found`);
+    if (entry.status !== 'PENDING') {
+      throw new ConflictException(
+        `Intake entry ${id} is already ${entry.status}`,
+      );
+    }
+    return entry;
+  }
+
+  async markApproved(
+    entry: ProductIntake,
+    productId: number,
+    actor?: AuthUser,
+  ) {
+    return this.decide(entry, 'APPROVED', actor, productId);
+  }
+
+  async reject(id: number, actor?: AuthUser) {
+    return this.decide(await this.getPending(id), 'REJECTED', actor);
+  }
+
+  // --- Helper: Record the decision ---
+  private async decide(
+    entry: ProductIntake,
+    status: ProductIntakeStatus,
+    actor?: AuthUser,
+    productId: number | null = null,
+  ) {
+    Object.assign(entry, {
+      status,
+      productId,
+      decidedBy: actor?.id ?? null,
+      decidedAt: new Date(),
+    });
+    await this.intakeRepo.save(entry);
+    this.logger.log(
+      `[INTAKE] Issue: ${entry.jiraIssueKey} | ${status === 'APPROVED' ? `Approved as product ${productId}` : 'Rejected'}`,
+    );
+    return entry;
+  }
+
+  // --- Helper: Why the issue doesn't match JIRA_INTAKE_FILTER, or null when it does ---
+  private checkFilter(issue: JiraIssue): string | null {
+    const filter = readJsonEnv<IntakeFilter>('JIRA_INTAKE_FILTER', {});
+    const { projectKey, issueType } = this.describe(issue);
+    const labels = issue.fields.labels ?? [];
+
+    if (
+      filter.projects?.length &&
+      !filter.projects.some((p) => sameName(p, projectKey))
+    ) {
+      return `project ${projectKey} is not in JIRA_INTAKE_FILTER`;
+    }
+    if (
+      filter.issueTypes?.length &&
+      !filter.issueTypes.some((t) => sameName(t, issueType))
+    ) {
+      return `issue type ${issueType ?? 'unknown'} is not in JIRA_INTAKE_FILTER`;
+    }
+    if (
+      filter.labels?.length &&
+      !filter.labels.some((l) => labels.some((label) => sameName(l, label)))
+    ) {
+      return `no label from JIRA_INTAKE_FILTER`;
+    }
+    return null;
+  }
+
+  private describe(issue: JiraIssue) {
+    return {
+      jiraIssueKey: issue.key,
+      summary: (issue.fields.summary ?? '').slice(0, 255),
+      // The key prefix is the project when Automation payloads leave `project` out
+      projectKey: issue.fields.project?.key ?? issue.key.split('-')[0],
+      issueType: issue.fields.issuetype?.name ?? null,
+      issue,
+    };
+  }
+
+  private findEntry(issueKey: string, connectionId: number | null) {
+    return this.intakeRepo.findOne({
+      where: {
+        jiraIssueKey: issueKey,
+        jiraConnectionId: connectionId ?? IsNull(),
+      },
+      order: { id: 'DESC' },
+    });
+  }
+}
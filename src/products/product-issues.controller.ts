@@ -0,0 +1,44 @@
+import { Controller, Get, Post, Body, Param, ParseIntPipe, Delete } from '@nestjs/common';
+import { ProductIssuesService } from './product-issues.service';
+import { LinkProductIssueDto } from './dto/link-product-issue.dto';
+import { CreateChildIssueDto } from './dto/create-child-issue.dto';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import type { AuthUser } from '../auth/auth-user';
+
+@Controller('products/:id/issues')
+export class ProductIssuesController {
+  constructor(private readonly issuesService: ProductIssuesService) { }
+
+  @Get()
+  listIssues(@Param('id', ParseIntPipe) id: number) {
+    return this.issuesService.findAll(id);
+  }
+
+  @Post()
+  @Roles('editor')
+  createChildIssue(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createChildIssueDto: CreateChildIssueDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.issuesService.createChild(id, createChildIssueDto, user);
+  }
+
+  @Post('link')
+  @Roles('editor')
+  linkIssue(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() linkProductIssueDto: LinkProductIssueDto,
+  ) {
+    return this.issuesService.link(id, linkProductIssueDto);
+  }
+
+  @Delete(':issueKey')
+  @Roles('editor')
+  unlinkIssue(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('issueKey') issueKey: string,
+  ) {
+    return this.issuesService.unlink(id, issueKey);
+  }
+}
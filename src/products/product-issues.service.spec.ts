@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ProductIssuesService } from './product-issues.service';
+import { ProductIssue } from './entities/product-issue.entity';
+import { Product } from './entities/product.entity';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraService } from '../jira/jira.service';
+
+describe('ProductIssuesService', () => {
+    let service: ProductIssuesService;
+    let issueRepo: jest.Mocked<Repository<ProductIssue>>;
+    let productRepo: jest.Mocked<Repository<Product>>;
+    let jira: { getIssue: jest.Mock; createIssue: jest.Mock; searchIssues: jest.Mock };
+
+    const product = { id: 1, name: 'Product A', jiraIssueKey: 'PROJ-1', jiraConnectionId: null } as Product;
+
+    const link = (key: string, overrides: Partial<ProductIssue> = {}) => ({
+        id: Number(key.split('-')[1]),
+        productId: 1,
+        jiraConnectionId: null,
+        jiraIssueKey: key,
+        jiraIssueId: null,
+        role: 'CHILD',
+        summary: key,
+        issueType: 'Story',
+        status: 'To Do',
+        statusCategory: 'new',
+        ...overrides,
+    }) as ProductIssue;
+
+    beforeEach(async () => {
+        jira = { getIssue: jest.fn(), createIssue: jest.fn(), searchIssues: jest.fn().mockResolvedValue([]) };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ProductIssuesService,
+                {
+                    provide: getRepositoryToken(ProductIssue),
+                    useFactory: () => ({
+                        find: jest.fn().mockResolvedValue([]),
+                        findOneBy: jest.fn().mockResolvedValue(null),
+                        existsBy: jest.fn().mockResolvedValue(false),
+                        save: jest.fn((e) => Promise.resolve(Array.isArray(e) ? e : { id: 10, ...e })),
+                        delete: jest.fn(),
+                    }),
+                },
+                {
+                    provide: getRepositoryToken(Product),
+                    useFactory: () => ({ findOneBy: jest.fn().mockResolvedValue(product) }),
+                },
+                { provide: JiraClientFactory, useFactory: () => ({ forProduct: jest.fn(async () => jira) }) },
+            ],
+        }).compile();
+
+        service = module.get(ProductIssuesService);
+        issueRepo = module.get(getRepositoryToken(ProductIssue));
+        productRepo = module.get(getRepositoryToken(Product));
+
+        jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+        jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        delete process.env.JIRA_CHILD_ISSUE_TYPE;
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('link', () => {
+        it('should attach an existing issue with its current state', async () => {
+            jira.getIssue.mockResolvedValue({ id: '20001', key: 'PROJ-5', status: 'In Progress', statusCategory: 'indeterminate', issueType: 'Epic', summary: 'Catalogue epic' });
+
+            await service.link(1, { issueKey: 'PROJ-5', role: 'EPIC' });
+
+            expect(issueRepo.save).toHaveBeenCalledWith({
+                productId: 1,
+                jiraConnectionId: null,
+                jiraIssueKey: 'PROJ-5',
+                jiraIssueId: '20001',
+                role: 'EPIC',
+                summary: 'Catalogue epic',
+                issueType: 'Epic',
+                status: 'In Progress',
+                statusCategory: 'indeterminate',
+            });
+        });
+
+        it('should refuse the primary issue and a second epic', async () => {
+            await expect(service.link(1, { issueKey: 'PROJ-1', role: 'RELATED' })).rejects.toThrow(ConflictException);
+
+            issueRepo.findOneBy.mockResolvedValue(link('PROJ-5', { role: 'EPIC' }));
+            await expect(service.link(1, { issueKey: 'PROJ-6', role: 'EPIC' })).rejects.toThrow('Product 1 already has epic PROJ-5');
+
+            expect(jira.getIssue).not.toHaveBeenCalled();
+        });
+
+        it('should report issues Jira does not know as not found', async () => {
+            jira.getIssue.mockRejectedValue({ response: { status: 404 } });
+
+            await expect(service.link(1, { issueKey: 'PROJ-404', role: 'RELATED' })).rejects.toThrow(NotFoundException);
+            expect(issueRepo.save).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException if product does not exist', async () => {
+            productRepo.findOneBy.mockResolvedValue(null);
+
+            await expect(service.link(9, { issueKey: 'PROJ-5', role: 'CHILD' })).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('createChild', () => {
+        it('should create the issue under the epic, in the epic\'s project', async () => {
+            process.env.JIRA_CHILD_ISSUE_TYPE = 'Task';
+            issueRepo.findOneBy.mockResolvedValue(link('CAT-5', { role: 'EPIC' }));
+            jira.createIssue.mockResolvedValue({ jiraKey: 'CAT-6', jiraId: '20006' });
+
+            await service.createChild(1, { summary: 'Write specs' }, { id: 'u-1', name: null, roles: ['editor'], jiraAccountId: 'acc-1', via: 'jwt' });
+
+            expect(jira.createIssue).toHaveBeenCalledWith(expect.objectContaining({
+                summary: 'Write specs',
+                productId: 1,
+                route: { projectKey: 'CAT', issueType: 'Task' },
+                parentKey: 'CAT-5',
+                reporterAccountId: 'acc-1',
+            }));
+            expect(issueRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+                jiraIssueKey: 'CAT-6',
+                role: 'CHILD',
+                statusCategory: 'new',
+            }));
+        });
+
+        it('should need an epic', async () => {
+            await expect(service.createChild(1, { summary: 'Write specs' })).rejects.toThrow(ConflictException);
+            expect(jira.createIssue).not.toHaveBeenCalled();
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('getRollup', () => {
+        it('should count the stored children by status category without calling Jira', async () => {
+            issueRepo.find.mockResolvedValue([
+                link('PROJ-2', { status: 'Done', statusCategory: 'done' }),
+                link('PROJ-3', { status: 'In Progress', statusCategory: 'indeterminate' }),
+                link('PROJ-4'),
+            ]);
+
+            const rollup = await service.getRollup(product);
+
+            expect(issueRepo.find).toHaveBeenCalledWith({ where: { productId: 1, role: 'CHILD' } });
+            expect(jira.searchIssues).not.toHaveBeenCalled();
+            expect(issueRepo.save).not.toHaveBeenCalled();
+            expect(rollup).toEqual({
+                total: 3,
+                todo: 1,
+                inProgress: 1,
+                done: 1,
+                progress: 0.33,
+                byStatus: { Done: 1, 'In Progress': 1, 'To Do': 1 },
+            });
+        });
+
+        it('should report an empty rollup for a product without children', async () => {
+            const rollup = await service.getRollup(product);
+
+            expect(rollup).toEqual({ total: 0, todo: 0, inProgress: 0, done: 0, progress: 0, byStatus: {} });
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('refreshChildren', () => {
+        const child = (key: string, id: string, status = 'Done', category = 'done') => ({
+            id,
+            key,
+            fields: { summary: key, status: { name: status, statusCategory: { key: category } }, issuetype: { name: 'Bug' } },
+        });
+
+        it('should add, update and remove children to match the issues under the epic', async () => {
+            issueRepo.findOneBy.mockResolvedValue(link('PROJ-5', { role: 'EPIC' }));
+            issueRepo.find.mockResolvedValue([
+                link('PROJ-5', { role: 'EPIC' }),
+                link('PROJ-2', { jiraIssueId: '2' }),
+                link('PROJ-3', { jiraIssueId: '3' }),
+            ]);
+            jira.searchIssues.mockResolvedValue([child('PROJ-2', '2'), child('PROJ-7', '7', 'To Do', 'new')]);
+
+            const changes = await service.refreshChildren(jira as unknown as JiraService, product);
+
+            expect(jira.searchIssues).toHaveBeenCalledWith('parent = PROJ-5', ['summary', 'status', 'issuetype']);
+            expect(changes).toEqual(['Child issue PROJ-2 updated', 'Child issue PROJ-7 added', 'Child issue PROJ-3 removed']);
+            expect(issueRepo.save).toHaveBeenCalledWith([
+                expect.objectContaining({ id: 2, status: 'Done', statusCategory: 'done', issueType: 'Bug' }),
+                expect.objectContaining({ productId: 1, jiraIssueKey: 'PROJ-7', jiraIssueId: '7', role: 'CHILD', statusCategory: 'new' }),
+            ]);
+            expect(issueRepo.delete).toHaveBeenCalledWith([3]);
+        });
+
+        it('should only report the changes on a dry run', async () => {
+            issueRepo.findOneBy.mockResolvedValue(link('PROJ-5', { role: 'EPIC' }));
+            jira.searchIssues.mockResolvedValue([child('PROJ-7', '7')]);
+
+            const changes = await service.refreshChildren(jira as unknown as JiraService, product, true);
+
+            expect(changes).toEqual(['Child issue PROJ-7 added']);
+            expect(issueRepo.save).not.toHaveBeenCalled();
+        });
+
+        it('should fail when Jira rejects the search', async () => {
+            issueRepo.findOneBy.mockResolvedValue(link('PROJ-5', { role: 'EPIC' }));
+            jira.searchIssues.mockRejectedValue({ message: 'Issue does not exist', response: { status: 400 } });
+
+            await expect(service.refreshChildren(jira as unknown as JiraService, product)).rejects.toEqual(expect.objectContaining({ message: 'Issue does not exist' }));
+            expect(issueRepo.delete).not.toHaveBeenCalled();
+        });
+
+        it('should not call Jira for a product without an epic', async () => {
+            const changes = await service.refreshChildren(jira as unknown as JiraService, product);
+
+            expect(changes).toEqual([]);
+            expect(jira.searchIssues).not.toHaveBeenCalled();
+        });
+    });
+
+    /////////////////////////////////////////////////////
+
+    describe('syncFromWebhook', () => {
+        it('should copy the new status onto every product the issue is linked to', async () => {
+            issueRepo.find.mockResolvedValue([link('PROJ-2'), link('PROJ-2', { id: 20, productId: 2, role: 'RELATED' })]);
+
+            const count = await service.syncFromWebhook({
+                webhookEvent: 'jira:issue_updated',
+                issue: { key: 'PROJ-2', fields: { summary: 'PROJ-2', status: { name: 'Done', statusCategory: { key: 'done' } } } },
+            }, null);
+
+            expect(count).toBe(2);
+            expect(issueRepo.save).toHaveBeenCalledWith([
+                expect.objectContaining({ productId: 1, status: 'Done', statusCategory: 'done' }),
+                expect.objectContaining({ productId: 2, status: 'Done', statusCategory: 'done' }),
+            ]);
+        });
+
+        it('should drop links of an issue deleted in Jira', async () => {
+            issueRepo.find.mockResolvedValue([link('PROJ-2')]);
+
+            await service.syncFromWebhook({ webhookEvent: 'jira:issue_deleted', issue: { key: 'PROJ-2', fields: {} } }, null);
+
+            expect(issueRepo.delete).toHaveBeenCalledWith([2]);
+        });
+
+        it('should link an issue filed under a product\'s epic as a child of that product', async () => {
+            issueRepo.find
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([link('PROJ-5', { role: 'EPIC' })]);
+
+            const count = await service.syncFromWebhook({
+                webhookEvent: 'jira:issue_created',
+                issue: { id: '7', key: 'PROJ-7', fields: { summary: 'New story', parent: { key: 'PROJ-5' }, status: { name: 'To Do', statusCategory: { key: 'new' } } } },
+            }, null);
+
+            expect(count).toBe(1);
+            expect(issueRepo.find).toHaveBeenLastCalledWith({ where: { role: 'EPIC', jiraIssueKey: 'PROJ-5', jiraConnectionId: expect.anything() } });
+            expect(issueRepo.save).toHaveBeenCalledWith([
+                expect.objectContaining({ productId: 1, jiraIssueKey: 'PROJ-7', jiraIssueId: '7', role: 'CHILD', summary: 'New story', statusCategory: 'new' }),
+            ]);
+        });
+
+        it('should ignore issues that are not linked', async () => {
+            const count = await service.syncFromWebhook({ issue: { key: 'PROJ-9', fields: { summary: 'Other' } } }, null);
+
+            expect(count).toBe(0);
+            expect(issueRepo.save).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,367 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ProductIssue } from './entities/product-issue.entity';
+import { LinkProductIssueDto } from './dto/link-product-issue.dto';
+import { CreateChildIssueDto } from './dto/create-child-issue.dto';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraService } from '../jira/jira.service';
+import { JiraIssue } from '../jira/jira-api.types';
+import { JiraIssueEvent } from '../jira/jira-webhook-payload';
+import { AuthUser } from '../auth/auth-user';
+
+// Child issues of the product's epic, counted by Jira status category
+export interface ProductIssueRollup {
+  total: number;
+  todo: number;
+  inProgress: number;
+  done: number;
+  // Share of children done, 0..1
+  progress: number;
+  byStatus: Record<string, number>;
+}
+
+@Injectable()
+export class ProductIssuesService {
+  private readonly logger = new Logger(ProductIssuesService.name);
+
+  constructor(
+    @InjectRepository(ProductIssue)
+    private issueRepo: Repository<ProductIssue>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    private jiraClients: JiraClientFactory,
+  ) {}
+
+  // 1. List -> primary issue first, then epic, children and related issues
+  async findAll(productId: number) {
+    const product = await this.getProduct(productId);
+    const issues = await this.issueRepo.find({
+      where: { productId },
+      order: { id: 'ASC' },
+    });
+
+    const primary = product.jiraIssueKey
+      ? [
+          {
+            jiraIssueKey: product.jiraIssueKey,
+            role: 'PRIMARY' as const,
+            status: product.ticketStatus,
+          },
+        ]
+      : [];
+    return {
+      issues: [...primary, ...issues],
+      rollup: this.rollup(issues.filter((i) => i.role === 'CHILD')),
+    };
+  }
+
+  // 2. Attach an existing issue as the product's epic, a child or a related issue
+  async link(productId: number, dto: LinkProductIssueDto) {
+    const product = await this.getProduct(productId);
+    if (dto.issueKey === product.jiraIssueKey) {
+      throw new ConflictException(
+        `${dto.issueKey} is the primary issue of product ${productId}`,
+      );
+    }
+    if (
+      await this.issueRepo.existsBy({ productId, jiraIssueKey: dto.issueKey })
+    ) {
+      throw new ConflictException(
+        `${dto.issueKey} is already linked to product ${productId}`,
+      );
+    }
+    if (dto.role === 'EPIC') await this.checkNoEpic(productId);
+
+    const jira = await this.jiraClients.forProduct(product);
+    let issue: Awaited<ReturnType<typeof jira.getIssue>>;
+    try {
+      issue = await jira.getIssue(dto.issueKey);
+    } catch (e) {
+      if (e.response?.status === 404) {
+        throw new NotFoundException(`Jira issue ${dto.issueKey} not found`);
+      }
+      throw e;
+    }
+
+    const saved = await this.issueRepo.save({
+      productId,
+      jiraConnectionId: product.jiraConnectionId ?? null,
+      jiraIssueKey: issue.key,
+      jiraIssueId: issue.id ?? null,
+      role: dto.role,
+      summary: issue.summary ?? null,
+      issueType: issue.issueType,
+      status: issue.status || null,
+      statusCategory: issue.statusCategory,
+    });
+    this.logger.log(
+      `Product ${productId}: ${issue.key} linked as ${dto.role.toLowerCase()} issue`,
+    );
+    return saved;
+  }
+
+  // 3. Create a child issue under the product's epic
+  async createChild(
+    productId: number,
+    dto: CreateChildIssueDto,
+    actor?: AuthUser,
+  ) {
+    const product = await this.getProduct(productId);
+    const epic = await this.issueRepo.findOneBy({ productId, role: 'EPIC' });
+    if (!epic) {
+      throw new ConflictException(
+        `Product ${productId} has no epic; link one with role EPIC first`,
+      );
+    }
+
+    // Children are filed in the epic's project
+    const issueType =
+      dto.issueType || process.env.JIRA_CHILD_ISSUE_TYPE || 'Story';
+    const jira = await this.jiraClients.forProduct(product);
+    const created = await jira.createIssue({
+      summary: dto.summary,
+      description: dto.description,
+      productId,
+      route: { projectKey: epic.jiraIssueKey.split('-')[0], issueType },
+      parentKey: epic.jiraIssueKey,
+      reporterAccountId: actor?.jiraAccountId,
+    });
+
+    const saved = await this.issueRepo.save({
+      productId,
+      jiraConnectionId: product.jiraConnectionId ?? null,
+      jiraIssueKey: created.jiraKey,
+      jiraIssueId: created.jiraId,
+      role: 'CHILD',
+      summary: dto.summary,
+      issueType,
+      status: null,
+      statusCategory: 'new',
+    });
+    this.logger.log(
+      `Product ${productId}: child issue ${created.jiraKey} created under ${epic.jiraIssueKey}`,
+    );
+    return saved;
+  }
+
+  // 4. Detach an issue from the product; the issue itself is left untouched
+  async unlink(productId: number, issueKey: string) {
+    await this.getProduct(productId);
+    const issue = await this.issueRepo.findOneBy({
+      productId,
+      jiraIssueKey: issueKey,
+    });
+    if (!issue) {
+      throw new NotFoundException(
+        `${issueKey} is not linked to product ${productId}`,
+      );
+    }
+
+    await this.issueRepo.delete(issue.id);
+    return { deleted: true, jiraIssueKey: issueKey };
+  }
+
+  // 5. Rollup for findProduct -> stored children only; webhooks and reconciliation keep them current
+  async getRollup(product: Product): Promise<ProductIssueRollup> {
+    const children = await this.issueRepo.find({
+      where: { productId: product.id, role: 'CHILD' },
+    });
+    return this.rollup(children);
+  }
+
+  // 6. Webhook -> keep linked issues current; returns how many links the event touched
+  async syncFromWebhook(
+    payload: JiraIssueEvent,
+    connectionId: number | null,
+  ): Promise<number> {
+    const { issue } = payload;
+    const site = { jiraConnectionId: connectionId ?? IsNull() };
+    const linked = await this.issueRepo.find({
+      where: [
+        { jiraIssueKey: issue.key, ...site },
+        ...(issue.id ? [{ jiraIssueId: issue.id, ...site }] : []),
+      ],
+    });
+
+    if (payload.webhookEvent === 'jira:issue_deleted') {
+      if (linked.length === 0) return 0;
+      await this.issueRepo.delete(linked.map((l) => l.id));
+      this.logger.log(
+        `[WEBHOOK] Issue: ${issue.key} | Deleted in Jira, removed from ${linked.length} product(s)`,
+      );
+      return linked.length;
+    }
+
+    const adopted = await this.adoptChild(issue, connectionId, linked);
+    const changed = [
+      ...linked.filter((l) => this.assignIssue(l, issue)),
+      ...adopted,
+    ];
+    if (changed.length > 0) await this.issueRepo.save(changed);
+    return linked.length + adopted.length;
+  }
+
+  // 7. Reconciliation -> align the stored children with the issues under the epic in Jira; returns the changes
+  async refreshChildren(
+    jira: JiraService,
+    product: Product,
+    dryRun = false,
+  ): Promise<string[]> {
+    const epic = await this.issueRepo.findOneBy({
+      productId: product.id,
+      role: 'EPIC',
+    });
+    if (!epic) return [];
+
+    // Finds children filed in Jira too, and a deleted child can't get the search rejected
+    const issues = await jira.searchIssues(`parent = ${epic.jiraIssueKey}`, [
+      'summary',
+      'status',
+      'issuetype',
+    ]);
+    const links = await this.issueRepo.find({
+      where: { productId: product.id },
+    });
+    const matches = (link: ProductIssue, issue: JiraIssue) =>
+      link.jiraIssueId === issue.id || link.jiraIssueKey === issue.key;
+
+    const changes: string[] = [];
+    const changed: ProductIssue[] = [];
+    for (const issue of issues) {
+      const link = links.find((l) => matches(l, issue));
+      if (!link) {
+        changes.push(`Child issue ${issue.key} added`);
+        changed.push(this.newChild(epic, issue));
+      } else if (link.role === 'CHILD' && this.assignIssue(link, issue)) {
+        changes.push(`Child issue ${issue.key} updated`);
+        changed.push(link);
+      }
+    }
+
+    // Deleted in Jira or moved off the epic
+    const gone = links.filter(
+      (l) => l.role === 'CHILD' && !issues.some((i) => matches(l, i)),
+    );
+    changes.push(...gone.map((l) => `Child issue ${l.jiraIssueKey} removed`));
+
+    if (!dryRun) {
+      if (changed.length > 0) await this.issueRepo.save(changed);
+      if (gone.length > 0) await this.issueRepo.delete(gone.map((l) => l.id));
+    }
+    return changes;
+  }
+
+  // --- Helper: Link an issue filed under a product's epic in Jira as a child of that product ---
+  // Only the parent of the payload is trusted; children moved off an epic are dropped by reconciliation
+  private async adoptChild(
+    issue: JiraIssueEvent['issue'],
+    connectionId: number | null,
+    linked: ProductIssue[],
+  ): Promise<ProductIssue[]> {
+    const parentKey = issue.fields.parent?.key;
+    if (typeof parentKey !== 'string') return [];
+
+    const epics = await this.issueRepo.find({
+      where: {
+        role: 'EPIC',
+        jiraIssueKey: parentKey,
+        jiraConnectionId: connectionId ?? IsNull(),
+      },
+    });
+    return epics
+      .filter((epic) => !linked.some((l) => l.productId === epic.productId))
+      .map((epic) => this.newChild(epic, issue));
+  }
+
+  private newChild(
+    epic: ProductIssue,
+    issue: Pick<JiraIssueEvent['issue'], 'id' | 'key' | 'fields'>,
+  ): ProductIssue {
+    const child = {
+      productId: epic.productId,
+      jiraConnectionId: epic.jiraConnectionId,
+      jiraIssueId: issue.id ?? null,
+      role: 'CHILD',
+      summary: null,
+      issueType: null,
+      status: null,
+      statusCategory: null,
+    } as ProductIssue;
+    this.assignIssue(child, issue);
+    return child;
+  }
+
+  // --- Helper: Copy key, summary, type and status onto a link; true when something changed ---
+  private assignIssue(
+    link: ProductIssue,
+    issue: Pick<JiraIssueEvent['issue'], 'key' | 'fields'>,
+  ): boolean {
+    const { summary, status, issuetype } = issue.fields;
+    const before = this.state(link);
+
+    link.jiraIssueKey = issue.key;
+    if (summary) link.summary = summary.slice(0, 255);
+    if (issuetype) link.issueType = issuetype.name;
+    if (status) {
+      link.status = status.name;
+      link.statusCategory = status.statusCategory?.key ?? link.statusCategory;
+    }
+    return this.state(link) !== before;
+  }
+
+  private state(link: ProductIssue): string {
+    return JSON.stringify([
+      link.jiraIssueKey,
+      link.summary,
+      link.issueType,
+      link.status,
+      link.statusCategory,
+    ]);
+  }
+
+  private rollup(children: ProductIssue[]): ProductIssueRollup {
+    const count = (category: string) =>
+      children.filter((c) => c.statusCategory === category).length;
+    const done = count('done');
+    const inProgress = count('indeterminate');
+
+    const byStatus: Record<string, number> = {};
+    for (const child of children) {
+      const status = child.status ?? 'Unknown';
+      byStatus[status] = (byStatus[status] ?? 0) + 1;
+    }
+
+    return {
+      total: children.length,
+      // Children without a known category count as not started
+      todo: children.length - done - inProgress,
+      inProgress,
+      done,
+      progress: children.length
+        ? Math.round((done / children.length) * 100) / 100
+        : 0,
+      byStatus,
+    };
+  }
+
+  private async checkNoEpic(productId: number) {
+    const epic = await this.issueRepo.findOneBy({ productId, role: 'EPIC' });
+    if (epic) {
+      throw new ConflictException(
+        `Product ${productId} already has epic ${epic.jiraIssueKey}`,
+      );
+    }
+  }
+
+  private async getProduct(productId: number) {
+    const product = await this.productRepo.findOneBy({ id: productId });
+    if (!product) throw new NotFoundException(`Product ${productId} not found`);
+    return product;
+  }
+}
@@ -0,0 +1,53 @@
+import { readJsonEnv, sameName } from '../jira/jira.config';
+
+// Product lifecycle, independent of any particular Jira workflow
+export enum ProductLifecycle {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  BLOCKED = 'BLOCKED',
+  RETIRED = 'RETIRED',
+}
+
+// Lifecycle -> Jira statuses. The first status of each list is the transition target,
+// the others are only recognised when they come back from Jira.
+const DEFAULT_STATUS_MAP: Record<ProductLifecycle, string[]> = {
+  [ProductLifecycle.DRAFT]: ['To Do', 'Backlog', 'Open'],
+  [ProductLifecycle.ACTIVE]: ['In Progress', 'Selected for Development'],
+  [ProductLifecycle.BLOCKED]: ['Blocked', 'On Hold'],
+  [ProductLifecycle.RETIRED]: ['Dropped', 'Cancelled', 'Closed', 'Done'],
+};
+
+// PRODUCT_LIFECYCLE_STATUS_MAP overrides individual lifecycles, e.g. {"RETIRED": ["Won't Do"]}
+export function getLifecycleStatusMap(): Record<ProductLifecycle, string[]> {
+  return {
+    ...DEFAULT_STATUS_MAP,
+    ...readJsonEnv<Partial<Record<ProductLifecycle, string[]>>>(
+      'PRODUCT_LIFECYCLE_STATUS_MAP',
+      {},
+    ),
+  };
+}
+
+// Jira status -> lifecycle, or null when the status isn't mapped
+export function lifecycleFromJiraStatus(
+  status?: string | null,
+): ProductLifecycle | null {
+  if (!status) return null;
+
+  const map = getLifecycleStatusMap();
+  const match = Object.values(ProductLifecycle).find((lifecycle) =>
+    (map[lifecycle] || []).some((name) => sameName(name, status)),
+  );
+  return match ?? null;
+}
+
+// Lifecycle -> Jira status to transition to
+export function jiraStatusForLifecycle(lifecycle: ProductLifecycle): string {
+  const [status] = getLifecycleStatusMap()[lifecycle] || [];
+  if (!status) {
+    throw new Error(
+      `No Jira status mapped to lifecycle ${lifecycle} in PRODUCT_LIFECYCLE_STATUS_MAP`,
+    );
+  }
+  return status;
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, Post, Body, Param, ParseIntPipe } from '@nestjs/common';
+import { ProductNotesService } from './product-notes.service';
+import { CreateNoteDto } from './dto/create-note.dto';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import type { AuthUser } from '../auth/auth-user';
+
+@Controller('products/:id/notes')
+export class ProductNotesController {
+  constructor(private readonly notesService: ProductNotesService) { }
+
+  @Get()
+  listNotes(@Param('id', ParseIntPipe) id: number) {
+    return this.notesService.findAll(id);
+  }
+
+  @Post()
+  @Roles('editor')
+  createNote(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createNoteDto: CreateNoteDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.notesService.create(id, createNoteDto, user);
+  }
+}
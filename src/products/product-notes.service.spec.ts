@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ProductNotesService } from './product-notes.service';
+import { ProductNote } from './entities/product-note.entity';
+import { Product } from './entities/product.entity';
+import { JiraOutboxService } from './jira-outbox.service';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraCommentEvent } from '../jira/jira-webhook-payload';
+import { AuthUser } from '../auth/auth-user';
+
+describe('ProductNotesService', () => {
+  let service: ProductNotesService;
+  let noteRepo: jest.Mocked<Repository<ProductNote>>;
+  let productRepo: jest.Mocked<Repository<Product>>;
+  let jira: jest.Mocked<JiraService>;
+  let outbox: jest.Mocked<JiraOutboxService>;
+
+  const mockNoteRepo = () => {
+    const repo: any = {
+      create: jest.fn((note) => ({ ...note })),
+      save: jest.fn((note) => Promise.resolve({ id: 7, ...note })),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      existsBy: jest.fn().mockResolvedValue(false),
+      softDelete: jest.fn(),
+    };
+    // Transactions run against the same mocked repository
+    repo.manager = {
+      transaction: jest.fn((cb) => cb({ getRepository: () => repo })),
+    };
+    return repo;
+  };
+
+  const mockProductRepo = () => ({
+    findOneBy: jest.fn(),
+    findOne: jest.fn(),
+  });
+
+  const mockJira = () => ({
+    addComment: jest.fn(),
+    getMyAccountId: jest.fn(),
+  });
+
+  const mockOutbox = () => ({
+    enqueue: jest.fn(),
+    begin: jest.fn().mockResolvedValue({ id: 5, attempts: 0 }),
+    complete: jest.fn(),
+    fail: jest.fn(),
+  });
+
+  const commentEvent = (webhookEvent: string, comment: Record<string, any> = {}): JiraCommentEvent => ({
+    webhookEvent,
+    issue: { key: 'PROJ-1' },
+    comment: {
+      id: '100',
+      author: { accountId: 'user-1', displayName: 'Jane Doe' },
+      body: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'From Jira' }] }] },
+      ...comment,
+    },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductNotesService,
+        { provide: getRepositoryToken(ProductNote), useFactory: mockNoteRepo },
+        { provide: getRepositoryToken(Product), useFactory: mockProductRepo },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: JiraOutboxService, useFactory: mockOutbox },
+      ],
+    }).compile();
+
+    service = module.get(ProductNotesService);
+    noteRepo = module.get(getRepositoryToken(ProductNote));
+    productRepo = module.get(getRepositoryToken(Product));
+    jira = module.get(JiraService);
+    outbox = module.get(JiraOutboxService);
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('create', () => {
+    it('should save the note and post it as a Jira comment', async () => {
+      productRepo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      jira.addComment.mockResolvedValue({ id: '100' });
+
+      const actor = { id: 'sam', name: 'Sam', roles: ['editor'], jiraAccountId: null, via: 'jwt' } as AuthUser;
+      const result = await service.create(1, { body: 'Hello **team**' }, actor);
+
+      expect(noteRepo.save).toHaveBeenCalledWith(expect.objectContaining({ jiraSyncStatus: 'PENDING' }));
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), { productId: 1, operation: 'COMMENT' });
+      expect(outbox.begin.mock.invocationCallOrder[0]).toBeLessThan(jira.addComment.mock.invocationCallOrder[0]);
+      expect(jira.addComment).toHaveBeenCalledWith('PROJ-1', 'Hello **team**');
+      expect(result).toEqual(expect.objectContaining({
+        id: 7,
+        productId: 1,
+        source: 'api',
+        author: 'Sam',
+        jiraCommentId: '100',
+        jiraSyncStatus: 'OK',
+      }));
+      expect(outbox.complete).toHaveBeenCalledWith(expect.anything(), { id: 5, attempts: 0 });
+      expect(outbox.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should fail the outbox entry when Jira fails', async () => {
+      productRepo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      const error = new Error('Jira down');
+      jira.addComment.mockRejectedValue(error);
+
+      const result = await service.create(1, { body: 'Hello' });
+
+      expect(result.jiraSyncStatus).toBe('FAILED');
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), { id: 5, attempts: 0 }, error);
+      expect(outbox.complete).not.toHaveBeenCalled();
+    });
+
+    it('should hand earlier failed notes back to the worker after covering its entry', async () => {
+      productRepo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+      outbox.begin.mockResolvedValue({ id: 5, attempts: 2 } as Awaited<ReturnType<JiraOutboxService['begin']>>);
+      noteRepo.existsBy.mockResolvedValue(true);
+      jira.addComment.mockResolvedValue({ id: '100' });
+
+      await service.create(1, { body: 'Hello' });
+
+      expect(noteRepo.existsBy).toHaveBeenCalledWith({ productId: 1, jiraSyncStatus: 'FAILED' });
+      expect(outbox.complete).toHaveBeenCalled();
+      expect(outbox.enqueue).toHaveBeenCalledWith(expect.anything(), { productId: 1, operation: 'COMMENT' });
+    });
+
+    it('should queue the comment while the product has no Jira issue', async () => {
+      productRepo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: null } as unknown as Product);
+
+      await service.create(1, { body: 'Hello' });
+
+      expect(jira.addComment).not.toHaveBeenCalled();
+      expect(outbox.begin).not.toHaveBeenCalled();
+      expect(noteRepo.save).toHaveBeenCalledWith(expect.objectContaining({ jiraSyncStatus: 'FAILED' }));
+      expect(outbox.enqueue).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        productId: 1,
+        operation: 'COMMENT',
+      }));
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      productRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.create(1, { body: 'Hello' })).rejects.toThrow(NotFoundException);
+      expect(noteRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('handleCommentEvent', () => {
+    it('should import a comment added in Jira as a note', async () => {
+      noteRepo.findOne.mockResolvedValue(null);
+      jira.getMyAccountId.mockResolvedValue('integration-user');
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1' } as Product);
+
+      await service.handleCommentEvent(commentEvent('comment_created'));
+
+      expect(noteRepo.save).toHaveBeenCalledWith({
+        productId: 1,
+        body: 'From Jira',
+        author: 'Jane Doe',
+        source: 'jira',
+        jiraConnectionId: null,
+        jiraCommentId: '100',
+        jiraSyncStatus: 'OK',
+      });
+    });
+
+    it('should match comments within the Jira site that sent the event', async () => {
+      noteRepo.findOne.mockResolvedValue(null);
+      jira.getMyAccountId.mockResolvedValue('integration-user');
+      productRepo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', jiraConnectionId: 2 } as Product);
+
+      await service.handleCommentEvent(commentEvent('comment_created'), 2);
+
+      expect(noteRepo.findOne).toHaveBeenCalledWith({
+        where: { jiraCommentId: '100', jiraConnectionId: 2 },
+        withDeleted: true,
+      });
+      expect(noteRepo.save).toHaveBeenCalledWith(expect.objectContaining({ jiraConnectionId: 2, jiraCommentId: '100' }));
+    });
+
+    it('should skip comments posted by the integration itself', async () => {
+      noteRepo.findOne.mockResolvedValue(null);
+      jira.getMyAccountId.mockResolvedValue('user-1');
+
+      await service.handleCommentEvent(commentEvent('comment_created'));
+
+      expect(productRepo.findOne).not.toHaveBeenCalled();
+      expect(noteRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should not duplicate a comment that is already a note', async () => {
+      noteRepo.findOne.mockResolvedValue({ id: 7, body: 'From Jira', jiraCommentId: '100' } as ProductNote);
+
+      await service.handleCommentEvent(commentEvent('comment_created'));
+
+      expect(noteRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should copy Jira edits onto the note', async () => {
+      noteRepo.findOne.mockResolvedValue({ id: 7, body: 'Old', jiraCommentId: '100' } as ProductNote);
+
+      await service.handleCommentEvent(commentEvent('comment_updated'));
+
+      expect(noteRepo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 7, body: 'From Jira' }));
+    });
+
+    it('should soft-delete the note when the comment is deleted', async () => {
+      noteRepo.findOne.mockResolvedValue({ id: 7, deletedAt: null } as ProductNote);
+
+      await service.handleCommentEvent(commentEvent('comment_deleted'));
+
+      expect(noteRepo.softDelete).toHaveBeenCalledWith(7);
+    });
+  });
+});
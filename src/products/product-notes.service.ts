@@ -0,0 +1,194 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ProductNote } from './entities/product-note.entity';
+import { CreateNoteDto } from './dto/create-note.dto';
+import { JiraOutboxService } from './jira-outbox.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { adfToMarkdown } from '../jira/adf-markdown';
+import { JiraCommentEvent } from '../jira/jira-webhook-payload';
+import { AuthUser } from '../auth/auth-user';
+
+@Injectable()
+export class ProductNotesService {
+  private readonly logger = new Logger(ProductNotesService.name);
+
+  constructor(
+    @InjectRepository(ProductNote) private noteRepo: Repository<ProductNote>,
+    @InjectRepository(Product) private productRepo: Repository<Product>,
+    private jiraClients: JiraClientFactory,
+    private outbox: JiraOutboxService,
+  ) {}
+
+  // 1. List notes of a product, oldest first
+  async findAll(productId: number) {
+    await this.getProduct(productId);
+    return this.noteRepo.find({
+      where: { productId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  // 2. Add Note -> Jira comment (queued in the outbox if Jira is unavailable)
+  async create(productId: number, dto: CreateNoteDto, actor?: AuthUser) {
+    const product = await this.getProduct(productId);
+    const note = this.noteRepo.create({
+      productId,
+      body: dto.body,
+      author: actor ? (actor.name ?? actor.id) : null,
+      source: 'api',
+      jiraConnectionId: product.jiraConnectionId ?? null,
+      jiraSyncStatus: product.jiraIssueKey ? 'PENDING' : 'FAILED',
+    });
+
+    if (!product.jiraIssueKey) {
+      return this.noteRepo.manager.transaction(async (manager) => {
+        const saved = await manager.getRepository(ProductNote).save(note);
+        await this.outbox.enqueue(manager, {
+          productId,
+          operation: 'COMMENT',
+          error: `Product ${productId} has no Jira issue yet`,
+        });
+        return saved;
+      });
+    }
+
+    // The note and its outbox entry are written before Jira is called
+    const { saved, entry } = await this.noteRepo.manager.transaction(
+      async (manager) => ({
+        saved: await manager.getRepository(ProductNote).save(note),
+        entry: await this.outbox.begin(manager, {
+          productId,
+          operation: 'COMMENT',
+        }),
+      }),
+    );
+
+    try {
+      const jira = await this.jiraClients.forProduct(product);
+      const comment = await jira.addComment(product.jiraIssueKey, saved.body);
+      Object.assign(saved, { jiraCommentId: comment.id, jiraSyncStatus: 'OK' });
+    } catch (e) {
+      this.logger.error(
+        `Failed to add Jira comment for note ${saved.id} on ${product.jiraIssueKey}: ${e.message}`,
+      );
+      saved.jiraSyncStatus = 'FAILED';
+      await this.noteRepo.manager.transaction(async (manager) => {
+        await manager.getRepository(ProductNote).save(saved);
+        await this.outbox.fail(manager, entry, e);
+      });
+      return saved;
+    }
+
+    await this.noteRepo.manager.transaction(async (manager) => {
+      const notes = manager.getRepository(ProductNote);
+      await notes.save(saved);
+      await this.outbox.complete(manager, entry);
+
+      // An entry the worker had already tried also covers earlier failed notes; those go back to it
+      if (
+        entry.attempts > 0 &&
+        (await notes.existsBy({ productId, jiraSyncStatus: 'FAILED' }))
+      ) {
+        await this.outbox.enqueue(manager, { productId, operation: 'COMMENT' });
+      }
+    });
+    return saved;
+  }
+
+  // 3. Webhook -> comment_created / comment_updated / comment_deleted
+  // `connectionId` is the Jira connection the webhook arrived for (null = default site)
+  async handleCommentEvent(
+    payload: JiraCommentEvent,
+    connectionId: number | null = null,
+  ) {
+    const event = payload.webhookEvent;
+    const comment = payload.comment;
+    const issueKey = payload.issue.key;
+
+    const commentId = String(comment.id);
+    const note = await this.noteRepo.findOne({
+      where: {
+        jiraCommentId: commentId,
+        jiraConnectionId: connectionId ?? IsNull(),
+      },
+      withDeleted: true,
+    });
+
+    if (event === 'comment_deleted') {
+      if (note && !note.deletedAt) {
+        await this.noteRepo.softDelete(note.id);
+        this.logger.log(
+          `[WEBHOOK] Issue: ${issueKey} | Note ${note.id} deleted with comment ${commentId}`,
+        );
+      }
+      return;
+    }
+
+    const body =
+      typeof comment.body === 'string'
+        ? comment.body
+        : adfToMarkdown(comment.body);
+
+    // Known comment: only edits made in Jira need copying
+    if (note) {
+      if (event === 'comment_updated' && note.body !== body) {
+        note.body = body;
+        await this.noteRepo.save(note);
+        this.logger.log(
+          `[WEBHOOK] Issue: ${issueKey} | Note ${note.id} updated from comment ${commentId}`,
+        );
+      }
+      return;
+    }
+
+    // Loop prevention: our own comments can arrive before their id is stored on the note
+    const jira = await this.jiraClients.forConnection(connectionId);
+    if (
+      comment.author?.accountId &&
+      comment.author.accountId === (await jira.getMyAccountId())
+    ) {
+      this.logger.log(
+        `[WEBHOOK] Issue: ${issueKey} | Comment ${commentId} posted by this integration, skipped`,
+      );
+      return;
+    }
+
+    const product = await this.productRepo.findOne({
+      where: {
+        jiraIssueKey: issueKey,
+        jiraConnectionId: connectionId ?? IsNull(),
+      },
+      withDeleted: true,
+    });
+    if (!product) {
+      this.logger.log(
+        `[WEBHOOK] Issue: ${issueKey} | No product for comment ${commentId}, skipped`,
+      );
+      return;
+    }
+
+    const created = await this.noteRepo.save(
+      this.noteRepo.create({
+        productId: product.id,
+        body,
+        author: comment.author?.displayName ?? null,
+        source: 'jira',
+        jiraConnectionId: connectionId,
+        jiraCommentId: commentId,
+        jiraSyncStatus: 'OK',
+      }),
+    );
+    this.logger.log(
+      `[WEBHOOK] Issue: ${issueKey} | Note ${created.id} imported from comment ${commentId}`,
+    );
+  }
+
+  // --- Helper: Load product or 404 ---
+  private async getProduct(productId: number) {
+    const product = await this.productRepo.findOneBy({ id: productId });
+    if (!product) throw new NotFoundException(`Product ${productId} not found`);
+    return product;
+  }
+}
@@ -1,23 +1,45 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, ParseIntPipe } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, ParseIntPipe, Query, ValidationPipe } from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import { ListProductsDto } from './dto/list-products.dto';
+import { ChangeStatusDto } from './dto/change-status.dto';
+import { LinkJiraIssueDto } from './dto/link-jira-issue.dto';
+import { CurrentUser, Roles } from '../auth/auth.decorators';
+import type { AuthUser } from '../auth/auth-user';
 
 @Controller('products')
 export class ProductsController {
   constructor(private readonly productsService: ProductsService) { }
 
   @Post()
-  createProduct(@Body() createProductDto: CreateProductDto) {
-    return this.productsService.createProduct(createProductDto);
+  @Roles('editor')
+  createProduct(@Body() createProductDto: CreateProductDto, @CurrentUser() user: AuthUser) {
+    return this.productsService.createProduct(createProductDto, user);
+  }
+
+  // JSON array, { "products": [...] } or text/csv
+  @Post('bulk')
+  @Roles('editor')
+  bulkCreate(@Body() body: unknown, @CurrentUser() user: AuthUser) {
+    return this.productsService.bulkCreate(body, user);
   }
 
   @Patch(':id')
+  @Roles('editor')
   updateProduct(
     @Param('id', ParseIntPipe) id: number,
     @Body() updateProductDto: UpdateProductDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.productsService.update(id, updateProductDto, user);
+  }
+
+  @Get()
+  listProducts(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) query: ListProductsDto,
   ) {
-    return this.productsService.update(id, updateProductDto);
+    return this.productsService.findAll(query);
   }
 
   @Get(':id')
@@ -26,7 +48,40 @@ export class ProductsController {
   }
 
   @Delete(':id')
-  softDelete(@Param('id', ParseIntPipe) id: number) {
-    return this.productsService.remove(id);
+  @Roles('editor')
+  softDelete(@Param('id', ParseIntPipe) id: number, @CurrentUser() user: AuthUser) {
+    return this.productsService.remove(id, user);
+  }
+
+  @Post(':id/restore')
+  @Roles('editor')
+  restore(@Param('id', ParseIntPipe) id: number, @CurrentUser() user: AuthUser) {
+    return this.productsService.restore(id, user);
+  }
+
+  @Post(':id/status')
+  @Roles('editor')
+  changeStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() changeStatusDto: ChangeStatusDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.productsService.changeStatus(id, changeStatusDto, user);
+  }
+
+  @Post(':id/jira-link')
+  @Roles('editor')
+  linkJiraIssue(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() linkJiraIssueDto: LinkJiraIssueDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.productsService.linkJiraIssue(id, linkJiraIssueDto, user);
+  }
+
+  @Delete(':id/jira-link')
+  @Roles('editor')
+  unlinkJiraIssue(@Param('id', ParseIntPipe) id: number, @CurrentUser() user: AuthUser) {
+    return this.productsService.unlinkJiraIssue(id, user);
   }
 }
@@ -3,14 +3,39 @@ import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Product } from './entities/product.entity';
+import { JiraOutboxEntry } from './entities/jira-outbox-entry.entity';
+import { ProductConflict } from './entities/product-conflict.entity';
+import { ProductNote } from './entities/product-note.entity';
+import { ProductAttachment } from './entities/product-attachment.entity';
+import { ProductAuditEvent } from './entities/product-audit-event.entity';
+import { JiraWebhookInboxEntry } from './entities/jira-webhook-inbox-entry.entity';
+import { ProductIntake } from './entities/product-intake.entity';
+import { ProductIssue } from './entities/product-issue.entity';
 import { JiraModule } from '../jira/jira.module';
+import { StorageModule } from '../storage/storage.module';
+import { RoutingModule } from '../routing/routing.module';
+import { JiraOutboxService } from './jira-outbox.service';
+import { ProductConflictsService } from './product-conflicts.service';
+import { ProductConflictsController } from './product-conflicts.controller';
+import { ProductNotesService } from './product-notes.service';
+import { ProductNotesController } from './product-notes.controller';
+import { ProductAttachmentsService } from './product-attachments.service';
+import { ProductAttachmentsController } from './product-attachments.controller';
+import { ProductAuditService } from './product-audit.service';
+import { ProductHistoryController } from './product-history.controller';
+import { JiraWebhookInboxService } from './jira-webhook-inbox.service';
+import { JiraWebhookInboxController } from './jira-webhook-inbox.controller';
+import { ProductIntakeService } from './product-intake.service';
+import { ProductIntakeController } from './product-intake.controller';
+import { ProductIssuesService } from './product-issues.service';
+import { ProductIssuesController } from './product-issues.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Product]),
-  forwardRef(() => JiraModule),],
-  controllers: [ProductsController],
-  providers: [ProductsService],
-  exports: [ProductsService],
+  imports: [TypeOrmModule.forFeature([Product, JiraOutboxEntry, ProductConflict, ProductNote, ProductAttachment, ProductAuditEvent, JiraWebhookInboxEntry, ProductIntake, ProductIssue]),
+  forwardRef(() => JiraModule), StorageModule, RoutingModule,],
+  controllers: [ProductConflictsController, ProductsController, ProductNotesController, ProductAttachmentsController, ProductHistoryController, JiraWebhookInboxController, ProductIntakeController, ProductIssuesController],
+  providers: [ProductsService, JiraOutboxService, ProductConflictsService, ProductNotesService, ProductAttachmentsService, ProductAuditService, JiraWebhookInboxService, ProductIntakeService, ProductIssuesService],
+  exports: [ProductsService, JiraOutboxService, ProductAuditService, JiraWebhookInboxService, ProductIssuesService],
 
 })
 export class ProductsModule { }
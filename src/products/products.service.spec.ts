@@ -1,30 +1,110 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ProductsService } from './products.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Between, In, IsNull, Like, MoreThanOrEqual, Repository } from 'typeorm';
 import { Product } from './entities/product.entity';
 import { JiraService } from '../jira/jira.service';
-import { NotFoundException } from '@nestjs/common';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraOutboxService } from './jira-outbox.service';
+import { ProductConflictsService } from './product-conflicts.service';
+import { ProductNotesService } from './product-notes.service';
+import { ProductAttachmentsService } from './product-attachments.service';
+import { RoutingRulesService } from '../routing/routing-rules.service';
+import { ProductAuditService } from './product-audit.service';
+import { ProductIntakeService } from './product-intake.service';
+import { ProductIntake } from './entities/product-intake.entity';
+import { ProductIssuesService } from './product-issues.service';
+import { ProductConflict } from './entities/product-conflict.entity';
+import { AuthUser } from '../auth/auth-user';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ListProductsDto } from './dto/list-products.dto';
+import { ProductLifecycle } from './product-lifecycle';
 
 
 describe('ProductsService', () => {
   let service: ProductsService;
   let repo: jest.Mocked<Repository<Product>>;
   let jira: jest.Mocked<JiraService>;
-
-  const mockRepo = () => ({
-    create: jest.fn(), // <-- add this
-    save: jest.fn(),
-    findOneBy: jest.fn(),
-    findOne: jest.fn(),
-    softDelete: jest.fn(),
-  });
+  let outbox: jest.Mocked<JiraOutboxService>;
+  let conflicts: jest.Mocked<ProductConflictsService>;
+  let notes: jest.Mocked<ProductNotesService>;
+  let attachments: jest.Mocked<ProductAttachmentsService>;
+  let routing: jest.Mocked<RoutingRulesService>;
+  let audit: jest.Mocked<ProductAuditService>;
+  let intake: jest.Mocked<ProductIntakeService>;
+  let issues: jest.Mocked<ProductIssuesService>;
+
+  const mockRepo = () => {
+    const repo: any = {
+      create: jest.fn(), // <-- add this
+      save: jest.fn(),
+      findOneBy: jest.fn(),
+      findOne: jest.fn(),
+      find: jest.fn(),
+      findAndCount: jest.fn(),
+      softDelete: jest.fn(),
+    };
+    // Transactions run against the same mocked repository
+    repo.manager = {
+      transaction: jest.fn((cb) => cb({ getRepository: () => repo })),
+    };
+    return repo;
+  };
 
   const mockJira = () => ({
     createIssue: jest.fn(),
+    createIssues: jest.fn(),
     updateIssue: jest.fn(),
     getIssue: jest.fn(),
     updateStatus: jest.fn(),
+    reopenIssue: jest.fn(),
+    transitionTo: jest.fn(),
+    applyRoute: jest.fn(),
+  });
+
+  const mockOutbox = () => ({
+    begin: jest.fn(async (_manager, entry) => ({ id: 50, attempts: 0, ...entry })),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    cancel: jest.fn(),
+    hasPending: jest.fn(),
+  });
+
+  const mockConflicts = () => ({
+    getPolicy: jest.fn(),
+    record: jest.fn(),
+    findOpen: jest.fn().mockResolvedValue([]),
+  });
+
+  const mockNotes = () => ({
+    handleCommentEvent: jest.fn(),
+  });
+
+  const mockAttachments = () => ({
+    handleAttachmentEvent: jest.fn(),
+    syncFromChangelog: jest.fn(),
+  });
+
+  const mockRouting = () => ({
+    resolve: jest.fn(),
+    resolveAll: jest.fn((products: Product[]) => Promise.resolve(products.map(() => undefined))),
+  });
+
+  const mockAudit = () => ({
+    snapshot: jest.fn((product: Product) => ({ name: product.name, deletedAt: product.deletedAt ?? null })),
+    record: jest.fn(),
+  });
+
+  const mockIntake = () => ({
+    admit: jest.fn(async () => true),
+    discard: jest.fn(),
+    getPending: jest.fn(),
+    markApproved: jest.fn(),
+  });
+
+  const mockIssues = () => ({
+    getRollup: jest.fn(),
+    syncFromWebhook: jest.fn(async () => 0),
   });
 
   beforeEach(async () => {
@@ -33,12 +113,37 @@ describe('ProductsService', () => {
         ProductsService,
         { provide: getRepositoryToken(Product), useFactory: mockRepo },
         { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: JiraOutboxService, useFactory: mockOutbox },
+        { provide: ProductConflictsService, useFactory: mockConflicts },
+        { provide: ProductNotesService, useFactory: mockNotes },
+        { provide: ProductAttachmentsService, useFactory: mockAttachments },
+        { provide: RoutingRulesService, useFactory: mockRouting },
+        { provide: ProductAuditService, useFactory: mockAudit },
+        { provide: ProductIntakeService, useFactory: mockIntake },
+        { provide: ProductIssuesService, useFactory: mockIssues },
       ],
     }).compile();
 
     service = module.get(ProductsService);
     repo = module.get(getRepositoryToken(Product));
     jira = module.get(JiraService);
+    outbox = module.get(JiraOutboxService);
+    conflicts = module.get(ProductConflictsService);
+    notes = module.get(ProductNotesService);
+    attachments = module.get(ProductAttachmentsService);
+    routing = module.get(RoutingRulesService);
+    audit = module.get(ProductAuditService);
+    intake = module.get(ProductIntakeService);
+    issues = module.get(ProductIssuesService);
 
     jest.spyOn(service['logger'], 'error').mockImplementation(() => { });
 
@@ -82,6 +187,7 @@ describe('ProductsService', () => {
         description: 'Desc',
         productId: 1,
       });
+      expect(routing.resolve).toHaveBeenCalledWith(savedProduct);
 
       expect(result).toEqual({
         id: 1,
@@ -93,6 +199,76 @@ describe('ProductsService', () => {
         jiraIssueId: '1001',
       });
     });
+
+    it('should link an existing Jira issue instead of creating one', async () => {
+      repo.findOne.mockResolvedValue(null);
+      repo.save.mockImplementation((product: any) => Promise.resolve({ id: 1, ...product }));
+      jira.getIssue.mockResolvedValue({ id: '1001', key: 'PROJ-1', status: 'In Progress', updated: '2026-01-01T00:00:00.000Z' } as any);
+
+      const result = await service.createProduct({ name: 'Product A', jiraIssueKey: 'PROJ-1' });
+
+      expect(jira.createIssue).not.toHaveBeenCalled();
+      expect(jira.transitionTo).not.toHaveBeenCalled();
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        jiraIssueKey: 'PROJ-1',
+        jiraIssueId: '1001',
+        ticketStatus: 'In Progress',
+        lifecycle: ProductLifecycle.ACTIVE,
+        jiraSyncStatus: 'OK',
+      }));
+      expect(result).toEqual(expect.objectContaining({ id: 1, jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'OK' }));
+    });
+
+    it('should not save a product whose issue is linked to another product', async () => {
+      jira.getIssue.mockResolvedValue({ id: '1001', key: 'PROJ-1', status: 'Open' } as any);
+      repo.findOne.mockResolvedValue({ id: 7, jiraIssueKey: 'PROJ-1' } as Product);
+
+      await expect(service.createProduct({ name: 'Product A', jiraIssueKey: 'PROJ-1' }))
+        .rejects
+        .toThrow('Jira issue PROJ-1 is already linked to product 7');
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('authenticated callers', () => {
+    const actor: AuthUser = { id: 'user-1', name: 'Jane', roles: ['editor'], jiraAccountId: 'acc-1', via: 'jwt' };
+
+    it('should record the creator and report the Jira issue as them', async () => {
+      repo.save.mockImplementation((product: any) => Promise.resolve({ id: 1, ...product }));
+      jira.createIssue.mockResolvedValue({ jiraKey: 'PROJ-1', jiraId: '1001' });
+
+      const result = await service.createProduct({ name: 'Product A' }, actor);
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ createdBy: 'user-1', updatedBy: 'user-1' }));
+      expect(jira.createIssue).toHaveBeenCalledWith(expect.objectContaining({ reporterAccountId: 'acc-1' }));
+      expect(audit.record).toHaveBeenCalledWith(expect.anything(), 'CREATE', {}, {
+        source: 'api', actorType: 'user', actorId: 'user-1', actorName: 'Jane',
+      });
+      expect(result).toEqual(expect.objectContaining({ createdBy: 'user-1' }));
+    });
+
+    it('should keep the reporter for a queued create', async () => {
+      repo.save.mockImplementation((product: any) => Promise.resolve({ id: 1, ...product }));
+      jira.createIssue.mockRejectedValue(new Error('Jira down'));
+
+      await service.createProduct({ name: 'Product A' }, actor);
+
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        operation: 'CREATE',
+        payload: { reporterAccountId: 'acc-1' },
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ operation: 'CREATE' }), new Error('Jira down'));
+    });
+
+    it('should record who last changed the product', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, name: 'Old', createdBy: 'user-0' } as Product);
+
+      await service.update(1, { name: 'New' }, actor);
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ createdBy: 'user-0', updatedBy: 'user-1' }));
+    });
   });
 
   ///////////////////////////////////////////////////////////////
@@ -114,8 +290,10 @@ describe('ProductsService', () => {
       const dto = { name: 'New Name', description: 'New Desc' };
       const result = await service.update(1, dto);
 
-      // repo.save called twice: first for local update, second after Jira update
-      expect(repo.save).toHaveBeenCalledTimes(2);
+      // repo.save called three times: local update, with the queued Jira update, after Jira update
+      expect(repo.save).toHaveBeenCalledTimes(3);
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), { productId: 1, operation: 'UPDATE', payload: undefined });
+      expect(outbox.complete).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ operation: 'UPDATE' }));
 
       // Jira was called with updated fields
       expect(jira.updateIssue).toHaveBeenCalledWith({
@@ -137,6 +315,158 @@ describe('ProductsService', () => {
       });
     });
 
+    it('should merge attributes and send the mapped custom fields they change to Jira', async () => {
+      process.env.JIRA_FIELD_MAPPINGS = JSON.stringify([
+        { property: 'attributes.sku', field: 'customfield_10010' },
+        { property: 'attributes.weight', field: 'customfield_10040', type: 'number' },
+      ]);
+      const product = {
+        id: 1,
+        name: 'Name',
+        jiraIssueKey: 'PROJ-1',
+        attributes: { sku: 'SKU-1' },
+      } as unknown as Product;
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+
+      const result = await service.update(1, { attributes: { weight: '2.5' } });
+      delete process.env.JIRA_FIELD_MAPPINGS;
+
+      expect(jira.updateIssue).toHaveBeenCalledWith(expect.objectContaining({
+        issueKey: 'PROJ-1',
+        summary: undefined,
+        description: undefined,
+        fields: { customfield_10040: 2.5 },
+      }));
+      expect(result).toEqual(expect.objectContaining({ attributes: { sku: 'SKU-1', weight: '2.5' } }));
+    });
+
+    it('should re-route the Jira issue when the category changes', async () => {
+      const product = {
+        id: 1,
+        name: 'Name',
+        category: 'software',
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'OK',
+      } as Product;
+      const route = { projectKey: 'HW', issueType: 'Task' };
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+      routing.resolve.mockResolvedValue(route);
+      jira.applyRoute.mockResolvedValue('HW-9');
+
+      const result = await service.update(1, { category: 'hardware' });
+
+      expect(routing.resolve).toHaveBeenCalledWith(expect.objectContaining({ category: 'hardware' }));
+      expect(jira.applyRoute).toHaveBeenCalledWith('PROJ-1', route);
+      expect(result).toEqual(expect.objectContaining({ category: 'hardware', jiraIssueKey: 'HW-9' }));
+    });
+
+    it('should queue the re-route when Jira rejects it', async () => {
+      const product = {
+        id: 1,
+        name: 'Name',
+        category: 'software',
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'OK',
+      } as Product;
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+      routing.resolve.mockResolvedValue({ projectKey: 'HW', issueType: 'Task' });
+      jira.applyRoute.mockRejectedValue(new Error('Move not permitted'));
+
+      const result = await service.update(1, { category: 'hardware' });
+
+      expect(outbox.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ productId: 1, operation: 'ROUTE' }),
+        new Error('Move not permitted'),
+      );
+      expect(result).toEqual(expect.objectContaining({ jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'FAILED' }));
+    });
+
+    it('should not re-route when routing attributes are unchanged', async () => {
+      const product = { id: 1, name: 'Name', category: 'software', jiraIssueKey: 'PROJ-1' } as Product;
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+
+      await service.update(1, { name: 'Renamed', category: 'software' });
+
+      expect(jira.applyRoute).not.toHaveBeenCalled();
+    });
+
+    it('should transition Jira issue when lifecycle changes', async () => {
+      const product = {
+        id: 1,
+        name: 'Name',
+        jiraIssueKey: 'PROJ-1',
+        lifecycle: ProductLifecycle.DRAFT,
+        jiraSyncStatus: 'OK',
+      } as Product;
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+      jira.transitionTo.mockResolvedValue({ issueKey: 'PROJ-1', status: 'Blocked', path: ['Blocked'] });
+
+      const result = await service.update(1, { lifecycle: ProductLifecycle.BLOCKED });
+
+      expect(jira.transitionTo).toHaveBeenCalledWith('PROJ-1', 'Blocked');
+      expect(repo.save).toHaveBeenLastCalledWith(expect.objectContaining({
+        lifecycle: ProductLifecycle.BLOCKED,
+        ticketStatus: 'Blocked',
+      }));
+      expect(result.lifecycle).toBe(ProductLifecycle.BLOCKED);
+    });
+
+    it('should keep the lifecycle change and mark the sync failed when no Jira status is mapped', async () => {
+      process.env.PRODUCT_LIFECYCLE_STATUS_MAP = JSON.stringify({ BLOCKED: [] });
+      const product = { id: 1, name: 'Name', jiraIssueKey: 'PROJ-1', lifecycle: ProductLifecycle.ACTIVE, jiraSyncStatus: 'OK' } as Product;
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+      jest.spyOn(service['logger'], 'error').mockImplementation();
+
+      const result = await service.update(1, { lifecycle: ProductLifecycle.BLOCKED });
+      delete process.env.PRODUCT_LIFECYCLE_STATUS_MAP;
+
+      expect(jira.transitionTo).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ lifecycle: ProductLifecycle.BLOCKED, jiraSyncStatus: 'FAILED' }));
+    });
+
+    it('should use PRODUCT_LIFECYCLE_STATUS_MAP and queue the transition if it fails', async () => {
+      process.env.PRODUCT_LIFECYCLE_STATUS_MAP = JSON.stringify({ RETIRED: ["Won't Do"] });
+      const product = {
+        id: 1,
+        name: 'Name',
+        jiraIssueKey: 'PROJ-1',
+        lifecycle: ProductLifecycle.ACTIVE,
+      } as Product;
+
+      repo.findOneBy.mockResolvedValue(product);
+      repo.save.mockResolvedValue(product);
+      jira.updateIssue.mockResolvedValue(undefined);
+      jira.transitionTo.mockRejectedValue(new Error('Jira down'));
+
+      await service.update(1, { lifecycle: ProductLifecycle.RETIRED });
+
+      expect(jira.transitionTo).toHaveBeenCalledWith('PROJ-1', "Won't Do");
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        operation: 'TRANSITION',
+        payload: { status: "Won't Do" },
+      }), new Error('Jira down'));
+
+      delete process.env.PRODUCT_LIFECYCLE_STATUS_MAP;
+    });
+
     it('should throw NotFoundException if product does not exist', async () => {
       repo.findOneBy.mockResolvedValue(null);
 
@@ -165,6 +495,120 @@ describe('ProductsService', () => {
       expect(repo.save).toHaveBeenLastCalledWith(
         expect.objectContaining({ jiraSyncStatus: 'FAILED' })
       );
+
+      // update queued with the product before Jira was called, left to the worker after the failure
+      expect(repo.manager.transaction).toHaveBeenCalled();
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), {
+        productId: 1,
+        operation: 'UPDATE',
+        payload: undefined,
+      });
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50 }), new Error('Jira down'));
+      expect(outbox.complete).not.toHaveBeenCalled();
+    });
+
+    describe('concurrent Jira edits', () => {
+      const product = () => ({
+        id: 1,
+        name: 'Old Name',
+        description: 'Old Desc',
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'OK',
+        jiraUpdatedAt: new Date('2026-01-01T10:00:00.000Z'),
+      }) as Product;
+
+      const jiraIssue = (fields: { summary: string; description: string; updated: string }) => ({
+        id: '1001',
+        key: 'PROJ-1',
+        status: 'Open',
+        statusCategory: 'new',
+        issueType: 'Task',
+        assignee: null,
+        ...fields,
+      });
+
+      const editedInJira = jiraIssue({
+        summary: 'Jira Name',
+        description: 'Old Desc',
+        updated: '2026-01-01T11:00:00.000+0000',
+      });
+
+      beforeEach(() => {
+        repo.save.mockImplementation((p) => Promise.resolve(p as Product));
+        jest.spyOn(service['logger'], 'warn').mockImplementation(() => { });
+      });
+
+      it('should push the changed fields when Jira was not edited since the last sync', async () => {
+        repo.findOneBy.mockResolvedValue(product());
+        jira.getIssue.mockResolvedValue(jiraIssue({ summary: 'Old Name', description: 'Old Desc', updated: '2026-01-01T10:00:00.000+0000' }));
+
+        const result = await service.update(1, { name: 'New Name' });
+
+        expect(conflicts.getPolicy).not.toHaveBeenCalled();
+        expect(jira.updateIssue).toHaveBeenCalledWith({ issueKey: 'PROJ-1', summary: 'New Name', description: undefined, fields: undefined });
+        expect(result).not.toHaveProperty('conflicts');
+      });
+
+      it('should not push a name or description the request leaves alone', async () => {
+        repo.findOneBy.mockResolvedValue(product());
+        jira.getIssue.mockResolvedValue(editedInJira);
+
+        await service.update(1, { category: 'hardware' });
+
+        expect(conflicts.getPolicy).not.toHaveBeenCalled();
+        expect(jira.updateIssue).not.toHaveBeenCalled();
+      });
+
+      it('should keep the Jira value under JIRA_WINS', async () => {
+        repo.findOneBy.mockResolvedValue(product());
+        jira.getIssue.mockResolvedValue(editedInJira);
+        conflicts.getPolicy.mockReturnValue('JIRA_WINS');
+
+        const result = await service.update(1, { name: 'New Name' });
+
+        expect(jira.updateIssue).not.toHaveBeenCalled();
+        expect(result.name).toBe('Jira Name');
+        expect(result.jiraSyncStatus).toBe('OK');
+        expect(conflicts.record).not.toHaveBeenCalled();
+      });
+
+      it('should overwrite Jira under LOCAL_WINS', async () => {
+        repo.findOneBy.mockResolvedValue(product());
+        jira.getIssue.mockResolvedValue(editedInJira);
+        conflicts.getPolicy.mockReturnValue('LOCAL_WINS');
+
+        const result = await service.update(1, { name: 'New Name' });
+
+        expect(jira.updateIssue).toHaveBeenCalledWith({ issueKey: 'PROJ-1', summary: 'New Name', description: undefined, fields: undefined });
+        expect(result.name).toBe('New Name');
+      });
+
+      it('should record the conflict and hold the field under MANUAL', async () => {
+        repo.findOneBy.mockResolvedValue(product());
+        jira.getIssue.mockResolvedValue(editedInJira);
+        conflicts.getPolicy.mockReturnValue('MANUAL');
+        conflicts.findOpen.mockResolvedValue([{ field: 'name' }] as ProductConflict[]);
+
+        const result: any = await service.update(1, { name: 'New Name' });
+
+        const expected = [{ field: 'name', localValue: 'New Name', jiraValue: 'Jira Name' }];
+        expect(conflicts.record).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), expected, 'api', expect.any(Date));
+        expect(jira.updateIssue).not.toHaveBeenCalled();
+        expect(result.jiraSyncStatus).toBe('CONFLICT');
+        expect(result.conflicts).toEqual(expected);
+      });
+
+      it('should hold fields with open conflicts and stay CONFLICT while they are open', async () => {
+        repo.findOneBy.mockResolvedValue({ ...product(), jiraSyncStatus: 'CONFLICT' } as Product);
+        jira.getIssue.mockResolvedValue(jiraIssue({ summary: 'Old Name', description: 'Old Desc', updated: '2026-01-01T10:00:00.000+0000' }));
+        conflicts.findOpen.mockResolvedValue([{ field: 'description' }] as ProductConflict[]);
+
+        const result = await service.update(1, { name: 'New Name', description: 'New Desc' });
+
+        expect(conflicts.findOpen).toHaveBeenCalledWith(1);
+        expect(jira.updateIssue).toHaveBeenCalledWith({ issueKey: 'PROJ-1', summary: 'New Name', description: undefined, fields: undefined });
+        expect(result.jiraSyncStatus).toBe('CONFLICT');
+      });
     });
 
     it('should create Jira issue if product has no jiraIssueKey', async () => {
@@ -224,6 +668,19 @@ describe('ProductsService', () => {
       });
     });
 
+    it('should include the rollup of the child issues', async () => {
+      const product = { id: 1, name: 'Product A', jiraIssueKey: 'PROJ-1' } as Product;
+      const rollup = { total: 3, todo: 1, inProgress: 1, done: 1, progress: 0.33, byStatus: { 'To Do': 1, 'In Progress': 1, Done: 1 } };
+      repo.findOne.mockResolvedValue(product);
+      jira.getIssue.mockResolvedValue({ key: 'PROJ-1', status: 'Open' } as any);
+      issues.getRollup.mockResolvedValue(rollup);
+
+      const result = await service.findProduct(1);
+
+      expect(issues.getRollup).toHaveBeenCalledWith(product);
+      expect(result.childIssues).toEqual(rollup);
+    });
+
     it('should return product with ticket info if Jira fetch succeeds', async () => {
       const product = {
         id: 1,
@@ -284,17 +741,89 @@ describe('ProductsService', () => {
 
   ///////////////////////////////////////////////////////////////
 
+  describe('findAll', () => {
+    const query = (overrides: Partial<ListProductsDto> = {}) =>
+      Object.assign(new ListProductsDto(), overrides);
+
+    it('should return a page of products with the total count', async () => {
+      const product = {
+        id: 1,
+        name: 'Product A',
+        description: 'Desc',
+        externalRef: 'EXT-1',
+        jiraIssueKey: 'PROJ-1',
+        jiraIssueId: '1001',
+        jiraSyncStatus: 'OK',
+        ticketStatus: 'Open',
+      } as Product;
+      repo.findAndCount.mockResolvedValue([[product], 41]);
+
+      const result = await service.findAll(query({ offset: 20, limit: 20 }));
+
+      expect(repo.findAndCount).toHaveBeenCalledWith({
+        where: {},
+        withDeleted: false,
+        order: { createdAt: 'DESC', id: 'DESC' },
+        skip: 20,
+        take: 20,
+      });
+      expect(result).toEqual({
+        items: [expect.objectContaining({ id: 1, jiraIssueKey: 'PROJ-1', ticketStatus: 'Open' })],
+        total: 41,
+        offset: 20,
+        limit: 20,
+      });
+    });
+
+    it('should translate filters, sorting and includeDeleted into the query', async () => {
+      repo.findAndCount.mockResolvedValue([[], 0]);
+      const createdFrom = new Date('2026-01-01T00:00:00Z');
+      const createdTo = new Date('2026-02-01T00:00:00Z');
+      const updatedFrom = new Date('2026-01-15T00:00:00Z');
+
+      await service.findAll(query({
+        jiraSyncStatus: 'FAILED',
+        ticketStatus: 'Open',
+        externalRef: 'EXT-1',
+        search: '50%_off',
+        createdFrom,
+        createdTo,
+        updatedFrom,
+        sortBy: 'name',
+        sortOrder: 'ASC',
+        includeDeleted: true,
+      }));
+
+      expect(repo.findAndCount).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          jiraSyncStatus: 'FAILED',
+          ticketStatus: 'Open',
+          externalRef: 'EXT-1',
+          name: Like('%50\\%\\_off%'),
+          createdAt: Between(createdFrom, createdTo),
+          updatedAt: MoreThanOrEqual(updatedFrom),
+        },
+        withDeleted: true,
+        order: { name: 'ASC', id: 'ASC' },
+      }));
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
   describe('handleJiraWebhook', () => {
 
-    it('should return received=true if payload has no issue key', async () => {
-      const payload = { some: 'data' }; // no issue.key
+    it('should not create a product named after the issue key when the event has no summary', async () => {
+      const payload = { issue: { key: 'PROJ-1', fields: { status: { name: 'Open' } } } };
+      repo.findOne.mockResolvedValue(null);
 
       const logSpy = jest.spyOn(service['logger'], 'error').mockImplementation();
 
       const result = await service.handleJiraWebhook(payload);
 
       expect(result).toEqual({ received: true });
-      expect(logSpy).toHaveBeenCalledWith('[WEBHOOK] Received payload without Issue Key');
+      expect(repo.save).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith('[WEBHOOK] Issue: PROJ-1 | No product and no summary to create one from');
 
       logSpy.mockRestore();
     });
@@ -322,7 +851,7 @@ describe('ProductsService', () => {
         jiraSyncStatus: 'OK',
       } as Product;
 
-      repo.findOneBy.mockResolvedValue(null);
+      repo.findOne.mockResolvedValue(null);
       repo.save.mockResolvedValue(savedProduct);
 
       const logSpy = jest
@@ -331,7 +860,16 @@ describe('ProductsService', () => {
 
       const result = await service.handleJiraWebhook(payload);
 
-      expect(repo.findOneBy).toHaveBeenCalledWith({ jiraIssueKey: 'PROJ-1' });
+      // Looked up by issue id, then key, on the default site (soft-deleted products included)
+      expect(repo.findOne).toHaveBeenCalledWith({
+        where: { jiraIssueId: '10001', jiraConnectionId: IsNull() },
+        withDeleted: true,
+      });
+      expect(repo.findOne).toHaveBeenCalledWith({
+        where: { jiraIssueKey: 'PROJ-1', jiraConnectionId: IsNull() },
+        withDeleted: true,
+      });
+      expect(intake.admit).toHaveBeenCalledWith(payload.issue, null);
 
       expect(repo.save).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -396,63 +934,518 @@ describe('ProductsService', () => {
       logSpy.mockRestore();
     });
 
-    it('should log but not save if no changes detected', async () => {
+    it('should audit Jira changes with the Jira account and webhook delivery', async () => {
+      const product = { id: 1, name: 'Old Name', jiraIssueKey: 'PROJ-1' } as Product;
+      repo.findOne.mockResolvedValue(product);
+      outbox.hasPending.mockResolvedValue(false);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_updated',
+        user: { accountId: 'acc-1', displayName: 'Jane Doe' },
+        issue: { key: 'PROJ-1', fields: { summary: 'New Name' } },
+      }, 'delivery-1');
+
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'New Name' }),
+        'UPDATE',
+        { name: 'Old Name', deletedAt: null },
+        {
+          source: 'webhook',
+          actorType: 'jira',
+          actorId: 'acc-1',
+          actorName: 'Jane Doe',
+          jiraEvent: 'jira:issue_updated',
+          jiraRequestId: 'delivery-1',
+        },
+      );
+    });
+
+    it('should store ADF descriptions as Markdown', async () => {
       const product = {
         id: 1,
         name: 'Same Name',
-        description: 'Same Desc',
+        description: 'Old Desc',
         ticketStatus: 'OPEN',
-        jiraSyncStatus: 'OK',
+        jiraIssueKey: 'PROJ-1',
       } as Product;
 
-      const payload = {
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
         issue: {
           key: 'PROJ-1',
           fields: {
             summary: 'Same Name',
             status: { name: 'OPEN' },
-            description: 'Same Desc',
+            description: {
+              type: 'doc',
+              version: 1,
+              content: [
+                { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Specs' }] },
+                { type: 'paragraph', content: [{ type: 'text', text: 'Weight', marks: [{ type: 'strong' }] }] },
+              ],
+            },
           },
         },
-      };
-
-      repo.findOneBy.mockResolvedValue(product);
-
-      const logSpy = jest.spyOn(service['logger'], 'log').mockImplementation();
-
-      const result = await service.handleJiraWebhook(payload);
-
-      expect(result).toEqual({ received: true });
-      expect(repo.save).not.toHaveBeenCalled();
-      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('No changes detected.'));
-      logSpy.mockRestore();
-    });
-
-  });
-
-  ///////////////////////////////////////////////////////////////
-
-  describe('remove', () => {
-    it('should throw NotFoundException if product does not exist', async () => {
-      repo.findOneBy.mockResolvedValue(null);
+      });
 
-      await expect(service.remove(1)).rejects.toThrow(NotFoundException);
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        description: '## Specs\n\n**Weight**',
+      }));
     });
 
-    it('should transition Jira and soft delete successfully', async () => {
+    it('should copy mapped Jira custom fields onto product attributes', async () => {
+      process.env.JIRA_FIELD_MAPPINGS = JSON.stringify([
+        { property: 'attributes.team', field: 'customfield_10020', type: 'select' },
+      ]);
       const product = {
         id: 1,
+        name: 'Same Name',
+        ticketStatus: 'OPEN',
         jiraIssueKey: 'PROJ-1',
-        jiraSyncStatus: 'PENDING',
+        attributes: { sku: 'SKU-1', team: 'Platform' },
+      } as unknown as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        issue: {
+          key: 'PROJ-1',
+          fields: { summary: 'Same Name', status: { name: 'OPEN' }, customfield_10020: { value: 'Hardware' } },
+        },
+      });
+      delete process.env.JIRA_FIELD_MAPPINGS;
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        attributes: { sku: 'SKU-1', team: 'Hardware' },
+      }));
+    });
+
+    it('should only report changes on a dry run', async () => {
+      const product = {
+        id: 1,
+        name: 'Old Name',
+        ticketStatus: 'OPEN',
+        lifecycle: ProductLifecycle.DRAFT,
+        jiraIssueKey: 'PROJ-1',
+      } as Product;
+
+      const changes = await service.applyJiraIssue(
+        product,
+        { summary: 'New Name', status: { name: 'OPEN' } },
+        'reconcile',
+        true,
+      );
+
+      expect(changes).toEqual(['Name: Old Name -> New Name']);
+      expect(product.name).toBe('Old Name');
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+
+    it('should map Jira status changes onto the product lifecycle', async () => {
+      const product = {
+        id: 1,
+        name: 'Same Name',
+        description: 'Same Desc',
+        ticketStatus: 'To Do',
+        lifecycle: ProductLifecycle.DRAFT,
+        jiraIssueKey: 'PROJ-1',
+      } as Product;
+
+      const payload = {
+        issue: {
+          key: 'PROJ-1',
+          fields: {
+            summary: 'Same Name',
+            status: { name: 'In Progress' },
+            description: 'Same Desc',
+          },
+        },
+      };
+
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook(payload);
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        ticketStatus: 'In Progress',
+        lifecycle: ProductLifecycle.ACTIVE,
+      }));
+    });
+
+    it('should keep the lifecycle for Jira statuses that are not mapped', async () => {
+      const product = {
+        id: 1,
+        name: 'Same Name',
+        ticketStatus: 'To Do',
+        lifecycle: ProductLifecycle.DRAFT,
+        jiraIssueKey: 'PROJ-1',
+      } as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        issue: { key: 'PROJ-1', fields: { status: { name: 'Code Review' } } },
+      });
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        ticketStatus: 'Code Review',
+        lifecycle: ProductLifecycle.DRAFT,
+      }));
+    });
+
+    it('should record a conflict when Jira edits a field with a queued local update', async () => {
+      const product = {
+        id: 1,
+        name: 'Local Name',
+        description: 'Desc',
+        ticketStatus: 'OPEN',
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'FAILED',
+      } as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      outbox.hasPending.mockResolvedValue(true);
+      conflicts.getPolicy.mockReturnValue('MANUAL');
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+      jest.spyOn(service['logger'], 'warn').mockImplementation();
+
+      await service.handleJiraWebhook({
+        issue: {
+          key: 'PROJ-1',
+          fields: { summary: 'Jira Name', status: { name: 'OPEN' }, description: 'Desc', updated: '2026-01-01T11:00:00.000+0000' },
+        },
+      });
+
+      expect(outbox.hasPending).toHaveBeenCalledWith(1, 'UPDATE');
+      expect(conflicts.record).toHaveBeenCalledWith(
+        product,
+        [{ field: 'name', localValue: 'Local Name', jiraValue: 'Jira Name' }],
+        'webhook',
+        new Date('2026-01-01T11:00:00.000Z'),
+      );
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Local Name',
+        jiraSyncStatus: 'CONFLICT',
+      }));
+    });
+
+    it('should apply the Jira value over a queued local update under JIRA_WINS', async () => {
+      const product = {
+        id: 1,
+        name: 'Local Name',
+        ticketStatus: 'OPEN',
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'FAILED',
+      } as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      outbox.hasPending.mockResolvedValue(true);
+      conflicts.getPolicy.mockReturnValue('JIRA_WINS');
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+      jest.spyOn(service['logger'], 'warn').mockImplementation();
+
+      await service.handleJiraWebhook({
+        issue: { key: 'PROJ-1', fields: { summary: 'Jira Name', status: { name: 'OPEN' } } },
+      });
+
+      expect(conflicts.record).not.toHaveBeenCalled();
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Jira Name',
+        jiraSyncStatus: 'FAILED',
+      }));
+    });
+
+    it('should log but not save if no changes detected', async () => {
+      const product = {
+        id: 1,
+        name: 'Same Name',
+        description: 'Same Desc',
+        jiraIssueKey: 'PROJ-1',
+        ticketStatus: 'OPEN',
+        lifecycle: ProductLifecycle.DRAFT,
+        jiraSyncStatus: 'OK',
+      } as Product;
+
+      const payload = {
+        issue: {
+          key: 'PROJ-1',
+          fields: {
+            summary: 'Same Name',
+            status: { name: 'OPEN' },
+            description: 'Same Desc',
+          },
+        },
+      };
+
+      repo.findOne.mockResolvedValue(product);
+
+      const logSpy = jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      const result = await service.handleJiraWebhook(payload);
+
+      expect(result).toEqual({ received: true });
+      expect(repo.save).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('No changes detected.'));
+      logSpy.mockRestore();
+    });
+
+    it('should scope the issue lookup to the Jira connection that sent the event', async () => {
+      const payload = {
+        webhookEvent: 'jira:issue_created',
+        issue: { key: 'PROJ-1', id: '10001', fields: { summary: 'Partner issue' } },
+      };
+      repo.findOne.mockResolvedValue(null);
+      repo.save.mockImplementation(async (product: any) => ({ id: 9, ...product }));
+
+      await service.handleJiraWebhook(payload, undefined, 2);
+
+      expect(repo.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { jiraIssueKey: 'PROJ-1', jiraConnectionId: 2 } }),
+      );
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ jiraIssueKey: 'PROJ-1', jiraConnectionId: 2 }));
+    });
+
+    it('should hand comment events to the notes service', async () => {
+      const payload = {
+        webhookEvent: 'comment_created',
+        issue: { key: 'PROJ-1', fields: { summary: 'Jira Title' } },
+        comment: { id: '100', body: 'Hello' },
+      };
+
+      const result = await service.handleJiraWebhook(payload);
+
+      expect(result).toEqual({ received: true });
+      expect(notes.handleCommentEvent).toHaveBeenCalledWith(payload, null);
+      expect(repo.findOneBy).not.toHaveBeenCalled();
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+
+    it('should hand attachment events to the attachments service', async () => {
+      const payload = { webhookEvent: 'attachment_deleted', attachment: { id: '200' } };
+
+      const result = await service.handleJiraWebhook(payload);
+
+      expect(result).toEqual({ received: true });
+      expect(attachments.handleAttachmentEvent).toHaveBeenCalledWith(payload, null);
+      expect(repo.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should sync attachment changes from the issue changelog', async () => {
+      const product = { id: 1, name: 'Same Name', jiraIssueKey: 'PROJ-1', ticketStatus: 'OPEN' } as Product;
+      const changelog = { items: [{ field: 'Attachment', fieldId: 'attachment', from: null, to: '200', toString: 'spec.pdf' }] };
+      repo.findOne.mockResolvedValue(product);
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_updated',
+        issue: { key: 'PROJ-1', fields: { summary: 'Same Name', status: { name: 'OPEN' } } },
+        changelog,
+      });
+
+      expect(attachments.syncFromChangelog).toHaveBeenCalledWith(product, changelog);
+    });
+
+    it('should soft delete the product of an issue deleted in Jira instead of recreating it', async () => {
+      const product = { id: 1, name: 'Same Name', jiraIssueKey: 'PROJ-1', jiraIssueId: '10001', jiraSyncStatus: 'OK' } as Product;
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_deleted',
+        issue: { id: '10001', key: 'PROJ-1', fields: { summary: 'Same Name' } },
+      });
+
+      expect(repo.save).toHaveBeenCalledTimes(1);
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'ISSUE_DELETED',
+        deletedAt: expect.any(Date),
+      }));
+      expect(outbox.cancel).toHaveBeenCalledWith(expect.anything(), 1, 'Jira issue PROJ-1 was deleted');
+      expect(audit.record).toHaveBeenCalledWith(product, 'DELETE', expect.anything(), expect.objectContaining({
+        source: 'webhook',
+        jiraEvent: 'jira:issue_deleted',
+      }));
+    });
+
+    it('should only flag the product under JIRA_ISSUE_DELETED_ACTION=flag', async () => {
+      process.env.JIRA_ISSUE_DELETED_ACTION = 'flag';
+      const product = { id: 1, name: 'Same Name', jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'OK' } as Product;
+      repo.findOne.mockResolvedValue(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({ webhookEvent: 'jira:issue_deleted', issue: { key: 'PROJ-1', fields: {} } });
+      delete process.env.JIRA_ISSUE_DELETED_ACTION;
+
+      expect(product.jiraSyncStatus).toBe('ISSUE_DELETED');
+      expect(product.deletedAt).toBeUndefined();
+      expect(audit.record).toHaveBeenCalledWith(product, 'UPDATE', expect.anything(), expect.anything());
+    });
+
+    it('should not create a product for a deleted issue nobody linked', async () => {
+      repo.findOne.mockResolvedValue(null);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_deleted',
+        issue: { id: '10001', key: 'PROJ-1', fields: { summary: 'Gone' } },
+      });
+
+      expect(repo.save).not.toHaveBeenCalled();
+      expect(intake.discard).toHaveBeenCalledWith('PROJ-1', null);
+    });
+
+    it('should update a linked child issue instead of creating a product for it', async () => {
+      repo.findOne.mockResolvedValue(null);
+      issues.syncFromWebhook.mockResolvedValueOnce(1);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+      const payload = {
+        webhookEvent: 'jira:issue_updated',
+        issue: { id: '10002', key: 'PROJ-2', fields: { summary: 'Child story', status: { name: 'Done' } } },
+      };
+
+      await service.handleJiraWebhook(payload, undefined, 3);
+
+      expect(issues.syncFromWebhook).toHaveBeenCalledWith(payload, 3);
+      expect(intake.admit).not.toHaveBeenCalled();
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+
+    it('should not create a product for an issue the intake policy holds back', async () => {
+      repo.findOne.mockResolvedValue(null);
+      intake.admit.mockResolvedValueOnce(false);
+
+      const result = await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_created',
+        issue: { id: '10001', key: 'PROJ-1', fields: { summary: 'Some task', status: { name: 'Open' } } },
+      }, undefined, 3);
+
+      expect(result).toEqual({ received: true });
+      expect(intake.admit).toHaveBeenCalledWith(expect.objectContaining({ key: 'PROJ-1' }), 3);
+      expect(repo.save).not.toHaveBeenCalled();
+      expect(audit.record).not.toHaveBeenCalled();
+    });
+
+    it('should re-link the product by issue id when the issue moved to another project', async () => {
+      const product = { id: 1, name: 'Same Name', jiraIssueKey: 'OLD-7', jiraIssueId: '10001', ticketStatus: 'OPEN' } as Product;
+      repo.findOne.mockResolvedValueOnce(product);
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_updated',
+        issue: { id: '10001', key: 'NEW-1', fields: { summary: 'Same Name', status: { name: 'OPEN' } } },
+      });
+
+      expect(repo.findOne).toHaveBeenCalledTimes(1);
+      expect(repo.findOne).toHaveBeenCalledWith(expect.objectContaining({ where: { jiraIssueId: '10001', jiraConnectionId: expect.anything() } }));
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 1, jiraIssueKey: 'NEW-1' }));
+    });
+
+    it('should find a product without issue id through the key before the move', async () => {
+      const product = { id: 1, name: 'Same Name', jiraIssueKey: 'OLD-7', jiraIssueId: null, ticketStatus: 'OPEN' } as Product;
+      repo.findOne.mockImplementation(async ({ where }: any) => (where.jiraIssueKey === 'OLD-7' ? product : null));
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+
+      await service.handleJiraWebhook({
+        webhookEvent: 'jira:issue_updated',
+        issue: { id: '10001', key: 'NEW-1', fields: { summary: 'Same Name', status: { name: 'OPEN' } } },
+        changelog: { items: [{ field: 'Key', fieldId: 'issuekey', from: null, fromString: 'OLD-7', to: null, toString: 'NEW-1' }] },
+      });
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 1, jiraIssueKey: 'NEW-1', jiraIssueId: '10001' }));
+    });
+
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('approveIntake', () => {
+    const user: AuthUser = { id: 'u-1', name: 'Ada', roles: ['editor'], jiraAccountId: null, via: 'jwt' };
+    const entry = () => ({
+      id: 5,
+      jiraConnectionId: 2,
+      jiraIssueKey: 'PROJ-9',
+      status: 'PENDING',
+      issue: { id: '10009', key: 'PROJ-9', fields: { summary: 'New widget', status: { name: 'In Progress' } } },
+    }) as ProductIntake;
+
+    it('should create the product from the queued issue', async () => {
+      const pending = entry();
+      intake.getPending.mockResolvedValue(pending);
+      repo.findOne.mockResolvedValue(null);
+      repo.save.mockImplementation(async (p: any) => ({ id: 42, ...p }));
+      outbox.hasPending.mockResolvedValue(false);
+
+      const product = await service.approveIntake(5, user);
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'New widget',
+        jiraIssueKey: 'PROJ-9',
+        jiraIssueId: '10009',
+        jiraConnectionId: 2,
+        createdBy: 'u-1',
+      }));
+      expect(product.lifecycle).toBe(ProductLifecycle.ACTIVE);
+      expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ id: 42 }), 'CREATE', {}, expect.objectContaining({ source: 'api', actorId: 'u-1' }));
+      expect(intake.markApproved).toHaveBeenCalledWith(pending, 42, user);
+    });
+
+    it('should approve onto a product linked to the issue in the meantime', async () => {
+      const pending = entry();
+      intake.getPending.mockResolvedValue(pending);
+      repo.findOne.mockResolvedValue({ id: 7, jiraIssueKey: 'PROJ-9' } as Product);
+
+      const product = await service.approveIntake(5, user);
+
+      expect(product.id).toBe(7);
+      expect(repo.save).not.toHaveBeenCalled();
+      expect(intake.markApproved).toHaveBeenCalledWith(pending, 7, user);
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('remove', () => {
+    it('should throw NotFoundException if product does not exist', async () => {
+      repo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.remove(1)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not try to transition an issue deleted in Jira', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'ISSUE_DELETED' } as Product);
+
+      const result = await service.remove(1);
+
+      expect(jira.updateStatus).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ deleted: true, jiraTransitioned: false, jiraSyncStatus: 'ISSUE_DELETED' }));
+    });
+
+    it('should transition Jira and soft delete successfully', async () => {
+      const product = {
+        id: 1,
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'PENDING',
       } as Product;
 
       repo.findOneBy.mockResolvedValue(product);
-      jira.updateStatus.mockResolvedValue(undefined);
+      jira.updateStatus.mockResolvedValue({ issueKey: 'PROJ-1', status: 'Dropped', path: ['Dropped'] });
 
       const result = await service.remove(1);
 
       expect(jira.updateStatus).toHaveBeenCalledWith('PROJ-1');
       expect(repo.save).toHaveBeenCalled();
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ deletedAt: expect.any(Date) }),
+        'DELETE',
+        { name: undefined, deletedAt: null },
+        { source: 'api', actorType: 'user', actorId: null, actorName: null },
+      );
 
       expect(result).toEqual(
         expect.objectContaining({
@@ -488,6 +1481,12 @@ describe('ProductsService', () => {
 
       expect(repo.save).toHaveBeenCalled(); // ✅
       expect(result.jiraSyncStatus).toBe('FAILED');
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        productId: 1,
+        operation: 'TRANSITION',
+        payload: { target: 'DROPPED' },
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50 }), new Error('Jira down'));
 
       errorSpy.mockRestore();
     });
@@ -521,6 +1520,287 @@ describe('ProductsService', () => {
 
 
 
+  ///////////////////////////////////////////////////////////////
+
+  describe('restore', () => {
+    it('should throw NotFoundException if product does not exist', async () => {
+      repo.findOne.mockResolvedValue(null);
+
+      await expect(service.restore(1)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw ConflictException if product is not deleted', async () => {
+      repo.findOne.mockResolvedValue({ id: 1, deletedAt: null } as Product);
+
+      await expect(service.restore(1)).rejects.toThrow(ConflictException);
+    });
+
+    it('should reopen Jira issue and clear deletedAt', async () => {
+      const product = {
+        id: 1,
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'OK',
+        deletedAt: new Date(),
+      } as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      jira.reopenIssue.mockResolvedValue({ issueKey: 'PROJ-1', status: 'Reopened', path: ['Reopened'] });
+
+      const result = await service.restore(1);
+
+      expect(repo.findOne).toHaveBeenCalledWith({ where: { id: 1 }, withDeleted: true });
+      expect(jira.reopenIssue).toHaveBeenCalledWith('PROJ-1');
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ deletedAt: null }));
+      expect(result).toEqual({
+        id: 1,
+        restored: true,
+        jiraTransitioned: true,
+        jiraSyncStatus: 'OK',
+      });
+    });
+
+    it('should restore and queue the reopen if Jira transition fails', async () => {
+      const product = {
+        id: 1,
+        jiraIssueKey: 'PROJ-1',
+        jiraSyncStatus: 'OK',
+        deletedAt: new Date(),
+      } as Product;
+
+      repo.findOne.mockResolvedValue(product);
+      jira.reopenIssue.mockRejectedValue(new Error('Jira down'));
+
+      const result = await service.restore(1);
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        deletedAt: null,
+        jiraSyncStatus: 'FAILED',
+      }));
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        operation: 'TRANSITION',
+        payload: { target: 'REOPENED' },
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50 }), new Error('Jira down'));
+      expect(result).toEqual(expect.objectContaining({
+        restored: true,
+        jiraTransitioned: false,
+        jiraSyncStatus: 'FAILED',
+      }));
+    });
+
+    it('should restore product without Jira issue key', async () => {
+      repo.findOne.mockResolvedValue({ id: 1, jiraIssueKey: null, deletedAt: new Date() } as unknown as Product);
+
+      const result = await service.restore(1);
+
+      expect(jira.reopenIssue).not.toHaveBeenCalled();
+      expect(result.jiraTransitioned).toBe(false);
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('changeStatus', () => {
+    it('should throw ConflictException if product has no Jira issue', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: null } as unknown as Product);
+
+      await expect(service.changeStatus(1, { status: 'Done' }))
+        .rejects
+        .toThrow(ConflictException);
+    });
+
+    it('should transition Jira issue and store the new ticket status', async () => {
+      const product = { id: 1, jiraIssueKey: 'PROJ-1', ticketStatus: 'To Do' } as Product;
+      repo.findOneBy.mockResolvedValue(product);
+      jira.transitionTo.mockResolvedValue({ issueKey: 'PROJ-1', status: 'Done', path: ['In Progress', 'Done'] });
+
+      const result = await service.changeStatus(1, { status: 'Done', resolution: 'Fixed' });
+
+      expect(jira.transitionTo).toHaveBeenCalledWith('PROJ-1', 'Done', {
+        comment: undefined,
+        resolution: 'Fixed',
+        fields: undefined,
+      });
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        ticketStatus: 'Done',
+        jiraSyncStatus: 'OK',
+      }));
+      expect(result).toEqual(expect.objectContaining({
+        ticketStatus: 'Done',
+        path: ['In Progress', 'Done'],
+        jiraTransitioned: true,
+      }));
+    });
+
+    it('should queue the transition and report failure if Jira rejects it', async () => {
+      const product = { id: 1, jiraIssueKey: 'PROJ-1', ticketStatus: 'To Do' } as Product;
+      repo.findOneBy.mockResolvedValue(product);
+      jira.transitionTo.mockRejectedValue(new Error('Jira down'));
+
+      const result = await service.changeStatus(1, { status: 'Done' });
+
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        operation: 'TRANSITION',
+        payload: expect.objectContaining({ status: 'Done' }),
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50 }), new Error('Jira down'));
+      expect(result).toEqual(expect.objectContaining({
+        ticketStatus: 'To Do',
+        jiraTransitioned: false,
+        jiraSyncStatus: 'FAILED',
+        jiraError: 'Jira down',
+      }));
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('jira-link', () => {
+    it('should link the product to an existing issue', async () => {
+      const product = { id: 1, name: 'Product A', jiraIssueKey: null, jiraSyncStatus: 'PENDING' } as unknown as Product;
+      repo.findOneBy.mockResolvedValue(product);
+      repo.findOne.mockResolvedValue(null);
+      jira.getIssue.mockResolvedValue({ id: '1001', key: 'PROJ-1', status: 'Blocked' } as any);
+
+      const result = await service.linkJiraIssue(1, { issueKey: 'PROJ-1' });
+
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({
+        id: 1,
+        name: 'Product A',
+        jiraIssueKey: 'PROJ-1',
+        jiraIssueId: '1001',
+        lifecycle: ProductLifecycle.BLOCKED,
+        jiraSyncStatus: 'OK',
+      }));
+      expect(audit.record).toHaveBeenCalledWith(product, 'UPDATE', expect.anything(), expect.objectContaining({ source: 'api' }));
+      expect(result).toEqual(expect.objectContaining({ jiraIssueKey: 'PROJ-1', ticketStatus: 'Blocked' }));
+    });
+
+    it('should refuse a product that already has an issue', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-2', jiraSyncStatus: 'OK' } as Product);
+
+      await expect(service.linkJiraIssue(1, { issueKey: 'PROJ-1' })).rejects.toThrow(ConflictException);
+      expect(jira.getIssue).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an issue linked to another product, also under its old key', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: null } as unknown as Product);
+      jira.getIssue.mockResolvedValue({ id: '1001', key: 'NEW-1', status: 'Open' } as any);
+      repo.findOne.mockResolvedValue({ id: 7, jiraIssueKey: 'NEW-1' } as Product);
+
+      await expect(service.linkJiraIssue(1, { issueKey: 'OLD-1' })).rejects.toThrow('Jira issue NEW-1 is already linked to product 7');
+      expect(repo.findOne).toHaveBeenCalledWith(expect.objectContaining({
+        where: [
+          expect.objectContaining({ jiraIssueKey: In(['OLD-1', 'NEW-1']) }),
+          expect.objectContaining({ jiraIssueId: '1001' }),
+        ],
+      }));
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+
+    it('should report issues Jira does not know as not found', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: null } as unknown as Product);
+      jira.getIssue.mockRejectedValue({ response: { status: 404 } });
+
+      await expect(service.linkJiraIssue(1, { issueKey: 'PROJ-404' })).rejects.toThrow(NotFoundException);
+    });
+
+    it('should unlink the product and stop syncing it', async () => {
+      const product = { id: 1, jiraIssueKey: 'PROJ-1', jiraIssueId: '1001', ticketStatus: 'Open', jiraSyncStatus: 'OK' } as Product;
+      repo.findOneBy.mockResolvedValue(product);
+      outbox.hasPending.mockResolvedValue(false);
+
+      const result = await service.unlinkJiraIssue(1);
+
+      expect(outbox.hasPending).toHaveBeenCalledWith(1);
+      expect(repo.save).toHaveBeenCalledWith(expect.objectContaining({ jiraIssueKey: null, jiraIssueId: null, jiraSyncStatus: 'UNLINKED' }));
+      expect(result).toEqual(expect.objectContaining({ jiraIssueKey: null, unlinkedFrom: 'PROJ-1' }));
+
+      // Later edits stay local instead of creating a new issue
+      repo.findOneBy.mockResolvedValue(product);
+      await service.update(1, { name: 'Renamed' });
+      expect(jira.createIssue).not.toHaveBeenCalled();
+      expect(jira.updateIssue).not.toHaveBeenCalled();
+    });
+
+    it('should not unlink while Jira calls for the issue are queued', async () => {
+      repo.findOneBy.mockResolvedValue({ id: 1, jiraIssueKey: 'PROJ-1', jiraSyncStatus: 'FAILED' } as Product);
+      outbox.hasPending.mockResolvedValue(true);
+
+      await expect(service.unlinkJiraIssue(1)).rejects.toThrow(ConflictException);
+      expect(repo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('bulkCreate', () => {
+    beforeEach(() => {
+      jest.spyOn(service['logger'], 'log').mockImplementation();
+      repo.create.mockImplementation((p) => p as Product);
+      repo.save.mockImplementation(async (p: any) =>
+        Array.isArray(p) ? p.map((item, i) => ({ ...item, id: 100 + i })) : p
+      );
+      repo.find.mockResolvedValue([]);
+    });
+
+    it('should validate, dedupe and report every row', async () => {
+      repo.find.mockResolvedValue([{ id: 7, externalRef: 'EXT-OLD' } as Product]);
+      jira.createIssues.mockResolvedValue([{ jiraKey: 'PROJ-1', jiraId: '1001' }]);
+
+      const report = await service.bulkCreate([
+        { name: 'Lamp', externalRef: 'EXT-1' },
+        { description: 'No name' },
+        { name: 'Lamp again', externalRef: 'EXT-1' },
+        { name: 'Old', externalRef: 'EXT-OLD' },
+      ]);
+
+      expect(repo.find).toHaveBeenCalledWith({ where: { externalRef: In(['EXT-1', 'EXT-OLD']) }, withDeleted: true });
+      expect(jira.createIssues).toHaveBeenCalledWith([{ summary: 'Lamp', description: undefined, productId: 100 }]);
+      expect(report).toEqual(expect.objectContaining({ total: 4, created: 1, invalid: 1, duplicates: 2 }));
+      expect(report.results).toEqual([
+        expect.objectContaining({ row: 1, status: 'CREATED', productId: 100, jiraIssueKey: 'PROJ-1' }),
+        expect.objectContaining({ row: 2, status: 'INVALID', errors: expect.arrayContaining(['name should not be empty']) }),
+        expect.objectContaining({ row: 3, status: 'DUPLICATE', duplicateOf: 1 }),
+        expect.objectContaining({ row: 4, status: 'EXISTS', productId: 7 }),
+      ]);
+    });
+
+    it('should accept CSV and create issues in chunks of 50', async () => {
+      const csv = ['name,externalRef', ...Array.from({ length: 120 }, (_, i) => `Product ${i},EXT-${i}`)].join('\n');
+      jira.createIssues.mockImplementation(async (dtos) =>
+        dtos.map((dto) => ({ jiraKey: `PROJ-${dto.productId}`, jiraId: String(dto.productId) }))
+      );
+
+      const report = await service.bulkCreate(csv);
+
+      expect(jira.createIssues.mock.calls.map(([dtos]) => dtos.length)).toEqual([50, 50, 20]);
+      expect(report.created).toBe(120);
+    });
+
+    it('should queue rows whose Jira creation failed', async () => {
+      jira.createIssues.mockResolvedValue([{ error: 'Summary is too long' }]);
+
+      const report = await service.bulkCreate({ products: [{ name: 'Lamp' }] });
+
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        productId: 100,
+        operation: 'CREATE',
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ productId: 100 }),
+        new Error('Summary is too long'),
+      );
+      expect(report.results[0]).toEqual(expect.objectContaining({ status: 'JIRA_FAILED', jiraSyncStatus: 'FAILED' }));
+    });
+
+    it('should reject bodies that are not a list of products', async () => {
+      await expect(service.bulkCreate({ name: 'Lamp' })).rejects.toThrow(BadRequestException);
+      await expect(service.bulkCreate([])).rejects.toThrow('No products to import');
+    });
+  });
+
   ///////////////////////////////////////////////////////////////
 
   describe('createJiraIssueForProduct', () => {
@@ -553,6 +1833,7 @@ describe('ProductsService', () => {
         jiraSyncStatus: 'OK',
         jiraLastSyncAt: expect.any(Date),
       }));
+      expect(outbox.complete).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50, operation: 'CREATE' }));
     });
 
     it('should set jiraSyncStatus FAILED if Jira creation fails', async () => {
@@ -575,6 +1856,11 @@ describe('ProductsService', () => {
         jiraSyncStatus: 'FAILED',
       }));
       expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Failed to create Jira issue for product 1'));
+      expect(outbox.begin).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        productId: 1,
+        operation: 'CREATE',
+      }));
+      expect(outbox.fail).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: 50 }), new Error('Jira down'));
 
       logSpy.mockRestore();
     });
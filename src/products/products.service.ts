@@ -1,10 +1,54 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Between, FindOperator, FindOptionsWhere, In, IsNull, LessThanOrEqual, Like, MoreThanOrEqual, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { Product } from './entities/product.entity';
-import { JiraService } from '../jira/jira.service';
+import { JiraOutboxEntry, JiraOutboxOperation } from './entities/jira-outbox-entry.entity';
+import { JiraBulkCreateResult, JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraOutboxService } from './jira-outbox.service';
+import { adfToMarkdown } from '../jira/adf-markdown';
+import { JiraIssueFields, JiraRichText } from '../jira/jira-api.types';
+import { JiraIssueEvent, JiraWebhookEvent, isAttachmentEvent, isCommentEvent } from '../jira/jira-webhook-payload';
+import { ConflictPolicy, DetectedConflict, ProductConflictsService } from './product-conflicts.service';
+import { ConflictSource } from './entities/product-conflict.entity';
+import { ProductNotesService } from './product-notes.service';
+import { ProductAttachmentsService } from './product-attachments.service';
+import { RoutingRulesService } from '../routing/routing-rules.service';
+import { AuditContext, ProductAuditService, apiAuditContext } from './product-audit.service';
+import { AuthUser } from '../auth/auth-user';
+import { ProductIntakeService } from './product-intake.service';
+import { ProductIssueRollup, ProductIssuesService } from './product-issues.service';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { CreateProductDto } from './dto/create-product.dto';
+import { ListProductsDto } from './dto/list-products.dto';
+import { ChangeStatusDto } from './dto/change-status.dto';
+import { LinkJiraIssueDto } from './dto/link-jira-issue.dto';
+import { ProductLifecycle, jiraStatusForLifecycle, lifecycleFromJiraStatus } from './product-lifecycle';
+import { parseCsv } from './product-csv';
+import { jiraFieldsToProduct, productToJiraFields, readProductProperty, writeProductProperty } from './product-field-mapping';
+
+export interface BulkImportRowResult {
+  // 1-based position in the submitted file (header excluded)
+  row: number;
+  status: 'CREATED' | 'JIRA_FAILED' | 'INVALID' | 'DUPLICATE' | 'EXISTS';
+  externalRef?: string;
+  productId?: number;
+  jiraIssueKey?: string;
+  jiraSyncStatus?: string;
+  duplicateOf?: number;
+  errors?: string[];
+}
+
+export interface BulkImportReport {
+  total: number;
+  created: number;
+  jiraFailed: number;
+  invalid: number;
+  duplicates: number;
+  results: BulkImportRowResult[];
+}
 
 @Injectable()
 export class ProductsService {
@@ -12,19 +56,58 @@ export class ProductsService {
 
   constructor(
     @InjectRepository(Product) private repo: Repository<Product>,
-    private jira: JiraService
+    private jiraClients: JiraClientFactory,
+    private outbox: JiraOutboxService,
+    private conflicts: ProductConflictsService,
+    private notes: ProductNotesService,
+    private attachments: ProductAttachmentsService,
+    private routing: RoutingRulesService,
+    private audit: ProductAuditService,
+    private intake: ProductIntakeService,
+    private issues: ProductIssuesService
   ) { }
 
   // 1. Create Product -> Create Jira Ticket
-  async createProduct(dto: CreateProductDto) {
-    const { name, description, externalRef } = dto
-    const product = await this.repo.save({ name, description, externalRef, jiraSyncStatus: 'PENDING' });
+  async createProduct(dto: CreateProductDto, actor?: AuthUser) {
+    const { name, description, externalRef, category, attributes, lifecycle, jiraConnectionId, jiraIssueKey } = dto
+    // Unknown connections are rejected before anything is saved
+    if (jiraConnectionId) await this.jiraClients.getConnection(jiraConnectionId);
+    // So are issues that don't exist or already belong to another product
+    const issue = jiraIssueKey ? await this.findIssueToLink(jiraIssueKey, jiraConnectionId ?? null) : null;
+
+    // A new issue is queued together with the product, so it reaches Jira even if the call below never completes
+    const { product, entry } = await this.repo.manager.transaction(async (manager) => {
+      const product = await manager.getRepository(Product).save({
+        name, description, externalRef, category, attributes, lifecycle, jiraConnectionId, jiraSyncStatus: 'PENDING',
+        ...(issue && { ...this.linkedIssueFields(issue), ...(lifecycle && { lifecycle }) }),
+        ...(actor && { createdBy: actor.id, updatedBy: actor.id }),
+      });
+      const entry = issue ? null : await this.outbox.begin(manager, {
+        productId: product.id,
+        operation: 'CREATE',
+        payload: this.reporterPayload(actor?.jiraAccountId),
+      });
+      return { product, entry };
+    });
+    await this.audit.record(product, 'CREATE', {}, apiAuditContext(actor));
 
 
 
     const start = Date.now();
 
-    await this.createJiraIssueForProduct(product);
+    if (issue) {
+      // Linked issues keep their status unless another lifecycle was asked for
+      if (lifecycle && lifecycle !== lifecycleFromJiraStatus(issue.status)) {
+        await this.syncLifecycleToJira(product);
+      }
+    } else {
+      await this.createJiraIssueForProduct(product, actor?.jiraAccountId, entry);
+
+      // New issues start in the workflow's initial status (DRAFT); move them if asked for another lifecycle
+      if (product.jiraIssueKey && product.lifecycle && product.lifecycle !== ProductLifecycle.DRAFT) {
+        await this.syncLifecycleToJira(product);
+      }
+    }
 
     this.logger.log(
       `[PERF] product=${product.id} jira_orchestration=${(Date.now() - start) / 1000}ms`,
@@ -33,37 +116,84 @@ export class ProductsService {
   }
 
   // 2. Update Product -> Update Jira Ticket
-  async update(id: number, dto: UpdateProductDto) {
+  async update(id: number, dto: UpdateProductDto, actor?: AuthUser) {
     const product = await this.repo.findOneBy({ id });
     if (!product) throw new NotFoundException(`Product ${id} not found`);
 
     // Update product fields using Object.assign
-    Object.assign(product, dto);
+    const previousLifecycle = product.lifecycle;
+    const snapshot = this.audit.snapshot(product);
+    const before = { name: product.name, description: product.description };
+    const routeBefore = { category: product.category, externalRef: product.externalRef };
+    Object.assign(product, {
+      ...dto,
+      ...(dto.attributes && { attributes: { ...product.attributes, ...dto.attributes } }),
+      ...(actor && { updatedBy: actor.id }),
+    });
     await this.repo.save(product);
 
     // Sync to Jira
-    if (product.jiraIssueKey) {
-      try {
-        await this.jira.updateIssue({
-          issueKey: product.jiraIssueKey,
-          summary: product.name,
-          description: product.description
-        });
-        Object.assign(product, {
-          jiraSyncStatus: 'OK',
-          jiraLastSyncAt: new Date()
-        });
-        await this.repo.save(product);
-      } catch (e) {
-        this.logger.error(`Failed to update Jira issue ${product.jiraIssueKey}: ${e.message}`);
-        Object.assign(product, { jiraSyncStatus: 'FAILED' });
+    let conflicts: DetectedConflict[] = [];
+    if (product.jiraSyncStatus === 'ISSUE_DELETED' || product.jiraSyncStatus === 'UNLINKED') {
+      // Issue deleted in Jira or unlinked: local edits only, no new issue behind the user's back
+    } else if (product.jiraIssueKey) {
+      // Don't blindly overwrite fields that were edited in Jira since our last sync
+      const detected = await this.detectJiraEdits(product, before, dto);
+      conflicts = detected.conflicts;
+      const policy = await this.handleConflicts(product, conflicts, 'api', detected.jiraUpdatedAt);
+      if (policy === 'JIRA_WINS') {
+        conflicts.forEach((c) => (product[c.field] = c.jiraValue as string));
+      }
+
+      // Only the fields of this request go to Jira; fields with open conflicts wait for their resolution
+      const open = await this.conflicts.findOpen(product.id);
+      const held = new Set([
+        ...open.map((c) => c.field),
+        ...(policy === 'JIRA_WINS' ? conflicts.map((c) => c.field) : []),
+      ]);
+      const changes = {
+        summary: dto.name !== undefined && !held.has('name') ? product.name : undefined,
+        description: dto.description !== undefined && !held.has('description') ? product.description : undefined,
+        fields: productToJiraFields(dto),
+      };
+
+      if (changes.summary !== undefined || changes.description !== undefined || changes.fields) {
+        const entry = await this.beginJiraSync(product, 'UPDATE');
+        try {
+          const jira = await this.jiraClients.forProduct(product);
+          await jira.updateIssue({ issueKey: product.jiraIssueKey, ...changes });
+          Object.assign(product, {
+            jiraSyncStatus: open.length > 0 ? 'CONFLICT' : 'OK',
+            jiraLastSyncAt: new Date()
+          });
+          await this.markSynced(product, entry);
+        } catch (e) {
+          this.logger.error(`Failed to update Jira issue ${product.jiraIssueKey}: ${e.message}`);
+          await this.markSyncFailed(product, entry, e);
+        }
+      } else if (open.length > 0) {
+        product.jiraSyncStatus = 'CONFLICT';
         await this.repo.save(product);
       }
+
+      // Routing attributes changed -> the issue may belong to another project or issue type
+      if (product.category !== routeBefore.category || product.externalRef !== routeBefore.externalRef) {
+        await this.syncRouteToJira(product);
+      }
+
+      // Lifecycle changes drive the Jira workflow
+      if (dto.lifecycle && dto.lifecycle !== previousLifecycle) {
+        await this.syncLifecycleToJira(product);
+      }
     } else {
       // Create Jira issue if missing
-      await this.createJiraIssueForProduct(product);
+      await this.createJiraIssueForProduct(product, actor?.jiraAccountId);
     }
-    return this.filterProductResponse(product);
+
+    await this.audit.record(product, 'UPDATE', snapshot, apiAuditContext(actor));
+
+    const response = this.filterProductResponse(product);
+    return conflicts.length > 0 ? { ...response, conflicts } : response;
   }
 
   // 3. Get Product + Current State
@@ -74,71 +204,271 @@ export class ProductsService {
     });
     if (!product) throw new NotFoundException(`Product ${id} not found`);
 
+    // Progress of the issues under the product's epic
+    const childIssues = await this.issues.getRollup(product);
+
     if (!product.jiraIssueKey) {
-      return this.filterProductWithTicket(product, null, 'NO_KEY');
+      return this.filterProductWithTicket(product, null, childIssues, 'NO_KEY');
+    }
+    if (product.jiraSyncStatus === 'ISSUE_DELETED') {
+      return this.filterProductWithTicket(product, null, childIssues, 'ISSUE_DELETED');
     }
 
     try {
-      const jiraData = await this.jira.getIssue(product.jiraIssueKey);
-      return this.filterProductWithTicket(product, jiraData);
+      const jira = await this.jiraClients.forProduct(product);
+      const jiraData = await jira.getIssue(product.jiraIssueKey);
+      return this.filterProductWithTicket(product, jiraData, childIssues);
     } catch (e) {
       this.logger.error(`Failed to fetch Jira issue ${product.jiraIssueKey}: ${e.message}`);
-      return this.filterProductWithTicket(product, null, 'FAILED', e.message);
+      return this.filterProductWithTicket(product, null, childIssues, 'FAILED', e.message);
     }
   }
 
-  async handleJiraWebhook(payload: any) {
+  // 4. List Products (paginated + filtered)
+  async findAll(query: ListProductsDto) {
+    const where: FindOptionsWhere<Product> = {};
+
+    if (query.jiraSyncStatus) where.jiraSyncStatus = query.jiraSyncStatus;
+    if (query.ticketStatus) where.ticketStatus = query.ticketStatus;
+    if (query.lifecycle) where.lifecycle = query.lifecycle;
+    if (query.externalRef) where.externalRef = query.externalRef;
+    if (query.category) where.category = query.category;
+    if (query.search) where.name = Like(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+
+    const createdAt = this.dateRange(query.createdFrom, query.createdTo);
+    if (createdAt) where.createdAt = createdAt;
+    const updatedAt = this.dateRange(query.updatedFrom, query.updatedTo);
+    if (updatedAt) where.updatedAt = updatedAt;
+
+    const [products, total] = await this.repo.findAndCount({
+      where,
+      withDeleted: query.includeDeleted,
+      // id as tie-breaker keeps pages stable when sort values are equal
+      order: { [query.sortBy]: query.sortOrder, id: query.sortOrder },
+      skip: query.offset,
+      take: query.limit,
+    });
+
+    return {
+      items: products.map((product) => this.filterProductListItem(product)),
+      total,
+      offset: query.offset,
+      limit: query.limit,
+    };
+  }
+
+  // connectionId identifies the Jira site that sent the event; omitted = the default (env) site
+  // `payload` has been checked by parseJiraWebhook; invalid deliveries never reach this point
+  async handleJiraWebhook(payload: JiraWebhookEvent, webhookId?: string, connectionId?: number) {
+    // Comment events mirror into product notes
+    if (isCommentEvent(payload)) {
+      await this.notes.handleCommentEvent(payload, connectionId ?? null);
+      return { received: true };
+    }
+
+    // Attachment events only identify the attachment; additions arrive via the issue changelog
+    if (isAttachmentEvent(payload)) {
+      await this.attachments.handleAttachmentEvent(payload, connectionId ?? null);
+      return { received: true };
+    }
+
     // 1. Traceability: Basic ID and Event discovery
-    const issue = payload.issue || payload; // Support both nested and flat payloads
-    const issueKey = issue?.key;
-    const fields = issue?.fields || {};
+    const { issue } = payload;
+    const issueKey = issue.key;
+    const fields = issue.fields;
     const webhookEvent = payload.webhookEvent; // e.g., "jira:issue_created" or "jira:issue_updated"
 
-    if (!issueKey) {
-      this.logger.error(`[WEBHOOK] Received payload without Issue Key`);
+    // Jira account and delivery behind this event, for the audit log
+    const audit: Omit<AuditContext, 'source'> = {
+      actorType: 'jira',
+      actorId: payload.user?.accountId ?? null,
+      actorName: payload.user?.displayName ?? null,
+      jiraEvent: webhookEvent ?? null,
+      jiraRequestId: webhookId ?? payload.changelog?.id?.toString() ?? null,
+    };
+
+    // 2. Find Product (by issue id first: the key changes when the issue moves to another project)
+    let product = await this.findWebhookProduct(payload, connectionId);
+
+    // Epics, children and related issues of products are tracked on those products, never turned into products
+    const linkedIssues = await this.issues.syncFromWebhook(payload, connectionId ?? null);
+    if (!product && linkedIssues > 0) {
+      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Linked issue of ${linkedIssues} product(s) updated`);
       return { received: true };
     }
 
-    // 2. Find Product
-    let product: any = await this.repo.findOne({
-      where: { jiraIssueKey: issueKey },
-      withDeleted: true, // include soft-deleted rows
-    });
-    // 2a. If product doesn't exist, create it from Jira issue data
+    // 2a. Issue deleted in Jira -> never recreate the product, only soft delete or flag it
+    if (webhookEvent === 'jira:issue_deleted') {
+      await this.handleIssueDeleted(product, issueKey, connectionId ?? null, audit);
+      return { received: true };
+    }
+
+    // 2b. Issue moved -> follow the new key
+    if (product && product.jiraIssueKey !== issueKey) {
+      const snapshot = this.audit.snapshot(product);
+      this.logger.log(`[WEBHOOK] Issue: ${product.jiraIssueKey} -> ${issueKey} | Product ID: ${product.id} | Re-linked after move`);
+      Object.assign(product, { jiraIssueKey: issueKey, jiraIssueId: product.jiraIssueId ?? issue.id ?? null });
+      await this.repo.save(product);
+      await this.audit.record(product, 'UPDATE', snapshot, { source: 'webhook', ...audit });
+    }
+
+    // 2c. If product doesn't exist, create it from Jira issue data
     if (!product) {
-      // Extract description text (handle both string and ADF format)
-      let descriptionText = '';
-      if (fields.description) {
-        if (typeof fields.description === 'string') {
-          descriptionText = fields.description;
-        } else if (fields.description.type === 'doc' && fields.description.content) {
-          // Extract text from ADF format
-          descriptionText = this.extractTextFromADF(fields.description);
-        }
+      if (!fields.summary) {
+        this.logger.error(`[WEBHOOK] Issue: ${issueKey} | No product and no summary to create one from`);
+        return { received: true };
       }
 
-      // Create new product from Jira issue
-      product = await this.repo.save({
-        name: fields.summary || `Jira Issue ${issueKey}`,
-        description: descriptionText,
-        jiraIssueKey: issueKey,
-        jiraIssueId: issue?.id?.toString() || null,
-        ticketStatus: fields.status?.name || null,
-        jiraSyncStatus: 'OK',
-        jiraLastSyncAt: new Date(),
-      });
+      // JIRA_INTAKE_POLICY decides whether unknown issues become products
+      if (!(await this.intake.admit(issue, connectionId ?? null))) {
+        return { received: true };
+      }
 
+      product = await this.createFromJiraIssue(issue, connectionId ?? null, { source: 'webhook', ...audit });
       this.logger.log(`[WEBHOOK] Created new product from Jira issue ${issueKey} `);
     }
 
     // 3. Mapping Updates (Minimal & Traceable)
+    const changelog = await this.applyJiraIssue(product, fields, 'webhook', false, audit);
+
+    // 3b. Attachments added or removed in Jira
+    await this.attachments.syncFromChangelog(product, payload.changelog);
+
+    // 4. Traceability Logging
+    if (changelog.length > 0) {
+      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Product ID: ${product.id} | Changes: ${changelog.join(', ')}`);
+    } else {
+      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Product ID: ${product.id} | No changes detected.`);
+    }
+
+    return { received: true };
+  }
+
+  // Approve an intake entry -> create the product from the stored issue (JIRA_INTAKE_POLICY=APPROVAL)
+  async approveIntake(intakeId: number, actor?: AuthUser) {
+    const entry = await this.intake.getPending(intakeId);
+    const { issue } = entry;
+
+    // A product may have been linked to the issue since it was queued
+    let product = await this.repo.findOne({
+      where: { jiraIssueKey: issue.key, jiraConnectionId: entry.jiraConnectionId ?? IsNull() },
+    });
+    if (!product) {
+      product = await this.createFromJiraIssue(issue, entry.jiraConnectionId, apiAuditContext(actor), actor);
+      await this.applyJiraIssue(product, issue.fields, 'api', false, apiAuditContext(actor));
+    }
+
+    await this.intake.markApproved(entry, product.id, actor);
+    return product;
+  }
+
+  // --- Helper: New product linked to an existing Jira issue ---
+  private async createFromJiraIssue(issue: JiraIssueEvent['issue'], connectionId: number | null, audit: AuditContext, actor?: AuthUser) {
+    const { fields } = issue;
+    const product = await this.repo.save({
+      name: fields.summary,
+      description: this.descriptionFromJira(fields.description),
+      jiraIssueKey: issue.key,
+      jiraIssueId: issue.id?.toString() || null,
+      jiraConnectionId: connectionId,
+      ticketStatus: fields.status?.name || null,
+      jiraSyncStatus: 'OK',
+      jiraLastSyncAt: new Date(),
+      jiraUpdatedAt: fields.updated ? new Date(fields.updated) : null,
+      ...(actor && { createdBy: actor.id, updatedBy: actor.id }),
+    });
+    await this.audit.record(product, 'CREATE', {}, audit);
+    return product;
+  }
+
+  // --- Helper: Product linked to a webhook issue, by issue id, current key or key before a move ---
+  private async findWebhookProduct(payload: JiraIssueEvent, connectionId?: number) {
+    const { id, key } = payload.issue;
+    const previousKey = payload.changelog?.items.find(
+      (item) => item.fieldId === 'issuekey' || item.field === 'Key',
+    )?.fromString;
+
+    const lookups: FindOptionsWhere<Product>[] = [
+      ...(id ? [{ jiraIssueId: id }] : []),
+      { jiraIssueKey: key },
+      ...(previousKey && previousKey !== key ? [{ jiraIssueKey: previousKey }] : []),
+    ];
+    for (const lookup of lookups) {
+      // Issue keys and ids are only unique within one Jira site
+      const product = await this.repo.findOne({
+        where: { ...lookup, jiraConnectionId: connectionId ?? IsNull() },
+        withDeleted: true, // include soft-deleted rows
+      });
+      if (product) return product;
+    }
+    return null;
+  }
+
+  // --- Helper: jira:issue_deleted -> JIRA_ISSUE_DELETED_ACTION decides between soft delete (default) and flag ---
+  private async handleIssueDeleted(
+    product: Product | null,
+    issueKey: string,
+    connectionId: number | null,
+    audit: Omit<AuditContext, 'source'>,
+  ) {
+    if (!product) {
+      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Deleted in Jira, no linked product`);
+      await this.intake.discard(issueKey, connectionId);
+      return;
+    }
+
+    const action = (process.env.JIRA_ISSUE_DELETED_ACTION || 'soft_delete').toLowerCase();
+    if (action !== 'soft_delete' && action !== 'flag') {
+      throw new Error('JIRA_ISSUE_DELETED_ACTION must be one of soft_delete, flag');
+    }
+
+    const snapshot = this.audit.snapshot(product);
+    const softDelete = action === 'soft_delete' && !product.deletedAt;
+    product.jiraSyncStatus = 'ISSUE_DELETED';
+    product.jiraLastSyncAt = new Date();
+    if (softDelete) product.deletedAt = new Date();
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.getRepository(Product).save(product);
+      await this.outbox.cancel(manager, product.id, `Jira issue ${issueKey} was deleted`);
+    });
+    await this.audit.record(product, softDelete ? 'DELETE' : 'UPDATE', snapshot, { source: 'webhook', ...audit });
+
+    this.logger.log(
+      `[WEBHOOK] Issue: ${issueKey} | Product ID: ${product.id} | Deleted in Jira, product ${softDelete ? 'soft deleted' : 'flagged'}`,
+    );
+  }
+
+  // Whether the product still has a Jira issue to sync with
+  private hasJiraIssue(product: Product): boolean {
+    return !!product.jiraIssueKey && product.jiraSyncStatus !== 'ISSUE_DELETED';
+  }
+
+  // Copy Jira issue fields onto the product (Jira is the source of truth) and return the changelog.
+  // Shared by the webhook and the reconciliation job; a dry run only reports what would change.
+  async applyJiraIssue(
+    product: Product,
+    fields: JiraIssueFields,
+    source: ConflictSource,
+    dryRun = false,
+    audit: Omit<AuditContext, 'source'> = {},
+  ): Promise<string[]> {
+    const snapshot = this.audit.snapshot(product);
     const updates: Partial<Product> = {};
     const changelog: string[] = [];
+    const conflicts: DetectedConflict[] = [];
+    const jiraUpdatedAt = fields.updated ? new Date(fields.updated) : null;
+
+    // Local edits still queued for Jira clash with any Jira edit of the same field
+    const localPending = product.id ? await this.outbox.hasPending(product.id, 'UPDATE') : false;
 
     // Sync Name/Summary
     if (fields.summary && fields.summary !== product.name) {
-      changelog.push(`Name: ${product.name} -> ${fields.summary}`);
-      updates.name = fields.summary;
+      if (localPending) {
+        conflicts.push({ field: 'name', localValue: product.name, jiraValue: fields.summary });
+      } else {
+        changelog.push(`Name: ${product.name} -> ${fields.summary}`);
+        updates.name = fields.summary;
+      }
     }
 
     // Sync Status
@@ -148,95 +478,472 @@ export class ProductsService {
       updates.ticketStatus = newStatus;
     }
 
+    // Sync Lifecycle (only for statuses present in the lifecycle map)
+    const newLifecycle = lifecycleFromJiraStatus(newStatus);
+    if (newLifecycle && newLifecycle !== product.lifecycle) {
+      changelog.push(`Lifecycle: ${product.lifecycle || 'N/A'} -> ${newLifecycle}`);
+      updates.lifecycle = newLifecycle;
+    }
+
     // Sync Description (handle both string and ADF format)
-    let descriptionText = '';
-    if (fields.description) {
-      if (typeof fields.description === 'string') {
-        descriptionText = fields.description;
-      } else if (fields.description.type === 'doc' && fields.description.content) {
-        descriptionText = this.extractTextFromADF(fields.description);
+    const descriptionText = this.descriptionFromJira(fields.description);
+
+    if (descriptionText && descriptionText !== product.description) {
+      if (localPending) {
+        conflicts.push({ field: 'description', localValue: product.description, jiraValue: descriptionText });
+      } else {
+        changelog.push(`Description updated (${descriptionText.length} chars)`);
+        updates.description = descriptionText;
       }
     }
 
-    if (descriptionText && descriptionText !== product.description) {
-      changelog.push(`Description updated (${descriptionText.length} chars)`);
-      updates.description = descriptionText;
+    // Sync mapped custom fields (JIRA_FIELD_MAPPINGS); queued local edits are pushed over them
+    if (!localPending) {
+      for (const { property, value } of jiraFieldsToProduct(fields)) {
+        const current = readProductProperty(product, property) ?? null;
+        if (JSON.stringify(current) === JSON.stringify(value)) continue;
+
+        changelog.push(`${property}: ${JSON.stringify(current)} -> ${JSON.stringify(value)}`);
+        writeProductProperty(updates, product, property, value);
+      }
+    }
+
+    if (dryRun) {
+      return [...changelog, ...conflicts.map((c) => `Conflict: ${c.field}`)];
+    }
+
+    // Resolve concurrent edits according to SYNC_CONFLICT_POLICY
+    const policy = await this.handleConflicts(product, conflicts, source, jiraUpdatedAt);
+    if (policy === 'JIRA_WINS') {
+      for (const conflict of conflicts) {
+        changelog.push(`${conflict.field} overwritten by Jira (conflict)`);
+        updates[conflict.field] = conflict.jiraValue as string;
+      }
+    } else if (policy === 'MANUAL') {
+      changelog.push(`Conflicts: ${conflicts.map((c) => c.field).join(', ')}`);
     }
 
-    // 4. Traceability Logging & Save
     if (changelog.length > 0) {
       Object.assign(product, updates);
       product.jiraLastSyncAt = new Date();
-      product.jiraSyncStatus = 'OK';
+      if (jiraUpdatedAt) product.jiraUpdatedAt = jiraUpdatedAt;
+      // Queued local edits keep the product FAILED until the outbox pushes them
+      if (policy === 'MANUAL') product.jiraSyncStatus = 'CONFLICT';
+      else if (!localPending) product.jiraSyncStatus = 'OK';
 
       await this.repo.save(product);
-
-      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Product ID: ${product.id} | Changes: ${changelog.join(', ')}`);
-    } else {
-      this.logger.log(`[WEBHOOK] Issue: ${issueKey} | Product ID: ${product.id} | No changes detected.`);
+      await this.audit.record(product, 'UPDATE', snapshot, { source, ...audit });
     }
 
-    return { received: true };
+    return changelog;
   }
 
-  // Helper: Extract text from Atlassian Document Format
-  private extractTextFromADF(adf: any): string {
-    if (!adf || !adf.content) return '';
-
-    const extractText = (node: any): string => {
-      if (node.type === 'text') {
-        return node.text || '';
-      }
-      if (node.content && Array.isArray(node.content)) {
-        return node.content.map(extractText).join('');
-      }
-      return '';
-    };
-
-    return adf.content.map(extractText).join('\n').trim();
+  // Helper: Jira description (plain string or ADF) -> Markdown product description
+  private descriptionFromJira(description: JiraRichText | undefined): string {
+    if (!description) return '';
+    if (typeof description === 'string') return description;
+    if (description.type === 'doc' && description.content) {
+      return adfToMarkdown(description);
+    }
+    return '';
   }
+
   // 5. Soft Delete -> Move Jira to "Dropped"
-  async remove(id: number) {
+  async remove(id: number, actor?: AuthUser) {
     const product = await this.repo.findOneBy({ id });
     if (!product) throw new NotFoundException(`Product ${id} not found`);
+    const snapshot = this.audit.snapshot(product);
+
+    // Soft delete by setting deletedAt directly on the entity
+    product.deletedAt = new Date();
+    if (actor) product.updatedBy = actor.id;
 
-    // Transition Jira issue to "Dropped"
-    if (product.jiraIssueKey) {
+    // Transition Jira issue to "Dropped"; the delete is saved with the queued transition first
+    if (this.hasJiraIssue(product)) {
+      const entry = await this.beginJiraSync(product, 'TRANSITION', { target: 'DROPPED' });
       try {
-        await this.jira.updateStatus(product.jiraIssueKey);
+        const jira = await this.jiraClients.forProduct(product);
+        await jira.updateStatus(product.jiraIssueKey);
         Object.assign(product, {
           jiraSyncStatus: 'OK',
           jiraLastSyncAt: new Date()
         });
+        await this.markSynced(product, entry);
       } catch (e) {
         this.logger.error(`Failed to transition Jira issue ${product.jiraIssueKey} to Dropped: ${e.message}`);
-        Object.assign(product, { jiraSyncStatus: 'FAILED' });
-        // Continue with soft delete even if Jira transition fails
+        // The product stays deleted even if Jira transition fails
+        await this.markSyncFailed(product, entry, e);
       }
+    } else {
+      await this.repo.save(product);
     }
+    await this.audit.record(product, 'DELETE', snapshot, apiAuditContext(actor));
+
+    return {
+      id,
+      deleted: true,
+      deletedAt: product.deletedAt,
+      jiraTransitioned: this.hasJiraIssue(product),
+      jiraSyncStatus: product.jiraSyncStatus,
+    };
+  }
 
+  // 6. Restore -> Move Jira back to "Reopened"
+  async restore(id: number, actor?: AuthUser) {
+    const product = await this.repo.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+    if (!product) throw new NotFoundException(`Product ${id} not found`);
+    if (!product.deletedAt) throw new ConflictException(`Product ${id} is not deleted`);
+    const snapshot = this.audit.snapshot(product);
 
+    product.deletedAt = null;
+    if (actor) product.updatedBy = actor.id;
 
-    // Soft delete by setting deletedAt directly on the entity
-    product.deletedAt = new Date();
-    await this.repo.save(product);
+    // Transition Jira issue back to "Reopened"; the restore is saved with the queued transition first
+    let transitionError: Error | null = null;
+    if (this.hasJiraIssue(product)) {
+      const entry = await this.beginJiraSync(product, 'TRANSITION', { target: 'REOPENED' });
+      try {
+        const jira = await this.jiraClients.forProduct(product);
+        await jira.reopenIssue(product.jiraIssueKey);
+        Object.assign(product, {
+          jiraSyncStatus: 'OK',
+          jiraLastSyncAt: new Date()
+        });
+        await this.markSynced(product, entry);
+      } catch (e) {
+        this.logger.error(`Failed to transition Jira issue ${product.jiraIssueKey} to Reopened: ${e.message}`);
+        // The product stays restored even if Jira transition fails
+        transitionError = e;
+        await this.markSyncFailed(product, entry, e);
+      }
+    } else {
+      await this.repo.save(product);
+    }
+    await this.audit.record(product, 'RESTORE', snapshot, apiAuditContext(actor));
 
     return {
       id,
-      deleted: true,
-      deletedAt: product.deletedAt,
-      jiraTransitioned: product.jiraIssueKey ? true : false,
+      restored: true,
+      jiraTransitioned: this.hasJiraIssue(product) && !transitionError,
       jiraSyncStatus: product.jiraSyncStatus,
     };
   }
 
-  // --- Helper: Create Jira Issue for Product ---
-  private async createJiraIssueForProduct(product: Product): Promise<void> {
+  // 7. Change Status -> Transition Jira issue to any workflow status
+  async changeStatus(id: number, dto: ChangeStatusDto, actor?: AuthUser) {
+    const product = await this.repo.findOneBy({ id });
+    if (!product) throw new NotFoundException(`Product ${id} not found`);
+    if (!this.hasJiraIssue(product)) throw new ConflictException(`Product ${id} has no Jira issue`);
+
+    const options = { comment: dto.comment, resolution: dto.resolution, fields: dto.fields };
+    const snapshot = this.audit.snapshot(product);
+
+    const entry = await this.beginJiraSync(product, 'TRANSITION', { status: dto.status, options });
+    try {
+      const jira = await this.jiraClients.forProduct(product);
+      const result = await jira.transitionTo(product.jiraIssueKey, dto.status, options);
+      Object.assign(product, {
+        ticketStatus: result.status,
+        lifecycle: lifecycleFromJiraStatus(result.status) ?? product.lifecycle,
+        jiraSyncStatus: 'OK',
+        jiraLastSyncAt: new Date(),
+        ...(actor && { updatedBy: actor.id }),
+      });
+      await this.markSynced(product, entry);
+      await this.audit.record(product, 'STATUS', snapshot, apiAuditContext(actor));
+
+      return {
+        id,
+        jiraIssueKey: product.jiraIssueKey,
+        ticketStatus: product.ticketStatus,
+        lifecycle: product.lifecycle,
+        path: result.path,
+        jiraTransitioned: true,
+        jiraSyncStatus: product.jiraSyncStatus,
+      };
+    } catch (e) {
+      this.logger.error(`Failed to transition Jira issue ${product.jiraIssueKey} to ${dto.status}: ${e.message}`);
+      await this.markSyncFailed(product, entry, e);
+
+      return {
+        id,
+        jiraIssueKey: product.jiraIssueKey,
+        ticketStatus: product.ticketStatus,
+        jiraTransitioned: false,
+        jiraSyncStatus: product.jiraSyncStatus,
+        jiraError: e.message,
+      };
+    }
+  }
+
+  // 8. Bulk Import -> validate every row, dedupe by externalRef, create Jira issues in chunks
+  async bulkCreate(input: unknown, actor?: AuthUser): Promise<BulkImportReport> {
+    const rows = this.readImportRows(input);
+    const maxRows = Number(process.env.PRODUCT_IMPORT_MAX_ROWS) || 1000;
+    if (rows.length === 0) throw new BadRequestException('No products to import');
+    if (rows.length > maxRows) {
+      throw new BadRequestException(`At most ${maxRows} products can be imported at once`);
+    }
+
+    const results: BulkImportRowResult[] = [];
+    const valid: { result: BulkImportRowResult; dto: CreateProductDto }[] = [];
+    const firstRowByRef = new Map<string, number>();
+
+    // 1. Validate each row on its own so one bad row doesn't reject the file
+    for (const [index, raw] of rows.entries()) {
+      const row = index + 1;
+      const dto = plainToInstance(CreateProductDto, raw ?? {});
+      const errors = await validate(dto, { whitelist: true });
+      const result: BulkImportRowResult = { row, status: 'INVALID', externalRef: dto.externalRef };
+      results.push(result);
+
+      if (errors.length > 0) {
+        result.errors = errors.flatMap((e) => Object.values(e.constraints ?? {}));
+        continue;
+      }
+
+      // Linking takes a Jira lookup per issue; imports always create new issues
+      if (dto.jiraIssueKey) {
+        result.errors = ['jiraIssueKey is not supported by the bulk import; link the issue with POST /products/:id/jira-link'];
+        continue;
+      }
+
+      // 2. Dedupe within the file
+      if (dto.externalRef) {
+        const firstRow = firstRowByRef.get(dto.externalRef);
+        if (firstRow) {
+          Object.assign(result, { status: 'DUPLICATE', duplicateOf: firstRow });
+          continue;
+        }
+        firstRowByRef.set(dto.externalRef, row);
+      }
+      valid.push({ result, dto });
+    }
+
+    // 3. Dedupe against existing products (soft-deleted included)
+    const refs = [...firstRowByRef.keys()];
+    const existing = refs.length
+      ? await this.repo.find({ where: { externalRef: In(refs) }, withDeleted: true })
+      : [];
+    const existingByRef = new Map(existing.map((p) => [p.externalRef, p]));
+
+    // Rows pointing at an unknown Jira connection can't be created
+    const missingSites = new Set<number>();
+    for (const id of new Set(valid.flatMap(({ dto }) => (dto.jiraConnectionId ? [dto.jiraConnectionId] : [])))) {
+      await this.jiraClients.getConnection(id).catch(() => missingSites.add(id));
+    }
+
+    const toCreate = valid.filter(({ result, dto }) => {
+      if (dto.jiraConnectionId && missingSites.has(dto.jiraConnectionId)) {
+        result.errors = [`Jira connection ${dto.jiraConnectionId} not found`];
+        return false;
+      }
+      const match = dto.externalRef ? existingByRef.get(dto.externalRef) : undefined;
+      if (match) Object.assign(result, { status: 'EXISTS', productId: match.id });
+      return !match;
+    });
+
+    // 4. Save locally and create Jira issues through the bulk API, one chunk at a time
+    const products = toCreate.map(({ dto }) => this.repo.create({
+        name: dto.name,
+        description: dto.description,
+        externalRef: dto.externalRef,
+        category: dto.category,
+        attributes: dto.attributes,
+        lifecycle: dto.lifecycle,
+        jiraConnectionId: dto.jiraConnectionId,
+        jiraSyncStatus: 'PENDING',
+        ...(actor && { createdBy: actor.id, updatedBy: actor.id }),
+      }));
+
+    // One bulk call per Jira site and chunk of 50
+    const chunkSize = 50;
+    const sites = [...new Set(products.map((product) => product.jiraConnectionId ?? null))];
+    for (const site of sites) {
+      const indexes = products.flatMap((product, i) => ((product.jiraConnectionId ?? null) === site ? [i] : []));
+
+      for (let start = 0; start < indexes.length; start += chunkSize) {
+        const chunk = indexes.slice(start, start + chunkSize);
+        const saved = await this.createJiraIssuesForProducts(chunk.map((i) => products[i]), actor);
+
+        for (const [n, i] of chunk.entries()) {
+          const product = saved[n];
+          Object.assign(toCreate[i].result, {
+            status: product.jiraIssueKey ? 'CREATED' : 'JIRA_FAILED',
+            productId: product.id,
+            jiraIssueKey: product.jiraIssueKey ?? undefined,
+            jiraSyncStatus: product.jiraSyncStatus,
+          });
+        }
+      }
+    }
+
+    const count = (status: BulkImportRowResult['status']) => results.filter((r) => r.status === status).length;
+    const report = {
+      total: rows.length,
+      created: count('CREATED'),
+      jiraFailed: count('JIRA_FAILED'),
+      invalid: count('INVALID'),
+      duplicates: count('DUPLICATE') + count('EXISTS'),
+      results,
+    };
+
+    this.logger.log(
+      `[IMPORT] ${report.total} row(s): ${report.created} created, ${report.jiraFailed} Jira failures, ` +
+      `${report.invalid} invalid, ${report.duplicates} duplicates`
+    );
+    return report;
+  }
+
+  // 9. Link -> attach the product to an existing Jira issue instead of creating one
+  async linkJiraIssue(id: number, dto: LinkJiraIssueDto, actor?: AuthUser) {
+    const product = await this.repo.findOneBy({ id });
+    if (!product) throw new NotFoundException(`Product ${id} not found`);
+    if (this.hasJiraIssue(product)) {
+      throw new ConflictException(`Product ${id} is already linked to ${product.jiraIssueKey}; unlink it first`);
+    }
+
+    const issue = await this.findIssueToLink(dto.issueKey, product.jiraConnectionId, id);
+    const snapshot = this.audit.snapshot(product);
+    Object.assign(product, { ...this.linkedIssueFields(issue), ...(actor && { updatedBy: actor.id }) });
+    await this.repo.save(product);
+    await this.audit.record(product, 'UPDATE', snapshot, apiAuditContext(actor));
+
+    this.logger.log(`Product ${id} linked to Jira issue ${product.jiraIssueKey}`);
+    return { ...this.filterProductResponse(product), ticketStatus: product.ticketStatus };
+  }
+
+  // 10. Unlink -> detach the product from its Jira issue; the issue itself is left untouched
+  async unlinkJiraIssue(id: number, actor?: AuthUser) {
+    const product = await this.repo.findOneBy({ id });
+    if (!product) throw new NotFoundException(`Product ${id} not found`);
+    if (!product.jiraIssueKey) throw new ConflictException(`Product ${id} has no Jira issue`);
+
+    // Queued Jira calls and open conflicts still refer to the linked issue
+    if (product.jiraSyncStatus === 'CONFLICT') {
+      throw new ConflictException(`Product ${id} has open sync conflicts; resolve them before unlinking`);
+    }
+    if (await this.outbox.hasPending(id)) {
+      throw new ConflictException(`Product ${id} has Jira changes waiting to be sent; unlink it once they are synced`);
+    }
+
+    const snapshot = this.audit.snapshot(product);
+    const previousKey = product.jiraIssueKey;
+    Object.assign(product, {
+      jiraIssueKey: null,
+      jiraIssueId: null,
+      ticketStatus: null,
+      jiraSyncStatus: 'UNLINKED',
+      jiraUpdatedAt: null,
+      ...(actor && { updatedBy: actor.id }),
+    });
+    await this.repo.save(product);
+    await this.audit.record(product, 'UPDATE', snapshot, apiAuditContext(actor));
+
+    this.logger.log(`Product ${id} unlinked from Jira issue ${previousKey}`);
+    return { ...this.filterProductResponse(product), unlinkedFrom: previousKey };
+  }
+
+  // --- Helper: JSON array, { products: [...] } or CSV text -> raw rows ---
+  private readImportRows(input: unknown): unknown[] {
+    if (typeof input === 'string') {
+      try {
+        // Empty CSV cells mean "not provided"
+        return parseCsv(input).map((row) =>
+          Object.fromEntries(Object.entries(row).filter(([, value]) => value.trim() !== ''))
+        );
+      } catch (e) {
+        throw new BadRequestException(`Invalid CSV: ${e.message}`);
+      }
+    }
+    if (Array.isArray(input)) return input;
+    if (this.isProductsEnvelope(input)) return input.products;
+    throw new BadRequestException('Expected a JSON array, { "products": [...] } or a text/csv body');
+  }
+
+  private isProductsEnvelope(input: unknown): input is { products: unknown[] } {
+    return typeof input === 'object' && input !== null && 'products' in input && Array.isArray(input.products);
+  }
+
+  // --- Helper: Save a chunk of new products (same Jira site) with their queued creates, then create the issues with one bulk call ---
+  private async createJiraIssuesForProducts(chunk: Product[], actor?: AuthUser): Promise<Product[]> {
+    const reporterAccountId = actor?.jiraAccountId;
+    const { products, entries } = await this.repo.manager.transaction(async (manager) => {
+      const products = await manager.getRepository(Product).save(chunk);
+      const entries: JiraOutboxEntry[] = [];
+      for (const product of products) {
+        entries.push(await this.outbox.begin(manager, {
+          productId: product.id,
+          operation: 'CREATE',
+          payload: this.reporterPayload(reporterAccountId),
+        }));
+      }
+      return { products, entries };
+    });
+
+    for (const product of products) {
+      await this.audit.record(product, 'CREATE', {}, apiAuditContext(actor));
+    }
+
+    let results: JiraBulkCreateResult[];
+    try {
+      const routes = await this.routing.resolveAll(products);
+      const jira = await this.jiraClients.forProduct(products[0]);
+      results = await jira.createIssues(products.map((product, i) => ({
+        summary: product.name,
+        description: product.description,
+        productId: product.id,
+        route: routes[i],
+        fields: productToJiraFields(product),
+        reporterAccountId,
+      })));
+    } catch (e) {
+      this.logger.error(`Failed to bulk create Jira issues for ${products.length} product(s): ${e.message}`);
+      results = products.map(() => ({ error: e.message }));
+    }
+
+    for (const [i, product] of products.entries()) {
+      const result = results[i];
+      if (result.error !== undefined) {
+        await this.markSyncFailed(product, entries[i], new Error(result.error));
+        continue;
+      }
+
+      Object.assign(product, {
+        jiraIssueKey: result.jiraKey,
+        jiraIssueId: result.jiraId,
+        jiraSyncStatus: 'OK',
+        jiraLastSyncAt: new Date(),
+      });
+      await this.markSynced(product, entries[i]);
+
+      // New issues start in the workflow's initial status (DRAFT)
+      if (product.lifecycle && product.lifecycle !== ProductLifecycle.DRAFT) {
+        await this.syncLifecycleToJira(product);
+      }
+    }
+    return products;
+  }
+
+  // --- Helper: Create Jira Issue for Product (`entry` = the create already queued with the product) ---
+  private async createJiraIssueForProduct(
+    product: Product,
+    reporterAccountId?: string | null,
+    entry?: JiraOutboxEntry | null,
+  ): Promise<void> {
+    entry ??= await this.beginJiraSync(product, 'CREATE', this.reporterPayload(reporterAccountId));
     try {
-      const jiraResult = await this.jira.createIssue({
+      const jira = await this.jiraClients.forProduct(product);
+      const jiraResult = await jira.createIssue({
         summary: product.name,
         description: product.description,
-        productId: product.id
+        productId: product.id,
+        route: await this.routing.resolve(product),
+        fields: productToJiraFields(product),
+        reporterAccountId,
       });
 
       Object.assign(product, {
@@ -246,12 +953,194 @@ export class ProductsService {
         jiraLastSyncAt: new Date(),
       });
 
-      await this.repo.save(product);
+      await this.markSynced(product, entry);
     } catch (e) {
       this.logger.error(`Failed to create Jira issue for product ${product.id}: ${e.message}`);
-      Object.assign(product, { jiraSyncStatus: 'FAILED' });
+      await this.markSyncFailed(product, entry, e);
+    }
+  }
+
+  // --- Helper: Existing Jira issue a product may link to; issues linked to another product are refused ---
+  private async findIssueToLink(issueKey: string, connectionId: number | null, productId?: number) {
+    const jira = await this.jiraClients.forConnection(connectionId);
+    let issue: Awaited<ReturnType<JiraService['getIssue']>>;
+    try {
+      issue = await jira.getIssue(issueKey);
+    } catch (e) {
+      if (e.response?.status === 404) throw new NotFoundException(`Jira issue ${issueKey} not found`);
+      throw e;
+    }
+
+    // Jira answers with the current key of a moved issue; issue keys and ids are only unique within one site
+    const site = { jiraConnectionId: connectionId ?? IsNull() };
+    const linked = await this.repo.findOne({
+      where: [{ jiraIssueKey: In([issueKey, issue.key]), ...site }, ...(issue.id ? [{ jiraIssueId: issue.id, ...site }] : [])],
+      withDeleted: true, // a soft-deleted product still owns its issue
+    });
+    if (linked && linked.id !== productId) {
+      throw new ConflictException(`Jira issue ${issue.key} is already linked to product ${linked.id}`);
+    }
+    return issue;
+  }
+
+  // --- Helper: Product fields taken from a linked issue; the product's own fields are kept ---
+  private linkedIssueFields(issue: Awaited<ReturnType<JiraService['getIssue']>>): Partial<Product> {
+    const lifecycle = lifecycleFromJiraStatus(issue.status);
+    return {
+      jiraIssueKey: issue.key,
+      jiraIssueId: issue.id,
+      ticketStatus: issue.status || null,
+      ...(lifecycle && { lifecycle }),
+      jiraSyncStatus: 'OK',
+      jiraLastSyncAt: new Date(),
+      jiraUpdatedAt: issue.updated ? new Date(issue.updated) : null,
+    };
+  }
+
+  // --- Helper: Outbox payload that keeps the reporter for a queued create ---
+  private reporterPayload(reporterAccountId?: string | null) {
+    return reporterAccountId ? { reporterAccountId } : undefined;
+  }
+
+  // --- Helper: Re-file the Jira issue according to the routing rules ---
+  private async syncRouteToJira(product: Product): Promise<void> {
+    const entry = await this.beginJiraSync(product, 'ROUTE');
+    try {
+      const route = await this.routing.resolve(product);
+      const jira = await this.jiraClients.forProduct(product);
+      const issueKey = await jira.applyRoute(product.jiraIssueKey, route);
+      if (issueKey !== product.jiraIssueKey) {
+        this.logger.log(`[ROUTING] Product ${product.id} moved from ${product.jiraIssueKey} to ${issueKey}`);
+      }
+      Object.assign(product, { jiraIssueKey: issueKey, jiraLastSyncAt: new Date() });
+      await this.markSynced(product, entry);
+    } catch (e) {
+      this.logger.error(`Failed to re-route Jira issue ${product.jiraIssueKey} for product ${product.id}: ${e.message}`);
+      await this.markSyncFailed(product, entry, e);
+    }
+  }
+
+  // --- Helper: Move Jira issue to the status mapped to the product lifecycle ---
+  private async syncLifecycleToJira(product: Product): Promise<void> {
+    // The lifecycle is already saved; an unmapped one only fails the sync
+    let status: string;
+    try {
+      status = jiraStatusForLifecycle(product.lifecycle);
+    } catch (e) {
+      this.logger.error(`Cannot transition Jira issue ${product.jiraIssueKey}: ${e.message}`);
+      product.jiraSyncStatus = 'FAILED';
       await this.repo.save(product);
+      return;
     }
+
+    const entry = await this.beginJiraSync(product, 'TRANSITION', { status });
+    try {
+      const jira = await this.jiraClients.forProduct(product);
+      const result = await jira.transitionTo(product.jiraIssueKey, status);
+      // jiraSyncStatus is left alone: a failed field update may still be queued
+      Object.assign(product, {
+        ticketStatus: result.status,
+        jiraLastSyncAt: new Date()
+      });
+      await this.markSynced(product, entry);
+    } catch (e) {
+      this.logger.error(`Failed to transition Jira issue ${product.jiraIssueKey} to ${status} for lifecycle ${product.lifecycle}: ${e.message}`);
+      await this.markSyncFailed(product, entry, e);
+    }
+  }
+
+  // --- Helper: Find API edits that would overwrite fields changed in Jira since the last sync ---
+  private async detectJiraEdits(
+    product: Product,
+    before: Pick<Product, 'name' | 'description'>,
+    dto: UpdateProductDto,
+  ): Promise<{ conflicts: DetectedConflict[]; jiraUpdatedAt: Date | null }> {
+    // Without a known Jira version there is nothing to compare against
+    if (!product.jiraUpdatedAt) return { conflicts: [], jiraUpdatedAt: null };
+
+    let issue: Awaited<ReturnType<JiraService['getIssue']>>;
+    try {
+      const jira = await this.jiraClients.forProduct(product);
+      issue = await jira.getIssue(product.jiraIssueKey);
+    } catch (e) {
+      this.logger.warn(`Could not check Jira issue ${product.jiraIssueKey} for concurrent edits: ${e.message}`);
+      return { conflicts: [], jiraUpdatedAt: null };
+    }
+    if (!issue.updated) return { conflicts: [], jiraUpdatedAt: null };
+
+    const jiraUpdatedAt = new Date(issue.updated);
+    const lastSynced = new Date(product.jiraUpdatedAt);
+    product.jiraUpdatedAt = jiraUpdatedAt;
+    if (jiraUpdatedAt <= lastSynced) return { conflicts: [], jiraUpdatedAt };
+
+    const jiraValues = {
+      name: issue.summary ?? null,
+      description: this.descriptionFromJira(issue.description),
+    };
+
+    // A conflict needs both sides to have moved away from the last known value
+    const conflicts = (['name', 'description'] as const)
+      .filter((field) =>
+        dto[field] !== undefined &&
+        jiraValues[field] !== before[field] &&
+        jiraValues[field] !== product[field]
+      )
+      .map((field) => ({ field, localValue: product[field], jiraValue: jiraValues[field] }));
+
+    return { conflicts, jiraUpdatedAt };
+  }
+
+  // --- Helper: Log conflicts and record them when resolution is manual ---
+  private async handleConflicts(
+    product: Product,
+    conflicts: DetectedConflict[],
+    source: ConflictSource,
+    jiraUpdatedAt: Date | null,
+  ): Promise<ConflictPolicy | null> {
+    if (conflicts.length === 0) return null;
+
+    const policy = this.conflicts.getPolicy();
+    for (const conflict of conflicts) {
+      this.logger.warn(
+        `[CONFLICT] Product ${product.id} field "${conflict.field}" edited locally and in Jira (${source}), policy ${policy}`
+      );
+    }
+
+    if (policy === 'MANUAL') {
+      await this.conflicts.record(product, conflicts, source, jiraUpdatedAt);
+    }
+    return policy;
+  }
+
+  // --- Helper: Save the product and queue its Jira call in one transaction, before Jira is called ---
+  // If the call below hangs or the process dies, the outbox worker reclaims the entry and replays it
+  private async beginJiraSync(
+    product: Product,
+    operation: JiraOutboxOperation,
+    payload?: Record<string, any>,
+  ): Promise<JiraOutboxEntry> {
+    return this.repo.manager.transaction(async (manager) => {
+      await manager.getRepository(Product).save(product);
+      return this.outbox.begin(manager, { productId: product.id, operation, payload });
+    });
+  }
+
+  // --- Helper: Save the result of the Jira call and close its queued entry ---
+  private async markSynced(product: Product, entry: JiraOutboxEntry): Promise<void> {
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.getRepository(Product).save(product);
+      await this.outbox.complete(manager, entry);
+    });
+  }
+
+  // --- Helper: Mark FAILED and leave the queued entry to the outbox worker ---
+  private async markSyncFailed(product: Product, entry: JiraOutboxEntry, error: Error): Promise<void> {
+    product.jiraSyncStatus = 'FAILED';
+
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.getRepository(Product).save(product);
+      await this.outbox.fail(manager, entry, error);
+    });
   }
   // ---  for Create/Update---
   private filterProductResponse(product: Product) {
@@ -260,19 +1149,52 @@ export class ProductsService {
       name: product.name,
       description: product.description,
       externalRef: product.externalRef,
+      category: product.category,
+      attributes: product.attributes,
+      lifecycle: product.lifecycle,
       jiraIssueKey: product.jiraIssueKey,
       jiraIssueId: product.jiraIssueId,
       jiraSyncStatus: product.jiraSyncStatus,
+      createdBy: product.createdBy,
+      updatedBy: product.updatedBy,
+    };
+  }
+
+  // ---  for list---
+  private filterProductListItem(product: Product) {
+    return {
+      ...this.filterProductResponse(product),
+      ticketStatus: product.ticketStatus,
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt,
+      deletedAt: product.deletedAt,
     };
   }
 
+  // --- Helper: Build a date range condition from optional bounds ---
+  private dateRange(from?: Date, to?: Date): FindOperator<Date> | undefined {
+    if (from && to) return Between(from, to);
+    if (from) return MoreThanOrEqual(from);
+    if (to) return LessThanOrEqual(to);
+    return undefined;
+  }
+
   // ---  for get---
-  private filterProductWithTicket(product: Product, ticket: any, jiraFetchStatus?: string, jiraFetchError?: string) {
+  private filterProductWithTicket(
+    product: Product,
+    ticket: any,
+    childIssues: ProductIssueRollup,
+    jiraFetchStatus?: string,
+    jiraFetchError?: string,
+  ) {
     const base = {
       id: product.id,
       name: product.name,
       description: product.description,
       externalRef: product.externalRef,
+      category: product.category,
+      attributes: product.attributes,
+      lifecycle: product.lifecycle,
       ticket: ticket ? {
         key: ticket.key,
         status: ticket.status,
@@ -280,6 +1202,7 @@ export class ProductsService {
         summary: ticket.summary,
         assignee: ticket.assignee,
       } : null,
+      childIssues,
     };
 
     if (jiraFetchStatus) {
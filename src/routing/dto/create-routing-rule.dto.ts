@@ -0,0 +1,57 @@
+import { IsArray, IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from "class-validator";
+
+export class CreateRoutingRuleDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @IsOptional()
+    @IsInt()
+    position?: number;
+
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+
+    // Jira connection the rule applies to; omitted = the default site
+    @IsOptional()
+    @IsInt()
+    jiraConnectionId?: number;
+
+    // Conditions
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    category?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    externalRefPrefix?: string;
+
+    // Target
+    @IsString()
+    @Matches(/^[A-Z][A-Z0-9_]+$/, { message: 'projectKey must be a Jira project key, e.g. PROJ' })
+    projectKey: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    issueType?: string;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    components?: string[];
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    labels?: string[];
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    priority?: string;
+}
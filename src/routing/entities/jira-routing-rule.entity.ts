@@ -0,0 +1,61 @@
+// routing/entities/jira-routing-rule.entity.ts
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+} from 'typeorm';
+
+// Where issues of matching products are filed; enabled rules are tried by position, first match wins
+@Entity('jira_routing_rules')
+export class JiraRoutingRule {
+    @PrimaryGeneratedColumn("increment")
+    id: number;
+
+    @Column({ type: 'varchar', length: 100 })
+    name: string;
+
+    // Evaluation order (lowest first)
+    @Column({ type: 'int', default: 0 })
+    position: number;
+
+    @Column({ default: true })
+    enabled: boolean;
+
+    // Only products of this Jira connection (null = the default site) are matched
+    @Column({ type: 'int', nullable: true })
+    jiraConnectionId: number | null;
+
+    // Conditions (all given ones must match; none = catch-all)
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    category: string | null;
+
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    externalRefPrefix: string | null;
+
+    // Target
+    @Column({ type: 'varchar', length: 50 })
+    projectKey: string;
+
+    // Falls back to the connection's issue type
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    issueType: string | null;
+
+    @Column({ type: 'simple-json', nullable: true })
+    components: string[] | null;
+
+    @Column({ type: 'simple-json', nullable: true })
+    labels: string[] | null;
+
+    // Jira priority name, e.g. "High"
+    @Column({ type: 'varchar', length: 50, nullable: true })
+    priority: string | null;
+
+    // Metadata
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
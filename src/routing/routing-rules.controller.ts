@@ -0,0 +1,44 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { RoutingRulesService } from './routing-rules.service';
+import { CreateRoutingRuleDto } from './dto/create-routing-rule.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('admin/routing-rules')
+@Roles('admin')
+export class RoutingRulesController {
+  constructor(private readonly rulesService: RoutingRulesService) { }
+
+  @Get()
+  listRules() {
+    return this.rulesService.findAll();
+  }
+
+  // Which rule (and Jira route) a product with these attributes would get
+  @Get('resolve')
+  resolveRoute(
+    @Query('category') category?: string,
+    @Query('externalRef') externalRef?: string,
+    @Query('jiraConnectionId', new ParseIntPipe({ optional: true })) jiraConnectionId?: number,
+  ) {
+    return this.rulesService.explain({ category, externalRef, jiraConnectionId });
+  }
+
+  @Post()
+  createRule(@Body() createRoutingRuleDto: CreateRoutingRuleDto) {
+    return this.rulesService.create(createRoutingRuleDto);
+  }
+
+  @Patch(':ruleId')
+  updateRule(
+    @Param('ruleId', ParseIntPipe) ruleId: number,
+    @Body() updateRoutingRuleDto: UpdateRoutingRuleDto,
+  ) {
+    return this.rulesService.update(ruleId, updateRoutingRuleDto);
+  }
+
+  @Delete(':ruleId')
+  deleteRule(@Param('ruleId', ParseIntPipe) ruleId: number) {
+    return this.rulesService.remove(ruleId);
+  }
+}
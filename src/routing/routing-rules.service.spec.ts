@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { RoutingRulesService } from './routing-rules.service';
+import { JiraRoutingRule } from './entities/jira-routing-rule.entity';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+
+describe('RoutingRulesService', () => {
+  let service: RoutingRulesService;
+  let ruleRepo: jest.Mocked<Repository<JiraRoutingRule>>;
+
+  const mockRuleRepo = () => ({
+    find: jest.fn(),
+    findOneBy: jest.fn(),
+    create: jest.fn((rule) => ({ ...rule })),
+    save: jest.fn((rule) => Promise.resolve({ id: 1, ...rule })),
+    delete: jest.fn(),
+  });
+
+  const mockJira = () => ({
+    getDefaultRoute: jest.fn(() => ({ projectKey: 'PROJ', issueType: 'Task' })),
+  });
+
+  const rule = (overrides: Partial<JiraRoutingRule> = {}) =>
+    ({
+      id: 1,
+      name: 'Rule',
+      position: 0,
+      enabled: true,
+      category: null,
+      externalRefPrefix: null,
+      projectKey: 'HW',
+      issueType: null,
+      components: null,
+      labels: null,
+      priority: null,
+      ...overrides,
+    }) as JiraRoutingRule;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoutingRulesService,
+        { provide: getRepositoryToken(JiraRoutingRule), useFactory: mockRuleRepo },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+      ],
+    }).compile();
+
+    service = module.get(RoutingRulesService);
+    ruleRepo = module.get(getRepositoryToken(JiraRoutingRule));
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => { });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('resolve', () => {
+    it('should use the first matching rule in position order', async () => {
+      ruleRepo.find.mockResolvedValue([
+        rule({ id: 1, category: 'Hardware', projectKey: 'HW', issueType: 'Story', components: ['Boards'], priority: 'High' }),
+        rule({ id: 2, projectKey: 'ALL' }),
+      ]);
+
+      const route = await service.resolve({ category: 'hardware' });
+
+      expect(ruleRepo.find).toHaveBeenCalledWith({
+        where: { enabled: true },
+        order: { position: 'ASC', id: 'ASC' },
+      });
+      expect(route).toEqual({
+        projectKey: 'HW',
+        issueType: 'Story',
+        components: ['Boards'],
+        labels: [],
+        priority: 'High',
+      });
+    });
+
+    it('should require every condition of a rule to match', async () => {
+      ruleRepo.find.mockResolvedValue([
+        rule({ id: 1, category: 'hardware', externalRefPrefix: 'HW-', projectKey: 'HW' }),
+        rule({ id: 2, externalRefPrefix: 'SW-', projectKey: 'SW' }),
+      ]);
+
+      const [both, prefixOnly, categoryOnly] = await service.resolveAll([
+        { category: 'hardware', externalRef: 'HW-100' },
+        { category: 'hardware', externalRef: 'SW-100' },
+        { category: 'hardware', externalRef: 'X-1' },
+      ]);
+
+      expect(both.projectKey).toBe('HW');
+      expect(prefixOnly.projectKey).toBe('SW');
+      expect(categoryOnly.projectKey).toBe('PROJ');
+      expect(ruleRepo.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the configured project and issue type', async () => {
+      ruleRepo.find.mockResolvedValue([rule({ category: 'hardware' })]);
+
+      expect(await service.resolve({ category: null })).toEqual({ projectKey: 'PROJ', issueType: 'Task' });
+    });
+
+    it('should explain which rule matched', async () => {
+      ruleRepo.find.mockResolvedValue([rule({ id: 4, name: 'Hardware', category: 'hardware' })]);
+
+      const result = await service.explain({ category: 'hardware' });
+
+      expect(result).toEqual(expect.objectContaining({ ruleId: 4, ruleName: 'Hardware' }));
+      expect(result.route.projectKey).toBe('HW');
+    });
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('admin', () => {
+    it('should update an existing rule', async () => {
+      ruleRepo.findOneBy.mockResolvedValue(rule());
+
+      const result = await service.update(1, { enabled: false });
+
+      expect(ruleRepo.save).toHaveBeenCalledWith(expect.objectContaining({ id: 1, enabled: false }));
+      expect(result.enabled).toBe(false);
+    });
+
+    it('should throw NotFoundException for an unknown rule', async () => {
+      ruleRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.remove(9)).rejects.toThrow(NotFoundException);
+      expect(ruleRepo.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JiraRoutingRule } from './entities/jira-routing-rule.entity';
+import { CreateRoutingRuleDto } from './dto/create-routing-rule.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+import { JiraIssueRoute } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { sameName } from '../jira/jira.config';
+
+// Product attributes the rules can match on
+export interface RoutableProduct {
+  category?: string | null;
+  externalRef?: string | null;
+  jiraConnectionId?: number | null;
+}
+
+@Injectable()
+export class RoutingRulesService {
+  private readonly logger = new Logger(RoutingRulesService.name);
+
+  constructor(
+    @InjectRepository(JiraRoutingRule)
+    private ruleRepo: Repository<JiraRoutingRule>,
+    private jiraClients: JiraClientFactory,
+  ) {}
+
+  // 1. Admin CRUD
+  async findAll() {
+    return this.ruleRepo.find({ order: { position: 'ASC', id: 'ASC' } });
+  }
+
+  async create(dto: CreateRoutingRuleDto) {
+    const rule = await this.ruleRepo.save(this.ruleRepo.create(dto));
+    this.logger.log(`[ROUTING] Rule ${rule.id} "${rule.name}" created`);
+    return rule;
+  }
+
+  async update(id: number, dto: UpdateRoutingRuleDto) {
+    const rule = await this.getRule(id);
+    Object.assign(rule, dto);
+    await this.ruleRepo.save(rule);
+    this.logger.log(`[ROUTING] Rule ${rule.id} "${rule.name}" updated`);
+    return rule;
+  }
+
+  async remove(id: number) {
+    const rule = await this.getRule(id);
+    await this.ruleRepo.delete(rule.id);
+    this.logger.log(`[ROUTING] Rule ${rule.id} "${rule.name}" deleted`);
+    return { deleted: true, id: rule.id };
+  }
+
+  // 2. Route for one product (default project when no rule matches)
+  async resolve(product: RoutableProduct): Promise<JiraIssueRoute> {
+    const [route] = await this.resolveAll([product]);
+    return route;
+  }
+
+  // Loads the rules once for a batch of products
+  async resolveAll(products: RoutableProduct[]): Promise<JiraIssueRoute[]> {
+    const rules = await this.getEnabledRules();
+    const routes: JiraIssueRoute[] = [];
+    for (const product of products) {
+      routes.push(await this.toRoute(this.pick(rules, product), product));
+    }
+    return routes;
+  }
+
+  // 3. Preview -> which rule a product would hit
+  async explain(product: RoutableProduct) {
+    const rule = this.pick(await this.getEnabledRules(), product);
+    return {
+      ruleId: rule?.id ?? null,
+      ruleName: rule?.name ?? null,
+      route: await this.toRoute(rule, product),
+    };
+  }
+
+  // --- Helper: First enabled rule of the product's Jira connection whose conditions all match ---
+  private pick(rules: JiraRoutingRule[], product: RoutableProduct) {
+    return (
+      rules.find(
+        (rule) =>
+          (rule.jiraConnectionId ?? null) ===
+            (product.jiraConnectionId ?? null) &&
+          (!rule.category || sameName(rule.category, product.category)) &&
+          (!rule.externalRefPrefix ||
+            !!product.externalRef?.startsWith(rule.externalRefPrefix)),
+      ) ?? null
+    );
+  }
+
+  // --- Helper: Rule target, completed with the connection's default project ---
+  private async toRoute(
+    rule: JiraRoutingRule | null,
+    product: RoutableProduct,
+  ): Promise<JiraIssueRoute> {
+    const jira = await this.jiraClients.forProduct(product);
+    const fallback = jira.getDefaultRoute();
+    if (!rule) return fallback;
+
+    return {
+      projectKey: rule.projectKey,
+      issueType: rule.issueType || fallback.issueType,
+      components: rule.components ?? [],
+      labels: rule.labels ?? [],
+      priority: rule.priority,
+    };
+  }
+
+  private async getEnabledRules() {
+    return this.ruleRepo.find({
+      where: { enabled: true },
+      order: { position: 'ASC', id: 'ASC' },
+    });
+  }
+
+  private async getRule(id: number) {
+    const rule = await this.ruleRepo.findOneBy({ id });
+    if (!rule) throw new NotFoundException(`Routing rule ${id} not found`);
+    return rule;
+  }
+}
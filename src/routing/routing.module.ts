@@ -0,0 +1,17 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JiraRoutingRule } from './entities/jira-routing-rule.entity';
+import { JiraModule } from '../jira/jira.module';
+import { RoutingRulesService } from './routing-rules.service';
+import { RoutingRulesController } from './routing-rules.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([JiraRoutingRule]),
+    forwardRef(() => JiraModule),
+  ],
+  controllers: [RoutingRulesController],
+  providers: [RoutingRulesService],
+  exports: [RoutingRulesService],
+})
+export class RoutingModule { }
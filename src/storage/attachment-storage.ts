@@ -0,0 +1,10 @@
+// Where attachment contents live; records in the database only keep the key
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  // Missing keys are ignored
+  delete(key: string): Promise<void>;
+}
+
+// Injection token; bind a different implementation in StorageModule to switch backends
+export const ATTACHMENT_STORAGE = Symbol('ATTACHMENT_STORAGE');
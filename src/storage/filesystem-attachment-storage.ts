@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { AttachmentStorage } from './attachment-storage';
+
+// Default backend: files under ATTACHMENT_STORAGE_DIR (./uploads)
+@Injectable()
+export class FilesystemAttachmentStorage implements AttachmentStorage {
+  private readonly root = resolve(
+    process.env.ATTACHMENT_STORAGE_DIR || 'uploads',
+  );
+
+  async save(key: string, data: Buffer) {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async read(key: string) {
+    return readFile(this.pathFor(key));
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // --- Helper: Keep keys inside the storage root ---
+  private pathFor(key: string) {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ATTACHMENT_STORAGE } from './attachment-storage';
+import { FilesystemAttachmentStorage } from './filesystem-attachment-storage';
+
+@Module({
+  providers: [
+    { provide: ATTACHMENT_STORAGE, useClass: FilesystemAttachmentStorage },
+  ],
+  exports: [ATTACHMENT_STORAGE],
+})
+export class StorageModule { }
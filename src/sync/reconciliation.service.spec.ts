@@ -0,0 +1,326 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ConflictException } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { Product } from '../products/entities/product.entity';
+import { ProductsService } from '../products/products.service';
+import { JiraOutboxService } from '../products/jira-outbox.service';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { ProductAuditService } from '../products/product-audit.service';
+import { ProductIssuesService } from '../products/product-issues.service';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let repo: jest.Mocked<Repository<Product>>;
+  let products: jest.Mocked<ProductsService>;
+  let outbox: jest.Mocked<JiraOutboxService>;
+  let jira: jest.Mocked<JiraService>;
+  let audit: jest.Mocked<ProductAuditService>;
+  let issues: jest.Mocked<ProductIssuesService>;
+
+  const mockRepo = () => ({
+    find: jest.fn(),
+    save: jest.fn(),
+    softDelete: jest.fn(),
+  });
+
+  const mockProducts = () => ({
+    applyJiraIssue: jest.fn().mockResolvedValue([]),
+  });
+
+  const mockOutbox = () => ({
+    hasPending: jest.fn().mockResolvedValue(false),
+  });
+
+  const mockJira = () => ({
+    searchIssues: jest.fn(),
+    updateStatus: jest.fn(),
+    getSite: jest.fn(() => ({
+      droppedStatusName: process.env.JIRA_DROPPED_STATUS_NAME,
+    })),
+  });
+
+  const mockAudit = () => ({
+    snapshot: jest.fn(() => ({ deletedAt: null })),
+    record: jest.fn(),
+  });
+
+  const product = (overrides: Partial<Product> = {}) =>
+    ({
+      id: 1,
+      name: 'A',
+      jiraIssueKey: 'PROJ-1',
+      deletedAt: null,
+      ...overrides,
+    }) as Product;
+
+  const issue = (key: string, status = 'In Progress', id = '1') => ({
+    id,
+    key,
+    fields: { summary: 'A', status: { name: status } },
+  });
+
+  beforeEach(async () => {
+    delete process.env.JIRA_DROPPED_STATUS_NAME;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: getRepositoryToken(Product), useFactory: mockRepo },
+        { provide: ProductsService, useFactory: mockProducts },
+        { provide: JiraOutboxService, useFactory: mockOutbox },
+        { provide: JiraService, useFactory: mockJira },
+        {
+          provide: JiraClientFactory,
+          useFactory: (jira: JiraService) => ({
+            forProduct: jest.fn(async () => jira),
+            forConnection: jest.fn(async () => jira),
+            getConnection: jest.fn(),
+          }),
+          inject: [JiraService],
+        },
+        { provide: ProductAuditService, useFactory: mockAudit },
+        {
+          provide: ProductIssuesService,
+          useFactory: () => ({
+            refreshChildren: jest.fn().mockResolvedValue([]),
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get(ReconciliationService);
+    repo = module.get(getRepositoryToken(Product));
+    products = module.get(ProductsService);
+    outbox = module.get(JiraOutboxService);
+    jira = module.get(JiraService);
+    audit = module.get(ProductAuditService);
+    issues = module.get(ProductIssuesService);
+
+    jest.spyOn(service['logger'], 'log').mockImplementation(() => {});
+  });
+
+  ///////////////////////////////////////////////////////////////
+
+  describe('reconcile', () => {
+    it('should page through linked products and repair drift', async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1')]);
+      products.applyJiraIssue.mockResolvedValue(['Name: A -> B']);
+
+      const report = await service.reconcile();
+
+      expect(jira.searchIssues).toHaveBeenCalledWith('key in (PROJ-1)', [
+        'summary',
+        'description',
+        'status',
+        'updated',
+      ]);
+      expect(products.applyJiraIssue).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        issue('PROJ-1').fields,
+        'reconcile',
+        false,
+      );
+      expect(report).toEqual(
+        expect.objectContaining({
+          dryRun: false,
+          checked: 1,
+          drifted: 1,
+          repaired: 1,
+          changes: [
+            { productId: 1, issueKey: 'PROJ-1', changes: ['Name: A -> B'] },
+          ],
+        }),
+      );
+    });
+
+    it("should refresh the children under the product's epic", async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1')]);
+      issues.refreshChildren.mockResolvedValue(['Child issue PROJ-7 added']);
+
+      const report = await service.reconcile();
+
+      expect(issues.refreshChildren).toHaveBeenCalledWith(
+        jira,
+        expect.objectContaining({ id: 1 }),
+        false,
+      );
+      expect(report.changes).toEqual([
+        {
+          productId: 1,
+          issueKey: 'PROJ-1',
+          changes: ['Child issue PROJ-7 added'],
+        },
+      ]);
+    });
+
+    it('should report a failed child refresh for its product', async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1')]);
+      issues.refreshChildren.mockRejectedValue(
+        new Error('Issue does not exist'),
+      );
+
+      const report = await service.reconcile();
+
+      expect(report.errors).toEqual([
+        { issueKey: 'PROJ-1', error: 'Issue does not exist' },
+      ]);
+    });
+
+    it('should only report drift on a dry run', async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1', 'Dropped')]);
+
+      const report = await service.reconcile(true);
+
+      expect(products.applyJiraIssue).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'reconcile',
+        true,
+      );
+      expect(repo.softDelete).not.toHaveBeenCalled();
+      expect(report.drifted).toBe(1);
+      expect(report.repaired).toBe(0);
+      expect(report.changes[0].changes).toEqual([
+        'Soft deleted (dropped in Jira)',
+      ]);
+    });
+
+    it('should soft delete products dropped in Jira', async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1', 'Dropped')]);
+
+      await service.reconcile();
+
+      expect(repo.softDelete).toHaveBeenCalledWith(1);
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, deletedAt: expect.any(Date) }),
+        'DELETE',
+        { deletedAt: null },
+        { source: 'reconcile' },
+      );
+    });
+
+    it('should not soft delete a restored product while its transition out of Dropped is pending', async () => {
+      repo.find.mockResolvedValueOnce([product()]).mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1', 'Dropped')]);
+      outbox.hasPending.mockResolvedValue(true);
+
+      const report = await service.reconcile();
+
+      expect(outbox.hasPending).toHaveBeenCalledWith(1, 'TRANSITION');
+      expect(repo.softDelete).not.toHaveBeenCalled();
+      expect(report.drifted).toBe(0);
+    });
+
+    it('should match a moved issue by its id and follow the new key', async () => {
+      repo.find
+        .mockResolvedValueOnce([product({ jiraIssueId: '10001' })])
+        .mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([
+        issue('NEW-1', 'In Progress', '10001'),
+      ]);
+
+      const report = await service.reconcile();
+
+      expect(report.missing).toEqual([]);
+      expect(repo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, jiraIssueKey: 'NEW-1' }),
+      );
+      expect(audit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ jiraIssueKey: 'NEW-1' }),
+        'UPDATE',
+        expect.anything(),
+        { source: 'reconcile' },
+      );
+      expect(report.changes).toEqual([
+        {
+          productId: 1,
+          issueKey: 'NEW-1',
+          changes: ['Issue key: PROJ-1 -> NEW-1'],
+        },
+      ]);
+    });
+
+    it('should drop the Jira issue of a deleted product unless the outbox is retrying it', async () => {
+      repo.find
+        .mockResolvedValueOnce([
+          product({ id: 1, jiraIssueKey: 'PROJ-1', deletedAt: new Date() }),
+          product({ id: 2, jiraIssueKey: 'PROJ-2', deletedAt: new Date() }),
+        ])
+        .mockResolvedValueOnce([]);
+      jira.searchIssues.mockResolvedValue([issue('PROJ-1'), issue('PROJ-2')]);
+      outbox.hasPending.mockImplementation(
+        async (productId) => productId === 2,
+      );
+
+      await service.reconcile();
+
+      expect(jira.updateStatus).toHaveBeenCalledTimes(1);
+      expect(jira.updateStatus).toHaveBeenCalledWith('PROJ-1');
+    });
+
+    it('should fall back to single lookups and report issues missing in Jira', async () => {
+      repo.find
+        .mockResolvedValueOnce([
+          product({ id: 1, jiraIssueKey: 'PROJ-1' }),
+          product({ id: 2, jiraIssueKey: 'PROJ-2' }),
+        ])
+        .mockResolvedValueOnce([]);
+      process.env.JIRA_FIELD_MAPPINGS = JSON.stringify([
+        { property: 'category', field: 'customfield_10042' },
+      ]);
+      jira.searchIssues
+        .mockRejectedValueOnce({
+          message: 'Bad JQL',
+          response: { status: 400 },
+        })
+        .mockResolvedValueOnce([issue('PROJ-1')])
+        .mockRejectedValueOnce({
+          message: 'Unknown key',
+          response: { status: 400 },
+        });
+
+      const report = await service.reconcile();
+      delete process.env.JIRA_FIELD_MAPPINGS;
+
+      expect(jira.searchIssues).toHaveBeenNthCalledWith(
+        2,
+        'key = PROJ-1',
+        expect.arrayContaining(['status', 'customfield_10042']),
+      );
+      expect(report.checked).toBe(2);
+      expect(report.missing).toEqual(['PROJ-2']);
+      expect(report.errors).toEqual([]);
+    });
+
+    it('should record a failed search and continue with the next page', async () => {
+      repo.find
+        .mockResolvedValueOnce([product({ id: 1 })])
+        .mockResolvedValueOnce([product({ id: 2, jiraIssueKey: 'PROJ-2' })])
+        .mockResolvedValueOnce([]);
+      jira.searchIssues
+        .mockRejectedValueOnce(new Error('Jira down'))
+        .mockResolvedValueOnce([issue('PROJ-2')]);
+
+      const report = await service.reconcile();
+
+      expect(report.errors).toEqual([
+        { error: 'Jira search failed: Jira down' },
+      ]);
+      expect(report.checked).toBe(1);
+    });
+
+    it('should reject a manual run while another is in progress', async () => {
+      service['running'] = true;
+
+      await expect(service.reconcile()).rejects.toThrow(ConflictException);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Product } from '../products/entities/product.entity';
+import { ProductsService } from '../products/products.service';
+import { JiraOutboxService } from '../products/jira-outbox.service';
+import { JiraService } from '../jira/jira.service';
+import { JiraClientFactory } from '../jira/jira-client.factory';
+import { JiraIssue, JiraIssueFields } from '../jira/jira-api.types';
+import { sameName } from '../jira/jira.config';
+import { getMappedJiraFieldIds } from '../products/product-field-mapping';
+import { ProductAuditService } from '../products/product-audit.service';
+import { ProductIssuesService } from '../products/product-issues.service';
+
+const RECONCILE_CRON =
+  process.env.SYNC_RECONCILE_CRON || CronExpression.EVERY_HOUR;
+const RECONCILE_FIELDS = ['summary', 'description', 'status', 'updated'];
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  drifted: number;
+  repaired: number;
+  // Issue keys Jira no longer returns (deleted, moved or no permission)
+  missing: string[];
+  changes: { productId: number; issueKey: string; changes: string[] }[];
+  errors: { issueKey?: string; error: string }[];
+}
+
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private running = false;
+
+  constructor(
+    @InjectRepository(Product) private repo: Repository<Product>,
+    private products: ProductsService,
+    private outbox: JiraOutboxService,
+    private jiraClients: JiraClientFactory,
+    private audit: ProductAuditService,
+    private issues: ProductIssuesService,
+  ) {}
+
+  // Scheduled run; SYNC_RECONCILE_CRON=off disables it
+  @Cron(RECONCILE_CRON, {
+    name: 'jira-reconcile',
+    disabled: process.env.SYNC_RECONCILE_CRON === 'off',
+  })
+  async scheduledReconcile() {
+    if (this.running) return;
+    await this.reconcile();
+  }
+
+  // 1. Reconcile -> page through linked products and repair drift from Jira
+  async reconcile(dryRun = false): Promise<ReconcileReport> {
+    if (this.running) {
+      throw new ConflictException(
+        'A reconciliation run is already in progress',
+      );
+    }
+    this.running = true;
+
+    const report: ReconcileReport = {
+      dryRun,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      checked: 0,
+      drifted: 0,
+      repaired: 0,
+      missing: [],
+      changes: [],
+      errors: [],
+    };
+
+    try {
+      const batchSize = Number(process.env.SYNC_RECONCILE_BATCH_SIZE) || 50;
+      let lastId = 0;
+
+      // Keyset pagination so products created during the run don't shift pages
+      for (;;) {
+        const batch = await this.repo.find({
+          where: { id: MoreThan(lastId), jiraIssueKey: Not(IsNull()) },
+          order: { id: 'ASC' },
+          take: batchSize,
+          withDeleted: true,
+        });
+        if (batch.length === 0) break;
+        lastId = batch[batch.length - 1].id;
+
+        // Issues deleted in Jira have nothing left to compare with
+        const linked = batch.filter(
+          (p) => p.jiraSyncStatus !== 'ISSUE_DELETED',
+        );
+        await this.reconcileBatch(linked, dryRun, report);
+      }
+    } finally {
+      this.running = false;
+      report.finishedAt = new Date();
+    }
+
+    this.logger.log(
+      `[RECONCILE] ${dryRun ? 'Dry run' : 'Run'} checked ${report.checked} product(s): ` +
+        `${report.drifted} drifted, ${report.repaired} repaired, ` +
+        `${report.missing.length} missing in Jira, ${report.errors.length} error(s)`,
+    );
+    return report;
+  }
+
+  // Issue keys are only unique per site, so each Jira connection is searched on its own
+  private async reconcileBatch(
+    batch: Product[],
+    dryRun: boolean,
+    report: ReconcileReport,
+  ) {
+    const bySite = new Map<number | null, Product[]>();
+    for (const product of batch) {
+      const site = product.jiraConnectionId ?? null;
+      bySite.set(site, [...(bySite.get(site) ?? []), product]);
+    }
+
+    for (const [connectionId, products] of bySite) {
+      await this.reconcileSite(connectionId, products, dryRun, report);
+    }
+  }
+
+  private async reconcileSite(
+    connectionId: number | null,
+    batch: Product[],
+    dryRun: boolean,
+    report: ReconcileReport,
+  ) {
+    let issues: JiraIssue[];
+    let jira: JiraService;
+    try {
+      jira = await this.jiraClients.forConnection(connectionId);
+      issues = await this.fetchIssues(jira, batch);
+    } catch (e) {
+      report.errors.push({ error: `Jira search failed: ${e.message}` });
+      return;
+    }
+
+    // Jira answers an old key with the moved issue under its new key, so the id is matched first
+    const byId = new Map(issues.map((issue) => [issue.id, issue]));
+    const byKey = new Map(issues.map((issue) => [issue.key, issue]));
+
+    for (const product of batch) {
+      report.checked++;
+      const issue =
+        (product.jiraIssueId && byId.get(product.jiraIssueId)) ||
+        byKey.get(product.jiraIssueKey);
+      if (!issue) {
+        report.missing.push(product.jiraIssueKey);
+        continue;
+      }
+
+      try {
+        const changes = [
+          ...(await this.reconcileKey(product, issue, dryRun)),
+          ...(await this.products.applyJiraIssue(
+            product,
+            issue.fields,
+            'reconcile',
+            dryRun,
+          )),
+          ...(await this.reconcileDeletion(
+            jira,
+            product,
+            issue.fields,
+            dryRun,
+          )),
+          ...(await this.issues.refreshChildren(jira, product, dryRun)),
+        ];
+        if (changes.length === 0) continue;
+
+        report.drifted++;
+        if (!dryRun) report.repaired++;
+        report.changes.push({
+          productId: product.id,
+          issueKey: product.jiraIssueKey,
+          changes,
+        });
+        this.logger.log(
+          `[RECONCILE] Issue: ${product.jiraIssueKey} | Product ID: ${product.id} | ${dryRun ? 'Drift' : 'Repaired'}: ${changes.join(', ')}`,
+        );
+      } catch (e) {
+        report.errors.push({
+          issueKey: product.jiraIssueKey,
+          error: e.message,
+        });
+      }
+    }
+  }
+
+  // --- Helper: One JQL search per batch, issue by issue if a key no longer exists ---
+  private async fetchIssues(
+    jira: JiraService,
+    batch: Product[],
+  ): Promise<JiraIssue[]> {
+    const keys = batch.map((p) => p.jiraIssueKey);
+    // Same fields either way, so mapped custom fields are reconciled in the fallback too
+    const fields = [...RECONCILE_FIELDS, ...getMappedJiraFieldIds()];
+    try {
+      return await jira.searchIssues(`key in (${keys.join(', ')})`, fields);
+    } catch (e) {
+      // Jira rejects the whole query when any key is unknown
+      if (e.response?.status !== 400) throw e;
+    }
+
+    // One search per key; only the unknown ones are rejected
+    const issues: JiraIssue[] = [];
+    for (const key of keys) {
+      try {
+        issues.push(...(await jira.searchIssues(`key = ${key}`, fields)));
+      } catch (e) {
+        if (e.response?.status !== 400) throw e;
+      }
+    }
+    return issues;
+  }
+
+  // --- Helper: Follow an issue that was moved to a new key ---
+  private async reconcileKey(
+    product: Product,
+    issue: JiraIssue,
+    dryRun: boolean,
+  ): Promise<string[]> {
+    if (issue.key === product.jiraIssueKey) return [];
+
+    const change = `Issue key: ${product.jiraIssueKey} -> ${issue.key}`;
+    if (!dryRun) {
+      const snapshot = this.audit.snapshot(product);
+      product.jiraIssueKey = issue.key;
+      product.jiraIssueId = product.jiraIssueId ?? issue.id;
+      await this.repo.save(product);
+      await this.audit.record(product, 'UPDATE', snapshot, {
+        source: 'reconcile',
+      });
+    }
+    return [change];
+  }
+
+  // --- Helper: Align soft deletion with the Jira "Dropped" status ---
+  private async reconcileDeletion(
+    jira: JiraService,
+    product: Product,
+    fields: JiraIssueFields,
+    dryRun: boolean,
+  ): Promise<string[]> {
+    const droppedStatus = jira.getSite().droppedStatusName || 'Dropped';
+    const droppedInJira = sameName(fields.status?.name, droppedStatus);
+
+    // Dropped in Jira but still active locally -> soft delete,
+    // unless a restore is still waiting to move the issue out of Dropped
+    if (droppedInJira && !product.deletedAt) {
+      if (await this.outbox.hasPending(product.id, 'TRANSITION')) return [];
+      if (!dryRun) {
+        const snapshot = this.audit.snapshot(product);
+        await this.repo.softDelete(product.id);
+        product.deletedAt = new Date();
+        await this.audit.record(product, 'DELETE', snapshot, {
+          source: 'reconcile',
+        });
+      }
+      return ['Soft deleted (dropped in Jira)'];
+    }
+
+    // Deleted locally but the Jira transition never happened -> drop the issue,
+    // unless the outbox is already retrying it
+    if (!droppedInJira && product.deletedAt) {
+      if (await this.outbox.hasPending(product.id, 'TRANSITION')) return [];
+      if (!dryRun) await jira.updateStatus(product.jiraIssueKey);
+      return [`Jira issue moved to ${droppedStatus}`];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,16 @@
+import { Controller, Post, Query, ParseBoolPipe } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { Roles } from '../auth/auth.decorators';
+
+@Controller('sync')
+@Roles('admin')
+export class SyncController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Post('reconcile')
+  reconcile(
+    @Query('dryRun', new ParseBoolPipe({ optional: true })) dryRun?: boolean,
+  ) {
+    return this.reconciliationService.reconcile(dryRun ?? false);
+  }
+}
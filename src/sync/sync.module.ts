@@ -0,0 +1,18 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Product } from '../products/entities/product.entity';
+import { ProductsModule } from '../products/products.module';
+import { JiraModule } from '../jira/jira.module';
+import { ReconciliationService } from './reconciliation.service';
+import { SyncController } from './sync.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Product]),
+    forwardRef(() => ProductsModule),
+    forwardRef(() => JiraModule),
+  ],
+  controllers: [SyncController],
+  providers: [ReconciliationService],
+})
+export class SyncModule {}